@@ -29,6 +29,9 @@ import DashboardPage from "@/pages/dashboard";
 import LibraryPage from "@/pages/library";
 import EarningsPage from "@/pages/earnings";
 import SubscriptionsPage from "@/pages/subscriptions";
+import TeamPage from "@/pages/team-page";
+import LeaguePage from "@/pages/league-page";
+import AthletePage from "@/pages/athlete-page";
 
 // Create a query client
 const queryClient = new QueryClient();
@@ -521,6 +524,25 @@ function App() {
               </ProtectedRoute>
             </Route>
             
+            {/* League and team directory */}
+            <Route path="/leagues/:id">
+              <ProtectedRoute>
+                <LeaguePage />
+              </ProtectedRoute>
+            </Route>
+            
+            <Route path="/teams/:id">
+              <ProtectedRoute>
+                <TeamPage />
+              </ProtectedRoute>
+            </Route>
+            
+            <Route path="/athletes/:id">
+              <ProtectedRoute>
+                <AthletePage />
+              </ProtectedRoute>
+            </Route>
+            
             {/* 404 Not Found */}
             <Route>
               <div className="p-8 bg-black text-white min-h-screen">
@@ -0,0 +1,65 @@
+import { Link } from 'wouter';
+import { User } from 'lucide-react';
+import { TrackListItem } from '@/components/track-list-item';
+import type { PlayableTrack } from '@/context/player-context';
+
+// A verified athlete on a team or league page, as the directory API returns them
+export interface DirectoryAthlete {
+  id: number;
+  username: string;
+  fullName: string;
+  profileImage: string | null;
+  bio: string | null;
+  league: string | null;
+  team: string | null;
+  tracks: (PlayableTrack & { plays?: number | null; subscriberOnly?: boolean })[];
+}
+
+export function DirectoryAthletes({ athletes }: { athletes: DirectoryAthlete[] }) {
+  if (athletes.length === 0) {
+    return <p className="text-zinc-400">No verified athletes yet.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {athletes.map(athlete => (
+        <section key={athlete.id}>
+          <div className="flex items-center mb-3">
+            <div className="h-12 w-12 rounded-full bg-zinc-800 mr-3 overflow-hidden flex items-center justify-center">
+              {athlete.profileImage ? (
+                <img src={athlete.profileImage} alt={athlete.fullName} className="h-full w-full object-cover" />
+              ) : (
+                <User className="h-6 w-6 text-zinc-400" />
+              )}
+            </div>
+            <div>
+              <h3 className="font-bold">
+                <Link href={`/athletes/${athlete.id}`} className="hover:underline">{athlete.fullName}</Link>
+              </h3>
+              <p className="text-sm text-zinc-400">@{athlete.username}{athlete.team ? ` • ${athlete.team}` : ''}</p>
+            </div>
+          </div>
+          
+          {athlete.tracks.length > 0 ? (
+            <div className="space-y-2">
+              {athlete.tracks.map(track => (
+                <TrackListItem
+                  key={track.id}
+                  track={{ ...track, artistName: athlete.fullName, coverArt: track.coverArt ?? undefined }}
+                  plays={track.plays ?? 0}
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-zinc-500">No published tracks yet.</p>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
+
+// Link to a team or league page
+export function DirectoryLink({ href, children }: { href: string; children: React.ReactNode }) {
+  return <Link href={href} className="text-primary hover:underline">{children}</Link>;
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import type { FanSubscription, FanSubscriptionTier } from '@/pages/athlete-page';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Plus, User } from 'lucide-react';
+
+type Subscriber = FanSubscription & {
+  tier?: { id: number; name: string; amount: number; currency: string };
+  fan?: { id: number; username: string; fullName: string; profileImage: string | null };
+};
+
+// The tiers an athlete offers their fans and who subscribes to them, for the profile's monetize tab
+export function FanSubscriptionManager({ athleteId }: { athleteId: number }) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [price, setPrice] = useState('');
+  const [description, setDescription] = useState('');
+  const [prices, setPrices] = useState<Record<number, string>>({});
+
+  const { data: tiers = [] } = useQuery<FanSubscriptionTier[]>({ queryKey: ['/api/fan-tiers'] });
+  const { data: subscribers = [] } = useQuery<Subscriber[]>({ queryKey: ['/api/fan-tiers/subscribers'] });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const refreshTiers = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/fan-tiers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/athletes', String(athleteId)] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/fan-tiers', {
+        name,
+        description: description || undefined,
+        amount: Math.round(parseFloat(price) * 100)
+      });
+      return res.json() as Promise<FanSubscriptionTier>;
+    },
+    onSuccess: () => {
+      toast({ title: 'Tier created', description: 'Fans can subscribe to it from your athlete page.' });
+      setName('');
+      setPrice('');
+      setDescription('');
+      refreshTiers();
+    },
+    onError: showError('Could Not Create Tier'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: { amount?: number; isActive?: boolean } }) => {
+      const res = await apiRequest('PATCH', `/api/fan-tiers/${id}`, changes);
+      return res.json() as Promise<FanSubscriptionTier>;
+    },
+    onSuccess: (tier) => {
+      setPrices(({ [tier.id]: _, ...rest }) => rest);
+      refreshTiers();
+    },
+    onError: showError('Could Not Update Tier'),
+  });
+
+  const savePrice = (tier: FanSubscriptionTier) => {
+    const amount = Math.round(parseFloat(prices[tier.id]) * 100);
+    if (!isNaN(amount) && amount !== tier.amount) {
+      updateMutation.mutate({ id: tier.id, changes: { amount } });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-zinc-900 border-zinc-800">
+        <CardHeader>
+          <CardTitle>Fan Subscriptions</CardTitle>
+          <CardDescription>
+            Offer monthly tiers to your fans. Subscribers can play the tracks you mark as subscriber-only.{' '}
+            <Link href={`/athletes/${athleteId}`} className="text-primary hover:underline">View your athlete page</Link>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tiers.map(tier => (
+            <div key={tier.id} className="flex flex-wrap items-center gap-3 rounded-lg bg-zinc-800 p-3">
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{tier.name}</span>
+                  {!tier.isActive && <Badge variant="secondary">Retired</Badge>}
+                </div>
+                {tier.description && <p className="text-xs text-zinc-400 truncate">{tier.description}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-zinc-400">$</span>
+                <Input
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  className="w-24 bg-zinc-900 border-zinc-700"
+                  value={prices[tier.id] ?? (tier.amount / 100).toFixed(2)}
+                  onChange={e => setPrices({ ...prices, [tier.id]: e.target.value })}
+                />
+                <span className="text-sm text-zinc-400">/month</span>
+                {prices[tier.id] !== undefined && (
+                  <Button size="sm" disabled={updateMutation.isPending} onClick={() => savePrice(tier)}>Save</Button>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={updateMutation.isPending}
+                onClick={() => updateMutation.mutate({ id: tier.id, changes: { isActive: !tier.isActive } })}
+              >
+                {tier.isActive ? 'Retire' : 'Offer again'}
+              </Button>
+            </div>
+          ))}
+          {tiers.length > 0 && (
+            <p className="text-xs text-zinc-500">Price changes apply to new subscribers. Retired tiers keep their current subscribers.</p>
+          )}
+
+          <form
+            className="grid gap-3 sm:grid-cols-[1fr_8rem] border-t border-zinc-800 pt-4"
+            onSubmit={e => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div>
+              <Label htmlFor="tier-name">Tier name</Label>
+              <Input id="tier-name" className="bg-zinc-800 border-zinc-700" value={name} onChange={e => setName(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="tier-price">Price (USD/month)</Label>
+              <Input id="tier-price" type="number" min="1" step="0.01" className="bg-zinc-800 border-zinc-700" value={price} onChange={e => setPrice(e.target.value)} required />
+            </div>
+            <div className="sm:col-span-2">
+              <Label htmlFor="tier-description">What subscribers get</Label>
+              <Textarea id="tier-description" className="bg-zinc-800 border-zinc-700" value={description} onChange={e => setDescription(e.target.value)} />
+            </div>
+            <Button type="submit" className="sm:col-span-2" disabled={createMutation.isPending}>
+              {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Add Tier
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-zinc-900 border-zinc-800">
+        <CardHeader>
+          <CardTitle>Subscribers</CardTitle>
+          <CardDescription>{subscribers.length} {subscribers.length === 1 ? 'fan subscribes' : 'fans subscribe'} to you</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {subscribers.length > 0 ? (
+            <div className="space-y-2">
+              {subscribers.map(subscriber => (
+                <div key={subscriber.id} className="flex items-center rounded-lg bg-zinc-800 p-3">
+                  <div className="h-10 w-10 rounded-full bg-zinc-700 mr-3 overflow-hidden flex items-center justify-center">
+                    {subscriber.fan?.profileImage ? (
+                      <img src={subscriber.fan.profileImage} alt={subscriber.fan.fullName} className="h-full w-full object-cover" />
+                    ) : (
+                      <User className="h-5 w-5 text-zinc-400" />
+                    )}
+                  </div>
+                  <div className="flex-grow min-w-0">
+                    <p className="font-medium">{subscriber.fan?.fullName ?? 'Deleted user'}</p>
+                    <p className="text-xs text-zinc-400">
+                      {subscriber.tier?.name}
+                      {subscriber.tier && ` • ${formatCurrency(subscriber.tier.amount / 100)}/month`}
+                    </p>
+                  </div>
+                  {subscriber.currentPeriodEnd && (
+                    <span className="text-xs text-zinc-400">
+                      {subscriber.cancelAtPeriodEnd ? 'Ends' : 'Renews'} {formatDate(subscriber.currentPeriodEnd)}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-zinc-400">No subscribers yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1021,6 +1021,9 @@ import {
   DialogFooter 
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useEntitlements } from "@/hooks/use-entitlements";
+import { queryClient } from "@/lib/queryClient";
+import { Link } from "wouter";
 
 // Make toast accessible throughout the component
 
@@ -1124,6 +1127,8 @@ export function AIGenerationPanel({
 }: AIGenerationPanelProps) {
   // Get toast function
   const { toast } = useToast();
+  const { summary: entitlementSummary, aiGenerationsLeft } = useEntitlements();
+  const aiGenerationLocked = aiGenerationsLeft === 0;
   
   // State
   const [activeTab, setActiveTab] = useState<'music' | 'drums' | 'melody' | 'vocal' | 'speech' | 'sfx' | 'enhance'>('music');
@@ -1369,6 +1374,7 @@ export function AIGenerationPanel({
         
         setGeneratingMessage("Processing AI response...");
         const data = await response.json();
+        queryClient.invalidateQueries({ queryKey: ['/api/entitlements'] });
         console.log('AI generation response:', data);
         
         // For now, since we're still building the full audio generation pipeline,
@@ -2589,7 +2595,7 @@ export function AIGenerationPanel({
               {activeTab !== 'enhance' && (
                 <Button 
                   className="w-full bg-purple-600 hover:bg-purple-700"
-                  disabled={isGenerating}
+                  disabled={isGenerating || aiGenerationLocked}
                   onClick={handleGenerate}
                 >
                   {isGenerating ? (
@@ -2610,6 +2616,19 @@ export function AIGenerationPanel({
                 </Button>
               )}
               
+              {/* The plan's monthly AI generation quota */}
+              {activeTab !== 'enhance' && entitlementSummary && (
+                <p className="text-xs text-center text-gray-400">
+                  {entitlementSummary.entitlements.aiGenerationsPerMonth === 0 ? (
+                    <>AI generation isn't included in your plan. <Link href="/subscriptions" className="text-purple-400 hover:underline">Upgrade</Link></>
+                  ) : aiGenerationLocked ? (
+                    <>You've used this month's AI generations. <Link href="/subscriptions" className="text-purple-400 hover:underline">Upgrade for more</Link></>
+                  ) : (
+                    <>{aiGenerationsLeft} of {entitlementSummary.entitlements.aiGenerationsPerMonth} AI generations left this month</>
+                  )}
+                </p>
+              )}
+              
               {/* Action buttons for generated audio - only show if not in enhance tab */}
               {generatedAudio && activeTab !== 'enhance' && (
                 <div className="flex space-x-2">
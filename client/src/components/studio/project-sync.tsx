@@ -2,12 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Cloud, CloudOff, RefreshCw, Check, X, Clock, CloudLightning } from 'lucide-react';
+import { Cloud, CloudOff, RefreshCw, Check, X, Clock, CloudLightning, History } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { formatDistance } from 'date-fns';
 import { apiRequest } from '@/lib/queryClient';
+import type { ProjectSync as ProjectSyncRecord } from '@shared/schema';
 
 interface ProjectSyncProps {
   projectId: number;
@@ -20,18 +21,18 @@ export function ProjectSync({ projectId }: ProjectSyncProps) {
   const queryClient = useQueryClient();
 
   // Get sync status
-  const { data: syncStatus, isLoading, error } = useQuery({
+  const { data: syncStatus, isLoading, error } = useQuery<ProjectSyncRecord | null>({
     queryKey: ['/api/studio/projects', projectId, 'sync'],
     queryFn: async () => {
-      try {
-        return await apiRequest(`/api/studio/projects/${projectId}/sync`);
-      } catch (error) {
-        // If no sync exists yet, return null (this is not an error)
-        if (error.response?.status === 404) {
-          return null;
-        }
-        throw error;
+      const res = await fetch(`/api/studio/projects/${projectId}/sync`, { credentials: 'include' });
+      // If no sync exists yet, return null (this is not an error)
+      if (res.status === 404) {
+        return null;
       }
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+      return res.json();
     },
     refetchInterval: isSyncing ? 2000 : false // Poll every 2 seconds while syncing
   });
@@ -39,9 +40,8 @@ export function ProjectSync({ projectId }: ProjectSyncProps) {
   // Mutation to start a sync
   const mutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest(`/api/studio/projects/${projectId}/sync`, {
-        method: 'POST'
-      });
+      const res = await apiRequest('POST', `/api/studio/projects/${projectId}/sync`);
+      return res.json();
     },
     onSuccess: () => {
       toast({
@@ -62,6 +62,45 @@ export function ProjectSync({ projectId }: ProjectSyncProps) {
     }
   });
 
+  // Every backup is kept as its own version, newest first
+  const { data: versions } = useQuery<ProjectSyncRecord[]>({
+    queryKey: ['/api/studio/projects', projectId, 'sync', 'versions'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/studio/projects/${projectId}/sync/versions`);
+      return res.json();
+    },
+    refetchInterval: isSyncing ? 2000 : false
+  });
+
+  // Mutation to restore the project from one of its backups
+  const restoreMutation = useMutation({
+    mutationFn: async (syncId: number) => {
+      const res = await apiRequest('POST', `/api/studio/projects/${projectId}/sync/${syncId}/restore`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Backup restored',
+        description: 'Your project has been restored from the backup.',
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/studio/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/studio/projects/${projectId}/tracks`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Restore failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleRestore = (version: ProjectSyncRecord) => {
+    if (window.confirm(`Restore version ${version.version}? The project's current tracks and settings will be replaced.`)) {
+      restoreMutation.mutate(version.id);
+    }
+  };
+
   // Check if we need to animate progress
   useEffect(() => {
     if (!syncStatus) return;
@@ -83,6 +122,8 @@ export function ProjectSync({ projectId }: ProjectSyncProps) {
     } else {
       setIsSyncing(false);
     }
+    // Pick up how the backup that just finished ended up in the versions list
+    queryClient.invalidateQueries({ queryKey: ['/api/studio/projects', projectId, 'sync', 'versions'] });
   }, [syncStatus]);
 
   // Handle sync button click
@@ -183,6 +224,39 @@ export function ProjectSync({ projectId }: ProjectSyncProps) {
             </div>
           )}
         </div>
+
+        {versions && versions.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <div className="text-sm font-medium flex items-center gap-1">
+              <History className="h-4 w-4" />
+              Versions
+            </div>
+            <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+              {versions.map(version => (
+                <li key={version.id} className="flex justify-between items-center gap-2">
+                  <span>
+                    v{version.version}
+                    <span className="text-gray-500 ml-2">
+                      {version.syncedAt ? formatDistance(new Date(version.syncedAt), new Date(), { addSuffix: true }) : ''}
+                    </span>
+                  </span>
+                  {version.status === 'synced' ? (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRestore(version)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      Restore
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500 capitalize">{version.status}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </CardContent>
       
       <CardFooter>
@@ -15,6 +15,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
+import { fetchWaveformPeaks, peaksToAmplitudes, zoomLevelFor } from '@/lib/waveform-peaks';
 
 // Types
 interface AudioRegion {
@@ -665,9 +666,27 @@ function RegionComponent({
   const startPx = region.startTime * pixelsPerSecond;
   const widthPx = region.duration * pixelsPerSecond;
   
+  // Regions without waveform data of their own draw the track's server-side peaks at the current zoom
+  const [trackWaveform, setTrackWaveform] = useState<number[] | null>(null);
+  const hasOwnWaveform = !!region.waveformData && region.waveformData.length > 0;
+  const peakZoom = zoomLevelFor(pixelsPerSecond);
+  useEffect(() => {
+    if (hasOwnWaveform) return;
+    let cancelled = false;
+    fetchWaveformPeaks(`/api/studio/tracks/${region.trackId}/waveform`, peakZoom).then(peaks => {
+      if (!cancelled && peaks) {
+        setTrackWaveform(peaksToAmplitudes(peaks.levels[0], region.offset ?? 0, region.duration));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hasOwnWaveform, region.trackId, region.offset, region.duration, peakZoom]);
+  const waveformData = hasOwnWaveform ? region.waveformData! : trackWaveform;
+  
   // Waveform visualization
   const renderWaveform = () => {
-    if (!region.waveformData || region.waveformData.length === 0) {
+    if (!waveformData || waveformData.length === 0) {
       // Render a default pattern if no waveform data
       return (
         <div className="h-full flex items-center justify-center">
@@ -677,12 +696,12 @@ function RegionComponent({
     }
     
     // Calculate how many points we can show based on width
-    const pointsToShow = Math.min(region.waveformData.length, Math.floor(widthPx));
-    const skipFactor = region.waveformData.length / pointsToShow;
+    const pointsToShow = Math.min(waveformData.length, Math.floor(widthPx));
+    const skipFactor = waveformData.length / pointsToShow;
     
     const path = [...Array(pointsToShow)].map((_, i) => {
       const dataIndex = Math.floor(i * skipFactor);
-      const amplitude = region.waveformData![dataIndex] * 0.5; // Scale to half for visualization
+      const amplitude = waveformData[dataIndex] * 0.5; // Scale to half for visualization
       const x = (i / pointsToShow) * widthPx;
       const y = (trackHeight / 2) * (1 - amplitude);
       return `${i === 0 ? 'M' : 'L'}${x},${y}`;
@@ -700,7 +719,7 @@ function RegionComponent({
         <path 
           d={[...Array(pointsToShow)].map((_, i) => {
             const dataIndex = Math.floor(i * skipFactor);
-            const amplitude = region.waveformData![dataIndex] * 0.5;
+            const amplitude = waveformData[dataIndex] * 0.5;
             const x = (i / pointsToShow) * widthPx;
             const y = (trackHeight / 2) * (1 + amplitude);
             return `${i === 0 ? 'M' : 'L'}${x},${y}`;
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+
+// A team from the league and team directory, as /api/teams/search returns it
+export interface DirectoryTeam {
+  id: number;
+  leagueId: number;
+  name: string;
+  city: string | null;
+  abbreviation: string | null;
+  league?: { id: number; name: string; abbreviation: string };
+}
+
+interface TeamPickerProps {
+  value: string; // The team's name as shown
+  teamId?: number | null;
+  onChange: (team: string, directoryTeam: DirectoryTeam | null) => void;
+}
+
+/**
+ * Autocomplete over the team directory. Teams the directory doesn't have can still be typed in,
+ * in which case onChange gets no directory team.
+ */
+export function TeamPicker({ value, teamId, onChange }: TeamPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const { data: teams = [] } = useQuery<DirectoryTeam[]>({
+    queryKey: ['/api/teams/search', query],
+    queryFn: async () => {
+      const res = await fetch(`/api/teams/search?q=${encodeURIComponent(query)}`);
+      if (!res.ok) throw new Error('Failed to search teams');
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  const choose = (team: string, directoryTeam: DirectoryTeam | null) => {
+    onChange(team, directoryTeam);
+    setOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+          <span className={cn(!value && 'text-muted-foreground')}>{value || 'Search for your team'}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-[--radix-popover-trigger-width]" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Team, city or abbreviation" value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>No teams found.</CommandEmpty>
+            <CommandGroup>
+              {teams.map(team => (
+                <CommandItem key={team.id} value={String(team.id)} onSelect={() => choose(team.name, team)}>
+                  <Check className={cn('mr-2 h-4 w-4', team.id === teamId ? 'opacity-100' : 'opacity-0')} />
+                  <span className="flex-1">{team.name}</span>
+                  {team.league && <span className="text-xs text-muted-foreground">{team.league.abbreviation}</span>}
+                </CommandItem>
+              ))}
+              {query.trim() && !teams.some(team => team.name.toLowerCase() === query.trim().toLowerCase()) && (
+                <CommandItem value={`custom:${query}`} onSelect={() => choose(query.trim(), null)}>
+                  Use "{query.trim()}"
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
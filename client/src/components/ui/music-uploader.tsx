@@ -24,6 +24,8 @@ export default function MusicUploader() {
   const [description, setDescription] = useState('');
   const [duration, setDuration] = useState(0);
   const [isPublished, setIsPublished] = useState(false);
+  const [isExclusive, setIsExclusive] = useState(false);
+  const [subscriberOnly, setSubscriberOnly] = useState(false);
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [coverArtFile, setCoverArtFile] = useState<File | null>(null);
   const [coverArtPreview, setCoverArtPreview] = useState<string | null>(null);
@@ -43,6 +45,8 @@ export default function MusicUploader() {
       formData.append('description', description);
       formData.append('duration', String(duration));
       formData.append('isPublished', String(isPublished));
+      formData.append('isExclusive', String(isExclusive));
+      formData.append('subscriberOnly', String(subscriberOnly));
       formData.append('audio', audioFile);
       
       if (coverArtFile) {
@@ -69,12 +73,15 @@ export default function MusicUploader() {
       setDescription('');
       setDuration(0);
       setIsPublished(false);
+      setIsExclusive(false);
+      setSubscriberOnly(false);
       setAudioFile(null);
       setCoverArtFile(null);
       setCoverArtPreview(null);
       
       // Invalidate tracks query to refresh the list
       queryClient.invalidateQueries({ queryKey: ['/api/tracks/artist'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/entitlements'] });
       
       toast({
         title: 'Track uploaded successfully',
@@ -182,6 +189,24 @@ export default function MusicUploader() {
                 />
                 <Label htmlFor="publish">Publish immediately</Label>
               </div>
+              
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="exclusive"
+                  checked={isExclusive}
+                  onCheckedChange={setIsExclusive}
+                />
+                <Label htmlFor="exclusive">Exclusive to Premium and Athlete Pro subscribers</Label>
+              </div>
+              
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="subscriber-only"
+                  checked={subscriberOnly}
+                  onCheckedChange={setSubscriberOnly}
+                />
+                <Label htmlFor="subscriber-only">Only for fans who subscribe to me</Label>
+              </div>
             </div>
             
             <div className="space-y-4">
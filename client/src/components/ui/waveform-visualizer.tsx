@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { AudioProcessor } from '@/lib/audioProcessor';
+import { fetchWaveformPeaks, peaksToAmplitudes, zoomLevelFor } from '@/lib/waveform-peaks';
 const audioProcessor = new AudioProcessor();
 
 // Helper function to format time in MM:SS format
@@ -15,6 +16,7 @@ interface WaveformVisualizerProps extends React.HTMLAttributes<HTMLDivElement> {
   buffer?: AudioBuffer | null;  // For backward compatibility
   audioBuffer?: AudioBuffer | null | undefined; // Preferred naming
   waveform?: number[];  // Raw waveform data
+  waveformUrl?: string; // Server-side peaks endpoint, used when no waveform or buffer is given
   color?: string;
   gradientColors?: string[];
   height?: number;
@@ -41,6 +43,7 @@ const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
   buffer,
   audioBuffer,
   waveform,
+  waveformUrl,
   color = 'rgba(59, 130, 246, 0.8)',
   gradientColors,
   height = 80,
@@ -64,6 +67,24 @@ const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
   const animationRef = useRef<number>(0);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [hoverPosition, setHoverPosition] = useState<number | null>(null);
+  const [serverWaveform, setServerWaveform] = useState<number[] | null>(null);
+
+  // Fetch server-side peaks at a zoom level with roughly one peak per pixel
+  useEffect(() => {
+    if (!waveformUrl || (waveform && waveform.length > 0)) return;
+
+    const canvasWidth = canvasRef.current?.width ?? 800;
+    const zoom = duration > 0 ? zoomLevelFor(canvasWidth / duration) : 1;
+    let cancelled = false;
+    fetchWaveformPeaks(waveformUrl, zoom).then(peaks => {
+      if (!cancelled && peaks) {
+        setServerWaveform(peaksToAmplitudes(peaks.levels[0]));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [waveformUrl, waveform, duration]);
 
   // Render static waveform if available
   useEffect(() => {
@@ -83,6 +104,8 @@ const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
     if (waveform && waveform.length > 0) {
       // Use the directly provided waveform data
       waveformData = waveform;
+    } else if (serverWaveform && serverWaveform.length > 0) {
+      waveformData = serverWaveform;
     } else {
       // Check if we have an audio buffer provided directly
       const bufferToUse = audioBuffer || buffer;
@@ -131,7 +154,7 @@ const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
       drawTimeMarkers(ctx, canvas.width, canvas.height, duration);
     }
 
-  }, [trackId, color, gradientColors, height, width, gain, showTimeMarkers, duration, isMaster, buffer, audioBuffer, waveform]);
+  }, [trackId, color, gradientColors, height, width, gain, showTimeMarkers, duration, isMaster, buffer, audioBuffer, waveform, serverWaveform]);
 
   // Render playhead position
   useEffect(() => {
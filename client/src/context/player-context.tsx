@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import Hls from 'hls.js';
 import { Track } from '@shared/schema';
+import { useIsMobile } from '@/hooks/use-mobile';
 
 // Playable track interface - minimum required properties for playback
 export interface PlayableTrack extends Partial<Track> {
@@ -10,8 +12,13 @@ export interface PlayableTrack extends Partial<Track> {
   coverArt?: string;
   duration?: number;
   genre?: 'hip-hop' | 'electronic' | 'rock' | 'r&b' | 'pop' | 'other';
+  hlsUrl?: string | null;
 }
 
+// Processed tracks have HLS playlists. Mobile listeners use them so only a few seconds are
+// fetched at a time and playback can drop to a lower bitrate on a poor connection.
+const hlsPlaylistUrl = (track: PlayableTrack): string | null => track.hlsUrl ?? null;
+
 // Player context type definition
 interface PlayerContextType {
   currentTrack: PlayableTrack | null;
@@ -74,7 +81,9 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const [playCounts, setPlayCounts] = useState<Record<number, number>>({});
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const hlsRef = useRef<Hls | null>(null);
   const intervalRef = useRef<number | null>(null);
+  const isMobile = useIsMobile();
   
   // Initialize audio element on component mount
   useEffect(() => {
@@ -86,6 +95,10 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       if (intervalRef.current) {
         window.clearInterval(intervalRef.current);
       }
+      if (hlsRef.current) {
+        hlsRef.current.destroy();
+        hlsRef.current = null;
+      }
       if (audioRef.current) {
         audioRef.current.pause();
         audioRef.current = null;
@@ -99,15 +112,39 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     
     const audio = audioRef.current;
     
-    // Set up the audio src
-    audio.src = currentTrack.audioUrl;
-    audio.load();
-
     const handleError = (e: Event) => {
       console.error('Audio playback error:', e);
       setIsPlaying(false);
     };
     
+    // Set up the audio src
+    const playProgressively = () => {
+      audio.src = currentTrack.audioUrl;
+      audio.load();
+    };
+    const playlistUrl = isMobile ? hlsPlaylistUrl(currentTrack) : null;
+    if (playlistUrl && audio.canPlayType('application/vnd.apple.mpegurl')) {
+      // Safari plays HLS natively
+      audio.src = playlistUrl;
+      audio.load();
+    } else if (playlistUrl && Hls.isSupported()) {
+      const hls = new Hls();
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return;
+        // Fall back to the plain stream if segmented playback can't recover
+        console.error('HLS playback error:', data);
+        hls.destroy();
+        hlsRef.current = null;
+        playProgressively();
+        audio.play().catch(handleError);
+      });
+      hls.loadSource(playlistUrl);
+      hls.attachMedia(audio);
+      hlsRef.current = hls;
+    } else {
+      playProgressively();
+    }
+    
     const handleEnded = () => {
       if (repeatMode === 'one') {
         // If repeat one, just restart the current track
@@ -139,6 +176,10 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     return () => {
       audio.removeEventListener('error', handleError);
       audio.removeEventListener('ended', handleEnded);
+      if (hlsRef.current) {
+        hlsRef.current.destroy();
+        hlsRef.current = null;
+      }
       if (intervalRef.current) {
         window.clearInterval(intervalRef.current);
         intervalRef.current = null;
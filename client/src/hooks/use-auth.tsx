@@ -18,6 +18,10 @@ interface User {
   bio: string | null;
   verificationStatus: "pending" | "approved" | "rejected" | null;
   subscriptionTier: "bronze" | "silver" | "gold" | null;
+  league: string | null;
+  team: string | null;
+  leagueId: number | null;
+  teamId: number | null;
   coverImage: string | null;
   createdAt: Date | null;
   lastLoginAt: Date | null;
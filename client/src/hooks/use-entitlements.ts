@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+
+export type EntitlementTier = "none" | "bronze" | "silver" | "gold";
+
+// What a subscription tier includes, mirroring server/entitlements.ts
+export interface Entitlements {
+  exclusiveTracks: boolean;
+  download: boolean;
+  studioSeats: number;
+  aiGenerationsPerMonth: number;
+  storageBytes: number;
+}
+
+export interface EntitlementSummary {
+  tier: EntitlementTier;
+  entitlements: Entitlements;
+  usage: {
+    aiGenerations: number;
+    aiGenerationsResetAt: string;
+    storageBytes: number;
+  };
+  locked: (keyof Entitlements)[];
+  tiers: Record<EntitlementTier, Entitlements>;
+}
+
+// The signed-in user's entitlements and usage, for showing what's locked before they run into it
+export function useEntitlements() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<EntitlementSummary>({
+    queryKey: ["/api/entitlements"],
+    enabled: !!user,
+  });
+
+  return {
+    summary: data,
+    isLoading,
+    isLocked: (feature: keyof Entitlements) => !!data?.locked.includes(feature),
+    aiGenerationsLeft: data ? Math.max(data.entitlements.aiGenerationsPerMonth - data.usage.aiGenerations, 0) : undefined,
+  };
+}
@@ -1,7 +1,8 @@
 import * as Y from 'yjs';
 import { WebsocketProvider } from 'y-websocket';
 import { v4 as uuidv4 } from 'uuid';
-import { encode } from 'lib0/encoding';
+import * as encoding from 'lib0/encoding';
+import * as syncProtocol from 'y-protocols/sync';
 import { fromUint8Array, toUint8Array } from 'js-base64';
 
 /**
@@ -271,20 +272,17 @@ class StudioCollaboration {
   }
   
   /**
-   * Force a state sync with all peers, using binary encoding for efficiency
+   * Force a state sync with the server by restarting the y-websocket sync handshake.
+   * Only the state vector is sent; the server answers with just the missing updates.
    */
   forceSyncState(): void {
     if (this.connectionStatus === 'connected' && this.provider && this.provider.ws) {
       try {
-        // Use the proper sync method based on y-websocket documentation
-        const update = Y.encodeStateAsUpdate(this.doc);
-        // Use the underlying WebSocket instead
         if (this.provider.ws.readyState === WebSocket.OPEN) {
-          this.provider.ws.send(JSON.stringify({ 
-            type: 'sync', 
-            update: Array.from(update),
-            sessionId: this.projectId
-          }));
+          const encoder = encoding.createEncoder();
+          encoding.writeVarUint(encoder, 0); // y-websocket sync message
+          syncProtocol.writeSyncStep1(encoder, this.doc);
+          this.provider.ws.send(encoding.toUint8Array(encoder));
           this.lastSyncTime = Date.now();
         } else {
           console.warn('WebSocket is not in OPEN state');
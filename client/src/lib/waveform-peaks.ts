@@ -0,0 +1,82 @@
+/**
+ * Client side of the server's waveform peaks (server/waveformPeaks.ts). Peaks come at several
+ * zoom levels so a waveform can be drawn at any timeline zoom without decoding the audio.
+ */
+
+// Resolution of each zoom level, matching the server
+export const WAVEFORM_PEAKS_PER_SECOND = [2, 8, 32, 128, 512];
+
+export interface PeakLevel {
+  peaksPerSecond: number;
+  data: Int8Array; // Interleaved min, max
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  length: number;
+  levels: PeakLevel[];
+}
+
+const HEADER_SIZE = 16;
+const LEVEL_ENTRY_SIZE = 8;
+
+export function parseWaveformPeaks(buffer: ArrayBuffer): WaveformPeaks {
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (magic !== 'BTPK') {
+    throw new Error('Not a waveform peaks file');
+  }
+
+  const levelCount = view.getUint8(5);
+  const levels: PeakLevel[] = [];
+  let offset = HEADER_SIZE + levelCount * LEVEL_ENTRY_SIZE;
+  for (let i = 0; i < levelCount; i++) {
+    const peaksPerSecond = view.getUint32(HEADER_SIZE + i * LEVEL_ENTRY_SIZE, true);
+    const count = view.getUint32(HEADER_SIZE + i * LEVEL_ENTRY_SIZE + 4, true);
+    levels.push({ peaksPerSecond, data: new Int8Array(buffer, offset, count * 2) });
+    offset += count * 2;
+  }
+
+  return { sampleRate: view.getUint32(8, true), length: view.getUint32(12, true), levels };
+}
+
+// The coarsest zoom level that still has at least one peak per pixel
+export function zoomLevelFor(pixelsPerSecond: number): number {
+  const zoom = WAVEFORM_PEAKS_PER_SECOND.findIndex(peaksPerSecond => peaksPerSecond >= pixelsPerSecond);
+  return zoom === -1 ? WAVEFORM_PEAKS_PER_SECOND.length - 1 : zoom;
+}
+
+const cache = new Map<string, Promise<WaveformPeaks | null>>();
+
+// Fetch one zoom level of a waveform. Resolves to null when the track has no peaks (yet).
+export function fetchWaveformPeaks(waveformUrl: string, zoom: number): Promise<WaveformPeaks | null> {
+  const url = `${waveformUrl}?zoom=${zoom}`;
+  let peaks = cache.get(url);
+  if (!peaks) {
+    peaks = fetch(url, { credentials: 'include' })
+      .then(async response => response.ok ? parseWaveformPeaks(await response.arrayBuffer()) : null)
+      .catch(() => null);
+    peaks.then(result => {
+      // Only keep successes so a track still being processed is asked again later
+      if (!result) cache.delete(url);
+    });
+    cache.set(url, peaks);
+  }
+  return peaks;
+}
+
+/**
+ * Turn a stretch of a peak level into 0-1 amplitudes, the form waveform components draw.
+ * `start` and `duration` are in seconds; the whole track is used when they're left out.
+ */
+export function peaksToAmplitudes(level: PeakLevel, start = 0, duration?: number): number[] {
+  const count = level.data.length / 2;
+  const first = Math.max(0, Math.floor(start * level.peaksPerSecond));
+  const last = duration === undefined ? count : Math.min(count, Math.ceil((start + duration) * level.peaksPerSecond));
+
+  const amplitudes: number[] = [];
+  for (let i = first; i < last; i++) {
+    amplitudes.push(Math.max(-level.data[i * 2], level.data[i * 2 + 1]) / 127);
+  }
+  return amplitudes;
+}
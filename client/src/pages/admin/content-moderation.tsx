@@ -5,15 +5,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Track } from '@shared/schema';
-import { Search, AlertTriangle, CheckCircle, XCircle, Flag, Play, Music, Filter } from 'lucide-react';
+import { Search, AlertTriangle, CheckCircle, XCircle, Flag, Play, Music, ShieldAlert, Ban } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
 
-// Mock data interfaces
+// A report in the moderation queue, as /api/moderation/reported-content returns it
 interface ReportedContent {
   id: number;
   contentType: 'track' | 'message' | 'comment';
@@ -22,69 +24,51 @@ interface ReportedContent {
   reason: string;
   status: 'pending' | 'resolved' | 'dismissed';
   createdAt: string;
+  reportCount: number;
   content: {
     id: number;
     title?: string;
     artist?: string;
     audioUrl?: string;
     text?: string;
+    removed?: boolean;
   };
 }
 
+type ModerationAction = 'dismiss' | 'unpublish_track' | 'delete_message' | 'delete_comment' | 'warn_user' | 'suspend_user';
+
+// The action that takes each type of content down
+const REMOVAL_ACTIONS: Record<ReportedContent['contentType'], ModerationAction> = {
+  track: 'unpublish_track',
+  message: 'delete_message',
+  comment: 'delete_comment',
+};
+
+const STATUS_LABELS: Record<ReportedContent['status'], string> = {
+  pending: 'Pending Review',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
 export default function ContentModeration() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedContent, setSelectedContent] = useState<ReportedContent | null>(null);
   const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
   
+  const [statusFilter, setStatusFilter] = useState<string>('pending');
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [moderationReason, setModerationReason] = useState('');
+  
   // Fetch reported content
   const { data: reportedContent, isLoading } = useQuery<ReportedContent[]>({
-    queryKey: ['/api/moderation/reported-content'],
+    queryKey: ['/api/moderation/reported-content', statusFilter, typeFilter],
     queryFn: async () => {
-      // Mock data - in a real app this would be fetched from API
-      return [
-        {
-          id: 1,
-          contentType: 'track',
-          contentId: 101,
-          reporterId: 5,
-          reason: 'Inappropriate content',
-          status: 'pending',
-          createdAt: new Date().toISOString(),
-          content: {
-            id: 101,
-            title: 'Explicit Track',
-            artist: 'Athlete #1',
-            audioUrl: '/uploads/audio/sample.mp3',
-          }
-        },
-        {
-          id: 2,
-          contentType: 'message',
-          contentId: 201,
-          reporterId: 8,
-          reason: 'Harassing message',
-          status: 'pending',
-          createdAt: new Date(Date.now() - 86400000).toISOString(),
-          content: {
-            id: 201,
-            text: 'This is a reported message content that was flagged as inappropriate by a user.',
-          }
-        },
-        {
-          id: 3,
-          contentType: 'comment',
-          contentId: 301,
-          reporterId: 12,
-          reason: 'Spam content',
-          status: 'pending',
-          createdAt: new Date(Date.now() - 172800000).toISOString(),
-          content: {
-            id: 301,
-            text: 'This is a reported comment that was flagged as spam by multiple users.',
-          }
-        }
-      ] as ReportedContent[];
+      const params = new URLSearchParams({ status: statusFilter });
+      if (typeFilter !== 'all') params.set('type', typeFilter);
+      const res = await fetch(`/api/moderation/reported-content?${params}`);
+      if (!res.ok) throw new Error('Failed to fetch reported content');
+      return res.json();
     },
   });
   
@@ -98,24 +82,22 @@ export default function ContentModeration() {
     },
   });
   
-  // Update content status mutation
+  // Act on a report
   const updateContentStatusMutation = useMutation({
-    mutationFn: async ({ contentId, contentType, action }: { contentId: number; contentType: string; action: 'approve' | 'reject' }) => {
-      // In a real app, this would call an API endpoint
-      // return apiRequest('POST', '/api/moderation/update-status', { contentId, contentType, action });
-      
-      // Mock successful response
-      return new Promise(resolve => setTimeout(() => resolve({}), 1000));
+    mutationFn: async ({ reportId, action, reason }: { reportId: number; action: ModerationAction; reason?: string }) => {
+      const res = await apiRequest('POST', '/api/moderation/update-status', { reportId, action, reason });
+      return res.json();
     },
     onSuccess: () => {
       toast({
         title: 'Content Status Updated',
         description: 'The content moderation status has been updated successfully.',
       });
-      // In a real app, invalidate queries to refresh the data
-      // queryClient.invalidateQueries({ queryKey: ['/api/moderation/reported-content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/moderation/reported-content'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tracks'] });
       setIsReviewDialogOpen(false);
       setSelectedContent(null);
+      setModerationReason('');
     },
     onError: (error: Error) => {
       toast({
@@ -126,26 +108,16 @@ export default function ContentModeration() {
     },
   });
   
-  const handleApprove = () => {
-    if (!selectedContent) return;
-    updateContentStatusMutation.mutate({ 
-      contentId: selectedContent.contentId, 
-      contentType: selectedContent.contentType,
-      action: 'approve'
-    });
-  };
+  const reason = moderationReason.trim() || undefined;
   
-  const handleReject = () => {
+  const moderate = (action: ModerationAction) => {
     if (!selectedContent) return;
-    updateContentStatusMutation.mutate({ 
-      contentId: selectedContent.contentId, 
-      contentType: selectedContent.contentType,
-      action: 'reject'
-    });
+    updateContentStatusMutation.mutate({ reportId: selectedContent.id, action, reason });
   };
   
   const openReviewDialog = (content: ReportedContent) => {
     setSelectedContent(content);
+    setModerationReason('');
     setIsReviewDialogOpen(true);
   };
   
@@ -194,10 +166,30 @@ export default function ContentModeration() {
           </div>
         </div>
         
-        <Button variant="outline">
-          <Filter className="h-4 w-4 mr-2" />
-          Filter Options
-        </Button>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+              <SelectItem value="all">All Reports</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Content</SelectItem>
+              <SelectItem value="track">Tracks</SelectItem>
+              <SelectItem value="message">Messages</SelectItem>
+              <SelectItem value="comment">Comments</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
       
       <Tabs defaultValue="reported">
@@ -226,10 +218,11 @@ export default function ContentModeration() {
                           {item.contentType === 'track' ? item.content.title : `Reported ${formatContentType(item.contentType)}`}
                         </CardTitle>
                       </div>
-                      <Badge variant="secondary">Pending Review</Badge>
+                      <Badge variant="secondary">{STATUS_LABELS[item.status]}</Badge>
                     </div>
                     <CardDescription>
                       Reported {formatDate(item.createdAt)} • Reason: {item.reason}
+                      {item.reportCount > 1 && ` • ${item.reportCount} reports`}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="pb-4">
@@ -249,7 +242,7 @@ export default function ContentModeration() {
                     ) : (
                       <div className="bg-gray-50 dark:bg-gray-800 rounded-md p-3">
                         <p className="text-sm text-gray-700 dark:text-gray-300">
-                          {item.content.text}
+                          {item.content.removed ? <em>This content has been removed.</em> : item.content.text}
                         </p>
                       </div>
                     )}
@@ -257,6 +250,7 @@ export default function ContentModeration() {
                   <div className="px-6 py-4 bg-gray-50 dark:bg-gray-800 border-t flex justify-end gap-2">
                     <Button
                       variant="outline"
+                      disabled={item.status !== 'pending'}
                       onClick={() => openReviewDialog(item)}
                     >
                       <Flag className="h-4 w-4 mr-2" />
@@ -404,27 +398,55 @@ export default function ContentModeration() {
                   </div>
                 ) : (
                   <div className="bg-gray-50 dark:bg-gray-800 rounded-md p-3">
-                    <p className="text-sm">{selectedContent.content.text}</p>
+                    <p className="text-sm">
+                      {selectedContent.content.removed ? <em>This content has been removed.</em> : selectedContent.content.text}
+                    </p>
                   </div>
                 )}
               </div>
+              
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Note to the user</h4>
+                <Textarea
+                  placeholder="Why this action was taken (required to warn or suspend)"
+                  value={moderationReason}
+                  onChange={(e) => setModerationReason(e.target.value)}
+                />
+              </div>
             </div>
             
-            <DialogFooter className="pt-4 flex justify-between">
+            <DialogFooter className="pt-4 flex flex-wrap gap-2 sm:justify-between">
               <Button
-                variant="destructive"
-                onClick={handleReject}
+                variant="outline"
+                onClick={() => moderate('dismiss')}
                 disabled={updateContentStatusMutation.isPending}
               >
-                <XCircle className="h-4 w-4 mr-2" />
-                Remove Content
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Dismiss Report
               </Button>
               <Button
-                onClick={handleApprove}
-                disabled={updateContentStatusMutation.isPending}
+                variant="outline"
+                onClick={() => moderate('warn_user')}
+                disabled={!reason || selectedContent.content.removed || updateContentStatusMutation.isPending}
               >
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Approve Content
+                <ShieldAlert className="h-4 w-4 mr-2" />
+                Warn User
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => moderate('suspend_user')}
+                disabled={!reason || selectedContent.content.removed || updateContentStatusMutation.isPending}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Suspend User
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => moderate(REMOVAL_ACTIONS[selectedContent.contentType])}
+                disabled={selectedContent.content.removed || updateContentStatusMutation.isPending}
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Remove Content
               </Button>
             </DialogFooter>
           </DialogContent>
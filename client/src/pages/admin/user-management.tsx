@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import {
   Select,
@@ -15,7 +16,7 @@ import {
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Search, UserCog, UserX, Shield, ArrowUpDown } from 'lucide-react';
+import { Search, UserCog, UserX, Shield, ArrowUpDown, Ban } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
 
 // User interface matching the User type from schema.ts
@@ -33,8 +34,17 @@ interface User {
   subscriptionTier: 'bronze' | 'silver' | 'gold' | 'none';
   league?: string;
   team?: string;
+  accountStatus: 'active' | 'suspended' | 'banned' | 'deleted';
+  suspendedUntil?: string | null;
+  statusReason?: string | null;
 }
 
+// A suspension that has run out no longer counts, as on the server
+const effectiveStatus = (user: User): User['accountStatus'] =>
+  user.accountStatus === 'suspended' && (!user.suspendedUntil || new Date(user.suspendedUntil) <= new Date())
+    ? 'active'
+    : user.accountStatus;
+
 export default function UserManagement() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState('');
@@ -44,7 +54,10 @@ export default function UserManagement() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isStatusDialogOpen, setIsStatusDialogOpen] = useState(false);
   const [newRole, setNewRole] = useState<string>('');
+  const [statusReason, setStatusReason] = useState('');
+  const [suspendDays, setSuspendDays] = useState('7');
   
   // Fetch users
   const { data: users, isLoading } = useQuery<User[]>({
@@ -80,22 +93,20 @@ export default function UserManagement() {
     },
   });
   
-  // Delete user mutation (mock - would be implemented with a real API)
+  // Delete user mutation. Without `permanent` the account is only deactivated and can be restored.
   const deleteUserMutation = useMutation({
-    mutationFn: async (userId: number) => {
-      // This would be a real API call in production
-      // return apiRequest('DELETE', `/api/users/${userId}`);
-      
-      // Simulate a successful response
-      return new Promise(resolve => setTimeout(() => resolve({}), 1000));
+    mutationFn: async ({ userId, permanent }: { userId: number; permanent: boolean }) => {
+      const res = await apiRequest('DELETE', `/api/users/${userId}${permanent ? '?permanent=true' : ''}`);
+      return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { permanent }) => {
       toast({
         title: 'User Deleted',
-        description: 'The user has been deleted successfully.',
+        description: permanent
+          ? 'The user and all of their data have been erased.'
+          : 'The user has been deleted. Their account can still be restored.',
       });
-      // In a real app, invalidate the query to refresh the data
-      // queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
       setIsDeleteDialogOpen(false);
       setSelectedUser(null);
     },
@@ -108,6 +119,30 @@ export default function UserManagement() {
     },
   });
   
+  // Suspend, ban or reinstate an account
+  const accountStatusMutation = useMutation({
+    mutationFn: async ({ userId, action, reason, days }: { userId: number; action: 'suspend' | 'ban' | 'reinstate'; reason?: string; days?: number }) => {
+      const res = await apiRequest('POST', `/api/users/${userId}/${action}`, { reason, days });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Account Updated',
+        description: 'The account status has been updated successfully.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      setIsStatusDialogOpen(false);
+      setSelectedUser(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Update Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
   // Handle role update
   const handleRoleUpdate = () => {
     if (!selectedUser || !newRole) return;
@@ -115,9 +150,16 @@ export default function UserManagement() {
   };
   
   // Handle user deletion
-  const handleDeleteUser = () => {
+  const handleDeleteUser = (permanent: boolean) => {
+    if (!selectedUser) return;
+    deleteUserMutation.mutate({ userId: selectedUser.id, permanent });
+  };
+  
+  const reason = statusReason.trim() || undefined;
+  
+  const handleAccountStatus = (action: 'suspend' | 'ban' | 'reinstate') => {
     if (!selectedUser) return;
-    deleteUserMutation.mutate(selectedUser.id);
+    accountStatusMutation.mutate({ userId: selectedUser.id, action, reason, days: Number(suspendDays) });
   };
   
   // Open edit dialog
@@ -133,6 +175,14 @@ export default function UserManagement() {
     setIsDeleteDialogOpen(true);
   };
   
+  // Open account status dialog
+  const openStatusDialog = (user: User) => {
+    setSelectedUser(user);
+    setStatusReason('');
+    setSuspendDays('7');
+    setIsStatusDialogOpen(true);
+  };
+  
   // Handle sort toggle
   const toggleSort = (column: string) => {
     if (sortBy === column) {
@@ -205,6 +255,32 @@ export default function UserManagement() {
     }
   };
   
+  const getStatusLabel = (user: User) => {
+    switch (effectiveStatus(user)) {
+      case 'suspended':
+        return `Suspended until ${formatDate(user.suspendedUntil!)}`;
+      case 'banned':
+        return 'Banned';
+      case 'deleted':
+        return 'Deleted';
+      default:
+        return 'Active';
+    }
+  };
+  
+  const getStatusBadgeClass = (user: User) => {
+    switch (effectiveStatus(user)) {
+      case 'suspended':
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300';
+      case 'banned':
+        return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300';
+      case 'deleted':
+        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+      default:
+        return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300';
+    }
+  };
+  
   return (
     <MainLayout 
       title="User Management" 
@@ -281,6 +357,7 @@ export default function UserManagement() {
                         <ArrowUpDown className="ml-1 h-4 w-4" />
                       </button>
                     </th>
+                    <th scope="col" className="px-6 py-3">Status</th>
                     <th scope="col" className="px-6 py-3">
                       <button 
                         className="flex items-center font-medium text-gray-500 dark:text-gray-400"
@@ -323,6 +400,11 @@ export default function UserManagement() {
                           {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
                         </span>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeClass(user)}`} title={user.statusReason ?? undefined}>
+                          {getStatusLabel(user)}
+                        </span>
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                         {formatDate(user.createdAt)}
                       </td>
@@ -331,7 +413,10 @@ export default function UserManagement() {
                           <Button variant="ghost" size="sm" onClick={() => openEditDialog(user)}>
                             Edit
                           </Button>
-                          <Button variant="ghost" size="sm" className="text-red-500" onClick={() => openDeleteDialog(user)}>
+                          <Button variant="ghost" size="sm" disabled={user.role === 'admin'} onClick={() => openStatusDialog(user)}>
+                            Status
+                          </Button>
+                          <Button variant="ghost" size="sm" className="text-red-500" disabled={user.role === 'admin'} onClick={() => openDeleteDialog(user)}>
                             Delete
                           </Button>
                         </div>
@@ -433,7 +518,7 @@ export default function UserManagement() {
             <DialogHeader>
               <DialogTitle className="text-red-500">Delete User</DialogTitle>
               <DialogDescription>
-                This action cannot be undone. Are you sure you want to permanently delete this user?
+                Deleting keeps the user's data so the account can be restored. Erasing cannot be undone.
               </DialogDescription>
             </DialogHeader>
             
@@ -442,7 +527,7 @@ export default function UserManagement() {
               <div>
                 <p className="text-sm text-red-800 dark:text-red-300 font-medium">Warning:</p>
                 <p className="text-sm text-red-800 dark:text-red-300">
-                  Deleting user <strong>@{selectedUser.username}</strong> will permanently remove their account, 
+                  Erasing user <strong>@{selectedUser.username}</strong> will permanently remove their account, 
                   content, and all associated data from the platform.
                 </p>
               </div>
@@ -455,12 +540,86 @@ export default function UserManagement() {
               >
                 Cancel
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleDeleteUser(false)}
+                disabled={deleteUserMutation.isPending || selectedUser.accountStatus === 'deleted'}
+              >
+                Delete User
+              </Button>
               <Button
                 variant="destructive"
-                onClick={handleDeleteUser}
+                onClick={() => handleDeleteUser(true)}
                 disabled={deleteUserMutation.isPending}
               >
-                {deleteUserMutation.isPending ? 'Deleting...' : 'Delete User'}
+                {deleteUserMutation.isPending ? 'Deleting...' : 'Erase Permanently'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+      
+      {/* Account Status Dialog */}
+      {selectedUser && (
+        <Dialog open={isStatusDialogOpen} onOpenChange={setIsStatusDialogOpen}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Account Status</DialogTitle>
+              <DialogDescription>
+                @{selectedUser.username} is currently <strong>{getStatusLabel(selectedUser).toLowerCase()}</strong>.
+                {selectedUser.statusReason && ` Reason: ${selectedUser.statusReason}`}
+              </DialogDescription>
+            </DialogHeader>
+            
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="status-reason">Reason</Label>
+                <Textarea
+                  id="status-reason"
+                  placeholder="Shown to the user when they try to log in"
+                  value={statusReason}
+                  onChange={(e) => setStatusReason(e.target.value)}
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="suspend-days">Suspension length</Label>
+                <Select value={suspendDays} onValueChange={setSuspendDays}>
+                  <SelectTrigger id="suspend-days">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">1 day</SelectItem>
+                    <SelectItem value="7">7 days</SelectItem>
+                    <SelectItem value="30">30 days</SelectItem>
+                    <SelectItem value="90">90 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            
+            <DialogFooter className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => handleAccountStatus('reinstate')}
+                disabled={accountStatusMutation.isPending || effectiveStatus(selectedUser) === 'active'}
+              >
+                Reinstate
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleAccountStatus('suspend')}
+                disabled={!reason || accountStatusMutation.isPending}
+              >
+                Suspend
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => handleAccountStatus('ban')}
+                disabled={!reason || accountStatusMutation.isPending}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Ban
               </Button>
             </DialogFooter>
           </DialogContent>
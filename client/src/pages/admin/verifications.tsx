@@ -3,6 +3,8 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -43,6 +45,8 @@ export default function VerificationsAdmin() {
   const [viewingDocUrl, setViewingDocUrl] = useState<string | null>(null);
   const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
   const [isDocViewDialogOpen, setIsDocViewDialogOpen] = useState(false);
+  const [reviewReason, setReviewReason] = useState('');
+  const [requestedDocumentTypes, setRequestedDocumentTypes] = useState('');
   
   // Fetch pending verifications
   const { data: verifications, isLoading } = useQuery<VerificationRequest[]>({
@@ -52,12 +56,14 @@ export default function VerificationsAdmin() {
       if (!res.ok) throw new Error('Failed to fetch pending verifications');
       return res.json();
     },
+    // Document links are signed and expire after ten minutes, so keep them fresh
+    refetchInterval: 5 * 60 * 1000,
   });
   
   // Update verification status mutation
   const updateVerificationMutation = useMutation({
-    mutationFn: async ({ userId, status }: { userId: number; status: string }) => {
-      const res = await apiRequest('POST', '/api/verify-athlete', { userId, status });
+    mutationFn: async ({ userId, status, reason }: { userId: number; status: string; reason?: string }) => {
+      const res = await apiRequest('POST', '/api/verify-athlete', { userId, status, reason });
       return res.json();
     },
     onSuccess: () => {
@@ -78,18 +84,76 @@ export default function VerificationsAdmin() {
     },
   });
   
+  // Decide on a single document, keeping the rest of the application open
+  const reviewDocumentMutation = useMutation({
+    mutationFn: async ({ docId, decision, reason }: { docId: number; decision: string; reason?: string }) => {
+      const res = await apiRequest('POST', `/api/verification/documents/${docId}/review`, { decision, reason });
+      return res.json();
+    },
+    onSuccess: (review: { doc: VerificationDoc }) => {
+      setSelectedRequest(request => request && {
+        ...request,
+        documents: request.documents.map(doc => doc.id === review.doc.id ? review.doc : doc),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/verification/pending'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Review Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const requestDocumentsMutation = useMutation({
+    mutationFn: async ({ userId, documentTypes, reason }: { userId: number; documentTypes: string[]; reason?: string }) => {
+      const res = await apiRequest('POST', `/api/verification/users/${userId}/request-documents`, { documentTypes, reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Documents Requested',
+        description: 'The athlete has been asked for more documents.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/verification/pending'] });
+      setIsReviewDialogOpen(false);
+      setSelectedRequest(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Request Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const reason = reviewReason.trim() || undefined;
+  
   const handleApprove = () => {
     if (!selectedRequest) return;
-    updateVerificationMutation.mutate({ userId: selectedRequest.user.id, status: 'approved' });
+    updateVerificationMutation.mutate({ userId: selectedRequest.user.id, status: 'approved', reason });
   };
   
   const handleReject = () => {
     if (!selectedRequest) return;
-    updateVerificationMutation.mutate({ userId: selectedRequest.user.id, status: 'rejected' });
+    updateVerificationMutation.mutate({ userId: selectedRequest.user.id, status: 'rejected', reason });
+  };
+  
+  const handleRequestDocuments = () => {
+    if (!selectedRequest) return;
+    const documentTypes = requestedDocumentTypes
+      .split(',')
+      .map(type => type.trim().toLowerCase().replace(/\s+/g, '_'))
+      .filter(Boolean);
+    requestDocumentsMutation.mutate({ userId: selectedRequest.user.id, documentTypes, reason });
   };
   
   const openReviewDialog = (request: VerificationRequest) => {
     setSelectedRequest(request);
+    setReviewReason('');
+    setRequestedDocumentTypes('');
     setIsReviewDialogOpen(true);
   };
   
@@ -275,20 +339,74 @@ export default function VerificationsAdmin() {
                       onClick={() => viewDocument(doc.documentUrl)}
                     >
                       <span className="text-sm">{formatDocumentType(doc.documentType)}</span>
-                      <Button variant="ghost" size="sm">
-                        <Eye className="h-4 w-4" />
-                      </Button>
+                      <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                        {doc.status === 'pending' ? (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Approve document"
+                              disabled={reviewDocumentMutation.isPending}
+                              onClick={() => reviewDocumentMutation.mutate({ docId: doc.id, decision: 'approved', reason })}
+                            >
+                              <CheckCircle className="h-4 w-4 text-green-500" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title={reason ? 'Reject document' : 'Enter a reason to reject'}
+                              disabled={!reason || reviewDocumentMutation.isPending}
+                              onClick={() => reviewDocumentMutation.mutate({ docId: doc.id, decision: 'rejected', reason })}
+                            >
+                              <XCircle className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </>
+                        ) : (
+                          <Badge variant={doc.status === 'approved' ? 'default' : 'destructive'}>{doc.status}</Badge>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => viewDocument(doc.documentUrl)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                   ))}
                 </div>
               </div>
+              
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Reason</h4>
+                <Textarea
+                  value={reviewReason}
+                  onChange={(e) => setReviewReason(e.target.value)}
+                  placeholder="Shared with the athlete. Required when rejecting."
+                />
+              </div>
+              
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Request More Documents</h4>
+                <div className="flex gap-2">
+                  <Input
+                    value={requestedDocumentTypes}
+                    onChange={(e) => setRequestedDocumentTypes(e.target.value)}
+                    placeholder="e.g. team roster, league id"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleRequestDocuments}
+                    disabled={!requestedDocumentTypes.trim() || requestDocumentsMutation.isPending}
+                  >
+                    <Clock className="h-4 w-4 mr-2" />
+                    Request
+                  </Button>
+                </div>
+              </div>
             </div>
             
             <DialogFooter className="pt-4 flex justify-between">
               <Button
                 variant="destructive"
                 onClick={handleReject}
-                disabled={updateVerificationMutation.isPending}
+                disabled={!reason || updateVerificationMutation.isPending}
               >
                 <XCircle className="h-4 w-4 mr-2" />
                 Reject
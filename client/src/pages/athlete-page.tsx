@@ -0,0 +1,236 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useRoute } from 'wouter';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { TrackListItem } from '@/components/track-list-item';
+import type { DirectoryAthlete } from '@/components/directory-athletes';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Lock, User, Loader2 } from 'lucide-react';
+
+const TIP_AMOUNTS = [200, 500, 1000]; // Cents
+
+export interface FanSubscriptionTier {
+  id: number;
+  athleteId: number;
+  name: string;
+  description: string | null;
+  amount: number; // Monthly, in cents
+  currency: string;
+  isActive: boolean;
+}
+
+export interface FanSubscription {
+  id: number;
+  fanId: number;
+  athleteId: number;
+  tierId: number;
+  status: string;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+}
+
+interface AthleteDetails {
+  athlete: DirectoryAthlete;
+  tiers: FanSubscriptionTier[];
+  subscription: FanSubscription | null;
+}
+
+export default function AthletePage() {
+  const [, params] = useRoute('/athletes/:id');
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryKey = ['/api/athletes', params?.id];
+
+  const { data, isLoading, error } = useQuery<AthleteDetails>({
+    queryKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/athletes/${params?.id}`);
+      if (!res.ok) throw new Error('Failed to fetch athlete');
+      return res.json();
+    },
+    enabled: !!params?.id,
+  });
+
+  // Stripe Checkout sends fans back here with the outcome in the query string
+  useEffect(() => {
+    const search = new URLSearchParams(window.location.search);
+    if (!search.has('subscribed') && !search.has('tipped')) return;
+
+    if (search.get('subscribed') === 'success') {
+      toast({
+        title: 'Subscription started',
+        description: "Thanks for subscribing! Subscriber-only tracks unlock as soon as the payment is confirmed.",
+      });
+      queryClient.invalidateQueries({ queryKey });
+    }
+    if (search.get('tipped') === 'success') {
+      toast({ title: 'Tip sent', description: 'Thanks for supporting this athlete!' });
+    }
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const subscribeMutation = useMutation({
+    mutationFn: async (tierId: number) => {
+      const res = await apiRequest('POST', '/api/fan-subscriptions', { tierId });
+      return res.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: showError('Checkout Failed'),
+  });
+
+  const tipMutation = useMutation({
+    mutationFn: async (amount: number) => {
+      const res = await apiRequest('POST', `/api/athletes/${params?.id}/tips`, { amount });
+      return res.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: showError('Checkout Failed'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async ({ id, cancel }: { id: number; cancel: boolean }) => {
+      const res = await apiRequest('POST', `/api/fan-subscriptions/${id}/${cancel ? 'cancel' : 'resume'}`);
+      return res.json() as Promise<FanSubscription>;
+    },
+    onSuccess: (_, { cancel }) => {
+      toast({
+        title: cancel ? 'Subscription cancelled' : 'Subscription resumed',
+        description: cancel
+          ? 'You keep access until the end of the current billing period.'
+          : 'Your subscription will renew as usual.',
+      });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/fan-subscriptions'] });
+    },
+    onError: showError('Update Failed'),
+  });
+
+  if (isLoading) {
+    return <div className="p-8 text-zinc-400">Loading athlete...</div>;
+  }
+  if (error || !data) {
+    return <div className="p-8 text-zinc-400">This athlete could not be found.</div>;
+  }
+
+  const { athlete, tiers, subscription } = data;
+  const isOwnPage = user?.id === athlete.id;
+  const canPlay = (track: { subscriberOnly?: boolean }) => !track.subscriberOnly || isOwnPage || !!subscription || user?.role === 'admin';
+
+  return (
+    <div className="px-4 py-8 max-w-4xl mx-auto">
+      <header className="flex items-center mb-8">
+        <div className="h-20 w-20 rounded-full bg-zinc-800 mr-4 overflow-hidden flex items-center justify-center">
+          {athlete.profileImage ? (
+            <img src={athlete.profileImage} alt={athlete.fullName} className="h-full w-full object-cover" />
+          ) : (
+            <User className="h-10 w-10 text-zinc-400" />
+          )}
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold">{athlete.fullName}</h1>
+          <p className="text-zinc-400 mt-1">@{athlete.username}{athlete.team ? ` • ${athlete.team}` : ''}</p>
+          {athlete.bio && <p className="text-sm text-zinc-300 mt-2">{athlete.bio}</p>}
+          {!isOwnPage && (
+            <div className="flex items-center gap-2 mt-3">
+              <span className="text-sm text-zinc-400">Send a tip:</span>
+              {TIP_AMOUNTS.map(amount => (
+                <Button
+                  key={amount}
+                  size="sm"
+                  variant="outline"
+                  disabled={tipMutation.isPending}
+                  onClick={() => tipMutation.mutate(amount)}
+                >
+                  {formatCurrency(amount / 100)}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      </header>
+
+      {tiers.length > 0 && (
+        <section className="mb-8">
+          <h2 className="text-xl font-bold mb-4">Subscribe</h2>
+          {subscription && (
+            <div className="bg-zinc-900 rounded-lg p-4 mb-4 flex items-center justify-between">
+              <p className="text-sm text-zinc-300">
+                You subscribe to {tiers.find(tier => tier.id === subscription.tierId)?.name ?? athlete.fullName}.
+                {subscription.currentPeriodEnd && (
+                  <> {subscription.cancelAtPeriodEnd ? 'Access ends' : 'Renews'} on {formatDate(subscription.currentPeriodEnd)}.</>
+                )}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={cancelMutation.isPending}
+                onClick={() => cancelMutation.mutate({ id: subscription.id, cancel: !subscription.cancelAtPeriodEnd })}
+              >
+                {subscription.cancelAtPeriodEnd ? 'Resume' : 'Cancel'}
+              </Button>
+            </div>
+          )}
+          <div className="grid gap-4 sm:grid-cols-2">
+            {tiers.map(tier => (
+              <div key={tier.id} className="bg-zinc-900 rounded-lg p-4 flex flex-col">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-bold">{tier.name}</h3>
+                  {subscription?.tierId === tier.id && <Badge>Subscribed</Badge>}
+                </div>
+                <p className="text-2xl font-bold">{formatCurrency(tier.amount / 100)}<span className="text-sm text-zinc-400 font-normal">/month</span></p>
+                {tier.description && <p className="text-sm text-zinc-400 mt-2 flex-grow">{tier.description}</p>}
+                {!isOwnPage && !subscription && (
+                  <Button
+                    className="mt-4"
+                    disabled={subscribeMutation.isPending}
+                    onClick={() => subscribeMutation.mutate(tier.id)}
+                  >
+                    {subscribeMutation.isPending && subscribeMutation.variables === tier.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Subscribe
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <h2 className="text-xl font-bold mb-4">Tracks</h2>
+      {athlete.tracks.length > 0 ? (
+        <div className="space-y-2">
+          {athlete.tracks.map(track => canPlay(track) ? (
+            <TrackListItem
+              key={track.id}
+              track={{ ...track, artistName: athlete.fullName, coverArt: track.coverArt ?? undefined }}
+              plays={track.plays ?? 0}
+            />
+          ) : (
+            <div key={track.id} className="bg-zinc-900 rounded-lg p-3 flex items-center text-zinc-400">
+              <div className="w-12 h-12 bg-zinc-800 rounded mr-3 flex items-center justify-center">
+                <Lock size={20} />
+              </div>
+              <div>
+                <h3 className="font-medium text-sm text-white">{track.title}</h3>
+                <p className="text-xs">For subscribers</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-zinc-500">No published tracks yet.</p>
+      )}
+    </div>
+  );
+}
@@ -21,12 +21,14 @@ import { useToast } from '@/hooks/use-toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Shield, CheckCircle, Clock, XCircle, Upload } from 'lucide-react';
 import { queryClient } from '@/lib/queryClient';
+import { TeamPicker } from '@/components/team-picker';
 
 // Form schema
 const verificationSchema = z.object({
   documentType: z.string().min(1, 'Please select a document type'),
   league: z.string().min(1, 'League is required'),
   team: z.string().min(1, 'Team is required'),
+  teamId: z.number().nullable(),
   additionalInfo: z.string().optional(),
 });
 
@@ -54,6 +56,7 @@ export default function AthleteVerification() {
       documentType: '',
       league: user?.league || '',
       team: user?.team || '',
+      teamId: user?.teamId ?? null,
       additionalInfo: '',
     },
   });
@@ -108,6 +111,9 @@ export default function AthleteVerification() {
     formData.append('document', uploadedFile);
     formData.append('league', data.league);
     formData.append('team', data.team);
+    if (data.teamId) {
+      formData.append('teamId', String(data.teamId));
+    }
     
     if (data.additionalInfo) {
       formData.append('additionalInfo', data.additionalInfo);
@@ -123,6 +129,14 @@ export default function AthleteVerification() {
     }
   };
   
+  // Format document type for display
+  const formatDocumentType = (type: string) => {
+    return type
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  };
+  
   // Status components based on verification status
   const renderVerificationStatus = () => {
     if (isLoading) {
@@ -151,6 +165,42 @@ export default function AthleteVerification() {
       );
     }
     
+    // The latest decision, when it's an admin asking for more documents
+    const latestDecision = verificationData.decisions?.[verificationData.decisions.length - 1];
+    const documentRequest = latestDecision?.decision === 'documents_requested' ? latestDecision : null;
+    const hasPendingDocuments = verificationData.documents?.some((doc: any) => doc.status === 'pending');
+    
+    if (verificationData.status === 'pending' && documentRequest && !hasPendingDocuments) {
+      const requestedTypes: string[] = JSON.parse(documentRequest.requestedDocumentTypes || '[]');
+      return (
+        <Card className="border-yellow-500">
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <Upload className="h-8 w-8 text-yellow-500" />
+              <CardTitle>Additional Documents Needed</CardTitle>
+            </div>
+            <CardDescription>
+              Our team needs a little more to verify your athlete status.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 p-4 rounded-lg mb-6">
+              <p className="text-yellow-800 dark:text-yellow-300">
+                Please submit: {requestedTypes.map(formatDocumentType).join(', ')}
+              </p>
+              {documentRequest.reason && (
+                <p className="text-yellow-800 dark:text-yellow-300 mt-2">{documentRequest.reason}</p>
+              )}
+            </div>
+            
+            <div className="border-t pt-6">
+              {renderVerificationForm()}
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+    
     switch (verificationData.status) {
       case 'approved':
         return (
@@ -201,7 +251,11 @@ export default function AthleteVerification() {
                       <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
                         <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
                       </svg>
-                      <span>{doc.documentType} - {new Date(doc.createdAt).toLocaleDateString()}</span>
+                      <span>{formatDocumentType(doc.documentType)} - {new Date(doc.createdAt).toLocaleDateString()}</span>
+                      {doc.status === 'approved' && <CheckCircle className="h-4 w-4 text-green-500" />}
+                      {doc.status === 'rejected' && (
+                        <span className="text-red-500">Not accepted{doc.notes ? `: ${doc.notes}` : ''}</span>
+                      )}
                     </li>
                   ))}
                 </ul>
@@ -227,6 +281,11 @@ export default function AthleteVerification() {
                 <p className="text-red-800 dark:text-red-300">
                   Unfortunately, we couldn't verify your athlete status with the documents provided. Please submit a new verification request with clearer or more appropriate documentation.
                 </p>
+                {verificationData.documents?.filter((doc: any) => doc.notes).map((doc: any) => (
+                  <p key={doc.id} className="text-red-800 dark:text-red-300 mt-2 text-sm">
+                    {formatDocumentType(doc.documentType)}: {doc.notes}
+                  </p>
+                ))}
               </div>
               
               <div className="border-t pt-6">
@@ -280,7 +339,17 @@ export default function AthleteVerification() {
                     <FormItem>
                       <FormLabel>Team*</FormLabel>
                       <FormControl>
-                        <Input placeholder="Your current or most recent team" {...field} />
+                        <TeamPicker
+                          value={field.value}
+                          teamId={form.watch('teamId')}
+                          onChange={(team, directoryTeam) => {
+                            field.onChange(team);
+                            form.setValue('teamId', directoryTeam?.id ?? null);
+                            if (directoryTeam?.league) {
+                              form.setValue('league', directoryTeam.league.abbreviation, { shouldValidate: true });
+                            }
+                          }}
+                        />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
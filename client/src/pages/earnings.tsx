@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { useAuth } from '@/hooks/use-auth';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
 import { AppLayout } from '@/components/layout/app-layout';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,166 +13,56 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Progress } from '@/components/ui/progress';
-import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Calendar } from '@/components/ui/calendar';
-import { format } from 'date-fns';
 import { Separator } from '@/components/ui/separator';
 
-// Mock data for earnings overview
-const earningsOverview = {
-  totalEarnings: 4250.75,
-  pendingPayments: 750.25,
-  currentBalance: 1250.50,
-  paidOut: 2250.00,
-  monthlyGrowth: 15.8,
-  nextPayoutDate: '2023-05-15'
-};
+// Earnings as /api/earnings reports them. Amounts are in cents; play royalties make them fractional.
+interface EarningsSummary {
+  totals: {
+    earned: number;
+    balance: number;
+    paidOut: number;
+    thisMonth: number;
+    lastMonth: number;
+    monthlyGrowth: number | null;
+  };
+  streams: { stream: RevenueStream; amount: number; share: number }[];
+  monthly: { month: string; amount: number }[];
+  tracks: { id: number; title: string; plays: number; paidPlays: number; amount: number }[];
+  transactions: LedgerTransaction[];
+  payouts: LedgerTransaction[];
+  rates: { playRoyalty: number; subscriptionShare: number; tipShare: number };
+}
 
-// Mock data for revenue streams
-const revenueStreams = [
-  { name: 'Streaming', value: 65, color: '#22c55e' },
-  { name: 'Direct Support', value: 20, color: '#3b82f6' },
-  { name: 'Licenses', value: 10, color: '#8b5cf6' },
-  { name: 'Merch', value: 5, color: '#f43f5e' }
-];
+interface LedgerTransaction {
+  id: number;
+  date: string;
+  type: 'play_royalty' | 'subscription_share' | 'tip' | 'payout';
+  description: string;
+  amount: number;
+}
 
-// Mock data for monthly earnings
-const monthlyEarnings = [
-  { month: 'Jan', amount: 320 },
-  { month: 'Feb', amount: 380 },
-  { month: 'Mar', amount: 420 },
-  { month: 'Apr', amount: 450 },
-  { month: 'May', amount: 520 },
-  { month: 'Jun', amount: 580 },
-  { month: 'Jul', amount: 620 },
-  { month: 'Aug', amount: 710 },
-  { month: 'Sep', amount: 790 },
-  { month: 'Oct', amount: 820 },
-  { month: 'Nov', amount: 880 },
-  { month: 'Dec', amount: 940 },
-];
+type RevenueStream = 'streaming' | 'subscriptions' | 'tips';
 
-// Mock data for top tracks
-const topEarningTracks = [
-  { 
-    id: 1,
-    title: 'Game Day Hype',
-    earnings: 425.50,
-    plays: 85000,
-    directSupport: 120.00,
-    licenses: 75.50
-  },
-  { 
-    id: 2,
-    title: 'Victory Anthem',
-    earnings: 320.25,
-    plays: 64000,
-    directSupport: 85.00,
-    licenses: 50.25
-  },
-  { 
-    id: 3,
-    title: 'Pre-Game Ritual',
-    earnings: 290.75,
-    plays: 58000,
-    directSupport: 95.50,
-    licenses: 30.25
-  },
-  { 
-    id: 4,
-    title: 'Championship Flow',
-    earnings: 245.00,
-    plays: 49000,
-    directSupport: 65.00,
-    licenses: 25.00
-  },
-  { 
-    id: 5,
-    title: 'Workout Mix Vol. 3',
-    earnings: 210.50,
-    plays: 42000,
-    directSupport: 70.50,
-    licenses: 0
-  }
-];
+const STREAM_STYLES: Record<RevenueStream, { name: string; color: string }> = {
+  streaming: { name: 'Streaming', color: '#22c55e' },
+  subscriptions: { name: 'Fan Subscriptions', color: '#3b82f6' },
+  tips: { name: 'Tips', color: '#8b5cf6' }
+};
 
-// Mock data for recent transactions
-const recentTransactions = [
-  {
-    id: 'T123456',
-    date: '2023-04-15',
-    description: 'Streaming revenue payout',
-    amount: 425.50,
-    status: 'completed'
-  },
-  {
-    id: 'T123455',
-    date: '2023-04-10',
-    description: 'License fee - TV commercial',
-    amount: 250.00,
-    status: 'completed'
-  },
-  {
-    id: 'T123454',
-    date: '2023-04-05',
-    description: 'Direct support from fans',
-    amount: 175.25,
-    status: 'completed'
-  },
-  {
-    id: 'T123453',
-    date: '2023-04-01',
-    description: 'Merchandise sales',
-    amount: 85.75,
-    status: 'completed'
-  },
-  {
-    id: 'T123452',
-    date: '2023-03-25',
-    description: 'Streaming revenue payout',
-    amount: 390.00,
-    status: 'completed'
-  },
-  {
-    id: 'T123451',
-    date: '2023-03-20',
-    description: 'License fee - Indie film',
-    amount: 175.00,
-    status: 'completed'
-  },
-  {
-    id: 'T123450',
-    date: '2023-03-15',
-    description: 'Direct support from fans',
-    amount: 150.50,
-    status: 'completed'
-  },
-];
+const TRANSACTION_TYPES: Record<LedgerTransaction['type'], string> = {
+  play_royalty: 'Streaming',
+  subscription_share: 'Subscription',
+  tip: 'Tip',
+  payout: 'Payout'
+};
 
-// Mock data for payout history
-const payoutHistory = [
-  {
-    id: 'P789123',
-    date: '2023-04-01',
-    amount: 850.25,
-    method: 'Bank Transfer',
-    status: 'completed'
-  },
-  {
-    id: 'P789122',
-    date: '2023-03-01',
-    amount: 720.50,
-    method: 'Bank Transfer',
-    status: 'completed'
-  },
-  {
-    id: 'P789121',
-    date: '2023-02-01',
-    amount: 680.25,
-    method: 'Bank Transfer',
-    status: 'completed'
-  },
-];
+const MIN_PAYOUT = 5000; // Cents
+
+// "2024-05" as "May", without the local time zone moving it to another month
+const monthLabel = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
+};
 
 // Mock data for growth goals
 const growthGoals = [
@@ -200,13 +92,13 @@ const growthGoals = [
   },
 ];
 
-// Format currency
-const formatCurrency = (amount: number) => {
+// Format an amount in cents
+const formatCurrency = (cents: number) => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: 'USD',
     minimumFractionDigits: 2
-  }).format(amount);
+  }).format(cents / 100);
 };
 
 // Format numbers with K/M suffix
@@ -217,9 +109,25 @@ const formatNumber = (num: number) => {
 };
 
 export default function EarningsPage() {
-  const { user } = useAuth();
-  const [dateRange, setDateRange] = useState<Date | undefined>(new Date());
   const [timePeriod, setTimePeriod] = useState('year');
+  const [trackSort, setTrackSort] = useState('earnings');
+  
+  const { data: earnings } = useQuery<EarningsSummary>({
+    queryKey: ['/api/earnings', timePeriod],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/earnings?period=${timePeriod}`);
+      return res.json();
+    },
+  });
+  
+  const totals = earnings?.totals;
+  const monthlyEarnings = (earnings?.monthly ?? []).map(({ month, amount }) => ({ month: monthLabel(month), amount: amount / 100 }));
+  const revenueStreams = (earnings?.streams ?? [])
+    .filter(stream => stream.amount > 0)
+    .map(stream => ({ ...STREAM_STYLES[stream.stream], value: Math.round(stream.share * 10) / 10 }));
+  const topEarningTracks = [...(earnings?.tracks ?? [])]
+    .sort((a, b) => trackSort === 'plays' ? b.plays - a.plays : b.amount - a.amount);
+  const periodLabel = { month: 'this month', quarter: 'this quarter', year: 'this year', all: 'all time' }[timePeriod];
   
   return (
     <AppLayout>
@@ -231,24 +139,6 @@ export default function EarningsPage() {
           </div>
           
           <div className="flex items-center gap-2">
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button variant="outline" className="flex items-center gap-2">
-                  <CalendarIcon className="h-4 w-4" />
-                  {dateRange ? format(dateRange, 'MMM yyyy') : 'Select date'}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0" align="end">
-                <Calendar
-                  mode="single"
-                  selected={dateRange}
-                  onSelect={setDateRange}
-                  disabled={(date) => date > new Date()}
-                  initialFocus
-                />
-              </PopoverContent>
-            </Popover>
-            
             <Select value={timePeriod} onValueChange={setTimePeriod}>
               <SelectTrigger className="w-[130px]">
                 <SelectValue placeholder="Select period" />
@@ -277,10 +167,10 @@ export default function EarningsPage() {
               <div className="flex items-start justify-between">
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Total Earnings</p>
-                  <h3 className="text-2xl font-bold mt-1">{formatCurrency(earningsOverview.totalEarnings)}</h3>
-                  <div className="flex items-center mt-1 text-xs text-green-500 font-medium">
+                  <h3 className="text-2xl font-bold mt-1">{formatCurrency(totals?.earned ?? 0)}</h3>
+                  <div className="flex items-center mt-1 text-xs text-muted-foreground">
                     <TrendingUp className="h-3 w-3 mr-1" />
-                    <span>{earningsOverview.monthlyGrowth}% from last month</span>
+                    <span>Earned {periodLabel}</span>
                   </div>
                 </div>
                 <div className="p-2 bg-primary/10 rounded-full">
@@ -295,10 +185,10 @@ export default function EarningsPage() {
               <div className="flex items-start justify-between">
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Current Balance</p>
-                  <h3 className="text-2xl font-bold mt-1">{formatCurrency(earningsOverview.currentBalance)}</h3>
+                  <h3 className="text-2xl font-bold mt-1">{formatCurrency(totals?.balance ?? 0)}</h3>
                   <div className="flex items-center mt-1 text-xs text-muted-foreground">
                     <CreditCard className="h-3 w-3 mr-1" />
-                    <span>Next payout: {earningsOverview.nextPayoutDate}</span>
+                    <span>Not yet paid out</span>
                   </div>
                 </div>
                 <div className="p-2 bg-blue-500/10 rounded-full">
@@ -312,11 +202,15 @@ export default function EarningsPage() {
             <CardContent className="p-6">
               <div className="flex items-start justify-between">
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">Pending Payments</p>
-                  <h3 className="text-2xl font-bold mt-1">{formatCurrency(earningsOverview.pendingPayments)}</h3>
+                  <p className="text-sm font-medium text-muted-foreground">This Month</p>
+                  <h3 className="text-2xl font-bold mt-1">{formatCurrency(totals?.thisMonth ?? 0)}</h3>
                   <div className="flex items-center mt-1 text-xs text-amber-500 font-medium">
                     <CalendarIcon className="h-3 w-3 mr-1" />
-                    <span>Processing</span>
+                    <span>
+                      {totals?.monthlyGrowth != null
+                        ? `${totals.monthlyGrowth >= 0 ? '+' : ''}${totals.monthlyGrowth.toFixed(1)}% from last month`
+                        : 'Nothing earned last month'}
+                    </span>
                   </div>
                 </div>
                 <div className="p-2 bg-amber-500/10 rounded-full">
@@ -331,10 +225,10 @@ export default function EarningsPage() {
               <div className="flex items-start justify-between">
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Paid Out</p>
-                  <h3 className="text-2xl font-bold mt-1">{formatCurrency(earningsOverview.paidOut)}</h3>
+                  <h3 className="text-2xl font-bold mt-1">{formatCurrency(totals?.paidOut ?? 0)}</h3>
                   <div className="flex items-center mt-1 text-xs text-muted-foreground">
                     <Music className="h-3 w-3 mr-1" />
-                    <span>From all your content</span>
+                    <span>All time</span>
                   </div>
                 </div>
                 <div className="p-2 bg-green-500/10 rounded-full">
@@ -369,7 +263,7 @@ export default function EarningsPage() {
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
                         <XAxis dataKey="month" />
                         <YAxis tickFormatter={(value) => `$${value}`} />
-                        <Tooltip formatter={(value) => [`$${value}`, 'Earnings']} />
+                        <Tooltip formatter={(value) => [formatCurrency(Number(value) * 100), 'Earnings']} />
                         <Bar dataKey="amount" fill="#8884d8" radius={[4, 4, 0, 0]} />
                       </BarChart>
                     </ResponsiveContainer>
@@ -385,6 +279,9 @@ export default function EarningsPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="h-[300px] flex justify-center items-center">
+                    {revenueStreams.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No earnings {periodLabel} yet.</p>
+                    ) : (
                     <div className="w-full flex flex-col md:flex-row items-center justify-center gap-6">
                       <div className="w-48 h-48">
                         <ResponsiveContainer width="100%" height="100%">
@@ -420,6 +317,7 @@ export default function EarningsPage() {
                         ))}
                       </div>
                     </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -513,7 +411,9 @@ export default function EarningsPage() {
             <Card>
               <CardHeader>
                 <CardTitle>Recent Transactions</CardTitle>
-                <CardDescription>Your recent earning activities</CardDescription>
+                <CardDescription>
+                  Fan subscriptions, tips and payouts. Streaming royalties are added up per track under Content Performance.
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <ScrollArea className="h-[450px]">
@@ -524,24 +424,27 @@ export default function EarningsPage() {
                         <TableHead>Date</TableHead>
                         <TableHead>Description</TableHead>
                         <TableHead className="text-right">Amount</TableHead>
-                        <TableHead>Status</TableHead>
+                        <TableHead>Type</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {recentTransactions.map((transaction) => (
+                      {(earnings?.transactions ?? []).map((transaction) => (
                         <TableRow key={transaction.id}>
-                          <TableCell className="font-medium">{transaction.id}</TableCell>
-                          <TableCell>{transaction.date}</TableCell>
+                          <TableCell className="font-medium">T{transaction.id}</TableCell>
+                          <TableCell>{formatDate(transaction.date)}</TableCell>
                           <TableCell>{transaction.description}</TableCell>
                           <TableCell className="text-right">{formatCurrency(transaction.amount)}</TableCell>
                           <TableCell>
                             <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                              {transaction.status}
+                              {TRANSACTION_TYPES[transaction.type]}
                             </Badge>
                           </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
+                    {earnings?.transactions.length === 0 && (
+                      <TableCaption>No subscription payments, tips or payouts yet.</TableCaption>
+                    )}
                   </Table>
                 </ScrollArea>
               </CardContent>
@@ -562,9 +465,11 @@ export default function EarningsPage() {
                 <div className="flex justify-between items-center">
                   <div>
                     <CardTitle>Top Earning Content</CardTitle>
-                    <CardDescription>Your best performing tracks and content</CardDescription>
+                    <CardDescription>
+                      Your best earning tracks {periodLabel}. Plays by signed-in listeners earn {formatCurrency(earnings?.rates.playRoyalty ?? 0)} each.
+                    </CardDescription>
                   </div>
-                  <Select defaultValue="earnings">
+                  <Select value={trackSort} onValueChange={setTrackSort}>
                     <SelectTrigger className="w-[180px]">
                       <SelectValue placeholder="Sort by" />
                     </SelectTrigger>
@@ -573,8 +478,6 @@ export default function EarningsPage() {
                         <SelectLabel>Sort by</SelectLabel>
                         <SelectItem value="earnings">Highest Earnings</SelectItem>
                         <SelectItem value="plays">Most Plays</SelectItem>
-                        <SelectItem value="support">Direct Support</SelectItem>
-                        <SelectItem value="recent">Most Recent</SelectItem>
                       </SelectGroup>
                     </SelectContent>
                   </Select>
@@ -587,10 +490,8 @@ export default function EarningsPage() {
                       <TableRow>
                         <TableHead>Track Title</TableHead>
                         <TableHead>Plays</TableHead>
-                        <TableHead>Streaming</TableHead>
-                        <TableHead>Direct Support</TableHead>
-                        <TableHead>Licenses</TableHead>
-                        <TableHead className="text-right">Total Earnings</TableHead>
+                        <TableHead>Paid Plays</TableHead>
+                        <TableHead className="text-right">Royalties</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -598,13 +499,14 @@ export default function EarningsPage() {
                         <TableRow key={track.id}>
                           <TableCell className="font-medium">{track.title}</TableCell>
                           <TableCell>{formatNumber(track.plays)}</TableCell>
-                          <TableCell>{formatCurrency(track.earnings - track.directSupport - track.licenses)}</TableCell>
-                          <TableCell>{formatCurrency(track.directSupport)}</TableCell>
-                          <TableCell>{formatCurrency(track.licenses)}</TableCell>
-                          <TableCell className="text-right font-medium">{formatCurrency(track.earnings)}</TableCell>
+                          <TableCell>{formatNumber(track.paidPlays)}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(track.amount)}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
+                    {topEarningTracks.length === 0 && (
+                      <TableCaption>None of your tracks have earned royalties {periodLabel}.</TableCaption>
+                    )}
                   </Table>
                 </ScrollArea>
               </CardContent>
@@ -631,26 +533,29 @@ export default function EarningsPage() {
                         <TableRow>
                           <TableHead>Payout ID</TableHead>
                           <TableHead>Date</TableHead>
-                          <TableHead>Method</TableHead>
+                          <TableHead>Details</TableHead>
                           <TableHead className="text-right">Amount</TableHead>
                           <TableHead>Status</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {payoutHistory.map((payout) => (
+                        {(earnings?.payouts ?? []).map((payout) => (
                           <TableRow key={payout.id}>
-                            <TableCell className="font-medium">{payout.id}</TableCell>
-                            <TableCell>{payout.date}</TableCell>
-                            <TableCell>{payout.method}</TableCell>
+                            <TableCell className="font-medium">P{payout.id}</TableCell>
+                            <TableCell>{formatDate(payout.date)}</TableCell>
+                            <TableCell>{payout.description}</TableCell>
                             <TableCell className="text-right">{formatCurrency(payout.amount)}</TableCell>
                             <TableCell>
                               <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                                {payout.status}
+                                completed
                               </Badge>
                             </TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
+                      {earnings?.payouts.length === 0 && (
+                        <TableCaption>No payouts yet.</TableCaption>
+                      )}
                     </Table>
                   </CardContent>
                   <CardFooter>
@@ -689,16 +594,12 @@ export default function EarningsPage() {
                       <div className="space-y-2">
                         <div className="flex items-center justify-between text-sm">
                           <span>Minimum payout amount</span>
-                          <span className="font-medium">$50.00</span>
+                          <span className="font-medium">{formatCurrency(MIN_PAYOUT)}</span>
                         </div>
                         <div className="flex items-center justify-between text-sm">
                           <span>Payout frequency</span>
                           <span className="font-medium">Monthly</span>
                         </div>
-                        <div className="flex items-center justify-between text-sm">
-                          <span>Next scheduled payout</span>
-                          <span className="font-medium">{earningsOverview.nextPayoutDate}</span>
-                        </div>
                       </div>
                     </div>
                     
@@ -718,14 +619,14 @@ export default function EarningsPage() {
                   <CardHeader>
                     <CardTitle>Request Payout</CardTitle>
                     <CardDescription>
-                      Current balance: {formatCurrency(earningsOverview.currentBalance)}
+                      Current balance: {formatCurrency(totals?.balance ?? 0)}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="text-sm text-muted-foreground mb-6">
-                      You can request an immediate payout of your current balance if it exceeds the minimum threshold of $50.
+                      You can request an immediate payout of your current balance if it exceeds the minimum threshold of {formatCurrency(MIN_PAYOUT)}.
                     </div>
-                    <Button className="w-full">
+                    <Button className="w-full" disabled={(totals?.balance ?? 0) < MIN_PAYOUT}>
                       Request Payout
                     </Button>
                   </CardContent>
@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import { useRoute } from 'wouter';
+import { DirectoryAthletes, DirectoryLink, type DirectoryAthlete } from '@/components/directory-athletes';
+
+interface LeagueDetails {
+  league: { id: number; name: string; abbreviation: string; sport: string };
+  teams: { id: number; name: string; abbreviation: string | null }[];
+  athletes: DirectoryAthlete[];
+}
+
+export default function LeaguePage() {
+  const [, params] = useRoute('/leagues/:id');
+
+  const { data, isLoading, error } = useQuery<LeagueDetails>({
+    queryKey: ['/api/leagues', params?.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/leagues/${params?.id}`);
+      if (!res.ok) throw new Error('Failed to fetch league');
+      return res.json();
+    },
+    enabled: !!params?.id,
+  });
+
+  if (isLoading) {
+    return <div className="p-8 text-zinc-400">Loading league...</div>;
+  }
+  if (error || !data) {
+    return <div className="p-8 text-zinc-400">This league could not be found.</div>;
+  }
+
+  return (
+    <div className="px-4 py-8 max-w-4xl mx-auto">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold">{data.league.name}</h1>
+        <p className="text-zinc-400 mt-1">{data.league.abbreviation} • {data.league.sport}</p>
+      </header>
+      
+      <section className="mb-8">
+        <h2 className="text-xl font-bold mb-3">Teams</h2>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {data.teams.map(team => (
+            <DirectoryLink key={team.id} href={`/teams/${team.id}`}>{team.name}</DirectoryLink>
+          ))}
+        </div>
+      </section>
+      
+      <h2 className="text-xl font-bold mb-4">Athletes</h2>
+      <DirectoryAthletes athletes={data.athletes} />
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useLocation } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
+import { FanSubscriptionManager } from '@/components/fan-subscription-manager';
 
 import {
   Tabs,
@@ -411,6 +412,8 @@ export default function ProfilePage() {
                 </CardContent>
               </Card>
             </div>
+            
+            {user?.role === 'athlete' && <FanSubscriptionManager athleteId={user.id} />}
           </TabsContent>
           
           <TabsContent value="settings" className="space-y-6">
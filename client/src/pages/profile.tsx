@@ -23,6 +23,8 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useMutation } from '@tanstack/react-query';
 import { UserCircle2, Lock, Bell, Shield, Upload, User } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
+import { TeamPicker } from '@/components/team-picker';
+import { Link } from 'wouter';
 
 // Profile form schema
 const profileFormSchema = z.object({
@@ -36,6 +38,9 @@ const profileFormSchema = z.object({
     message: 'Please enter a valid email address',
   }),
   bio: z.string().optional(),
+  league: z.string().optional(),
+  team: z.string().optional(),
+  teamId: z.number().nullable().optional(),
 });
 
 // Password change schema
@@ -71,6 +76,9 @@ export default function Profile() {
       fullName: user?.fullName || '',
       email: user?.email || '',
       bio: user?.bio || '',
+      league: user?.league || '',
+      team: user?.team || '',
+      teamId: user?.teamId ?? null,
     },
   });
   
@@ -91,7 +99,7 @@ export default function Profile() {
       
       // Append profile data
       for (const [key, value] of Object.entries(data)) {
-        if (value) formData.append(key, value);
+        if (value) formData.append(key, String(value));
       }
       
       // Append image if available
@@ -282,6 +290,30 @@ export default function Profile() {
                       )}
                     />
                     
+                    {user?.role === 'athlete' && (
+                      <FormField
+                        control={profileForm.control}
+                        name="team"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Team</FormLabel>
+                            <FormControl>
+                              <TeamPicker
+                                value={field.value || ''}
+                                teamId={profileForm.watch('teamId')}
+                                onChange={(team, directoryTeam) => {
+                                  field.onChange(team);
+                                  profileForm.setValue('teamId', directoryTeam?.id ?? null);
+                                  profileForm.setValue('league', directoryTeam?.league?.name ?? profileForm.getValues('league'));
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    
                     <FormField
                       control={profileForm.control}
                       name="bio"
@@ -328,14 +360,18 @@ export default function Profile() {
                     <div>
                       <h3 className="text-sm font-medium mb-2">League/Association</h3>
                       <p className="text-sm text-gray-500 dark:text-gray-400">
-                        {user.league || 'Not specified'}
+                        {user.leagueId ? (
+                          <Link href={`/leagues/${user.leagueId}`} className="hover:underline">{user.league}</Link>
+                        ) : user.league || 'Not specified'}
                       </p>
                     </div>
                     
                     <div>
                       <h3 className="text-sm font-medium mb-2">Team</h3>
                       <p className="text-sm text-gray-500 dark:text-gray-400">
-                        {user.team || 'Not specified'}
+                        {user.teamId ? (
+                          <Link href={`/teams/${user.teamId}`} className="hover:underline">{user.team}</Link>
+                        ) : user.team || 'Not specified'}
                       </p>
                     </div>
                     
@@ -1,114 +1,232 @@
-import React from 'react';
-import { useAuth } from '@/hooks/use-auth';
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatCurrency, formatDate } from '@/lib/utils';
 import { AppLayout } from '@/components/layout/app-layout';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Check, CreditCard, Shield, Crown, Star, Zap, Music, Calendar, Download, Activity } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Check, CreditCard, Crown, Star, Music, Calendar, Activity, Loader2 } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 
+type PaidTier = 'bronze' | 'silver' | 'gold';
+
+// A plan from the server's catalog, as /api/subscription/plans returns it
+interface Plan {
+  tier: PaidTier;
+  name: string;
+  description: string;
+  amount: number; // Cents per month
+  currency: string;
+  features: string[];
+}
+
+interface SubscriptionSummary {
+  tier: PaidTier | 'none' | null;
+  plan: Plan | null;
+  subscription: {
+    id: string;
+    status: string;
+    currentPeriodEnd: number; // Unix seconds, as Stripe has it
+    cancelAtPeriodEnd: boolean;
+    pendingTier: PaidTier | null;
+  } | null;
+}
+
+interface PlanChangePreview {
+  tier: PaidTier;
+  prorationDate: number;
+  prorationAmount: number;
+  chargedNow: boolean;
+  amountDue: number;
+  currency: string;
+  nextPaymentDate: number | null;
+}
+
+interface BillingInvoice {
+  id: string;
+  created: number;
+  description: string;
+  amount: number;
+  currency: string;
+  status: string | null;
+  url: string | null;
+}
+
+const TIER_ORDER: PaidTier[] = ['bronze', 'silver', 'gold'];
+
+const PLAN_ICONS: Record<PaidTier, React.ReactNode> = {
+  bronze: <Music className="h-6 w-6 text-blue-500" />,
+  silver: <Star className="h-6 w-6 text-amber-500" />,
+  gold: <Crown className="h-6 w-6 text-purple-500" />
+};
+
+const HIGHLIGHTED_TIER: PaidTier = 'silver';
+
+const formatCents = (cents: number) => formatCurrency(cents / 100);
+const formatStripeDate = (seconds: number) => formatDate(new Date(seconds * 1000));
+
 export default function SubscriptionsPage() {
-  const { user } = useAuth();
-  
-  // Determine if user has an active subscription
-  const hasSubscription = user?.subscriptionTier === 'gold';
-  
-  // Current plan details for subscribed users
-  const currentPlan = {
-    name: 'Athlete Pro',
-    price: '$14.99',
-    billingCycle: 'monthly',
-    nextBillingDate: 'May 15, 2023',
-    features: [
-      'Unlimited publishing',
-      'Premium audio quality (320 kbps)',
-      'Advanced analytics',
-      'Collaboration tools',
-      'Direct fan messaging',
-      'Priority support',
-      'Custom profile branding'
-    ]
+  const { toast } = useToast();
+  const [tab, setTab] = useState<string | undefined>();
+  const [changeTier, setChangeTier] = useState<PaidTier | null>(null);
+  const { summary: entitlementSummary } = useEntitlements();
+
+  const { data: plans = [], isLoading: plansLoading } = useQuery<Plan[]>({
+    queryKey: ['/api/subscription/plans'],
+  });
+
+  const { data: summary } = useQuery<SubscriptionSummary>({
+    queryKey: ['/api/subscription'],
+  });
+
+  // Only subscriptions still running can be changed or cancelled
+  const subscription = summary?.subscription && summary.subscription.status !== 'canceled' ? summary.subscription : null;
+  const currentPlan = summary?.plan ?? null;
+  const hasSubscription = !!subscription;
+
+  const { data: invoices = [] } = useQuery<BillingInvoice[]>({
+    queryKey: ['/api/subscription/invoices'],
+    enabled: !!summary?.subscription,
+  });
+
+  const { data: preview, isFetching: previewLoading, error: previewError } = useQuery<PlanChangePreview>({
+    queryKey: ['/api/subscription/preview', changeTier],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/subscription/preview?tier=${changeTier}`);
+      return res.json();
+    },
+    enabled: !!changeTier,
+    staleTime: 0,
+  });
+
+  const refreshSubscription = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/subscription'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/subscription/invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/entitlements'] });
   };
-  
-  // Subscription plan options
-  const plans = [
-    {
-      id: 'basic',
-      name: 'Basic',
-      description: 'Perfect for fans who want to support their favorite athletes',
-      price: '$4.99',
-      icon: <Music className="h-6 w-6 text-blue-500" />,
-      features: [
-        'Ad-free listening',
-        'High-quality audio (192 kbps)',
-        'Unlimited skips',
-        'Support your favorite athletes',
-        'Early access to new releases'
-      ],
-      highlight: false,
-      cta: 'Get Started'
+
+  // Stripe Checkout sends users back here with the outcome in the query string
+  useEffect(() => {
+    const checkout = new URLSearchParams(window.location.search).get('checkout');
+    if (!checkout) return;
+
+    if (checkout === 'success') {
+      toast({
+        title: 'Subscription started',
+        description: 'Thanks for subscribing! Your plan will be active as soon as the payment is confirmed.',
+      });
+      setTab('manage');
+      refreshSubscription();
+    }
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (tier: PaidTier) => {
+      const res = await apiRequest('POST', '/api/subscription/checkout', { tier });
+      return res.json() as Promise<{ url: string }>;
     },
-    {
-      id: 'premium',
-      name: 'Premium',
-      description: 'The ultimate fan experience with exclusive content',
-      price: '$9.99',
-      icon: <Star className="h-6 w-6 text-amber-500" />,
-      features: [
-        'Everything in Basic',
-        'Premium audio quality (320 kbps)',
-        'Exclusive content access',
-        'Offline listening',
-        'Personalized playlists',
-        'Priority access to live events'
-      ],
-      highlight: true,
-      cta: 'Upgrade Now'
+    onSuccess: ({ url }) => {
+      window.location.href = url;
     },
-    {
-      id: 'athlete',
-      name: 'Athlete Pro',
-      description: 'For athletes who want to create and share content',
-      price: '$14.99',
-      icon: <Crown className="h-6 w-6 text-purple-500" />,
-      features: [
-        'Everything in Premium',
-        'Unlimited publishing',
-        'Advanced analytics',
-        'Collaboration tools',
-        'Direct fan messaging',
-        'Priority support',
-        'Custom profile branding'
-      ],
-      highlight: false,
-      cta: 'Start Creating'
+    onError: showError('Checkout Failed'),
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async ({ tier, prorationDate }: { tier: PaidTier; prorationDate?: number }) => {
+      const res = await apiRequest('POST', '/api/subscription/change', { tier, prorationDate });
+      return res.json() as Promise<SubscriptionSummary>;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: updated.subscription?.pendingTier ? 'Plan change pending' : 'Plan changed',
+        description: updated.subscription?.pendingTier
+          ? 'Your new plan starts once the prorated payment goes through.'
+          : 'Your subscription has been updated.',
+      });
+      setChangeTier(null);
+      refreshSubscription();
+    },
+    onError: showError('Plan Change Failed'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (cancel: boolean) => {
+      const res = await apiRequest('POST', cancel ? '/api/subscription/cancel' : '/api/subscription/resume');
+      return res.json() as Promise<SubscriptionSummary>;
+    },
+    onSuccess: (_, cancel) => {
+      toast({
+        title: cancel ? 'Subscription cancelled' : 'Subscription resumed',
+        description: cancel
+          ? 'Your plan stays active until the end of the current billing period.'
+          : 'Your subscription will renew as usual.',
+      });
+      refreshSubscription();
+    },
+    onError: showError('Update Failed'),
+  });
+
+  const portalMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/subscription/portal');
+      return res.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: showError('Billing Portal Unavailable'),
+  });
+
+  const choosePlan = (tier: PaidTier) => {
+    if (hasSubscription) {
+      setChangeTier(tier);
+    } else {
+      checkoutMutation.mutate(tier);
     }
-  ];
-
-  // Usage data for subscribed users
-  const usageData = [
-    { metric: 'Published tracks', value: 24, max: 50, unit: 'tracks' },
-    { metric: 'Storage used', value: 2.4, max: 10, unit: 'GB' },
-    { metric: 'Monthly plays', value: 12500, max: 'Unlimited', unit: 'plays' },
-    { metric: 'Downloads', value: 420, max: 1000, unit: 'downloads' },
-  ];
-  
-  // Payment method for subscribed users
-  const paymentMethod = {
-    type: 'credit_card',
-    brand: 'Visa',
-    last4: '4242',
-    expiryMonth: 12,
-    expiryYear: 2024
   };
 
+  const planCta = (plan: Plan) => {
+    if (!hasSubscription) return 'Subscribe';
+    if (plan.tier === summary?.tier) return 'Current Plan';
+    return TIER_ORDER.indexOf(plan.tier) > TIER_ORDER.indexOf(summary?.tier as PaidTier) ? 'Upgrade' : 'Downgrade';
+  };
+
+  // How much of the plan's quotas the user has used
+  const GB = 1024 * 1024 * 1024;
+  const usageData = entitlementSummary ? [
+    {
+      metric: 'AI generations this month',
+      value: entitlementSummary.usage.aiGenerations,
+      max: entitlementSummary.entitlements.aiGenerationsPerMonth,
+      unit: 'generations'
+    },
+    {
+      metric: 'Storage used',
+      value: Math.round(entitlementSummary.usage.storageBytes / GB * 10) / 10,
+      max: entitlementSummary.entitlements.storageBytes / GB,
+      unit: 'GB'
+    },
+  ] : [];
+
   // Calculate progress percentage for usage metrics
-  const getProgressPercentage = (value: number, max: number | string) => {
-    if (typeof max === 'string') return 100;
+  const getProgressPercentage = (value: number, max: number) => {
+    if (max === 0) return 100;
     return Math.min(Math.round((value / max) * 100), 100);
   };
-  
+
+  const changePlanName = plans.find(plan => plan.tier === changeTier)?.name;
+
   return (
     <AppLayout>
       <div className="container mx-auto py-6 space-y-8">
@@ -117,67 +235,84 @@ export default function SubscriptionsPage() {
             <h1 className="text-3xl font-bold">Subscriptions</h1>
             <p className="text-muted-foreground">Manage your plan and billing</p>
           </div>
-          
-          {hasSubscription && (
+
+          {hasSubscription && currentPlan && (
             <Badge variant="outline" className="py-1 px-3 border-2 border-primary text-primary flex items-center">
               <Crown className="h-3.5 w-3.5 mr-1" />
               {currentPlan.name}
             </Badge>
           )}
         </div>
-        
-        <Tabs defaultValue={hasSubscription ? "manage" : "plans"}>
+
+        <Tabs value={tab ?? (hasSubscription ? 'manage' : 'plans')} onValueChange={setTab}>
           <TabsList className="mb-6">
             <TabsTrigger value="plans">Plans</TabsTrigger>
             <TabsTrigger value="manage">Manage Subscription</TabsTrigger>
             <TabsTrigger value="billing">Billing History</TabsTrigger>
           </TabsList>
-          
+
           {/* Plans Tab */}
           <TabsContent value="plans">
-            <div className="grid gap-6 md:grid-cols-3">
-              {plans.map((plan) => (
-                <Card key={plan.id} className={`flex flex-col h-full ${plan.highlight ? 'border-primary shadow-md shadow-primary/10' : ''}`}>
-                  <CardHeader>
-                    <div className="flex items-center justify-between mb-2">
-                      <div className="p-2 rounded-full bg-primary/10">{plan.icon}</div>
-                      {plan.highlight && (
-                        <Badge className="bg-primary hover:bg-primary/90">Popular</Badge>
-                      )}
-                    </div>
-                    <CardTitle>{plan.name}</CardTitle>
-                    <CardDescription>{plan.description}</CardDescription>
-                    <div className="mt-4">
-                      <span className="text-3xl font-bold">{plan.price}</span>
-                      <span className="text-muted-foreground ml-1">/ month</span>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="flex-grow">
-                    <ul className="space-y-2">
-                      {plan.features.map((feature, i) => (
-                        <li key={i} className="flex items-start">
-                          <Check className="h-5 w-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
-                          <span>{feature}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </CardContent>
-                  <CardFooter>
-                    <Button 
-                      variant={plan.highlight ? "default" : "outline"} 
-                      className="w-full"
-                    >
-                      {plan.cta}
-                    </Button>
-                  </CardFooter>
-                </Card>
-              ))}
-            </div>
+            {plansLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-3">
+                {plans.map((plan) => {
+                  const highlight = plan.tier === HIGHLIGHTED_TIER;
+                  const isCurrent = hasSubscription && plan.tier === summary?.tier;
+                  return (
+                    <Card key={plan.tier} className={`flex flex-col h-full ${highlight ? 'border-primary shadow-md shadow-primary/10' : ''}`}>
+                      <CardHeader>
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="p-2 rounded-full bg-primary/10">{PLAN_ICONS[plan.tier]}</div>
+                          {isCurrent ? (
+                            <Badge variant="secondary">Current</Badge>
+                          ) : highlight && (
+                            <Badge className="bg-primary hover:bg-primary/90">Popular</Badge>
+                          )}
+                        </div>
+                        <CardTitle>{plan.name}</CardTitle>
+                        <CardDescription>{plan.description}</CardDescription>
+                        <div className="mt-4">
+                          <span className="text-3xl font-bold">{formatCents(plan.amount)}</span>
+                          <span className="text-muted-foreground ml-1">/ month</span>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="flex-grow">
+                        <ul className="space-y-2">
+                          {plan.features.map((feature, i) => (
+                            <li key={i} className="flex items-start">
+                              <Check className="h-5 w-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                              <span>{feature}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </CardContent>
+                      <CardFooter>
+                        <Button
+                          variant={highlight ? "default" : "outline"}
+                          className="w-full"
+                          disabled={isCurrent || checkoutMutation.isPending}
+                          onClick={() => choosePlan(plan.tier)}
+                        >
+                          {checkoutMutation.isPending && checkoutMutation.variables === plan.tier && (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          )}
+                          {planCta(plan)}
+                        </Button>
+                      </CardFooter>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
           </TabsContent>
-          
+
           {/* Manage Subscription Tab */}
           <TabsContent value="manage">
-            {hasSubscription ? (
+            {subscription && currentPlan ? (
               <div className="grid gap-6 md:grid-cols-2">
                 {/* Current Plan Card */}
                 <Card>
@@ -191,18 +326,29 @@ export default function SubscriptionsPage() {
                         <div>
                           <h3 className="text-lg font-semibold flex items-center">
                             {currentPlan.name}
-                            <Badge variant="secondary" className="ml-2">Active</Badge>
+                            {subscription.cancelAtPeriodEnd ? (
+                              <Badge variant="outline" className="ml-2">Cancelling</Badge>
+                            ) : subscription.status === 'past_due' ? (
+                              <Badge variant="destructive" className="ml-2">Payment Due</Badge>
+                            ) : (
+                              <Badge variant="secondary" className="ml-2">Active</Badge>
+                            )}
                           </h3>
-                          <p className="text-muted-foreground">Billed {currentPlan.billingCycle}</p>
+                          <p className="text-muted-foreground">Billed monthly</p>
                         </div>
-                        <div className="text-xl font-bold">{currentPlan.price}</div>
+                        <div className="text-xl font-bold">{formatCents(currentPlan.amount)}</div>
                       </div>
                       <div className="mt-4 flex items-center text-sm text-muted-foreground">
                         <Calendar className="h-4 w-4 mr-1" />
-                        Next billing date: {currentPlan.nextBillingDate}
+                        {subscription.cancelAtPeriodEnd ? 'Ends on' : 'Next billing date'}: {formatStripeDate(subscription.currentPeriodEnd)}
                       </div>
+                      {subscription.pendingTier && (
+                        <p className="mt-2 text-sm text-amber-600">
+                          Your change to {plans.find(plan => plan.tier === subscription.pendingTier)?.name ?? subscription.pendingTier} is waiting for its payment to go through.
+                        </p>
+                      )}
                     </div>
-                    
+
                     <div className="space-y-1">
                       <h4 className="text-sm font-medium">Plan Features</h4>
                       <ul className="space-y-1 text-sm">
@@ -216,13 +362,29 @@ export default function SubscriptionsPage() {
                     </div>
                   </CardContent>
                   <CardFooter className="flex flex-col space-y-2">
-                    <Button variant="outline" className="w-full">Change Plan</Button>
-                    <Button variant="ghost" className="w-full text-destructive hover:text-destructive">
-                      Cancel Subscription
-                    </Button>
+                    <Button variant="outline" className="w-full" onClick={() => setTab('plans')}>Change Plan</Button>
+                    {subscription.cancelAtPeriodEnd ? (
+                      <Button
+                        variant="ghost"
+                        className="w-full"
+                        disabled={cancelMutation.isPending}
+                        onClick={() => cancelMutation.mutate(false)}
+                      >
+                        Resume Subscription
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        className="w-full text-destructive hover:text-destructive"
+                        disabled={cancelMutation.isPending}
+                        onClick={() => cancelMutation.mutate(true)}
+                      >
+                        Cancel Subscription
+                      </Button>
+                    )}
                   </CardFooter>
                 </Card>
-                
+
                 {/* Usage and Payment Info */}
                 <div className="space-y-6">
                   {/* Usage Card */}
@@ -241,16 +403,22 @@ export default function SubscriptionsPage() {
                                 {item.value.toLocaleString()} / {item.max.toLocaleString()} {item.unit}
                               </div>
                             </div>
-                            <Progress 
-                              value={getProgressPercentage(item.value, item.max)} 
+                            <Progress
+                              value={getProgressPercentage(item.value, item.max)}
                               className={getProgressPercentage(item.value, item.max) > 80 ? "bg-amber-100" : ""}
                             />
                           </div>
                         ))}
+                        {entitlementSummary && (
+                          <div className="flex justify-between items-center text-sm">
+                            <div className="font-medium">Live studio session seats</div>
+                            <div className="text-muted-foreground">{entitlementSummary.entitlements.studioSeats}</div>
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
-                  
+
                   {/* Payment Card */}
                   <Card>
                     <CardHeader>
@@ -262,18 +430,20 @@ export default function SubscriptionsPage() {
                         <div className="mr-4">
                           <CreditCard className="h-8 w-8 text-primary" />
                         </div>
-                        <div>
-                          <div className="font-medium">
-                            {paymentMethod.brand} •••• {paymentMethod.last4}
-                          </div>
-                          <div className="text-sm text-muted-foreground">
-                            Expires {paymentMethod.expiryMonth}/{paymentMethod.expiryYear}
-                          </div>
+                        <div className="text-sm text-muted-foreground">
+                          Cards and billing details are managed securely by Stripe.
                         </div>
                       </div>
                     </CardContent>
                     <CardFooter>
-                      <Button variant="outline" className="w-full">Update Payment Method</Button>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        disabled={portalMutation.isPending}
+                        onClick={() => portalMutation.mutate()}
+                      >
+                        Update Payment Method
+                      </Button>
                     </CardFooter>
                   </Card>
                 </div>
@@ -287,14 +457,14 @@ export default function SubscriptionsPage() {
                 <p className="text-muted-foreground max-w-md mx-auto mb-6">
                   You don't have an active subscription. Choose a plan to unlock premium features and support your favorite athletes.
                 </p>
-                <Button>View Plans</Button>
+                <Button onClick={() => setTab('plans')}>View Plans</Button>
               </div>
             )}
           </TabsContent>
-          
+
           {/* Billing History Tab */}
           <TabsContent value="billing">
-            {hasSubscription ? (
+            {invoices.length > 0 ? (
               <Card>
                 <CardHeader>
                   <CardTitle>Billing History</CardTitle>
@@ -310,51 +480,31 @@ export default function SubscriptionsPage() {
                       <div></div>
                     </div>
                     <div className="divide-y">
-                      <div className="grid grid-cols-5 p-4 text-xs sm:text-sm">
-                        <div className="text-muted-foreground">Apr 15, 2023</div>
-                        <div>Athlete Pro - Monthly</div>
-                        <div>${currentPlan.price.replace('$', '')}</div>
-                        <div className="flex items-center">
-                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                            Paid
-                          </Badge>
-                        </div>
-                        <div className="text-right">
-                          <Button variant="ghost" size="sm">
-                            View
-                          </Button>
-                        </div>
-                      </div>
-                      <div className="grid grid-cols-5 p-4 text-xs sm:text-sm">
-                        <div className="text-muted-foreground">Mar 15, 2023</div>
-                        <div>Athlete Pro - Monthly</div>
-                        <div>${currentPlan.price.replace('$', '')}</div>
-                        <div className="flex items-center">
-                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                            Paid
-                          </Badge>
-                        </div>
-                        <div className="text-right">
-                          <Button variant="ghost" size="sm">
-                            View
-                          </Button>
-                        </div>
-                      </div>
-                      <div className="grid grid-cols-5 p-4 text-xs sm:text-sm">
-                        <div className="text-muted-foreground">Feb 15, 2023</div>
-                        <div>Athlete Pro - Monthly</div>
-                        <div>${currentPlan.price.replace('$', '')}</div>
-                        <div className="flex items-center">
-                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                            Paid
-                          </Badge>
-                        </div>
-                        <div className="text-right">
-                          <Button variant="ghost" size="sm">
-                            View
-                          </Button>
+                      {invoices.map(invoice => (
+                        <div key={invoice.id} className="grid grid-cols-5 p-4 text-xs sm:text-sm">
+                          <div className="text-muted-foreground">{formatStripeDate(invoice.created)}</div>
+                          <div>{invoice.description}</div>
+                          <div>{formatCents(invoice.amount)}</div>
+                          <div className="flex items-center">
+                            {invoice.status === 'paid' ? (
+                              <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                                Paid
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline" className="capitalize">
+                                {invoice.status ?? 'Draft'}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="text-right">
+                            {invoice.url && (
+                              <Button variant="ghost" size="sm" asChild>
+                                <a href={invoice.url} target="_blank" rel="noopener noreferrer">View</a>
+                              </Button>
+                            )}
+                          </div>
                         </div>
-                      </div>
+                      ))}
                     </div>
                   </div>
                 </CardContent>
@@ -368,12 +518,65 @@ export default function SubscriptionsPage() {
                 <p className="text-muted-foreground max-w-md mx-auto mb-6">
                   You don't have any billing history yet. Subscribe to a plan to see your billing information here.
                 </p>
-                <Button>View Plans</Button>
+                <Button onClick={() => setTab('plans')}>View Plans</Button>
               </div>
             )}
           </TabsContent>
         </Tabs>
       </div>
+
+      {/* Plan change confirmation, with what the change costs */}
+      <Dialog open={!!changeTier} onOpenChange={(open) => !open && setChangeTier(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Switch to {changePlanName}</DialogTitle>
+            <DialogDescription>
+              Charges are prorated for the rest of your current billing period.
+            </DialogDescription>
+          </DialogHeader>
+          {previewLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : previewError ? (
+            <p className="text-sm text-destructive">{(previewError as Error).message}</p>
+          ) : preview && (
+            <div className="space-y-2 text-sm">
+              {preview.chargedNow ? (
+                <p>
+                  You'll be charged <span className="font-semibold">{formatCents(Math.max(preview.amountDue, 0))}</span> today
+                  for the rest of this billing period.
+                </p>
+              ) : (
+                <p>
+                  {preview.prorationAmount < 0 ? (
+                    <>You'll get a credit of <span className="font-semibold">{formatCents(-preview.prorationAmount)}</span> for the unused time on your current plan.</>
+                  ) : (
+                    <>A prorated <span className="font-semibold">{formatCents(preview.prorationAmount)}</span> is added to your next invoice.</>
+                  )}
+                </p>
+              )}
+              {preview.nextPaymentDate && (
+                <p className="text-muted-foreground">
+                  {preview.chargedNow
+                    ? `Your plan renews on ${formatStripeDate(preview.nextPaymentDate)}.`
+                    : `Your next invoice of ${formatCents(Math.max(preview.amountDue, 0))} is due on ${formatStripeDate(preview.nextPaymentDate)}.`}
+                </p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChangeTier(null)}>Cancel</Button>
+            <Button
+              disabled={!preview || previewLoading || changeMutation.isPending}
+              onClick={() => changeTier && changeMutation.mutate({ tier: changeTier, prorationDate: preview?.prorationDate })}
+            >
+              {changeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm Change
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </AppLayout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { useRoute } from 'wouter';
+import { DirectoryAthletes, DirectoryLink, type DirectoryAthlete } from '@/components/directory-athletes';
+
+interface TeamDetails {
+  team: { id: number; name: string; city: string | null; abbreviation: string | null };
+  league?: { id: number; name: string; abbreviation: string; sport: string };
+  athletes: DirectoryAthlete[];
+}
+
+export default function TeamPage() {
+  const [, params] = useRoute('/teams/:id');
+
+  const { data, isLoading, error } = useQuery<TeamDetails>({
+    queryKey: ['/api/teams', params?.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/teams/${params?.id}`);
+      if (!res.ok) throw new Error('Failed to fetch team');
+      return res.json();
+    },
+    enabled: !!params?.id,
+  });
+
+  if (isLoading) {
+    return <div className="p-8 text-zinc-400">Loading team...</div>;
+  }
+  if (error || !data) {
+    return <div className="p-8 text-zinc-400">This team could not be found.</div>;
+  }
+
+  return (
+    <div className="px-4 py-8 max-w-4xl mx-auto">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold">{data.team.name}</h1>
+        <p className="text-zinc-400 mt-1">
+          {data.team.city}
+          {data.league && (
+            <> • <DirectoryLink href={`/leagues/${data.league.id}`}>{data.league.name}</DirectoryLink></>
+          )}
+        </p>
+      </header>
+      
+      <h2 className="text-xl font-bold mb-4">Athletes</h2>
+      <DirectoryAthletes athletes={data.athletes} />
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import fs from "fs";
+import { describe, it, expect, beforeEach } from "vitest";
+import { type User } from "@shared/schema";
+import { storage } from "./storage";
+import { saveGeneratedFile, resolveUploadUrl } from "./uploads";
+import { eraseAccount } from "./accountStatus";
+import { storageUsed } from "./entitlements";
+
+const exists = (url: string) => fs.existsSync(resolveUploadUrl(url)!);
+
+describe("eraseAccount", () => {
+  let user: User;
+  let other: User;
+
+  beforeEach(async () => {
+    user = await storage.createUser({ username: "leaving", password: "x", email: "leaving@example.com", fullName: "Leaving" });
+    other = await storage.createUser({ username: "other", password: "x", email: "other@example.com", fullName: "Other" });
+  });
+
+  it("removes the user's own files", async () => {
+    const image = await saveGeneratedFile("images", "profileImage", ".png", Buffer.from("own"), user.id);
+    await storage.updateUser(user.id, { profileImage: image });
+
+    expect(await eraseAccount((await storage.getUser(user.id))!)).toBe(true);
+    expect(exists(image)).toBe(false);
+  });
+
+  it("leaves files the user's records point at in other users' folders alone", async () => {
+    const othersImage = await saveGeneratedFile("images", "profileImage", ".png", Buffer.from("not theirs"), other.id);
+    const othersAudio = await saveGeneratedFile("originals", "audio", ".wav", Buffer.from("not theirs"), other.id);
+    await storage.updateUser(user.id, { profileImage: othersImage });
+    await storage.createTrack({ title: "Borrowed", artistId: user.id, audioUrl: othersAudio, coverArt: othersImage });
+
+    const leaving = (await storage.getUser(user.id))!;
+    expect(await storageUsed(leaving)).toBe(0);
+
+    await eraseAccount(leaving);
+    expect(exists(othersImage)).toBe(true);
+    expect(exists(othersAudio)).toBe(true);
+  });
+});
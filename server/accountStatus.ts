@@ -0,0 +1,103 @@
+import fs from "fs/promises";
+import { type User } from "@shared/schema";
+import { storage } from "./storage";
+import { resolveOwnedUploadUrl } from "./uploads";
+import { resolveOwnedPrivateFileRef } from "./privateFiles";
+import { getTrackRenditions } from "./trackProcessing";
+import { type StemFile } from "./stems";
+
+// Accounts can be suspended for a while, banned, or deleted. Deleted accounts are only marked as
+// such, so an admin can restore them; erasing an account removes it and everything in it for good.
+// Restricted users are turned away at login, their sessions stop resolving to them, and the
+// WebSocket server won't let them join.
+
+export type AccountStatus = User["accountStatus"];
+
+// Why a user can't use their account right now, or undefined if they can. A suspension that has
+// run out no longer counts, even before the account has been set back to active.
+export function accountRestriction(user: User): string | undefined {
+  switch (user.accountStatus) {
+    case 'suspended':
+      if (!user.suspendedUntil || user.suspendedUntil <= new Date()) return undefined;
+      return `This account is suspended until ${user.suspendedUntil.toUTCString()}${user.statusReason ? `: ${user.statusReason}` : ""}`;
+    case 'banned':
+      return `This account has been banned${user.statusReason ? `: ${user.statusReason}` : ""}`;
+    case 'deleted':
+      return "This account has been deleted";
+    default:
+      return undefined;
+  }
+}
+
+export function isAccountActive(user: User): boolean {
+  return !accountRestriction(user);
+}
+
+export async function suspendAccount(userId: number, until: Date, reason: string): Promise<User | undefined> {
+  return storage.updateUser(userId, { accountStatus: 'suspended', suspendedUntil: until, statusReason: reason });
+}
+
+export async function banAccount(userId: number, reason: string): Promise<User | undefined> {
+  return storage.updateUser(userId, { accountStatus: 'banned', suspendedUntil: null, statusReason: reason });
+}
+
+// Lift a suspension or ban, or restore a deleted account
+export async function reinstateAccount(userId: number): Promise<User | undefined> {
+  return storage.updateUser(userId, { accountStatus: 'active', suspendedUntil: null, statusReason: null, deletedAt: null });
+}
+
+// Delete an account while keeping its data, so it can be restored. Their tracks come off the
+// public catalogue, which restoring doesn't undo.
+export async function softDeleteAccount(userId: number): Promise<User | undefined> {
+  const tracks = await storage.getTracksByArtist(userId);
+  for (const track of tracks.filter(track => track.isPublished)) {
+    await storage.updateTrack(track.id, { isPublished: false });
+  }
+  return storage.updateUser(userId, { accountStatus: 'deleted', deletedAt: new Date() });
+}
+
+// Every file the user uploaded or had rendered, on disk. The URLs come from records users can
+// edit, so only files in the user's own folders count; files from before files were kept per
+// user can't be told apart from anyone else's and are left out.
+export async function userFilePaths(user: User): Promise<string[]> {
+  const urls: (string | null)[] = [user.profileImage];
+
+  for (const track of await storage.getTracksByArtist(user.id)) {
+    urls.push(track.audioUrl, track.originalAudioUrl, track.coverArt, track.peaksUrl);
+    urls.push(...getTrackRenditions(track).map(rendition => rendition.url));
+  }
+  for (const project of await storage.getStudioProjectsByUser(user.id)) {
+    for (const projectTrack of await storage.getProjectTracksByProject(project.id)) {
+      urls.push(projectTrack.audioUrl, projectTrack.peaksUrl);
+    }
+    for (const job of await storage.getRenderJobsByProject(project.id)) {
+      urls.push(job.outputUrl);
+      if (job.outputFiles) {
+        urls.push(...(JSON.parse(job.outputFiles) as StemFile[]).map(stem => stem.url));
+      }
+    }
+  }
+  for (const doc of await storage.getVerificationDocsByUserId(user.id)) {
+    urls.push(doc.documentUrl);
+  }
+
+  const filePaths = urls.map(url => url ? resolveOwnedUploadUrl(url, user.id) ?? resolveOwnedPrivateFileRef(url, user.id) : undefined);
+  return Array.from(new Set(filePaths.filter((filePath): filePath is string => !!filePath)));
+}
+
+// Erase an account for good: the user, their tracks, messages, projects, sessions and comments,
+// and the files behind them. Files are removed once the records are gone; one that can't be
+// removed is logged rather than failing the erasure.
+export async function eraseAccount(user: User): Promise<boolean> {
+  const filePaths = await userFilePaths(user);
+  if (!(await storage.eraseUser(user.id))) return false;
+
+  await Promise.all(filePaths.map(async filePath => {
+    try {
+      await fs.rm(filePath, { force: true });
+    } catch (error) {
+      console.error(`Failed to remove ${filePath} while erasing user ${user.id}:`, error);
+    }
+  }));
+  return true;
+}
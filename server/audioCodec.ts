@@ -0,0 +1,181 @@
+import fs from "fs/promises";
+import { decodeAudioData } from "web-audio-api/lib/utils";
+import { Mp3Encoder } from "@breezystack/lamejs";
+
+// Decoded audio: one Float32Array of samples in [-1, 1] per channel
+export interface PcmAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+// Give up on files the decoder chokes on instead of hanging a job forever
+const DECODE_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Decode WAV, MP3, FLAC, ALAC or AAC data to PCM
+export function decodeAudio(data: Buffer): Promise<PcmAudio> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error("Timed out decoding audio")), DECODE_TIMEOUT_MS);
+
+    try {
+      decodeAudioData(data, (error, audioBuffer) => {
+        clearTimeout(timeout);
+        if (error || !audioBuffer) {
+          return reject(error || new Error("Unable to decode audio"));
+        }
+        if (audioBuffer.length === 0 || audioBuffer.numberOfChannels === 0) {
+          return reject(new Error("Audio file contains no samples"));
+        }
+
+        const channels: Float32Array[] = [];
+        for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+          channels.push(audioBuffer.getChannelData(channel));
+        }
+        resolve({ sampleRate: audioBuffer.sampleRate, channels });
+      });
+    } catch (error) {
+      clearTimeout(timeout);
+      reject(error);
+    }
+  });
+}
+
+export async function decodeAudioFile(filePath: string): Promise<PcmAudio> {
+  return decodeAudio(await fs.readFile(filePath));
+}
+
+export function getDuration(audio: PcmAudio): number {
+  return audio.channels[0].length / audio.sampleRate;
+}
+
+export function createSilence(sampleRate: number, channelCount: number, length: number): PcmAudio {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < channelCount; channel++) {
+    channels.push(new Float32Array(length));
+  }
+  return { sampleRate, channels };
+}
+
+// Up- or down-mix to stereo: mono is duplicated, extra channels are dropped
+export function toStereo(audio: PcmAudio): PcmAudio {
+  if (audio.channels.length === 2) return audio;
+  if (audio.channels.length === 1) {
+    return { sampleRate: audio.sampleRate, channels: [audio.channels[0], audio.channels[0].slice()] };
+  }
+  return { sampleRate: audio.sampleRate, channels: audio.channels.slice(0, 2) };
+}
+
+// Linear-interpolation sample rate conversion
+export function resample(audio: PcmAudio, sampleRate: number): PcmAudio {
+  if (audio.sampleRate === sampleRate) return audio;
+
+  const ratio = audio.sampleRate / sampleRate;
+  const length = Math.floor(audio.channels[0].length / ratio);
+  const channels = audio.channels.map(input => {
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const current = input[index] ?? 0;
+      const next = input[index + 1] ?? current;
+      output[i] = current + (next - current) * fraction;
+    }
+    return output;
+  });
+
+  return { sampleRate, channels };
+}
+
+// Encode PCM as a little-endian PCM WAV file
+export function encodeWav(audio: PcmAudio, bitDepth: 16 | 24 = 16): Buffer {
+  const channelCount = audio.channels.length;
+  const length = audio.channels[0].length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write("RIFF", 0, "ascii");
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write("WAVE", 8, "ascii");
+  buffer.write("fmt ", 12, "ascii");
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(channelCount, 22);
+  buffer.writeUInt32LE(audio.sampleRate, 24);
+  buffer.writeUInt32LE(audio.sampleRate * blockAlign, 28);
+  buffer.writeUInt16LE(blockAlign, 32);
+  buffer.writeUInt16LE(bitDepth, 34);
+  buffer.write("data", 36, "ascii");
+  buffer.writeUInt32LE(dataSize, 40);
+
+  const maxValue = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const sample = Math.max(-1, Math.min(1, audio.channels[channel][i]));
+      const value = Math.round(sample * maxValue);
+      if (bitDepth === 16) {
+        buffer.writeInt16LE(value, offset);
+      } else {
+        buffer.writeIntLE(value, offset, 3);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+// Sample rates the MP3 encoder accepts without resampling
+const MP3_SAMPLE_RATES = [32000, 44100, 48000];
+// Samples per MPEG-1 Layer III frame
+const MP3_FRAME_SIZE = 1152;
+
+function toInt16(samples: Float32Array): Int16Array {
+  const output = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    output[i] = Math.round(sample * 0x7fff);
+  }
+  return output;
+}
+
+// Encode PCM as a constant bitrate MP3. Mono stays mono, anything wider is mixed to stereo.
+export function encodeMp3(audio: PcmAudio, kbps: number): Buffer {
+  const source = audio.channels.length === 1 ? audio : toStereo(audio);
+  const encodable = MP3_SAMPLE_RATES.includes(source.sampleRate) ? source : resample(source, 44100);
+  const channels = encodable.channels.map(toInt16);
+
+  const encoder = new Mp3Encoder(channels.length, encodable.sampleRate, kbps);
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < channels[0].length; offset += MP3_FRAME_SIZE) {
+    const left = channels[0].subarray(offset, offset + MP3_FRAME_SIZE);
+    const right = channels[1]?.subarray(offset, offset + MP3_FRAME_SIZE);
+    const frame = encoder.encodeBuffer(left, right);
+    if (frame.length > 0) chunks.push(Buffer.from(frame));
+  }
+  chunks.push(Buffer.from(encoder.flush()));
+
+  return Buffer.concat(chunks);
+}
+
+// Extend a WAV file written by encodeWav with trailing silence up to the given number of frames
+export async function padWavFile(filePath: string, frames: number): Promise<void> {
+  const file = await fs.open(filePath, "r+");
+  try {
+    const header = Buffer.alloc(44);
+    await file.read(header, 0, 44, 0);
+    const blockAlign = header.readUInt16LE(32);
+    const dataSize = header.readUInt32LE(40);
+    const targetSize = frames * blockAlign;
+    if (targetSize <= dataSize) return;
+
+    await file.truncate(44 + targetSize);
+    header.writeUInt32LE(36 + targetSize, 4);
+    header.writeUInt32LE(targetSize, 40);
+    await file.write(header, 0, 44, 0);
+  } finally {
+    await file.close();
+  }
+}
@@ -0,0 +1,426 @@
+import { z } from "zod";
+import { type PcmAudio } from "./audioCodec";
+
+// Parameter shapes match what the mastering panel stores as JSON on masteringSettings. They come
+// from the client, so they're checked against the ranges the panel offers before rendering.
+export const eqSettingsSchema = z.object({
+  lowGain: z.number().min(-24).max(24), // dB
+  midGain: z.number().min(-24).max(24), // dB
+  highGain: z.number().min(-24).max(24), // dB
+  lowFreq: z.number().min(20).max(20000), // Hz
+  highFreq: z.number().min(20).max(20000) // Hz
+});
+
+export const compressorSettingsSchema = z.object({
+  threshold: z.number().min(-100).max(0), // dB
+  ratio: z.number().min(1).max(20),
+  attack: z.number().min(0).max(1000), // ms
+  release: z.number().min(0).max(5000), // ms
+  knee: z.number().min(0).max(40), // dB
+  makeupGain: z.number().min(0).max(24) // dB
+});
+
+export const limiterSettingsSchema = z.object({
+  threshold: z.number().min(-24).max(0), // dBFS ceiling
+  release: z.number().min(0).max(5000) // ms
+});
+
+export type EqSettings = z.infer<typeof eqSettingsSchema>;
+export type CompressorSettings = z.infer<typeof compressorSettingsSchema>;
+export type LimiterSettings = z.infer<typeof limiterSettingsSchema>;
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+export function gainToDb(gain: number): number {
+  return 20 * Math.log10(gain);
+}
+
+// Scale and pan stereo audio in place. Pan runs from -1 (left) to 1 (right) with an equal-power law.
+export function applyGainAndPan(audio: PcmAudio, gain: number, pan: number): void {
+  const angle = (Math.max(-1, Math.min(1, pan)) + 1) * Math.PI / 4;
+  const gains = [gain * Math.cos(angle) * Math.SQRT2, gain * Math.sin(angle) * Math.SQRT2];
+
+  audio.channels.forEach((samples, channel) => {
+    const channelGain = audio.channels.length === 2 ? gains[channel] : gain;
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] *= channelGain;
+    }
+  });
+}
+
+export function applyGain(audio: PcmAudio, gain: number): void {
+  audio.channels.forEach(samples => {
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] *= gain;
+    }
+  });
+}
+
+export function measurePeak(audio: PcmAudio): number {
+  let peak = 0;
+  audio.channels.forEach(samples => {
+    for (let i = 0; i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+  });
+  return peak;
+}
+
+// Normalised biquad coefficients (a0 == 1)
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// Filter designs from the RBJ Audio EQ Cookbook
+function shelf(type: "low" | "high", sampleRate: number, frequency: number, gainDb: number, slope = 1): Biquad {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = 2 * Math.PI * frequency / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / 2 * Math.sqrt((A + 1 / A) * (1 / slope - 1) + 2);
+  const twoSqrtAAlpha = 2 * Math.sqrt(A) * alpha;
+  const sign = type === "low" ? 1 : -1;
+
+  const b0 = A * ((A + 1) - sign * (A - 1) * cos + twoSqrtAAlpha);
+  const b1 = sign * 2 * A * ((A - 1) - sign * (A + 1) * cos);
+  const b2 = A * ((A + 1) - sign * (A - 1) * cos - twoSqrtAAlpha);
+  const a0 = (A + 1) + sign * (A - 1) * cos + twoSqrtAAlpha;
+  const a1 = -sign * 2 * ((A - 1) + sign * (A + 1) * cos);
+  const a2 = (A + 1) + sign * (A - 1) * cos - twoSqrtAAlpha;
+
+  return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+function peaking(sampleRate: number, frequency: number, gainDb: number, q: number): Biquad {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = 2 * Math.PI * frequency / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+
+  const a0 = 1 + alpha / A;
+  return {
+    b0: (1 + alpha * A) / a0,
+    b1: (-2 * cos) / a0,
+    b2: (1 - alpha * A) / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha / A) / a0
+  };
+}
+
+function highPass(sampleRate: number, frequency: number, q: number): Biquad {
+  const w0 = 2 * Math.PI * frequency / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+
+  const a0 = 1 + alpha;
+  return {
+    b0: ((1 + cos) / 2) / a0,
+    b1: -(1 + cos) / a0,
+    b2: ((1 + cos) / 2) / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0
+  };
+}
+
+function filter(samples: Float32Array, coefficients: Biquad, output = samples): Float32Array {
+  const { b0, b1, b2, a1, a2 } = coefficients;
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+// Three-band EQ: shelves at the low/high frequencies and a bell halfway between them (on a log scale)
+export function applyEq(audio: PcmAudio, settings: EqSettings): void {
+  const nyquist = audio.sampleRate / 2;
+  const lowFreq = Math.min(Math.max(settings.lowFreq, 20), nyquist * 0.9);
+  const highFreq = Math.min(Math.max(settings.highFreq, lowFreq), nyquist * 0.9);
+  const midFreq = Math.sqrt(lowFreq * highFreq);
+
+  const filters: Biquad[] = [];
+  if (settings.lowGain) filters.push(shelf("low", audio.sampleRate, lowFreq, settings.lowGain));
+  if (settings.midGain) filters.push(peaking(audio.sampleRate, midFreq, settings.midGain, 0.7));
+  if (settings.highGain) filters.push(shelf("high", audio.sampleRate, highFreq, settings.highGain));
+
+  audio.channels.forEach(samples => {
+    filters.forEach(coefficients => filter(samples, coefficients));
+  });
+}
+
+// One-pole smoothing coefficient for a time constant in ms
+function timeCoefficient(ms: number, sampleRate: number): number {
+  return ms > 0 ? Math.exp(-1 / (ms / 1000 * sampleRate)) : 0;
+}
+
+// Feed-forward compressor with a soft knee. The channels share one detector so the stereo image doesn't shift.
+export function applyCompressor(audio: PcmAudio, settings: CompressorSettings): void {
+  const { threshold, knee } = settings;
+  const ratio = Math.max(1, settings.ratio);
+  const attack = timeCoefficient(settings.attack, audio.sampleRate);
+  const release = timeCoefficient(settings.release, audio.sampleRate);
+  const makeup = settings.makeupGain;
+  const length = audio.channels[0].length;
+
+  let reductionDb = 0;
+  for (let i = 0; i < length; i++) {
+    let level = 0;
+    for (const samples of audio.channels) {
+      level = Math.max(level, Math.abs(samples[i]));
+    }
+    const levelDb = level > 0 ? gainToDb(level) : -120;
+
+    // Static gain curve
+    const over = levelDb - threshold;
+    let targetReduction = 0;
+    if (knee > 0 && Math.abs(over) <= knee / 2) {
+      targetReduction = (1 / ratio - 1) * Math.pow(over + knee / 2, 2) / (2 * knee);
+    } else if (over > 0) {
+      targetReduction = (1 / ratio - 1) * over;
+    }
+
+    // More reduction follows the attack time, less follows the release time
+    const coefficient = targetReduction < reductionDb ? attack : release;
+    reductionDb = coefficient * reductionDb + (1 - coefficient) * targetReduction;
+
+    const gain = dbToGain(reductionDb + makeup);
+    for (const samples of audio.channels) {
+      samples[i] *= gain;
+    }
+  }
+}
+
+// Brickwall limiter with a short lookahead so peaks are caught before they pass
+export function applyLimiter(audio: PcmAudio, settings: LimiterSettings): void {
+  const ceiling = dbToGain(Math.min(settings.threshold, 0));
+  const lookahead = Math.max(1, Math.round(audio.sampleRate * 0.005));
+  const release = timeCoefficient(settings.release, audio.sampleRate);
+  const length = audio.channels[0].length;
+
+  // Gain each sample needs on its own, then held over the lookahead window
+  const required = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let level = 0;
+    for (const samples of audio.channels) {
+      level = Math.max(level, Math.abs(samples[i]));
+    }
+    required[i] = level > ceiling ? ceiling / level : 1;
+  }
+
+  const windowMinimum = slidingMinimum(required, lookahead);
+  let gain = 1;
+  for (let i = 0; i < length; i++) {
+    const target = windowMinimum[i];
+    gain = target < gain ? target : release * gain + (1 - release) * target;
+
+    for (const samples of audio.channels) {
+      // The final clamp guarantees the ceiling even where smoothing lags behind
+      const value = samples[i] * gain;
+      samples[i] = Math.max(-ceiling, Math.min(ceiling, value));
+    }
+  }
+}
+
+// Minimum of values[i .. i + window) for every i
+function slidingMinimum(values: Float32Array, window: number): Float32Array {
+  const result = new Float32Array(values.length);
+  const indices: number[] = [];
+  let head = 0;
+
+  for (let i = values.length - 1; i >= 0; i--) {
+    while (indices.length > head && values[indices[indices.length - 1]] >= values[i]) {
+      indices.pop();
+    }
+    indices.push(i);
+    while (indices[head] >= i + window) {
+      head++;
+    }
+    result[i] = values[indices[head]];
+  }
+  return result;
+}
+
+// Integrated loudness in LUFS following ITU-R BS.1770-4 (K-weighting, 400ms blocks, absolute and relative gating).
+// Returns -Infinity for silence.
+export function measureIntegratedLoudness(audio: PcmAudio): number {
+  const { sampleRate } = audio;
+  const preFilter = shelf("high", sampleRate, 1681.974450955533, 3.99984385397, 1);
+  const rlbFilter = highPass(sampleRate, 38.13547087602444, 0.5003270373238773);
+
+  const weighted = audio.channels.map(samples => {
+    const output = filter(samples, preFilter, new Float32Array(samples.length));
+    return filter(output, rlbFilter);
+  });
+
+  const blockSize = Math.round(sampleRate * 0.4);
+  const step = Math.round(blockSize / 4);
+  const length = weighted[0].length;
+
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockSize <= length; start += step) {
+    let power = 0;
+    for (const samples of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) {
+        sum += samples[i] * samples[i];
+      }
+      power += sum / blockSize;
+    }
+    blockPowers.push(power);
+  }
+
+  const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+
+  const absoluteGated = blockPowers.filter(power => loudness(power) > -70);
+  if (absoluteGated.length === 0) return -Infinity;
+
+  const relativeThreshold = loudness(mean(absoluteGated)) - 10;
+  const relativeGated = absoluteGated.filter(power => loudness(power) > relativeThreshold);
+  return loudness(mean(relativeGated));
+}
+
+// The delay line is allocated up front, so its length is capped
+export const MAX_DELAY_SECONDS = 5;
+
+// Per-track effect settings saved by the studio's AudioEngine (TrackEffects in client/src/lib/audio-engine.ts).
+// They come from the client, so they're checked against the ranges the studio offers before rendering.
+export const trackEffectsSchema = z.object({
+  eq: z.object({ // dB per band
+    low: z.number().min(-24).max(24),
+    mid: z.number().min(-24).max(24),
+    high: z.number().min(-24).max(24),
+    enabled: z.boolean()
+  }).optional(),
+  compressor: z.object({ // attack/release in ms
+    threshold: z.number().min(-100).max(0),
+    ratio: z.number().min(1).max(20),
+    attack: z.number().min(0).max(1000),
+    release: z.number().min(0).max(1000),
+    enabled: z.boolean()
+  }).optional(),
+  reverb: z.object({ // decay in seconds, mix 0-1
+    decay: z.number().min(0).max(10),
+    mix: z.number().min(0).max(1),
+    enabled: z.boolean()
+  }).optional(),
+  delay: z.object({ // time in seconds, feedback/mix 0-1
+    time: z.number().min(0).max(MAX_DELAY_SECONDS),
+    feedback: z.number().min(0).max(1),
+    mix: z.number().min(0).max(1),
+    enabled: z.boolean()
+  }).optional()
+});
+
+export type TrackEffects = z.infer<typeof trackEffectsSchema>;
+
+// Defaults of the Tone.js nodes the studio plays effects through
+const EQ3_LOW_FREQUENCY = 400;
+const EQ3_HIGH_FREQUENCY = 2500;
+const TONE_COMPRESSOR_KNEE = 30;
+
+// Run a track through the same chain as AudioEngine: EQ, compressor, reverb, delay
+export function applyTrackEffects(audio: PcmAudio, effects: TrackEffects): void {
+  if (effects.eq?.enabled) {
+    applyEq(audio, {
+      lowGain: effects.eq.low,
+      midGain: effects.eq.mid,
+      highGain: effects.eq.high,
+      lowFreq: EQ3_LOW_FREQUENCY,
+      highFreq: EQ3_HIGH_FREQUENCY
+    });
+  }
+  if (effects.compressor?.enabled) {
+    applyCompressor(audio, { ...effects.compressor, knee: TONE_COMPRESSOR_KNEE, makeupGain: 0 });
+  }
+  if (effects.reverb?.enabled) {
+    applyReverb(audio, effects.reverb.decay, effects.reverb.mix);
+  }
+  if (effects.delay?.enabled) {
+    applyFeedbackDelay(audio, effects.delay.time, effects.delay.feedback, effects.delay.mix);
+  }
+}
+
+function mixWet(dry: number, wet: number, amount: number): number {
+  return dry * (1 - amount) + wet * amount;
+}
+
+// Schroeder reverb: parallel feedback combs tuned so the tail falls 60dB over `decay` seconds, then two allpasses.
+// The right channel uses slightly longer delays to keep the tail wide.
+const COMB_DELAYS_MS = [29.7, 37.1, 41.1, 43.7];
+const ALLPASS_DELAYS_MS = [5.0, 1.7];
+const ALLPASS_GAIN = 0.7;
+const STEREO_SPREAD_MS = 0.5;
+
+export function applyReverb(audio: PcmAudio, decay: number, mix: number): void {
+  const amount = Math.max(0, Math.min(1, mix));
+  if (amount === 0 || decay <= 0) return;
+
+  audio.channels.forEach((samples, channel) => {
+    const spread = channel * STEREO_SPREAD_MS;
+    const combs = COMB_DELAYS_MS.map(ms => {
+      const length = Math.max(1, Math.round((ms + spread) / 1000 * audio.sampleRate));
+      return { buffer: new Float32Array(length), index: 0, gain: Math.pow(10, -3 * (ms / 1000) / decay) };
+    });
+    const allpasses = ALLPASS_DELAYS_MS.map(ms => ({
+      buffer: new Float32Array(Math.max(1, Math.round((ms + spread) / 1000 * audio.sampleRate))),
+      index: 0
+    }));
+
+    for (let i = 0; i < samples.length; i++) {
+      const input = samples[i];
+
+      let wet = 0;
+      for (const comb of combs) {
+        const delayed = comb.buffer[comb.index];
+        comb.buffer[comb.index] = input + delayed * comb.gain;
+        comb.index = (comb.index + 1) % comb.buffer.length;
+        wet += delayed;
+      }
+      wet /= combs.length;
+
+      for (const allpass of allpasses) {
+        const delayed = allpass.buffer[allpass.index];
+        const output = delayed - ALLPASS_GAIN * wet;
+        allpass.buffer[allpass.index] = wet + ALLPASS_GAIN * output;
+        allpass.index = (allpass.index + 1) % allpass.buffer.length;
+        wet = output;
+      }
+
+      samples[i] = mixWet(input, wet, amount);
+    }
+  });
+}
+
+export function applyFeedbackDelay(audio: PcmAudio, time: number, feedback: number, mix: number): void {
+  const amount = Math.max(0, Math.min(1, mix));
+  const delaySamples = Math.round(Math.min(time, MAX_DELAY_SECONDS) * audio.sampleRate);
+  if (amount === 0 || delaySamples < 1) return;
+
+  // Keep feedback below 1 so the repeats always die out
+  const gain = Math.max(0, Math.min(0.95, feedback));
+  audio.channels.forEach(samples => {
+    const line = new Float32Array(delaySamples);
+    let index = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const input = samples[i];
+      const delayed = line[index];
+      line[index] = input + delayed * gain;
+      index = (index + 1) % delaySamples;
+      samples[i] = mixWet(input, delayed, amount);
+    }
+  });
+}
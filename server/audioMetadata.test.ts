@@ -0,0 +1,42 @@
+import fs from "fs";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import { uploadDir, resolveUploadUrl } from "./uploads";
+import { saveCoverArt } from "./audioMetadata";
+
+const athlete = { id: 7, role: "athlete" as const };
+
+// A 1x1 PNG, down to the chunks the image check reads
+function png(): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, "latin1"), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(1, 0);
+  header.writeUInt32BE(1, 4);
+  header[8] = 8;
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), chunk("IHDR", header), chunk("IEND", Buffer.alloc(0))]);
+}
+
+function imagesOf(owner: { id: number }): string[] {
+  const folder = path.join(uploadDir, "images", String(owner.id));
+  return fs.existsSync(folder) ? fs.readdirSync(folder) : [];
+}
+
+describe("saveCoverArt", () => {
+  it("stores embedded artwork under the type its content has", async () => {
+    const url = await saveCoverArt({ mimeType: "image/jpeg", data: png() }, athlete);
+
+    expect(url).toMatch(/^\/uploads\/images\/7\/.+\.png$/);
+    expect(fs.existsSync(resolveUploadUrl(url!)!)).toBe(true);
+  });
+
+  it("ignores embedded pictures that aren't images, whatever the tag claims", async () => {
+    const imagesBefore = imagesOf(athlete);
+
+    expect(await saveCoverArt({ mimeType: "image/png", data: Buffer.from("<html><script>alert(1)</script></html>") }, athlete)).toBeUndefined();
+    expect(imagesOf(athlete)).toEqual(imagesBefore);
+  });
+});
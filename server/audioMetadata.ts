@@ -0,0 +1,346 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { parseFile } from "music-metadata";
+import { type Track, type User } from "@shared/schema";
+import { resolveUploadUrl } from "./uploads";
+import { acceptUpload, InvalidUploadError } from "./uploadValidation";
+
+// Metadata embedded in an audio file. Reading handles whatever tag formats the file carries
+// (ID3v2, Vorbis comments, RIFF INFO, MP4 atoms); writing supports MP3, WAV and FLAC.
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  genre?: string;
+  date?: string; // YYYY or YYYY-MM-DD
+  comment?: string;
+  picture?: AudioPicture;
+}
+
+export interface AudioPicture {
+  mimeType: string;
+  data: Buffer;
+}
+
+export type TaggableFormat = "mp3" | "wav" | "flac";
+
+// Read an uploaded file's tags. Files with unreadable tags just give nothing back; whether the
+// audio itself is usable is for the transcoding pipeline to decide.
+export async function readAudioTags(filePath: string): Promise<AudioTags & { duration?: number }> {
+  try {
+    const { common, format } = await parseFile(filePath, { duration: false, skipCovers: false });
+    const picture = common.picture?.find(p => p.type?.toLowerCase().includes("front")) ?? common.picture?.[0];
+
+    return {
+      title: common.title?.trim() || undefined,
+      artist: common.artist?.trim() || undefined,
+      genre: common.genre?.[0]?.trim() || undefined,
+      date: common.date ?? (common.year ? String(common.year) : undefined),
+      comment: common.comment?.find(comment => comment.text?.trim())?.text?.trim(),
+      picture: picture ? { mimeType: picture.format, data: Buffer.from(picture.data) } : undefined,
+      duration: format.duration
+    };
+  } catch (error) {
+    console.warn(`Unable to read tags from ${filePath}:`, error);
+    return {};
+  }
+}
+
+// Free-form genre tags mapped onto the genres tracks can have
+const GENRE_ALIASES: Record<Track["genre"], string[]> = {
+  "hip-hop": ["hip-hop", "hip hop", "hiphop", "rap", "trap", "drill", "grime"],
+  "r&b": ["r&b", "rnb", "r and b", "rhythm and blues", "soul", "neo soul"],
+  "pop": ["pop", "k-pop", "dance pop", "synthpop"],
+  "rock": ["rock", "alternative", "metal", "punk", "indie rock", "grunge"],
+  "electronic": ["electronic", "electronica", "edm", "dance", "house", "techno", "trance", "dubstep", "drum and bass", "drum & bass"],
+  "other": []
+};
+
+export function trackGenreFromTag(genre: string | undefined): Track["genre"] | undefined {
+  if (!genre) return undefined;
+  const normalized = genre.trim().toLowerCase();
+  const match = (Object.keys(GENRE_ALIASES) as Track["genre"][])
+    .find(trackGenre => GENRE_ALIASES[trackGenre].includes(normalized));
+  return match;
+}
+
+// How genres are written into tags
+const GENRE_NAMES: Record<Track["genre"], string | undefined> = {
+  "hip-hop": "Hip-Hop",
+  "r&b": "R&B",
+  "pop": "Pop",
+  "rock": "Rock",
+  "electronic": "Electronic",
+  "other": undefined
+};
+
+const PICTURE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/jpg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp"
+};
+
+// Store embedded artwork as an uploaded image, checked the same way as an uploaded cover: what the
+// tag claims the picture is counts for nothing. Undefined for pictures that aren't an image covers can be.
+export async function saveCoverArt(picture: AudioPicture, owner: Pick<User, "id" | "role">): Promise<string | undefined> {
+  const tempPath = path.join(os.tmpdir(), `coverArt-${Date.now()}-${Math.round(Math.random() * 1E9)}`);
+  await fs.writeFile(tempPath, picture.data);
+  try {
+    const file = { path: tempPath, size: picture.data.length, originalname: "The embedded cover art", fieldname: "coverArt" };
+    return (await acceptUpload(file, 'image', owner)).url;
+  } catch (error) {
+    if (error instanceof InvalidUploadError) return undefined;
+    throw error;
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
+
+async function readCoverArt(coverArt: string | null): Promise<AudioPicture | undefined> {
+  const filePath = coverArt ? resolveUploadUrl(coverArt) : undefined;
+  if (!filePath) return undefined;
+
+  const extension = path.extname(filePath).toLowerCase();
+  const mimeType = Object.keys(PICTURE_EXTENSIONS).find(type => PICTURE_EXTENSIONS[type] === extension);
+  if (!mimeType) return undefined;
+
+  try {
+    return { mimeType, data: await fs.readFile(filePath) };
+  } catch {
+    return undefined;
+  }
+}
+
+// The tags a track's files are exported with
+export async function trackTags(track: Track, artist?: User): Promise<AudioTags> {
+  return {
+    title: track.title,
+    artist: artist?.fullName,
+    genre: GENRE_NAMES[track.genre],
+    date: track.releaseDate?.toISOString().slice(0, 10),
+    comment: track.description ?? undefined,
+    picture: await readCoverArt(track.coverArt)
+  };
+}
+
+// Tell MP3, WAV and FLAC data apart by their leading bytes
+export function detectTaggableFormat(data: Buffer): TaggableFormat | undefined {
+  if (data.length >= 12 && data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WAVE") {
+    return "wav";
+  }
+  if (data.length >= 4 && data.toString("latin1", 0, 4) === "fLaC") {
+    return "flac";
+  }
+  if (data.length >= 3 && data.toString("latin1", 0, 3) === "ID3") {
+    return "mp3";
+  }
+  if (data.length >= 2 && data[0] === 0xff && (data[1] & 0xe0) === 0xe0) {
+    return "mp3";
+  }
+  return undefined;
+}
+
+export function writeAudioTags(data: Buffer, format: TaggableFormat, tags: AudioTags): Buffer {
+  switch (format) {
+    case "mp3":
+      return writeMp3Tags(data, tags);
+    case "wav":
+      return writeWavTags(data, tags);
+    case "flac":
+      return writeFlacTags(data, tags);
+  }
+}
+
+// ID3v2.3, which every player reads. Text frames are UTF-16 so any title survives.
+
+function id3TextFrame(id: string, text: string): Buffer {
+  return id3Frame(id, Buffer.concat([Buffer.from([0x01]), Buffer.from("\uFEFF" + text, "utf16le")]));
+}
+
+function id3Frame(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(10);
+  header.write(id, 0, "latin1");
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function syncsafe(value: number): Buffer {
+  return Buffer.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+}
+
+export function buildId3Tag(tags: AudioTags): Buffer {
+  const frames: Buffer[] = [];
+  if (tags.title) frames.push(id3TextFrame("TIT2", tags.title));
+  if (tags.artist) frames.push(id3TextFrame("TPE1", tags.artist));
+  if (tags.genre) frames.push(id3TextFrame("TCON", tags.genre));
+  if (tags.date) {
+    frames.push(id3TextFrame("TYER", tags.date.slice(0, 4)));
+    // TDAT holds the day and month as DDMM
+    const [, month, day] = tags.date.split("-");
+    if (month && day) frames.push(id3TextFrame("TDAT", `${day}${month}`));
+  }
+  if (tags.comment) {
+    // Encoding, language, then an empty description before the text
+    const body = Buffer.concat([
+      Buffer.from([0x01]), Buffer.from("eng", "latin1"), Buffer.from("\uFEFF\0", "utf16le"),
+      Buffer.from("\uFEFF" + tags.comment, "utf16le")
+    ]);
+    frames.push(id3Frame("COMM", body));
+  }
+  if (tags.picture) {
+    // Encoding, MIME type, picture type 3 (front cover), empty description, image
+    const body = Buffer.concat([
+      Buffer.from([0x00]), Buffer.from(`${tags.picture.mimeType}\0`, "latin1"),
+      Buffer.from([0x03, 0x00]), tags.picture.data
+    ]);
+    frames.push(id3Frame("APIC", body));
+  }
+
+  const content = Buffer.concat(frames);
+  return Buffer.concat([Buffer.from([0x49, 0x44, 0x33, 0x03, 0x00, 0x00]), syncsafe(content.length), content]);
+}
+
+// Replace any existing ID3v2 tag at the front, and drop an ID3v1 tag at the end so it can't
+// contradict the new one
+function writeMp3Tags(data: Buffer, tags: AudioTags): Buffer {
+  let start = 0;
+  if (data.toString("latin1", 0, 3) === "ID3" && data.length >= 10) {
+    const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+    start = 10 + size + ((data[5] & 0x10) !== 0 ? 10 : 0);
+  }
+  let end = data.length;
+  if (end - start >= 128 && data.toString("latin1", end - 128, end - 125) === "TAG") {
+    end -= 128;
+  }
+
+  return Buffer.concat([buildId3Tag(tags), data.subarray(start, end)]);
+}
+
+// WAV files get a LIST/INFO chunk for the text tags, plus an "id3 " chunk, which is where
+// players look for artwork in a WAV
+
+function riffChunk(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, "latin1");
+  header.writeUInt32LE(body.length, 4);
+  // Chunks are padded to an even length
+  return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+}
+
+function infoSubChunk(id: string, text: string): Buffer {
+  return riffChunk(id, Buffer.from(`${text}\0`, "utf8"));
+}
+
+function writeWavTags(data: Buffer, tags: AudioTags): Buffer {
+  // Keep every chunk except old tags
+  const chunks: Buffer[] = [];
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = data.toString("latin1", offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const end = Math.min(data.length, offset + 8 + size + (size % 2));
+    const isInfoList = id === "LIST" && data.toString("latin1", offset + 8, offset + 12) === "INFO";
+    if (!isInfoList && id.toLowerCase() !== "id3 ") {
+      chunks.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const info: Buffer[] = [Buffer.from("INFO", "latin1")];
+  if (tags.title) info.push(infoSubChunk("INAM", tags.title));
+  if (tags.artist) info.push(infoSubChunk("IART", tags.artist));
+  if (tags.genre) info.push(infoSubChunk("IGNR", tags.genre));
+  if (tags.date) info.push(infoSubChunk("ICRD", tags.date));
+  if (tags.comment) info.push(infoSubChunk("ICMT", tags.comment));
+  chunks.push(riffChunk("LIST", Buffer.concat(info)));
+  chunks.push(riffChunk("id3 ", buildId3Tag(tags)));
+
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WAVE", 8, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+// FLAC keeps tags in a Vorbis comment block and artwork in a PICTURE block
+
+const FLAC_PADDING = 1;
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+
+function flacBlock(type: number, body: Buffer, isLast: boolean): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt8((isLast ? 0x80 : 0) | type, 0);
+  header.writeUIntBE(body.length, 1, 3);
+  return Buffer.concat([header, body]);
+}
+
+function vorbisComment(tags: AudioTags): Buffer {
+  const comments = [
+    tags.title && `TITLE=${tags.title}`,
+    tags.artist && `ARTIST=${tags.artist}`,
+    tags.genre && `GENRE=${tags.genre}`,
+    tags.date && `DATE=${tags.date}`,
+    tags.comment && `COMMENT=${tags.comment}`
+  ].filter((comment): comment is string => !!comment);
+
+  const vendor = Buffer.from("BallTalk", "utf8");
+  const parts: Buffer[] = [uint32LE(vendor.length), vendor, uint32LE(comments.length)];
+  for (const comment of comments) {
+    const text = Buffer.from(comment, "utf8");
+    parts.push(uint32LE(text.length), text);
+  }
+  return Buffer.concat(parts);
+}
+
+function flacPicture(picture: AudioPicture): Buffer {
+  const mimeType = Buffer.from(picture.mimeType, "latin1");
+  return Buffer.concat([
+    uint32BE(3), // Front cover
+    uint32BE(mimeType.length), mimeType,
+    uint32BE(0), // No description
+    uint32BE(0), uint32BE(0), uint32BE(0), uint32BE(0), // Width, height, depth and colours unknown
+    uint32BE(picture.data.length), picture.data
+  ]);
+}
+
+function uint32LE(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value, 0);
+  return buffer;
+}
+
+function uint32BE(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value, 0);
+  return buffer;
+}
+
+function writeFlacTags(data: Buffer, tags: AudioTags): Buffer {
+  // Keep STREAMINFO and other blocks; old tags, artwork and padding are replaced
+  const blocks: { type: number; body: Buffer }[] = [];
+  let offset = 4;
+  let isLast = false;
+  while (!isLast && offset + 4 <= data.length) {
+    isLast = (data[offset] & 0x80) !== 0;
+    const type = data[offset] & 0x7f;
+    const length = data.readUIntBE(offset + 1, 3);
+    if (type !== FLAC_VORBIS_COMMENT && type !== FLAC_PICTURE && type !== FLAC_PADDING) {
+      blocks.push({ type, body: data.subarray(offset + 4, offset + 4 + length) });
+    }
+    offset += 4 + length;
+  }
+
+  blocks.push({ type: FLAC_VORBIS_COMMENT, body: vorbisComment(tags) });
+  if (tags.picture) {
+    blocks.push({ type: FLAC_PICTURE, body: flacPicture(tags.picture) });
+  }
+
+  return Buffer.concat([
+    Buffer.from("fLaC", "latin1"),
+    ...blocks.map((block, index) => flacBlock(block.type, block.body, index === blocks.length - 1)),
+    data.subarray(offset)
+  ]);
+}
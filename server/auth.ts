@@ -1,10 +1,12 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response } from "express";
 import session from "express-session";
+import { type IncomingMessage } from "http";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
+import { accountRestriction } from "./accountStatus";
 import { User as SelectUser } from "@shared/schema";
 
 declare global {
@@ -13,6 +15,12 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -28,20 +36,41 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
-  const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || 'super-secure-secret-key-for-development-only',
-    resave: false,
-    saveUninitialized: false,
-    store: storage.sessionStore,
-    cookie: {
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 24 * 60 * 60 * 1000, // 24 hours
-    }
-  };
+const sessionSettings: session.SessionOptions = {
+  secret: process.env.SESSION_SECRET || 'super-secure-secret-key-for-development-only',
+  resave: false,
+  saveUninitialized: false,
+  store: storage.sessionStore,
+  cookie: {
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 24 * 60 * 60 * 1000, // 24 hours
+  }
+};
+
+// Shared with the WebSocket server so upgrade requests are authenticated with the same cookie
+export const sessionMiddleware = session(sessionSettings);
 
+// Resolve the logged-in user from a raw HTTP request (e.g. a WebSocket upgrade) using the session cookie
+export function getUserFromRequest(req: IncomingMessage): Promise<SelectUser | undefined> {
+  return new Promise((resolve, reject) => {
+    sessionMiddleware(req as Request, {} as Response, async (err?: any) => {
+      if (err) return reject(err);
+      
+      const userId = (req as Request).session?.passport?.user;
+      if (!userId) return resolve(undefined);
+      
+      try {
+        resolve(await storage.getUser(userId));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+export function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -52,6 +81,10 @@ export function setupAuth(app: Express) {
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false, { message: "Invalid username or password" });
         }
+        const restriction = accountRestriction(user);
+        if (restriction) {
+          return done(null, false, { message: restriction });
+        }
         return done(null, user);
       } catch (err) {
         return done(err);
@@ -64,7 +97,8 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Suspended, banned and deleted accounts are logged out of every session they have
+      done(null, user && !accountRestriction(user) ? user : false);
     } catch (err) {
       done(err);
     }
@@ -0,0 +1,106 @@
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { type Readable } from "stream";
+import { S3Client, GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+
+// Where project backups are written. Backups are addressed by key (e.g. "projects/12/v3.balltalk");
+// `location` is a human-readable URL of the stored object, saved on the sync record.
+export interface BackupStore {
+  readonly backend: "local" | "s3";
+  put(key: string, filePath: string): Promise<{ location: string }>;
+  get(key: string, destinationPath: string): Promise<void>;
+}
+
+// Stores backups as files under a directory on this machine
+export class LocalBackupStore implements BackupStore {
+  readonly backend = "local";
+
+  constructor(private rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid backup key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, filePath: string): Promise<{ location: string }> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(filePath, target);
+    return { location: `file://${target}` };
+  }
+
+  async get(key: string, destinationPath: string): Promise<void> {
+    await fs.promises.copyFile(this.resolve(key), destinationPath);
+  }
+}
+
+// Stores backups in an S3 bucket. Works with any S3-compatible service (MinIO, R2, Spaces, ...)
+// by pointing `endpoint` at it.
+export class S3BackupStore implements BackupStore {
+  readonly backend = "s3";
+  private client: S3Client;
+
+  constructor(private bucket: string, options: { region?: string; endpoint?: string; accessKeyId?: string; secretAccessKey?: string } = {}) {
+    this.client = new S3Client({
+      region: options.region || "us-east-1",
+      endpoint: options.endpoint,
+      // Most self-hosted S3 stand-ins don't support bucket subdomains
+      forcePathStyle: !!options.endpoint,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+    });
+  }
+
+  async put(key: string, filePath: string): Promise<{ location: string }> {
+    const { size } = await fs.promises.stat(filePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: fs.createReadStream(filePath),
+      ContentLength: size,
+      ContentType: "application/zip"
+    }));
+    return { location: `s3://${this.bucket}/${key}` };
+  }
+
+  async get(key: string, destinationPath: string): Promise<void> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Backup ${key} is empty`);
+    }
+    await pipeline(response.Body as Readable, fs.createWriteStream(destinationPath));
+  }
+}
+
+let backupStore: BackupStore | undefined;
+
+// The store is picked once from the environment: BACKUP_STORAGE=s3 with BACKUP_S3_* settings,
+// otherwise backups go to BACKUP_DIR (./backups by default)
+export function getBackupStore(): BackupStore {
+  if (!backupStore) {
+    if (process.env.BACKUP_STORAGE === "s3") {
+      if (!process.env.BACKUP_S3_BUCKET) {
+        throw new Error("BACKUP_S3_BUCKET must be set when BACKUP_STORAGE is s3");
+      }
+      backupStore = new S3BackupStore(process.env.BACKUP_S3_BUCKET, {
+        region: process.env.BACKUP_S3_REGION,
+        endpoint: process.env.BACKUP_S3_ENDPOINT,
+        accessKeyId: process.env.BACKUP_S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.BACKUP_S3_SECRET_ACCESS_KEY
+      });
+    } else {
+      backupStore = new LocalBackupStore(process.env.BACKUP_DIR || path.join(process.cwd(), "backups"));
+    }
+  }
+  return backupStore;
+}
+
+// Swap the store, e.g. for a local stand-in in tests
+export function setBackupStore(store: BackupStore): void {
+  backupStore = store;
+}
@@ -0,0 +1,342 @@
+import Stripe from "stripe";
+import { type User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Bronze, silver and gold are monthly Stripe subscriptions. The catalog below is what we sell;
+// each plan's Stripe price is looked up by its lookup key (the tier's name), or taken from
+// STRIPE_PRICE_BRONZE and friends, and created from the catalog if Stripe doesn't have one yet.
+// Whatever a request here changes, users.subscriptionTier follows from Stripe's subscription
+// events (see stripeWebhooks.ts).
+
+if (!process.env.STRIPE_SECRET_KEY) {
+  console.warn("Missing Stripe secret key. Payment processing will not work.");
+}
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+  apiVersion: "2023-10-16",
+});
+
+export function isStripeConfigured(): boolean {
+  return !!process.env.STRIPE_SECRET_KEY;
+}
+
+export type SubscriptionTier = User["subscriptionTier"];
+export type PaidTier = Exclude<NonNullable<SubscriptionTier>, 'none'>;
+
+export const PAID_TIERS: PaidTier[] = ['bronze', 'silver', 'gold'];
+
+// Subscriptions in these states keep their tier. Past due ones keep it while Stripe retries the payment.
+export const ENTITLED_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+// Subscriptions in these states are over for good
+export const ENDED_STATUSES: Stripe.Subscription.Status[] = ['canceled', 'incomplete_expired'];
+
+export interface Plan {
+  tier: PaidTier;
+  name: string;
+  description: string;
+  amount: number; // Cents per month
+  currency: string;
+  features: string[];
+}
+
+export const PLAN_CATALOG: Record<PaidTier, Plan> = {
+  bronze: {
+    tier: 'bronze',
+    name: 'Basic',
+    description: 'Perfect for fans who want to support their favorite athletes',
+    amount: 499,
+    currency: 'usd',
+    features: [
+      'Ad-free listening',
+      'High-quality audio (192 kbps)',
+      'Unlimited skips',
+      'Support your favorite athletes',
+      'Early access to new releases'
+    ]
+  },
+  silver: {
+    tier: 'silver',
+    name: 'Premium',
+    description: 'The ultimate fan experience with exclusive content',
+    amount: 999,
+    currency: 'usd',
+    features: [
+      'Everything in Basic',
+      'Premium audio quality (320 kbps)',
+      'Exclusive content access',
+      'Offline listening',
+      'Personalized playlists',
+      'Priority access to live events'
+    ]
+  },
+  gold: {
+    tier: 'gold',
+    name: 'Athlete Pro',
+    description: 'For athletes who want to create and share content',
+    amount: 1499,
+    currency: 'usd',
+    features: [
+      'Everything in Premium',
+      'Unlimited publishing',
+      'Advanced analytics',
+      'Collaboration tools',
+      'Direct fan messaging',
+      'Priority support',
+      'Custom profile branding'
+    ]
+  }
+};
+
+// A request that doesn't make sense for the user's subscription as it stands
+export class BillingError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "BillingError";
+  }
+}
+
+export function parseTier(value: string | null | undefined): PaidTier | undefined {
+  return PAID_TIERS.find(tier => tier === value);
+}
+
+function configuredPriceId(tier: PaidTier): string | undefined {
+  return process.env[`STRIPE_PRICE_${tier.toUpperCase()}`] || undefined;
+}
+
+// Prices name their tier in metadata.tier, with a lookup key of "bronze", "silver" or "gold",
+// or by being the price configured for it
+export function tierOfPrice(price: Stripe.Price | null | undefined): PaidTier | undefined {
+  if (!price) return undefined;
+  return parseTier(price.metadata?.tier)
+    ?? parseTier(price.lookup_key)
+    ?? PAID_TIERS.find(tier => configuredPriceId(tier) === price.id);
+}
+
+export function tierRank(tier: SubscriptionTier): number {
+  return tier ? PAID_TIERS.indexOf(tier as PaidTier) + 1 : 0;
+}
+
+const priceCache = new Map<PaidTier, Stripe.Price>();
+
+// The Stripe price for a plan. A lookup-key price whose amount no longer matches the catalog is
+// replaced by a new one, which takes over the lookup key; existing subscribers keep the old one.
+export async function planPrice(tier: PaidTier): Promise<Stripe.Price> {
+  const cached = priceCache.get(tier);
+  if (cached) return cached;
+
+  const plan = PLAN_CATALOG[tier];
+  const configured = configuredPriceId(tier);
+  let price: Stripe.Price | undefined;
+  if (configured) {
+    price = await stripe.prices.retrieve(configured);
+  } else {
+    const existing = (await stripe.prices.list({ lookup_keys: [tier], active: true, limit: 1 })).data[0];
+    price = existing && existing.unit_amount === plan.amount && existing.currency === plan.currency ? existing : undefined;
+    if (!price) {
+      price = await stripe.prices.create({
+        currency: plan.currency,
+        unit_amount: plan.amount,
+        recurring: { interval: 'month' },
+        lookup_key: tier,
+        transfer_lookup_key: !!existing,
+        metadata: { tier },
+        ...(typeof existing?.product === 'string'
+          ? { product: existing.product }
+          : { product_data: { name: plan.name, metadata: { tier } } })
+      });
+    }
+  }
+
+  priceCache.set(tier, price);
+  return price;
+}
+
+// The user's Stripe customer, created the first time they pay for anything
+export async function ensureStripeCustomer(user: User): Promise<string> {
+  if (user.stripeCustomerId) return user.stripeCustomerId;
+
+  const customer = await stripe.customers.create({
+    email: user.email,
+    name: user.fullName,
+    metadata: { userId: user.id.toString() }
+  });
+  await storage.updateUser(user.id, { stripeCustomerId: customer.id });
+  return customer.id;
+}
+
+export function hasEntitledSubscription(user: User): boolean {
+  return !!user.stripeSubscriptionId && ENTITLED_STATUSES.includes(user.subscriptionStatus as Stripe.Subscription.Status);
+}
+
+async function currentSubscription(user: User): Promise<Stripe.Subscription> {
+  if (!hasEntitledSubscription(user)) {
+    throw new BillingError("You don't have an active subscription", 404);
+  }
+  return stripe.subscriptions.retrieve(user.stripeSubscriptionId!);
+}
+
+// A Stripe Checkout page for subscribing to a plan. Users who already subscribe change their
+// plan instead, so nobody ends up paying for two subscriptions.
+export async function createSubscriptionCheckout(user: User, tier: PaidTier, returnUrl: string): Promise<string> {
+  if (hasEntitledSubscription(user)) {
+    throw new BillingError("You already have a subscription; change its plan instead", 409);
+  }
+
+  const [customer, price] = await Promise.all([ensureStripeCustomer(user), planPrice(tier)]);
+  const session = await stripe.checkout.sessions.create({
+    mode: 'subscription',
+    customer,
+    client_reference_id: user.id.toString(),
+    line_items: [{ price: price.id, quantity: 1 }],
+    subscription_data: { metadata: { userId: user.id.toString(), subscriptionTier: tier } },
+    success_url: `${returnUrl}?checkout=success`,
+    cancel_url: `${returnUrl}?checkout=cancelled`
+  });
+  if (!session.url) throw new Error("Stripe didn't return a checkout URL");
+  return session.url;
+}
+
+// Upgrades are charged for straight away, prorated for the rest of the period, and only take
+// effect once that payment goes through. Downgrades take effect at once and the unused time is
+// credited against the next invoice.
+function prorationBehavior(user: User, tier: PaidTier): 'always_invoice' | 'create_prorations' {
+  return tierRank(tier) > tierRank(user.subscriptionTier) ? 'always_invoice' : 'create_prorations';
+}
+
+async function planChange(user: User, tier: PaidTier): Promise<{ subscription: Stripe.Subscription; item: Stripe.SubscriptionItem; price: Stripe.Price }> {
+  const subscription = await currentSubscription(user);
+  const item = subscription.items.data[0];
+  if (!item) throw new Error(`Subscription ${subscription.id} has no items`);
+  if (tierOfPrice(item.price) === tier) {
+    throw new BillingError(`You're already on the ${PLAN_CATALOG[tier].name} plan`, 409);
+  }
+  return { subscription, item, price: await planPrice(tier) };
+}
+
+export interface PlanChangePreview {
+  tier: PaidTier;
+  prorationDate: number; // Pass back when making the change so it's charged as previewed
+  prorationAmount: number; // Cents; negative for a credit
+  chargedNow: boolean; // Whether prorationAmount is charged today or added to the next invoice
+  amountDue: number; // The invoice the preview is of: today's for upgrades, the next one otherwise
+  currency: string;
+  nextPaymentDate: number | null;
+}
+
+export async function previewPlanChange(user: User, tier: PaidTier): Promise<PlanChangePreview> {
+  const { subscription, item, price } = await planChange(user, tier);
+  const prorationDate = Math.floor(Date.now() / 1000);
+  const behavior = prorationBehavior(user, tier);
+
+  const invoice = await stripe.invoices.retrieveUpcoming({
+    customer: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+    subscription: subscription.id,
+    subscription_items: [{ id: item.id, price: price.id }],
+    subscription_proration_behavior: behavior,
+    subscription_proration_date: prorationDate
+  });
+  const prorationAmount = invoice.lines.data
+    .filter(line => line.proration && line.period.start === prorationDate)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  return {
+    tier,
+    prorationDate,
+    prorationAmount,
+    chargedNow: behavior === 'always_invoice',
+    amountDue: invoice.amount_due,
+    currency: invoice.currency,
+    nextPaymentDate: behavior === 'always_invoice' ? subscription.current_period_end : invoice.next_payment_attempt
+  };
+}
+
+export async function changePlan(user: User, tier: PaidTier, prorationDate?: number): Promise<Stripe.Subscription> {
+  const { subscription, item, price } = await planChange(user, tier);
+  const behavior = prorationBehavior(user, tier);
+
+  return stripe.subscriptions.update(subscription.id, {
+    items: [{ id: item.id, price: price.id }],
+    proration_behavior: behavior,
+    ...(prorationDate ? { proration_date: prorationDate } : {}),
+    ...(behavior === 'always_invoice' ? { payment_behavior: 'pending_if_incomplete' as const } : {})
+  });
+}
+
+// Cancelling keeps the plan until the end of the period that's been paid for; resuming before
+// then undoes it
+export async function setCancelAtPeriodEnd(user: User, cancel: boolean): Promise<Stripe.Subscription> {
+  const subscription = await currentSubscription(user);
+  if (subscription.cancel_at_period_end === cancel) return subscription;
+  return stripe.subscriptions.update(subscription.id, { cancel_at_period_end: cancel });
+}
+
+// A Stripe billing portal session, where users update their card and download receipts
+export async function createBillingPortalSession(user: User, returnUrl: string): Promise<string> {
+  if (!user.stripeCustomerId) {
+    throw new BillingError("You don't have any billing details yet", 404);
+  }
+  const session = await stripe.billingPortal.sessions.create({ customer: user.stripeCustomerId, return_url: returnUrl });
+  return session.url;
+}
+
+export interface SubscriptionSummary {
+  tier: SubscriptionTier;
+  plan: Plan | null;
+  subscription: {
+    id: string;
+    status: Stripe.Subscription.Status;
+    currentPeriodEnd: number;
+    cancelAtPeriodEnd: boolean;
+    pendingTier: PaidTier | null; // An upgrade waiting for its payment
+  } | null;
+}
+
+export async function subscriptionSummary(user: User): Promise<SubscriptionSummary> {
+  const tier = user.subscriptionTier;
+  const plan = parseTier(tier) ? PLAN_CATALOG[tier as PaidTier] : null;
+  if (!user.stripeSubscriptionId || !isStripeConfigured()) {
+    return { tier, plan, subscription: null };
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
+  const pendingPrice = subscription.pending_update?.subscription_items?.[0]?.price;
+  return {
+    tier,
+    plan,
+    subscription: {
+      id: subscription.id,
+      status: subscription.status,
+      currentPeriodEnd: subscription.current_period_end,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      pendingTier: tierOfPrice(pendingPrice) ?? null
+    }
+  };
+}
+
+export interface BillingInvoice {
+  id: string;
+  created: number;
+  description: string;
+  amount: number;
+  currency: string;
+  status: Stripe.Invoice.Status | null;
+  url: string | null;
+}
+
+export async function billingHistory(user: User): Promise<BillingInvoice[]> {
+  if (!user.stripeCustomerId) return [];
+
+  const invoices = await stripe.invoices.list({ customer: user.stripeCustomerId, limit: 24 });
+  return invoices.data.map(invoice => {
+    const tier = tierOfPrice(invoice.lines.data[0]?.price);
+    return {
+      id: invoice.id,
+      created: invoice.created,
+      description: invoice.lines.data[0]?.description ?? (tier ? `${PLAN_CATALOG[tier].name} - Monthly` : "Subscription"),
+      amount: invoice.amount_paid || invoice.amount_due,
+      currency: invoice.currency,
+      status: invoice.status,
+      url: invoice.hosted_invoice_url ?? null
+    };
+  });
+}
@@ -0,0 +1,213 @@
+import * as Y from 'yjs';
+import { storage } from './storage';
+import { type CollabDocKey, type CollabDocUpdate } from '@shared/schema';
+
+// Fold the stored updates into a single snapshot once this many have piled up
+const COMPACT_AFTER_UPDATES = 200;
+
+interface PersistedDoc {
+  doc: Y.Doc;
+  key: CollabDocKey;
+  // Highest stored row id that is already reflected in the in-memory doc
+  lastStoredId: number;
+  updatesSinceCompaction: number;
+  compacting: boolean;
+  pendingWrites: Set<Promise<unknown>>;
+}
+
+// Documents currently held in memory, and those being rehydrated from or flushed to the database
+const openDocs = new Map<string, PersistedDoc>();
+const openingDocs = new Map<string, Promise<PersistedDoc>>();
+const closingDocs = new Map<string, Promise<void>>();
+
+function docName(key: CollabDocKey): string {
+  return 'sessionId' in key ? `session-${key.sessionId}` : `project-${key.projectId}`;
+}
+
+function encodeUpdate(update: Uint8Array): string {
+  return Buffer.from(update).toString('base64');
+}
+
+function decodeUpdate(update: string): Uint8Array {
+  return new Uint8Array(Buffer.from(update, 'base64'));
+}
+
+// Get a collaborative document, rebuilding it from its stored updates the first time it's opened.
+// Every change made to the returned doc is persisted.
+export async function openPersistedDoc(key: CollabDocKey): Promise<Y.Doc> {
+  const name = docName(key);
+  const openDoc = openDocs.get(name);
+  if (openDoc) return openDoc.doc;
+
+  let opening = openingDocs.get(name);
+  if (!opening) {
+    opening = (async () => {
+      // Let a previous close finish writing before reading the state back
+      await closingDocs.get(name);
+      const persisted = await loadPersistedDoc(key);
+      openDocs.set(name, persisted);
+      return persisted;
+    })().finally(() => openingDocs.delete(name));
+    openingDocs.set(name, opening);
+  }
+  return (await opening).doc;
+}
+
+function applyStoredUpdates(doc: Y.Doc, updates: CollabDocUpdate[]) {
+  Y.transact(doc, () => {
+    for (const row of updates) {
+      try {
+        Y.applyUpdate(doc, decodeUpdate(row.update));
+      } catch (error) {
+        console.error(`Skipping unreadable collaborative update ${row.id}:`, error);
+      }
+    }
+  });
+}
+
+async function loadPersistedDoc(key: CollabDocKey): Promise<PersistedDoc> {
+  const doc = new Y.Doc();
+  const updates = await storage.getCollabDocUpdates(key);
+  applyStoredUpdates(doc, updates);
+
+  const persisted: PersistedDoc = {
+    doc,
+    key,
+    lastStoredId: updates.length > 0 ? updates[updates.length - 1].id : 0,
+    updatesSinceCompaction: updates.length,
+    compacting: false,
+    pendingWrites: new Set()
+  };
+
+  doc.on('update', (update: Uint8Array) => {
+    const write = storeUpdate(persisted, update);
+    persisted.pendingWrites.add(write);
+    write.finally(() => persisted.pendingWrites.delete(write));
+  });
+
+  return persisted;
+}
+
+async function storeUpdate(persisted: PersistedDoc, update: Uint8Array) {
+  try {
+    const row = await storage.addCollabDocUpdate({
+      ...persisted.key,
+      update: encodeUpdate(update)
+    });
+    persisted.lastStoredId = Math.max(persisted.lastStoredId, row.id);
+    persisted.updatesSinceCompaction++;
+
+    if (persisted.updatesSinceCompaction >= COMPACT_AFTER_UPDATES) {
+      await compact(persisted);
+    }
+  } catch (error) {
+    console.error('Failed to persist collaborative update:', error);
+  }
+}
+
+// Replace the stored update log with a single snapshot of the current document state
+async function compact(persisted: PersistedDoc): Promise<void> {
+  if (persisted.compacting || persisted.updatesSinceCompaction <= 1) return;
+
+  persisted.compacting = true;
+  try {
+    const upToId = persisted.lastStoredId;
+    const compactedCount = persisted.updatesSinceCompaction;
+    const snapshot = encodeUpdate(Y.encodeStateAsUpdate(persisted.doc));
+    const row = await storage.compactCollabDocUpdates(persisted.key, snapshot, upToId);
+
+    // Updates stored while compacting are still in the log, next to the new snapshot row
+    persisted.lastStoredId = Math.max(persisted.lastStoredId, row.id);
+    persisted.updatesSinceCompaction -= compactedCount - 1;
+  } catch (error) {
+    console.error('Failed to compact collaborative document:', error);
+  } finally {
+    persisted.compacting = false;
+  }
+}
+
+// Compact every open document; run periodically so long sessions don't grow the log unbounded
+export function compactOpenDocs(): void {
+  openDocs.forEach(persisted => {
+    compact(persisted);
+  });
+}
+
+// Flush outstanding writes, compact and release a document once nobody is editing it
+export function closePersistedDoc(key: CollabDocKey): Promise<void> {
+  const name = docName(key);
+  const existingClose = closingDocs.get(name);
+  if (existingClose) return existingClose;
+
+  const closing = (async () => {
+    // Detach right away so a concurrent open waits for this close instead of reusing the doc
+    const persisted = openDocs.get(name) ?? await openingDocs.get(name)?.catch(() => undefined);
+    if (!persisted) return;
+    openDocs.delete(name);
+
+    await Promise.allSettled(Array.from(persisted.pendingWrites));
+    await compact(persisted);
+    persisted.doc.destroy();
+  })()
+    .catch(error => console.error('Failed to close collaborative document:', error))
+    .finally(() => closingDocs.delete(name));
+  closingDocs.set(name, closing);
+  return closing;
+}
+
+// Current state of a document as a single update, without keeping it open
+export async function readPersistedDocState(key: CollabDocKey): Promise<Uint8Array> {
+  const persisted = openDocs.get(docName(key));
+  if (persisted) return Y.encodeStateAsUpdate(persisted.doc);
+
+  const doc = new Y.Doc();
+  applyStoredUpdates(doc, await storage.getCollabDocUpdates(key));
+  const state = Y.encodeStateAsUpdate(doc);
+  doc.destroy();
+  return state;
+}
+
+// Store the full state of a document that nobody has opened yet, e.g. for a newly created project
+export async function writePersistedDocState(key: CollabDocKey, state: Uint8Array): Promise<void> {
+  await storage.addCollabDocUpdate({ ...key, update: encodeUpdate(state), isSnapshot: true });
+}
+
+export function isPersistedDocOpen(key: CollabDocKey): boolean {
+  const name = docName(key);
+  return openDocs.has(name) || openingDocs.has(name);
+}
+
+// Throw away a document's stored history and replace it with the given state.
+// Only allowed while nobody has the document open, since open copies would write the old state back.
+export async function replacePersistedDocState(key: CollabDocKey, state: Uint8Array): Promise<void> {
+  if (isPersistedDocOpen(key)) {
+    throw new Error(`Collaborative document ${docName(key)} is open`);
+  }
+  await closingDocs.get(docName(key));
+  await storage.compactCollabDocUpdates(key, encodeUpdate(state), Number.MAX_SAFE_INTEGER);
+}
+
+// Change a document whether or not it is open. Open documents are edited in place so connected
+// editors receive the change; otherwise the change is stored as a new update.
+export async function updatePersistedDoc(key: CollabDocKey, change: (doc: Y.Doc) => void): Promise<void> {
+  if (isPersistedDocOpen(key)) {
+    const doc = await openPersistedDoc(key);
+    Y.transact(doc, () => change(doc));
+    return;
+  }
+
+  await closingDocs.get(docName(key));
+  const doc = new Y.Doc();
+  applyStoredUpdates(doc, await storage.getCollabDocUpdates(key));
+
+  let changeUpdate: Uint8Array | undefined;
+  doc.on('update', (update: Uint8Array) => {
+    changeUpdate = update;
+  });
+  Y.transact(doc, () => change(doc));
+  doc.destroy();
+
+  if (changeUpdate) {
+    await storage.addCollabDocUpdate({ ...key, update: encodeUpdate(changeUpdate) });
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { type Track, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { BillingError } from "./billing";
+import { post, recordPlayRoyalty, recordPayout, PLAY_ROYALTY, PLAY_ROYALTY_WINDOW_MS } from "./earnings";
+
+async function balanceOf(user: User): Promise<number> {
+  const totals = await storage.getLedgerTotals("athlete_earnings", user.id, "type");
+  return totals.reduce((sum, { amount }) => sum + amount, 0);
+}
+
+describe("post", () => {
+  let athlete: User;
+
+  beforeEach(async () => {
+    athlete = await storage.createUser({ username: "athlete", password: "x", email: "athlete@example.com", fullName: "Athlete", role: "athlete" });
+  });
+
+  it("rejects transactions whose entries don't add up to zero", async () => {
+    await expect(post({ type: "tip", description: "Tip" }, [
+      { account: "cash", amount: -1000 },
+      { account: "athlete_earnings", userId: athlete.id, amount: 900 }
+    ])).rejects.toThrow("Unbalanced tip ledger transaction");
+    expect(await balanceOf(athlete)).toBe(0);
+  });
+
+  it("books a transaction with an external id only once", async () => {
+    const postings = [
+      { account: "cash" as const, amount: -1000 },
+      { account: "athlete_earnings" as const, userId: athlete.id, amount: 1000 }
+    ];
+
+    const first = await post({ type: "tip", description: "Tip", externalId: "ch_1" }, postings);
+    const repeat = await post({ type: "tip", description: "Tip", externalId: "ch_1" }, postings);
+    expect(first).toBeDefined();
+    expect(repeat).toBeUndefined();
+    expect(await balanceOf(athlete)).toBe(1000);
+  });
+
+  it("books one of two racing transactions with the same external id", async () => {
+    const book = () => post({ type: "tip", description: "Tip", externalId: "ch_1" }, [
+      { account: "cash", amount: -1000 },
+      { account: "athlete_earnings", userId: athlete.id, amount: 1000 }
+    ]);
+
+    const booked = await Promise.all([book(), book()]);
+    expect(booked.filter(Boolean)).toHaveLength(1);
+    expect(await balanceOf(athlete)).toBe(1000);
+  });
+});
+
+describe("recordPlayRoyalty", () => {
+  let athlete: User;
+  let listener: User;
+  let track: Track;
+
+  beforeEach(async () => {
+    athlete = await storage.createUser({ username: "athlete", password: "x", email: "athlete@example.com", fullName: "Athlete", role: "athlete" });
+    listener = await storage.createUser({ username: "fan", password: "x", email: "fan@example.com", fullName: "Fan" });
+    track = await storage.createTrack({ title: "Warm Up", artistId: athlete.id, audioUrl: "/api/tracks/1/stream", isPublished: true });
+  });
+
+  it("pays one royalty per listener and track in each window", async () => {
+    const now = 10 * PLAY_ROYALTY_WINDOW_MS;
+    await recordPlayRoyalty(track, listener, now);
+    await recordPlayRoyalty(track, listener, now + 1000);
+    expect(await balanceOf(athlete)).toBe(PLAY_ROYALTY);
+
+    await recordPlayRoyalty(track, listener, now + PLAY_ROYALTY_WINDOW_MS);
+    expect(await balanceOf(athlete)).toBe(2 * PLAY_ROYALTY);
+  });
+
+  it("doesn't pay for anonymous plays or the artist's own", async () => {
+    await recordPlayRoyalty(track, undefined);
+    await recordPlayRoyalty(track, athlete);
+    expect(await balanceOf(athlete)).toBe(0);
+  });
+});
+
+describe("recordPayout", () => {
+  let athlete: User;
+
+  beforeEach(async () => {
+    athlete = await storage.createUser({ username: "athlete", password: "x", email: "athlete@example.com", fullName: "Athlete", role: "athlete" });
+    await post({ type: "tip", description: "Tip", externalId: "ch_1" }, [
+      { account: "cash", amount: -5000 },
+      { account: "athlete_earnings", userId: athlete.id, amount: 5000 }
+    ]);
+  });
+
+  it("won't pay out more than the athlete's balance", async () => {
+    await expect(recordPayout(athlete, 6, "Bank transfer", "tr_1")).rejects.toThrow(BillingError);
+    await recordPayout(athlete, 5, "Bank transfer", "tr_1");
+    expect(await balanceOf(athlete)).toBe(0);
+  });
+
+  it("books a payout recorded twice once", async () => {
+    const first = await recordPayout(athlete, 3, "Bank transfer", "tr_1");
+    const again = await recordPayout(athlete, 3, "Bank transfer", "tr_1");
+
+    expect(again.id).toBe(first.id);
+    expect(await balanceOf(athlete)).toBe(2000);
+  });
+
+  it("doesn't let payouts racing each other overdraw the balance", async () => {
+    const results = await Promise.allSettled([
+      recordPayout(athlete, 4, "Bank transfer", "tr_1"),
+      recordPayout(athlete, 4, "Bank transfer", "tr_2")
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(await balanceOf(athlete)).toBe(1000);
+  });
+});
@@ -0,0 +1,272 @@
+import type Stripe from "stripe";
+import { type User, type Track, type LedgerAccount, type LedgerTransaction, type LedgerTransactionType, type InsertLedgerTransaction } from "@shared/schema";
+import { storage, InsufficientBalanceError, type LedgerEntryDetails, type LedgerTotal, type LedgerTransactionOptions } from "./storage";
+import { stripe, ensureStripeCustomer, BillingError } from "./billing";
+import { isAccountActive } from "./accountStatus";
+import { athleteTierIdOf } from "./fanSubscriptions";
+
+// What athletes earn, booked in the double-entry ledger as it happens: royalties on plays of their
+// tracks, their share of fan subscriptions and tips, and payouts. Ledger amounts are in thousandths
+// of a cent; the earnings API reports cents.
+
+export const PLAY_ROYALTY = 400; // $0.004 a play, paid by the platform
+export const SUBSCRIPTION_SHARE = 0.8; // The athlete's share of a fan subscription payment
+export const TIP_SHARE = 0.9;
+export const MIN_TIP = 100; // Cents
+
+const MILLICENTS_PER_CENT = 1000;
+
+export type RevenueStream = 'streaming' | 'subscriptions' | 'tips';
+
+const STREAMS: Record<Exclude<LedgerTransactionType, 'payout'>, RevenueStream> = {
+  play_royalty: 'streaming',
+  subscription_share: 'subscriptions',
+  tip: 'tips'
+};
+
+const EARNING_TYPES = Object.keys(STREAMS) as LedgerTransactionType[];
+
+export interface Posting {
+  account: LedgerAccount;
+  userId?: number;
+  amount: number;
+}
+
+// Book a transaction. Ones with an external id are only booked once, even when two requests race
+// to book it; returns undefined for a repeat.
+export async function post(transaction: InsertLedgerTransaction, postings: Posting[], options?: LedgerTransactionOptions): Promise<LedgerTransaction | undefined> {
+  if (postings.reduce((sum, posting) => sum + posting.amount, 0) !== 0) {
+    throw new Error(`Unbalanced ${transaction.type} ledger transaction`);
+  }
+  return storage.createLedgerTransaction(transaction, postings, options);
+}
+
+// Money paid in, split between the athlete and the platform
+function revenueSplit(gross: number, share: number, athleteId: number): Posting[] {
+  const athleteAmount = Math.round(gross * share);
+  return [
+    { account: 'cash', amount: -gross },
+    { account: 'athlete_earnings', userId: athleteId, amount: athleteAmount },
+    { account: 'platform_revenue', amount: gross - athleteAmount }
+  ];
+}
+
+function reversed(postings: Posting[]): Posting[] {
+  return postings.map(posting => ({ ...posting, amount: -posting.amount }));
+}
+
+// A listener earns the artist one royalty per track in each window, however many requests, seeks
+// and replays it takes them
+export const PLAY_ROYALTY_WINDOW_MS = 30 * 60 * 1000;
+
+// Streams delivered to signed-in listeners earn the artist a royalty. Artists listening to their
+// own tracks, and anonymous plays, don't.
+export async function recordPlayRoyalty(track: Track, listener: User | undefined, now = Date.now()): Promise<void> {
+  if (!listener || listener.id === track.artistId || !track.isPublished) return;
+
+  const window = Math.floor(now / PLAY_ROYALTY_WINDOW_MS);
+  await post({
+    type: 'play_royalty',
+    description: `Play of "${track.title}"`,
+    trackId: track.id,
+    externalId: `play:${listener.id}:${track.id}:${window}`
+  }, [
+    { account: 'royalty_expense', amount: -PLAY_ROYALTY },
+    { account: 'athlete_earnings', userId: track.artistId, amount: PLAY_ROYALTY }
+  ]);
+}
+
+// A paid invoice of a fan's subscription to an athlete
+export async function recordSubscriptionShare(invoice: Stripe.Invoice): Promise<void> {
+  const metadata = invoice.subscription_details?.metadata;
+  const athleteId = Number(metadata?.athleteId);
+  if (!Number.isInteger(athleteId) || !(invoice.amount_paid > 0)) return;
+
+  const tier = await storage.getAthleteSubscriptionTier(athleteTierIdOf(metadata) ?? 0);
+  await post(
+    { type: 'subscription_share', description: `Fan subscription${tier ? `: ${tier.name}` : ''}`, externalId: invoice.id },
+    revenueSplit(invoice.amount_paid * MILLICENTS_PER_CENT, SUBSCRIPTION_SHARE, athleteId)
+  );
+}
+
+export function tipAthleteIdOf(metadata: Stripe.Metadata | null | undefined): number | undefined {
+  const athleteId = Number(metadata?.tipAthleteId);
+  return Number.isInteger(athleteId) && athleteId > 0 ? athleteId : undefined;
+}
+
+// A Stripe Checkout page for tipping an athlete
+export async function createTipCheckout(fan: User, athleteId: number, amount: number, returnUrl: string): Promise<string> {
+  const athlete = await storage.getUser(athleteId);
+  if (!athlete || athlete.role !== 'athlete' || !isAccountActive(athlete)) {
+    throw new BillingError("Athlete not found", 404);
+  }
+  if (athlete.id === fan.id) {
+    throw new BillingError("You can't tip yourself");
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    mode: 'payment',
+    customer: await ensureStripeCustomer(fan),
+    client_reference_id: fan.id.toString(),
+    line_items: [{
+      price_data: { currency: 'usd', unit_amount: amount, product_data: { name: `Tip for ${athlete.fullName}` } },
+      quantity: 1
+    }],
+    payment_intent_data: {
+      metadata: { tipAthleteId: athlete.id.toString(), fanId: fan.id.toString() }
+    },
+    success_url: `${returnUrl}?tipped=success`,
+    cancel_url: returnUrl
+  });
+  if (!session.url) throw new Error("Stripe didn't return a checkout URL");
+  return session.url;
+}
+
+function tipPostings(charge: Stripe.Charge, athleteId: number): Posting[] {
+  return revenueSplit(charge.amount * MILLICENTS_PER_CENT, TIP_SHARE, athleteId);
+}
+
+export async function recordTip(charge: Stripe.Charge): Promise<void> {
+  const athleteId = tipAthleteIdOf(charge.metadata);
+  if (!athleteId || charge.status !== 'succeeded') return;
+
+  const fan = await storage.getUser(Number(charge.metadata.fanId));
+  await post(
+    { type: 'tip', description: fan ? `Tip from ${fan.fullName}` : "Tip", externalId: charge.id },
+    tipPostings(charge, athleteId)
+  );
+}
+
+// A fully refunded tip comes back out of the athlete's earnings
+export async function reverseTip(charge: Stripe.Charge): Promise<void> {
+  const athleteId = tipAthleteIdOf(charge.metadata);
+  if (!athleteId || !charge.refunded) return;
+
+  const original = await storage.getLedgerTransactionByExternalId(charge.id);
+  if (!original) return;
+  await post(
+    { type: 'tip', description: `Refunded: ${original.description}`, externalId: `${charge.id}:refund` },
+    reversed(tipPostings(charge, athleteId))
+  );
+}
+
+// Payouts happen outside the platform; admins record them here so balances stay right. The
+// reference is the payment's own id (a bank transfer reference, say), so recording the same
+// payout again books it once.
+export async function recordPayout(athlete: User, amount: number, method: string, reference: string): Promise<LedgerTransaction> {
+  const millicents = amount * MILLICENTS_PER_CENT;
+  const externalId = `payout:${athlete.id}:${reference}`;
+
+  let transaction: LedgerTransaction | undefined;
+  try {
+    transaction = await post(
+      { type: 'payout', description: `Payout via ${method} (${reference})`, externalId },
+      [
+        { account: 'athlete_earnings', userId: athlete.id, amount: -millicents },
+        { account: 'cash', amount: millicents }
+      ],
+      { nonNegativeBalance: { account: 'athlete_earnings', userId: athlete.id } }
+    );
+  } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      throw new BillingError("The payout is more than the athlete's balance", 409);
+    }
+    throw error;
+  }
+  return transaction ?? (await storage.getLedgerTransactionByExternalId(externalId))!;
+}
+
+export type EarningsPeriod = 'month' | 'quarter' | 'year' | 'all';
+
+function monthStart(monthsAgo: number, now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - monthsAgo, 1));
+}
+
+function periodStart(period: EarningsPeriod): Date | undefined {
+  const now = new Date();
+  switch (period) {
+    case 'month': return monthStart(0, now);
+    case 'quarter': return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - now.getUTCMonth() % 3, 1));
+    case 'year': return new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+    case 'all': return undefined;
+  }
+}
+
+function sum(totals: LedgerTotal[]): number {
+  return totals.reduce((total, { amount }) => total + amount, 0);
+}
+
+function toCents(millicents: number): number {
+  return millicents / MILLICENTS_PER_CENT;
+}
+
+function transactionSummary({ transaction, amount }: LedgerEntryDetails) {
+  return {
+    id: transaction.id,
+    date: transaction.createdAt,
+    type: transaction.type,
+    description: transaction.description,
+    amount: toCents(amount)
+  };
+}
+
+// Everything the earnings page shows, in cents. Totals, streams and tracks cover the period;
+// the balance, payouts and the monthly chart (the last 12 months) don't depend on it.
+export async function earningsSummary(user: User, period: EarningsPeriod) {
+  const since = periodStart(period);
+  const [byType, allTime, byMonth, byTrack, transactions, payouts] = await Promise.all([
+    storage.getLedgerTotals('athlete_earnings', user.id, 'type', { types: EARNING_TYPES, since }),
+    storage.getLedgerTotals('athlete_earnings', user.id, 'type'),
+    storage.getLedgerTotals('athlete_earnings', user.id, 'month', { types: EARNING_TYPES, since: monthStart(11) }),
+    storage.getLedgerTotals('athlete_earnings', user.id, 'track', { types: EARNING_TYPES, since }),
+    // Play royalties are too many to list one by one; they're summed up per track instead
+    storage.getLedgerEntries('athlete_earnings', user.id, { types: ['subscription_share', 'tip', 'payout'], limit: 50 }),
+    storage.getLedgerEntries('athlete_earnings', user.id, { types: ['payout'] })
+  ]);
+
+  const earned = sum(byType);
+  const monthly = Array.from({ length: 12 }, (_, index) => {
+    const month = monthStart(11 - index).toISOString().slice(0, 7);
+    return { month, amount: toCents(byMonth.find(total => total.key === month)?.amount ?? 0) };
+  });
+  const [lastMonth, thisMonth] = monthly.slice(-2).map(({ amount }) => amount);
+
+  const streams = new Map<RevenueStream, number>();
+  for (const { key, amount } of byType) {
+    const stream = STREAMS[key as keyof typeof STREAMS];
+    streams.set(stream, (streams.get(stream) ?? 0) + amount);
+  }
+
+  const topTracks = byTrack.sort((a, b) => b.amount - a.amount).slice(0, 10);
+  const tracks = await Promise.all(topTracks.map(async ({ key, amount, count }) => {
+    const track = await storage.getTrack(Number(key));
+    return { id: Number(key), title: track?.title ?? "Deleted track", plays: track?.plays ?? count, paidPlays: count, amount: toCents(amount) };
+  }));
+
+  return {
+    currency: 'usd',
+    period,
+    totals: {
+      earned: toCents(earned),
+      balance: toCents(sum(allTime)),
+      paidOut: -toCents(allTime.find(total => total.key === 'payout')?.amount ?? 0),
+      thisMonth,
+      lastMonth,
+      monthlyGrowth: lastMonth > 0 ? ((thisMonth - lastMonth) / lastMonth) * 100 : null
+    },
+    streams: Array.from(streams, ([stream, amount]) => ({
+      stream,
+      amount: toCents(amount),
+      share: earned > 0 ? (amount / earned) * 100 : 0
+    })),
+    monthly,
+    tracks,
+    transactions: transactions.map(transactionSummary),
+    payouts: payouts.map(entry => ({ ...transactionSummary(entry), amount: -toCents(entry.amount) })),
+    rates: {
+      playRoyalty: toCents(PLAY_ROYALTY),
+      subscriptionShare: SUBSCRIPTION_SHARE,
+      tipShare: TIP_SHARE
+    }
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from "vitest";
+import { type Response } from "express";
+import { type StudioSession, type Track, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { entitlementTier, canPlayTrack, reserveAiGeneration, hasFreeSessionSeat } from "./entitlements";
+
+function user(fields: Partial<User>): User {
+  return { id: 10, role: "fan", subscriptionTier: "none", ...fields } as User;
+}
+
+function track(fields: Partial<Track>): Track {
+  return { id: 1, artistId: 20, isExclusive: false, ...fields } as Track;
+}
+
+// Try to reserve a generation and report what happened: the reservation, or the response sent instead
+async function runQuotaCheck(requestUser: User) {
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+  const generation = await reserveAiGeneration(requestUser, "music", res as unknown as Response);
+  return { generation, status: res.status.mock.calls[0]?.[0], body: res.json.mock.calls[0]?.[0] };
+}
+
+async function bronzeUser(): Promise<User> {
+  const bronze = await storage.createUser({ username: "fan", password: "x", email: "fan@example.com", fullName: "Fan" });
+  await storage.updateUser(bronze.id, { subscriptionTier: "bronze" });
+  return (await storage.getUser(bronze.id))!;
+}
+
+describe("entitlementTier", () => {
+  it("goes by the subscription tier, with admins on the top one", () => {
+    expect(entitlementTier(undefined)).toBe("none");
+    expect(entitlementTier(user({ subscriptionTier: "silver" }))).toBe("silver");
+    expect(entitlementTier(user({ subscriptionTier: "platinum" }))).toBe("none");
+    expect(entitlementTier(user({ role: "admin" }))).toBe("gold");
+  });
+});
+
+describe("canPlayTrack", () => {
+  it("plays exclusive tracks only for their artist and plans with exclusive content", () => {
+    const exclusive = track({ isExclusive: true });
+    expect(canPlayTrack(undefined, track({}))).toBe(true);
+    expect(canPlayTrack(undefined, exclusive)).toBe(false);
+    expect(canPlayTrack(user({ subscriptionTier: "bronze" }), exclusive)).toBe(false);
+    expect(canPlayTrack(user({ subscriptionTier: "silver" }), exclusive)).toBe(true);
+    expect(canPlayTrack(user({ id: 20 }), exclusive)).toBe(true);
+  });
+});
+
+describe("reserveAiGeneration", () => {
+  it("locks AI generation for plans without it and names the tier that has it", async () => {
+    const { generation, status, body } = await runQuotaCheck(user({}));
+    expect(generation).toBeUndefined();
+    expect(status).toBe(403);
+    expect(body).toMatchObject({ feature: "aiGenerationsPerMonth", requiredTier: "bronze" });
+  });
+
+  it("hands out generations until the month's quota is used up", async () => {
+    const requestUser = await bronzeUser();
+
+    for (let count = 0; count < 10; count++) {
+      expect((await runQuotaCheck(requestUser)).generation).toBeDefined();
+    }
+    const { generation, status, body } = await runQuotaCheck(requestUser);
+    expect(generation).toBeUndefined();
+    expect(status).toBe(429);
+    expect(body).toMatchObject({ requiredTier: "silver" });
+  });
+
+  it("doesn't let parallel requests go over the quota", async () => {
+    const requestUser = await bronzeUser();
+
+    const results = await Promise.all(Array.from({ length: 15 }, () => runQuotaCheck(requestUser)));
+    expect(results.filter(result => result.generation)).toHaveLength(10);
+    expect(results.filter(result => result.status === 429)).toHaveLength(5);
+  });
+
+  it("gives a released generation back", async () => {
+    const requestUser = await bronzeUser();
+    const generations = [];
+    for (let count = 0; count < 10; count++) {
+      generations.push((await runQuotaCheck(requestUser)).generation!);
+    }
+
+    await storage.releaseAiGeneration(generations[0].id);
+    expect((await runQuotaCheck(requestUser)).generation).toBeDefined();
+  });
+});
+
+describe("hasFreeSessionSeat", () => {
+  it("fits as many people as the owner's plan allows", async () => {
+    const owner = await storage.createUser({ username: "owner", password: "x", email: "owner@example.com", fullName: "Owner", role: "athlete" });
+    await storage.updateUser(owner.id, { subscriptionTier: "bronze" });
+    const session = { id: 1, userId: owner.id, collaborators: null } as StudioSession;
+
+    expect(await hasFreeSessionSeat(session, 99)).toBe(true);
+    const full = { ...session, collaborators: JSON.stringify([99]) };
+    expect(await hasFreeSessionSeat(full, 100)).toBe(false);
+    // People already in the session can come back
+    expect(await hasFreeSessionSeat(full, 99)).toBe(true);
+    expect(await hasFreeSessionSeat(full, owner.id)).toBe(true);
+  });
+});
@@ -0,0 +1,189 @@
+import fs from "fs/promises";
+import { type Request, type Response, type NextFunction } from "express";
+import { type User, type Track, type StudioSession, type AiGeneration } from "@shared/schema";
+import { storage } from "./storage";
+import { userFilePaths } from "./accountStatus";
+import { getSessionCollaborators } from "./liveSessions";
+import { PAID_TIERS, type PaidTier } from "./billing";
+
+// What each subscription tier lets a user do. Everything that depends on the tier asks here, so
+// the plans page, the API and the client's locked features all agree. Admins get the top tier.
+
+export type EntitlementTier = PaidTier | 'none';
+
+export interface Entitlements {
+  exclusiveTracks: boolean; // Play and download tracks marked exclusive
+  download: boolean; // Download other artists' tracks for offline listening
+  studioSeats: number; // People in one of the user's live studio sessions, the owner included
+  aiGenerationsPerMonth: number;
+  storageBytes: number; // Everything the user has uploaded or had rendered
+}
+
+export type BooleanEntitlement = 'exclusiveTracks' | 'download';
+
+const GB = 1024 * 1024 * 1024;
+
+export const TIER_ENTITLEMENTS: Record<EntitlementTier, Entitlements> = {
+  none: { exclusiveTracks: false, download: false, studioSeats: 1, aiGenerationsPerMonth: 0, storageBytes: 1 * GB },
+  bronze: { exclusiveTracks: false, download: false, studioSeats: 2, aiGenerationsPerMonth: 10, storageBytes: 5 * GB },
+  silver: { exclusiveTracks: true, download: true, studioSeats: 4, aiGenerationsPerMonth: 50, storageBytes: 20 * GB },
+  gold: { exclusiveTracks: true, download: true, studioSeats: 10, aiGenerationsPerMonth: 200, storageBytes: 100 * GB }
+};
+
+const TIER_ORDER: EntitlementTier[] = ['none', ...PAID_TIERS];
+
+export function entitlementTier(user: User | undefined): EntitlementTier {
+  if (user?.role === 'admin') return 'gold';
+  return TIER_ORDER.find(tier => tier === user?.subscriptionTier) ?? 'none';
+}
+
+export function entitlementsFor(user: User | undefined): Entitlements {
+  return TIER_ENTITLEMENTS[entitlementTier(user)];
+}
+
+// The cheapest tier that allows something, for telling users what to upgrade to
+function requiredTier(allows: (entitlements: Entitlements) => boolean): EntitlementTier | undefined {
+  return TIER_ORDER.find(tier => allows(TIER_ENTITLEMENTS[tier]));
+}
+
+// The response for something the user's plan doesn't include. The client shows an upgrade
+// prompt for the tier it names.
+export function sendLocked(res: Response, message: string, feature: keyof Entitlements, allows: (entitlements: Entitlements) => boolean, status = 403) {
+  res.status(status).json({ message, feature, requiredTier: requiredTier(allows) ?? null });
+}
+
+export function hasEntitlement(user: User | undefined, feature: BooleanEntitlement): boolean {
+  return entitlementsFor(user)[feature];
+}
+
+// Exclusive tracks can be played by their artist and by plans with exclusive content
+export function canPlayTrack(user: User | undefined, track: Track): boolean {
+  if (!track.isExclusive) return true;
+  if (user && user.id === track.artistId) return true;
+  return hasEntitlement(user, 'exclusiveTracks');
+}
+
+export function sendTrackLocked(res: Response) {
+  sendLocked(res, "This track is exclusive to subscribers", 'exclusiveTracks', entitlements => entitlements.exclusiveTracks);
+}
+
+// AI generation quotas run per calendar month (UTC)
+function startOfMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function startOfNextMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+export async function aiGenerationsThisMonth(user: User): Promise<number> {
+  return storage.countAiGenerationsSince(user.id, startOfMonth());
+}
+
+// Takes one of the month's AI generations for /api/ai/generate before the provider is called, so
+// parallel requests can't go over the quota. Plans without AI generation get a 403; a used-up quota
+// is a 429 until the month is over. Sends the response itself and returns undefined when refused.
+export async function reserveAiGeneration(user: User, type: string, res: Response): Promise<AiGeneration | undefined> {
+  const allowance = entitlementsFor(user).aiGenerationsPerMonth;
+  if (allowance === 0) {
+    sendLocked(res, "AI generation isn't included in your plan", 'aiGenerationsPerMonth', entitlements => entitlements.aiGenerationsPerMonth > 0);
+    return undefined;
+  }
+  const generation = await storage.reserveAiGeneration({ userId: user.id, type }, startOfMonth(), allowance);
+  if (!generation) {
+    sendLocked(
+      res,
+      `You've used all ${allowance} AI generations in your plan this month. More are available from ${startOfNextMonth().toUTCString()}.`,
+      'aiGenerationsPerMonth',
+      entitlements => entitlements.aiGenerationsPerMonth > allowance,
+      429
+    );
+  }
+  return generation;
+}
+
+// Bytes on disk behind everything the user has uploaded or had rendered
+export async function storageUsed(user: User): Promise<number> {
+  const sizes = await Promise.all((await userFilePaths(user)).map(async filePath => {
+    try {
+      return (await fs.stat(filePath)).size;
+    } catch {
+      return 0;
+    }
+  }));
+  return sizes.reduce((total, size) => total + size, 0);
+}
+
+function uploadedBytes(req: Request): number {
+  const files = req.file ? [req.file] : Array.isArray(req.files) ? req.files : Object.values(req.files ?? {}).flat();
+  return files.reduce((total, file) => total + file.size, 0);
+}
+
+// Whether `incoming` more bytes fit in what's left of `user`'s storage. Sends the response itself
+// when they don't.
+export async function checkStorageQuota(user: User, incoming: number, res: Response): Promise<boolean> {
+  const quota = entitlementsFor(user).storageBytes;
+  const used = await storageUsed(user);
+  if (used + incoming > quota) {
+    sendLocked(
+      res,
+      `This upload doesn't fit in your plan's storage (${formatBytes(used)} of ${formatBytes(quota)} used)`,
+      'storageBytes',
+      entitlements => entitlements.storageBytes >= used + incoming,
+      413
+    );
+    return false;
+  }
+  return true;
+}
+
+// Middleware for upload routes, after multer: the request's files have to fit in what's left of
+// the user's storage. Rejected files are removed by cleanUpTempUploads.
+export async function requireStorageQuota(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (await checkStorageQuota(req.user!, uploadedBytes(req), res)) next();
+  } catch (error) {
+    res.status(500).json({ message: "Failed to check storage quota" });
+  }
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= GB ? `${(bytes / GB).toFixed(1)} GB` : `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// Whether someone can join a live session: the owner's plan decides how many people fit in it.
+// People already in the session can always come back.
+export async function hasFreeSessionSeat(session: StudioSession, userId: number): Promise<boolean> {
+  const collaborators = getSessionCollaborators(session);
+  if (session.userId === userId || collaborators.includes(userId)) return true;
+
+  const owner = await storage.getUser(session.userId);
+  return collaborators.length + 1 < entitlementsFor(owner).studioSeats;
+}
+
+export function sendSessionFull(res: Response) {
+  res.status(403).json({
+    message: "This session is full. The session owner's plan limits how many people can join.",
+    feature: 'studioSeats',
+    requiredTier: null // It's the owner's plan that would have to change
+  });
+}
+
+// What the client needs to show which features are locked: the user's entitlements, how much of
+// their quotas they've used, and what every tier includes
+export async function entitlementSummary(user: User) {
+  const entitlements = entitlementsFor(user);
+  const [aiGenerations, storageBytes] = await Promise.all([aiGenerationsThisMonth(user), storageUsed(user)]);
+
+  return {
+    tier: entitlementTier(user),
+    entitlements,
+    usage: {
+      aiGenerations,
+      aiGenerationsResetAt: startOfNextMonth(),
+      storageBytes
+    },
+    locked: (Object.keys(entitlements) as (keyof Entitlements)[]).filter(feature => !entitlements[feature]),
+    tiers: TIER_ENTITLEMENTS
+  };
+}
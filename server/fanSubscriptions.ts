@@ -0,0 +1,188 @@
+import type Stripe from "stripe";
+import { type User, type Track, type AthleteSubscriptionTier, type FanSubscription } from "@shared/schema";
+import { storage } from "./storage";
+import { stripe, isStripeConfigured, ensureStripeCustomer, BillingError, ENTITLED_STATUSES } from "./billing";
+import { isAccountActive } from "./accountStatus";
+
+// Besides the platform plans, fans can subscribe to the athletes they follow. Athletes set up their
+// own tiers and prices; subscribing goes through Stripe Checkout like the platform plans do. These
+// subscriptions carry the tier's id in their metadata, which is how the webhook handler tells them
+// apart: they never change the fan's platform tier. Tracks marked subscriberOnly only play for the
+// artist's active subscribers.
+
+const TIER_METADATA_KEY = "athleteTierId";
+
+export function athleteTierIdOf(metadata: Stripe.Metadata | null | undefined): number | undefined {
+  const tierId = Number(metadata?.[TIER_METADATA_KEY]);
+  return Number.isInteger(tierId) && tierId > 0 ? tierId : undefined;
+}
+
+export function isActiveFanSubscription(subscription: FanSubscription): boolean {
+  return ENTITLED_STATUSES.includes(subscription.status as Stripe.Subscription.Status);
+}
+
+export async function activeFanSubscription(fanId: number, athleteId: number): Promise<FanSubscription | undefined> {
+  const subscriptions = await storage.getFanSubscriptionsByFan(fanId);
+  return subscriptions.find(subscription => subscription.athleteId === athleteId && isActiveFanSubscription(subscription));
+}
+
+// Subscriber-only tracks play for their artist, admins and the artist's active subscribers
+export async function canPlaySubscriberTrack(user: User | undefined, track: Track): Promise<boolean> {
+  if (!track.subscriberOnly) return true;
+  if (!user) return false;
+  if (user.id === track.artistId || user.role === 'admin') return true;
+  return !!(await activeFanSubscription(user.id, track.artistId));
+}
+
+export interface TierInput {
+  name?: string;
+  description?: string;
+  amount?: number;
+  isActive?: boolean;
+}
+
+// Stop new subscriptions on a tier's current price. Subscribers already on it keep it.
+async function retirePrice(tier: AthleteSubscriptionTier): Promise<void> {
+  if (!tier.stripePriceId || !isStripeConfigured()) return;
+  await stripe.prices.update(tier.stripePriceId, { active: false });
+}
+
+// Changing the amount or retiring a tier retires its Stripe price; a new one is made the next
+// time someone subscribes
+export async function updateAthleteTier(tier: AthleteSubscriptionTier, input: TierInput): Promise<AthleteSubscriptionTier | undefined> {
+  const repriced = input.amount !== undefined && input.amount !== tier.amount;
+  const retired = input.isActive === false && tier.isActive;
+  if (repriced || retired) {
+    await retirePrice(tier);
+  }
+  return storage.updateAthleteSubscriptionTier(tier.id, {
+    ...input,
+    ...(repriced || retired ? { stripePriceId: null } : {})
+  });
+}
+
+async function tierPrice(tier: AthleteSubscriptionTier, athlete: User): Promise<string> {
+  if (tier.stripePriceId) return tier.stripePriceId;
+
+  const metadata = { [TIER_METADATA_KEY]: tier.id.toString(), athleteId: athlete.id.toString() };
+  const price = await stripe.prices.create({
+    currency: tier.currency,
+    unit_amount: tier.amount,
+    recurring: { interval: 'month' },
+    metadata,
+    product_data: { name: `${athlete.fullName} - ${tier.name}`, metadata }
+  });
+  await storage.updateAthleteSubscriptionTier(tier.id, { stripePriceId: price.id });
+  return price.id;
+}
+
+// A Stripe Checkout page for subscribing to an athlete. Fans subscribe to each athlete once; to
+// switch tiers they cancel and subscribe again.
+export async function createFanSubscriptionCheckout(fan: User, tier: AthleteSubscriptionTier, returnUrl: string): Promise<string> {
+  const athlete = await storage.getUser(tier.athleteId);
+  if (!athlete || !isAccountActive(athlete) || !tier.isActive) {
+    throw new BillingError("Subscription tier not found", 404);
+  }
+  if (athlete.id === fan.id) {
+    throw new BillingError("You can't subscribe to yourself");
+  }
+  if (await activeFanSubscription(fan.id, athlete.id)) {
+    throw new BillingError(`You already subscribe to ${athlete.fullName}`, 409);
+  }
+
+  const [customer, price] = await Promise.all([ensureStripeCustomer(fan), tierPrice(tier, athlete)]);
+  const session = await stripe.checkout.sessions.create({
+    mode: 'subscription',
+    customer,
+    client_reference_id: fan.id.toString(),
+    line_items: [{ price, quantity: 1 }],
+    subscription_data: {
+      metadata: { [TIER_METADATA_KEY]: tier.id.toString(), athleteId: athlete.id.toString(), fanId: fan.id.toString() }
+    },
+    success_url: `${returnUrl}?subscribed=success`,
+    cancel_url: `${returnUrl}?subscribed=cancelled`
+  });
+  if (!session.url) throw new Error("Stripe didn't return a checkout URL");
+  return session.url;
+}
+
+// Record a fan subscription as Stripe has it. Subscriptions are only recorded once they've been
+// paid for, so abandoned checkouts don't show up in subscriber lists.
+export async function syncFanSubscription(subscription: Stripe.Subscription): Promise<FanSubscription | undefined> {
+  const tier = await storage.getAthleteSubscriptionTier(athleteTierIdOf(subscription.metadata) ?? 0);
+  if (!tier) return undefined;
+
+  const fields = {
+    status: subscription.status,
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end
+  };
+  const existing = await storage.getFanSubscriptionByStripeId(subscription.id);
+  if (existing) {
+    return storage.updateFanSubscription(existing.id, fields);
+  }
+  if (!ENTITLED_STATUSES.includes(subscription.status)) return undefined;
+
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+  const fan = await storage.getUserByStripeCustomerId(customerId) ?? await storage.getUser(Number(subscription.metadata.fanId));
+  if (!fan) return undefined;
+
+  return storage.createFanSubscription({
+    ...fields,
+    fanId: fan.id,
+    athleteId: tier.athleteId,
+    tierId: tier.id,
+    stripeSubscriptionId: subscription.id
+  });
+}
+
+// Cancel at the end of the period that's been paid for, or take that back
+export async function setFanSubscriptionCancelAtPeriodEnd(subscription: FanSubscription, cancel: boolean): Promise<FanSubscription | undefined> {
+  if (!isActiveFanSubscription(subscription)) {
+    throw new BillingError("This subscription has ended", 409);
+  }
+  const updated = await stripe.subscriptions.update(subscription.stripeSubscriptionId, { cancel_at_period_end: cancel });
+  return syncFanSubscription(updated);
+}
+
+interface SubscriptionParty {
+  id: number;
+  username: string;
+  fullName: string;
+  profileImage: string | null;
+}
+
+function party(user: User): SubscriptionParty {
+  return { id: user.id, username: user.username, fullName: user.fullName, profileImage: user.profileImage };
+}
+
+export type FanSubscriptionDetails = FanSubscription & {
+  tier?: { id: number; name: string; amount: number; currency: string };
+  fan?: SubscriptionParty;
+  athlete?: SubscriptionParty;
+};
+
+async function withDetails(subscription: FanSubscription): Promise<FanSubscriptionDetails> {
+  const [tier, fan, athlete] = await Promise.all([
+    storage.getAthleteSubscriptionTier(subscription.tierId),
+    storage.getUser(subscription.fanId),
+    storage.getUser(subscription.athleteId)
+  ]);
+  return {
+    ...subscription,
+    tier: tier && { id: tier.id, name: tier.name, amount: tier.amount, currency: tier.currency },
+    fan: fan && party(fan),
+    athlete: athlete && party(athlete)
+  };
+}
+
+// An athlete's current subscribers, newest first
+export async function subscriberList(athleteId: number): Promise<FanSubscriptionDetails[]> {
+  const subscriptions = (await storage.getFanSubscriptionsByAthlete(athleteId)).filter(isActiveFanSubscription);
+  return Promise.all(subscriptions.map(withDetails));
+}
+
+// The athletes a fan subscribes to, including subscriptions that have ended
+export async function fanSubscriptionList(fanId: number): Promise<FanSubscriptionDetails[]> {
+  return Promise.all((await storage.getFanSubscriptionsByFan(fanId)).map(withDetails));
+}
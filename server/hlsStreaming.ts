@@ -0,0 +1,174 @@
+import fs from "fs/promises";
+import { type TrackRendition } from "./trackProcessing";
+
+// HLS for processed tracks. The MP3 renditions are cut into packed-audio segments on frame
+// boundaries when a playlist is first asked for, so nothing extra is stored on disk.
+
+// Segments aim for this length; each one is a whole number of MP3 frames
+export const HLS_SEGMENT_SECONDS = 6;
+
+export interface HlsSegment {
+  offset: number;
+  length: number;
+  start: number; // Seconds from the start of the track
+  duration: number;
+}
+
+// Layer III bitrates in kbps by bitrate index, for MPEG-1 and for MPEG-2/2.5
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+// Sample rates by version bits (3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5) and sample rate index
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+interface Mp3Frame {
+  length: number;
+  samples: number;
+  sampleRate: number;
+}
+
+// Parse the Layer III frame header at `offset`, if there is one
+function readFrameHeader(data: Buffer, offset: number): Mp3Frame | undefined {
+  if (offset + 4 > data.length) return undefined;
+  if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return undefined;
+
+  const version = (data[offset + 1] >> 3) & 0x03;
+  const layer = (data[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = data[offset + 2] >> 4;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+  const padding = (data[offset + 2] >> 1) & 0x01;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return undefined;
+  }
+
+  const isMpeg1 = version === 3;
+  const bitrate = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const samples = isMpeg1 ? 1152 : 576;
+  const length = Math.floor((samples / 8) * bitrate / sampleRate) + padding;
+  return { length, samples, sampleRate };
+}
+
+// Size of a leading ID3v2 tag, which isn't audio and is left out of the segments
+function id3TagLength(data: Buffer): number {
+  if (data.length < 10 || data.toString("latin1", 0, 3) !== "ID3") return 0;
+  const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+  const hasFooter = (data[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+// Group an MP3's frames into segments of roughly HLS_SEGMENT_SECONDS
+export function segmentMp3(data: Buffer, segmentSeconds = HLS_SEGMENT_SECONDS): HlsSegment[] {
+  const segments: HlsSegment[] = [];
+  let current: HlsSegment | undefined;
+  let position = 0;
+  let offset = id3TagLength(data);
+
+  while (offset < data.length) {
+    const frame = readFrameHeader(data, offset);
+    if (!frame || offset + frame.length > data.length) {
+      // Skip junk between frames (or a trailing ID3v1 tag) a byte at a time until the next frame
+      offset++;
+      continue;
+    }
+
+    const frameDuration = frame.samples / frame.sampleRate;
+    if (!current || current.duration >= segmentSeconds || current.offset + current.length !== offset) {
+      current = { offset, length: 0, start: position, duration: 0 };
+      segments.push(current);
+    }
+    current.length += frame.length;
+    current.duration += frameDuration;
+    position += frameDuration;
+    offset += frame.length;
+  }
+
+  return segments;
+}
+
+// Segment lists are small, so they're kept for the most recently streamed renditions
+const MAX_CACHED_RENDITIONS = 100;
+const segmentCache = new Map<string, Promise<HlsSegment[]>>();
+
+export function getRenditionSegments(filePath: string): Promise<HlsSegment[]> {
+  let segments = segmentCache.get(filePath);
+  if (!segments) {
+    segments = fs.readFile(filePath).then(data => segmentMp3(data));
+    segments.catch(() => segmentCache.delete(filePath));
+
+    if (segmentCache.size >= MAX_CACHED_RENDITIONS) {
+      const oldest = segmentCache.keys().next().value;
+      if (oldest !== undefined) segmentCache.delete(oldest);
+    }
+    segmentCache.set(filePath, segments);
+  }
+  return segments;
+}
+
+// The master playlist lists one variant per rendition, the default first since players start with it
+export function masterPlaylist(renditions: TrackRendition[], defaultBitrate: number): string {
+  const ordered = [
+    ...renditions.filter(rendition => rendition.bitrate === defaultBitrate),
+    ...renditions.filter(rendition => rendition.bitrate !== defaultBitrate),
+  ];
+
+  const lines = ["#EXTM3U", "#EXT-X-VERSION:3"];
+  for (const rendition of ordered) {
+    // Allow a little on top of the audio bitrate for the timestamp tag on each segment
+    const bandwidth = Math.ceil(rendition.bitrate * 1000 * 1.01);
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},CODECS="mp4a.40.34"`);
+    lines.push(`${rendition.bitrate}.m3u8`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function mediaPlaylist(bitrate: number, segments: HlsSegment[]): string {
+  const targetDuration = Math.ceil(Math.max(HLS_SEGMENT_SECONDS, ...segments.map(segment => segment.duration)));
+
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    "#EXT-X-MEDIA-SEQUENCE:0",
+    "#EXT-X-PLAYLIST-TYPE:VOD",
+  ];
+  segments.forEach((segment, index) => {
+    lines.push(`#EXTINF:${segment.duration.toFixed(5)},`);
+    lines.push(`${bitrate}/${index}.mp3`);
+  });
+  lines.push("#EXT-X-ENDLIST");
+  return lines.join("\n") + "\n";
+}
+
+const TIMESTAMP_OWNER = "com.apple.streaming.transportStreamTimestamp";
+
+function syncsafe(value: number): Buffer {
+  return Buffer.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+}
+
+// Packed audio segments start with an ID3 tag carrying the segment's start time as a 90kHz
+// MPEG-2 timestamp, which players use to line segments up
+function timestampTag(start: number): Buffer {
+  const pts = Math.round(start * 90000) % 2 ** 33;
+  const timestamp = Buffer.alloc(8);
+  timestamp.writeUInt32BE(Math.floor(pts / 2 ** 32), 0);
+  timestamp.writeUInt32BE(pts % 2 ** 32, 4);
+
+  const frameData = Buffer.concat([Buffer.from(`${TIMESTAMP_OWNER}\0`, "latin1"), timestamp]);
+  const frame = Buffer.concat([Buffer.from("PRIV", "latin1"), syncsafe(frameData.length), Buffer.alloc(2), frameData]);
+  return Buffer.concat([Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00]), syncsafe(frame.length), frame]);
+}
+
+export async function readSegment(filePath: string, segment: HlsSegment): Promise<Buffer> {
+  const file = await fs.open(filePath, "r");
+  try {
+    const audio = Buffer.alloc(segment.length);
+    await file.read(audio, 0, segment.length, segment.offset);
+    return Buffer.concat([timestampTag(segment.start), audio]);
+  } finally {
+    await file.close();
+  }
+}
@@ -5,8 +5,19 @@ import { setupAuth } from "./auth";
 import path from "path";
 import multer from "multer";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+// Keep the raw body around for checking webhook signatures, which are computed over the exact bytes
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Ensure uploads directory exists
@@ -48,9 +59,6 @@ app.use((req, res, next) => {
 
 // Authentication will be set up in registerRoutes
 
-// Serve static files from uploads directory
-app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
-
 (async () => {
   const server = await registerRoutes(app);
 
@@ -0,0 +1,70 @@
+import { randomInt } from "crypto";
+import { storage } from "./storage";
+import { type StudioProject, type StudioSession, type User } from "@shared/schema";
+
+// Live session codes stay valid for 12 hours unless the session is ended earlier
+export const SESSION_CODE_TTL_MS = 12 * 60 * 60 * 1000;
+
+const SESSION_CODE_LENGTH = 6;
+// No 0/O or 1/I so codes can be read out loud without confusion
+const SESSION_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const MAX_CODE_ATTEMPTS = 10;
+
+function randomSessionCode(): string {
+  let code = "";
+  for (let i = 0; i < SESSION_CODE_LENGTH; i++) {
+    code += SESSION_CODE_ALPHABET[randomInt(SESSION_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Generate a session code that isn't used by any other live session
+export async function generateSessionCode(): Promise<string> {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = randomSessionCode();
+    const existingSession = await storage.getLiveSessionByCode(code);
+    if (!existingSession) {
+      return code;
+    }
+  }
+  throw new Error("Unable to generate a unique session code");
+}
+
+// Collaborators are stored on the session as a JSON array of user ids
+export function getSessionCollaborators(session: StudioSession): number[] {
+  if (!session.collaborators) return [];
+
+  try {
+    const parsed = JSON.parse(session.collaborators);
+    return Array.isArray(parsed) ? parsed.filter(Number.isInteger) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function addSessionCollaborator(session: StudioSession, userId: number): Promise<StudioSession | undefined> {
+  const collaborators = getSessionCollaborators(session);
+  if (session.userId === userId || collaborators.includes(userId)) {
+    return session;
+  }
+
+  return storage.updateStudioSession(session.id, {
+    collaborators: JSON.stringify([...collaborators, userId])
+  });
+}
+
+// The owner, any collaborator that joined with the session code, and admins can access a session
+export function canAccessSession(user: User, session: StudioSession): boolean {
+  return session.userId === user.id ||
+    user.role === 'admin' ||
+    getSessionCollaborators(session).includes(user.id);
+}
+
+// Projects are open to their owner, admins, and collaborators of the session the project belongs to
+export async function canAccessProject(user: User, project: StudioProject): Promise<boolean> {
+  if (project.userId === user.id || user.role === 'admin') return true;
+  if (!project.sessionId) return false;
+
+  const session = await storage.getStudioSession(project.sessionId);
+  return !!session && canAccessSession(user, session);
+}
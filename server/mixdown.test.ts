@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { type User } from "@shared/schema";
+import { storage } from "./storage";
+import { createSilence, encodeWav } from "./audioCodec";
+import { saveGeneratedFile } from "./uploads";
+import { trackStreamUrl } from "./trackProcessing";
+import { loadProjectAudio, parseMasteringSettings } from "./mixdown";
+
+const wav = () => encodeWav(createSilence(44100, 2, 4410));
+
+describe("loadProjectAudio", () => {
+  let owner: User;
+  let other: User;
+
+  beforeEach(async () => {
+    owner = await storage.createUser({ username: "owner", password: "x", email: "owner@example.com", fullName: "Owner", role: "athlete" });
+    other = await storage.createUser({ username: "other", password: "x", email: "other@example.com", fullName: "Other", role: "athlete" });
+  });
+
+  async function projectTrack(audioUrl: string) {
+    const project = await storage.createStudioProject({ userId: owner.id, title: "Game Day" });
+    return storage.createProjectTrack({ projectId: project.id, name: "Beat", audioUrl });
+  }
+
+  it("loads audio uploaded to the project and the owner's own track originals", async () => {
+    const uploaded = await projectTrack(await saveGeneratedFile("audio", "beat", ".wav", wav(), owner.id));
+    const original = await projectTrack(await saveGeneratedFile("originals", "audio", ".wav", wav(), owner.id));
+
+    expect((await loadProjectAudio(uploaded, owner.id)).sampleRate).toBe(44100);
+    expect((await loadProjectAudio(original, owner.id)).sampleRate).toBe(44100);
+  });
+
+  it("plays the owner's published tracks from their originals", async () => {
+    const originalAudioUrl = await saveGeneratedFile("originals", "audio", ".wav", wav(), owner.id);
+    const track = await storage.createTrack({ title: "Anthem", artistId: owner.id, audioUrl: originalAudioUrl, originalAudioUrl });
+
+    expect((await loadProjectAudio(await projectTrack(trackStreamUrl(track.id)), owner.id)).sampleRate).toBe(44100);
+  });
+
+  it("refuses other users' files and tracks", async () => {
+    const originalAudioUrl = await saveGeneratedFile("originals", "audio", ".wav", wav(), other.id);
+    const track = await storage.createTrack({ title: "Theirs", artistId: other.id, audioUrl: originalAudioUrl, originalAudioUrl });
+
+    await expect(loadProjectAudio(await projectTrack(originalAudioUrl), owner.id)).rejects.toThrow("isn't one of the project's own files");
+    await expect(loadProjectAudio(await projectTrack(trackStreamUrl(track.id)), owner.id)).rejects.toThrow("isn't one of the project's own files");
+  });
+});
+
+describe("parseMasteringSettings", () => {
+  const none = { eqSettings: null, compressorSettings: null, limiterSettings: null };
+
+  it("reads settings the mastering panel saves", () => {
+    const limiter = { threshold: -1, release: 50 };
+    expect(parseMasteringSettings({ ...none, limiterSettings: JSON.stringify(limiter) })).toEqual({ limiter, eq: undefined, compressor: undefined });
+  });
+
+  it("refuses settings outside the panel's ranges or that aren't settings at all", () => {
+    expect(parseMasteringSettings({ ...none, limiterSettings: JSON.stringify({ threshold: 12, release: 50 }) })).toBeNull();
+    expect(parseMasteringSettings({ ...none, compressorSettings: JSON.stringify({ ratio: 4 }) })).toBeNull();
+    expect(parseMasteringSettings({ ...none, eqSettings: "not json" })).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { type MasteringSettings, type ProjectTrack, MAX_PROJECT_LENGTH_MS } from "@shared/schema";
+import { type PcmAudio, createSilence, decodeAudioFile, encodeWav, getDuration, resample, toStereo } from "./audioCodec";
+import {
+  type CompressorSettings, type EqSettings, type LimiterSettings, type TrackEffects,
+  compressorSettingsSchema, eqSettingsSchema, limiterSettingsSchema, trackEffectsSchema,
+  applyCompressor, applyEq, applyGain, applyGainAndPan, applyLimiter, applyTrackEffects, dbToGain, measureIntegratedLoudness
+} from "./audioDsp";
+import { storage } from "./storage";
+import { resolveOwnedAudioUrl } from "./uploads";
+
+// Bounces are rendered as 24-bit / 48kHz stereo WAV
+export const MIXDOWN_SAMPLE_RATE = 48000;
+export const MIXDOWN_BIT_DEPTH = 24;
+
+export interface Mixdown {
+  audio: PcmAudio;
+  wav: Buffer;
+  duration: number; // seconds
+}
+
+// The file behind a project track's audio: audio uploaded to the project, or one of the owner's
+// own tracks, either by its original's URL or its stream URL (see trackStreamUrl). Never other
+// users' files, private folders or anything on another server.
+export async function resolveProjectAudio(url: string, ownerId: number): Promise<string | undefined> {
+  const streamedTrackId = url.match(/^\/api\/tracks\/(\d+)\/stream$/)?.[1];
+  if (streamedTrackId) {
+    const track = await storage.getTrack(parseInt(streamedTrackId));
+    if (!track || track.artistId !== ownerId || !track.originalAudioUrl) return undefined;
+    url = track.originalAudioUrl;
+  }
+  return resolveOwnedAudioUrl(url, ownerId);
+}
+
+// Load a project track's audio, as resolved by resolveProjectAudio. Errors don't say where the
+// file is, since they're shown to the user.
+export async function loadProjectAudio(track: ProjectTrack, ownerId: number): Promise<PcmAudio> {
+  const filePath = await resolveProjectAudio(track.audioUrl, ownerId);
+  if (!filePath) {
+    throw new Error(`The audio of "${track.name}" isn't one of the project's own files`);
+  }
+  try {
+    return await decodeAudioFile(filePath);
+  } catch {
+    throw new Error(`The audio of "${track.name}" is missing or can't be decoded`);
+  }
+}
+
+// Tracks that are heard in the mix: soloed tracks if any are soloed, otherwise every unmuted track
+export function getAudibleTracks(tracks: ProjectTrack[]): ProjectTrack[] {
+  const soloed = tracks.filter(track => track.solo);
+  return (soloed.length > 0 ? soloed : tracks).filter(track => !track.muted);
+}
+
+// Settings the studio saved as JSON: undefined if there are none, null if they aren't settings the
+// renderer accepts
+function parseSettings<T>(json: string | null | undefined, schema: z.ZodType<T>): T | null | undefined {
+  if (!json) return undefined;
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const result = schema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+// A track's effects as the studio saved them
+export function parseTrackEffects(json: string | null | undefined): TrackEffects | null | undefined {
+  return parseSettings(json, trackEffectsSchema);
+}
+
+export interface MasteringChain {
+  eq?: EqSettings;
+  compressor?: CompressorSettings;
+  limiter?: LimiterSettings;
+}
+
+// A project's master bus settings as the mastering panel saved them; null if any of them are invalid
+export function parseMasteringSettings(settings: Partial<Pick<MasteringSettings, 'eqSettings' | 'compressorSettings' | 'limiterSettings'>>): MasteringChain | null {
+  const eq = parseSettings(settings.eqSettings, eqSettingsSchema);
+  const compressor = parseSettings(settings.compressorSettings, compressorSettingsSchema);
+  const limiter = parseSettings(settings.limiterSettings, limiterSettingsSchema);
+  if (eq === null || compressor === null || limiter === null) return null;
+  return { eq, compressor, limiter };
+}
+
+// Master bus chain as laid out in the mastering panel: EQ, compressor, loudness normalisation, limiter
+export function applyMastering(audio: PcmAudio, settings: MasteringSettings): void {
+  const chain = parseMasteringSettings(settings);
+  if (!chain) {
+    throw new Error("The project's mastering settings are invalid");
+  }
+  const { eq, compressor, limiter = { threshold: -1, release: 50 } } = chain;
+
+  if (eq) applyEq(audio, eq);
+  if (compressor) applyCompressor(audio, compressor);
+
+  if (settings.lufsTarget != null) {
+    const loudness = measureIntegratedLoudness(audio);
+    if (Number.isFinite(loudness)) {
+      applyGain(audio, dbToGain(settings.lufsTarget - loudness));
+    }
+  }
+
+  applyLimiter(audio, limiter);
+}
+
+// Render a single track of `ownerId`'s project on its own, post-fader: placed at its position on the timeline
+// with its volume, pan and effects applied, followed by `tailMs` of extra time for reverb and delay to ring out
+export async function renderTrack(track: ProjectTrack, ownerId: number, tailMs = 0, sampleRate = MIXDOWN_SAMPLE_RATE): Promise<PcmAudio> {
+  const position = track.position ?? 0;
+  const effects = parseTrackEffects(track.effects);
+  if (effects === null) {
+    throw new Error(`The effects of "${track.name}" are invalid`);
+  }
+  const pastLimit = `"${track.name}" runs past the ${MAX_PROJECT_LENGTH_MS / 60000}-minute project limit`;
+  if (position < 0 || position > MAX_PROJECT_LENGTH_MS) throw new Error(pastLimit);
+
+  const audio = toStereo(resample(await loadProjectAudio(track, ownerId), sampleRate));
+  const offset = Math.round(position / 1000 * sampleRate);
+  const tail = Math.round(Math.max(0, tailMs) / 1000 * sampleRate);
+  const length = offset + audio.channels[0].length + tail;
+  if (length > MAX_PROJECT_LENGTH_MS / 1000 * sampleRate) throw new Error(pastLimit);
+  const placed = createSilence(sampleRate, 2, length);
+
+  placed.channels.forEach((samples, channel) => samples.set(audio.channels[channel], offset));
+  applyGainAndPan(placed, (track.volume ?? 100) / 100, (track.pan ?? 0) / 100);
+
+  if (effects) applyTrackEffects(placed, effects);
+  return placed;
+}
+
+// Sum every audible track of `ownerId`'s project into one stereo mix and run it through the master chain
+export async function renderMixdown(tracks: ProjectTrack[], ownerId: number, mastering?: MasteringSettings, tailMs = 0): Promise<Mixdown> {
+  const audible = getAudibleTracks(tracks);
+  if (audible.length === 0) {
+    throw new Error("Project has no audible tracks to mix down");
+  }
+
+  let mix = createSilence(MIXDOWN_SAMPLE_RATE, 2, 0);
+  // Decode one track at a time so only the mix and a single track are held in memory
+  for (const track of audible) {
+    const rendered = await renderTrack(track, ownerId, tailMs);
+    if (rendered.channels[0].length > mix.channels[0].length) {
+      const longer = createSilence(MIXDOWN_SAMPLE_RATE, 2, rendered.channels[0].length);
+      longer.channels.forEach((samples, channel) => samples.set(mix.channels[channel]));
+      mix = longer;
+    }
+
+    mix.channels.forEach((samples, channel) => {
+      const trackSamples = rendered.channels[channel];
+      for (let i = 0; i < trackSamples.length; i++) {
+        samples[i] += trackSamples[i];
+      }
+    });
+  }
+
+  if (mastering) {
+    applyMastering(mix, mastering);
+  }
+
+  return {
+    audio: mix,
+    wav: encodeWav(mix, MIXDOWN_BIT_DEPTH),
+    duration: getDuration(mix)
+  };
+}
@@ -0,0 +1,212 @@
+import { type User, type ContentReport, type ModerationAction, type Track, type Message, type TrackComment } from "@shared/schema";
+import { storage } from "./storage";
+import { canAccessProject } from "./liveSessions";
+import { suspendAccount } from "./accountStatus";
+
+// Users report tracks, messages and track comments; admins work through the reports from a queue.
+// Everything a moderator does is added to the moderation_actions audit log, and whoever posted the
+// content is sent a message about what happened to it.
+
+export type ReportContentType = ContentReport["contentType"];
+export type ModerationActionType = ModerationAction["action"];
+
+export const DEFAULT_SUSPENSION_DAYS = 7;
+
+// The actions that remove a piece of content, and what they can remove
+const REMOVAL_ACTIONS: Partial<Record<ModerationActionType, ReportContentType>> = {
+  unpublish_track: 'track',
+  delete_message: 'message',
+  delete_comment: 'comment'
+};
+
+// Whether an action makes sense for reported content of the given type
+export function actionAppliesTo(action: ModerationActionType, contentType: ReportContentType): boolean {
+  const removes = REMOVAL_ACTIONS[action];
+  return !removes || removes === contentType;
+}
+
+// Reported content as the moderation page shows it
+export interface ReportedContentSummary {
+  id: number;
+  ownerId?: number;
+  title?: string;
+  artist?: string;
+  audioUrl?: string;
+  text?: string;
+  removed?: boolean; // The content has been deleted since it was reported
+}
+
+type ReportableRecord =
+  | { contentType: 'track'; record: Track }
+  | { contentType: 'message'; record: Message }
+  | { contentType: 'comment'; record: TrackComment };
+
+export type ReportableContent = ReportableRecord & { ownerId: number };
+
+export async function findReportableContent(contentType: ReportContentType, contentId: number): Promise<ReportableContent | undefined> {
+  switch (contentType) {
+    case 'track': {
+      const track = await storage.getTrack(contentId);
+      return track && { contentType, record: track, ownerId: track.artistId };
+    }
+    case 'message': {
+      const message = await storage.getMessage(contentId);
+      return message && { contentType, record: message, ownerId: message.senderId };
+    }
+    case 'comment': {
+      const comment = await storage.getTrackComment(contentId);
+      return comment && { contentType, record: comment, ownerId: comment.userId };
+    }
+  }
+}
+
+// Users can report what they can see: published tracks, messages sent to them, and comments on
+// projects they have access to
+export async function canReport(user: User, content: ReportableContent): Promise<boolean> {
+  switch (content.contentType) {
+    case 'track':
+      return !!content.record.isPublished;
+    case 'message':
+      return content.record.receiverId === user.id;
+    case 'comment': {
+      const projectTrack = await storage.getProjectTrack(content.record.projectTrackId);
+      const project = projectTrack && await storage.getStudioProject(projectTrack.projectId);
+      return !!project && await canAccessProject(user, project);
+    }
+  }
+}
+
+async function summarize(report: ContentReport): Promise<ReportedContentSummary> {
+  const content = await findReportableContent(report.contentType, report.contentId);
+  if (!content) return { id: report.contentId, removed: true };
+
+  if (content.contentType === 'track') {
+    const artist = await storage.getUser(content.ownerId);
+    return {
+      id: content.record.id,
+      ownerId: content.ownerId,
+      title: content.record.title,
+      artist: artist?.fullName,
+      audioUrl: content.record.audioUrl
+    };
+  }
+  return { id: content.record.id, ownerId: content.ownerId, text: content.record.content };
+}
+
+export type QueuedReport = ContentReport & {
+  content: ReportedContentSummary;
+  reporter?: { id: number; username: string };
+  reportCount: number; // How many reports the same content has had
+};
+
+// The moderation queue, newest first, with what was reported
+export async function reportQueue(filter: { status?: ContentReport["status"]; contentType?: ReportContentType }): Promise<QueuedReport[]> {
+  const reports = await storage.getContentReports(filter);
+
+  return Promise.all(reports.map(async report => {
+    const [content, reporter, sameContent] = await Promise.all([
+      summarize(report),
+      storage.getUser(report.reporterId),
+      storage.getContentReportsForContent(report.contentType, report.contentId)
+    ]);
+    return {
+      ...report,
+      content,
+      reporter: reporter && { id: reporter.id, username: reporter.username },
+      reportCount: sameContent.length
+    };
+  }));
+}
+
+function describe(content: ReportableContent): string {
+  switch (content.contentType) {
+    case 'track':
+      return `track "${content.record.title}"`;
+    case 'message':
+      return "message";
+    case 'comment':
+      return "comment";
+  }
+}
+
+function ownerNotice(action: ModerationActionType, content: ReportableContent, reason: string | undefined, suspendedUntil?: Date): string | undefined {
+  const because = reason ? `: ${reason}` : ".";
+  switch (action) {
+    case 'unpublish_track':
+      return `Your ${describe(content)} was unpublished by a moderator${because}`;
+    case 'delete_message':
+    case 'delete_comment':
+      return `Your ${describe(content)} was removed by a moderator${because}`;
+    case 'warn_user':
+      return `A moderator reviewed a report about your ${describe(content)}${because} Further violations may lead to your account being suspended.`;
+    case 'suspend_user':
+      return `Your account has been suspended until ${suspendedUntil!.toUTCString()} after a report about your ${describe(content)}${because}`;
+    default:
+      return undefined;
+  }
+}
+
+export interface ModerationInput {
+  action: ModerationActionType;
+  reason?: string;
+  suspendDays?: number;
+}
+
+// Act on a pending report. Every other pending report on the same content is settled with it,
+// since the moderator has now looked at that content. The content must still exist unless the
+// report is being dismissed.
+export async function moderateReport(
+  report: ContentReport,
+  moderator: User,
+  content: ReportableContent | undefined,
+  { action, reason, suspendDays = DEFAULT_SUSPENSION_DAYS }: ModerationInput
+): Promise<{ report: ContentReport; action: ModerationAction }> {
+  if (action !== 'dismiss' && !content) {
+    throw new Error(`Reported ${report.contentType} ${report.contentId} no longer exists`);
+  }
+
+  let suspendedUntil: Date | undefined;
+  switch (action) {
+    case 'unpublish_track':
+      await storage.updateTrack(report.contentId, { isPublished: false });
+      break;
+    case 'delete_message':
+      await storage.deleteMessage(report.contentId);
+      break;
+    case 'delete_comment':
+      await storage.deleteTrackComment(report.contentId);
+      break;
+    case 'suspend_user':
+      suspendedUntil = new Date(Date.now() + suspendDays * 24 * 60 * 60 * 1000);
+      await suspendAccount(content!.ownerId, suspendedUntil, reason ?? "Reported content");
+      break;
+  }
+
+  const now = new Date();
+  const status = action === 'dismiss' ? 'dismissed' : 'resolved';
+  const pending = (await storage.getContentReportsForContent(report.contentType, report.contentId))
+    .filter(other => other.status === 'pending' && other.id !== report.id);
+  for (const other of pending) {
+    await storage.updateContentReport(other.id, { status, resolvedBy: moderator.id, resolvedAt: now });
+  }
+  const resolved = await storage.updateContentReport(report.id, { status, resolvedBy: moderator.id, resolvedAt: now });
+
+  const recorded = await storage.addModerationAction({
+    moderatorId: moderator.id,
+    reportId: report.id,
+    action,
+    contentType: report.contentType,
+    contentId: report.contentId,
+    targetUserId: content?.ownerId ?? null,
+    reason: reason ?? null,
+    contentSnapshot: content ? JSON.stringify(content.record) : null,
+    suspendedUntil: suspendedUntil ?? null
+  });
+
+  const notice = content && ownerNotice(action, content, reason, suspendedUntil);
+  if (notice) {
+    await storage.createMessage({ senderId: moderator.id, receiverId: content!.ownerId, content: notice });
+  }
+
+  return { report: resolved ?? report, action: recorded };
+}
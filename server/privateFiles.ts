@@ -0,0 +1,71 @@
+import path from "path";
+import fs from "fs/promises";
+import { storage } from "./storage";
+import { resolveUploadUrl, moveFile } from "./uploads";
+
+// Files that must never be reachable through /uploads, such as athletes' ID documents. They're kept
+// outside the upload directory altogether and only read by routes that check who is asking.
+export const privateDir = process.env.PRIVATE_FILES_DIR
+  ? path.resolve(process.env.PRIVATE_FILES_DIR)
+  : path.join(process.cwd(), "private");
+
+export type PrivateFolder = "verification";
+
+// Stored as "private:<folder>/<filename>", which is deliberately not something a browser can fetch
+const PRIVATE_REF_PREFIX = "private:";
+
+export function privateFileRef(folder: PrivateFolder, filename: string): string {
+  return `${PRIVATE_REF_PREFIX}${folder}/${filename}`;
+}
+
+// Map a private file reference back to its file on disk, refusing anything that escapes the private directory
+export function resolvePrivateFileRef(ref: string): string | undefined {
+  if (!ref.startsWith(PRIVATE_REF_PREFIX)) return undefined;
+
+  const filePath = path.resolve(privateDir, ref.slice(PRIVATE_REF_PREFIX.length));
+  if (!filePath.startsWith(privateDir + path.sep)) return undefined;
+
+  return filePath;
+}
+
+// The file behind a private file reference in `owner`'s own subfolder; undefined for anything else
+export function resolveOwnedPrivateFileRef(ref: string, owner: number): string | undefined {
+  const filePath = resolvePrivateFileRef(ref);
+  if (!filePath) return undefined;
+
+  const [, subfolder, ...file] = path.relative(privateDir, filePath).split(path.sep);
+  return subfolder === String(owner) && file.length > 0 ? filePath : undefined;
+}
+
+// Pick a unique file name in `owner`'s subfolder of a private folder
+export async function reservePrivateFile(folder: PrivateFolder, prefix: string, extension: string, owner: number): Promise<{ filePath: string; ref: string }> {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  const filename = path.posix.join(String(owner), `${prefix}-${uniqueSuffix}${extension}`);
+
+  await fs.mkdir(path.join(privateDir, folder, String(owner)), { recursive: true });
+  return { filePath: path.join(privateDir, folder, filename), ref: privateFileRef(folder, filename) };
+}
+
+// Verification documents used to be stored under uploads/. Move any that still are into private storage.
+export async function moveLegacyVerificationDocs(): Promise<void> {
+  let docs;
+  try {
+    docs = await storage.getAllVerificationDocs();
+  } catch (error) {
+    console.error("Failed to look up verification documents:", error);
+    return;
+  }
+
+  for (const doc of docs) {
+    const legacyPath = resolveUploadUrl(doc.documentUrl);
+    if (!legacyPath) continue;
+
+    try {
+      const { filePath, ref } = await reservePrivateFile("verification", `doc-${doc.id}`, path.extname(legacyPath), doc.userId);
+      await moveFile(legacyPath, filePath);
+      await storage.updateVerificationDoc(doc.id, { documentUrl: ref });
+    } catch (error) {
+      console.error(`Failed to move verification document ${doc.id} to private storage:`, error);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import fs from "fs/promises";
+import fsSync from "fs";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { type StudioProject, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { setBackupStore, type BackupStore } from "./backupStorage";
+import { startProjectBackup, restoreProjectBackup, getBackupMetadata } from "./projectBackup";
+
+// Keeps backups in memory, so a test can look at and tamper with what was stored
+class MemoryBackupStore implements BackupStore {
+  readonly backend = "s3";
+  objects = new Map<string, Buffer>();
+
+  async put(key: string, filePath: string): Promise<{ location: string }> {
+    this.objects.set(key, await fs.readFile(filePath));
+    return { location: `s3://test-bucket/${key}` };
+  }
+
+  async get(key: string, destinationPath: string): Promise<void> {
+    const data = this.objects.get(key);
+    if (!data) throw new Error(`No backup at ${key}`);
+    await fs.writeFile(destinationPath, data);
+  }
+}
+
+async function finishedBackup(project: StudioProject, user: User) {
+  const { id } = await startProjectBackup(project, user.id);
+  return vi.waitFor(async () => {
+    const sync = await storage.getProjectSync(id);
+    if (sync?.status === "syncing") throw new Error("Backup still running");
+    return sync!;
+  });
+}
+
+describe("project backups", () => {
+  let store: MemoryBackupStore;
+  let owner: User;
+  let project: StudioProject;
+
+  beforeEach(async () => {
+    store = new MemoryBackupStore();
+    setBackupStore(store);
+    owner = await storage.createUser({ username: "owner", password: "x", email: "owner@example.com", fullName: "Owner", role: "athlete" });
+    project = await storage.createStudioProject({ userId: owner.id, title: "Game Day", bpm: 120 });
+    await storage.createProjectTrack({ projectId: project.id, name: "Beat", audioUrl: "" });
+  });
+
+  it("writes a backup to the configured store and restores from it", async () => {
+    const sync = await finishedBackup(project, owner);
+    const metadata = getBackupMetadata(sync);
+    expect(sync).toMatchObject({ status: "synced", cloudUrl: `s3://test-bucket/${metadata?.key}` });
+    expect(store.objects.has(metadata!.key)).toBe(true);
+
+    await storage.updateStudioProject(project.id, { title: "Renamed", bpm: 90 });
+    const [track] = await storage.getProjectTracksByProject(project.id);
+    await storage.deleteProjectTrack(track.id);
+
+    const restored = await restoreProjectBackup(project, sync);
+    expect(restored).toMatchObject({ title: "Game Day", bpm: 120 });
+    expect((await storage.getProjectTracksByProject(project.id)).map(track => track.name)).toEqual(["Beat"]);
+  });
+
+  it("refuses a backup that doesn't match its recorded hash", async () => {
+    const sync = await finishedBackup(project, owner);
+    const { key } = getBackupMetadata(sync)!;
+    store.objects.set(key, Buffer.concat([store.objects.get(key)!, Buffer.from("tampered")]));
+
+    await expect(restoreProjectBackup(project, sync)).rejects.toThrow("Backup does not match its recorded hash");
+  });
+
+  it("refuses a backup written to another backend", async () => {
+    const sync = await finishedBackup(project, owner);
+    setBackupStore({
+      backend: "local",
+      put: (key, filePath) => store.put(key, filePath),
+      get: (key, destinationPath) => store.get(key, destinationPath)
+    });
+
+    await expect(restoreProjectBackup(project, sync)).rejects.toThrow("Backup was stored with the s3 backend, but local is configured");
+  });
+
+  it("marks the backup failed when the store can't take it", async () => {
+    vi.spyOn(store, "put").mockRejectedValueOnce(new Error("Bucket unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const sync = await finishedBackup(project, owner);
+    expect(sync).toMatchObject({ status: "failed", lastError: "Bucket unavailable" });
+  });
+
+  it("closes and removes the partial bundle when the bundle can't be written", async () => {
+    const createWriteStream = vi.spyOn(fsSync, "createWriteStream");
+    vi.spyOn(storage, "getProjectTracksByProject").mockRejectedValueOnce(new Error("Database unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const sync = await finishedBackup(project, owner);
+    expect(sync).toMatchObject({ status: "failed", lastError: "Database unavailable" });
+
+    const output = createWriteStream.mock.results[0].value as fsSync.WriteStream;
+    expect(output.closed).toBe(true);
+    expect(fsSync.existsSync(output.path)).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { pipeline } from "stream/promises";
+import { type ProjectSync, type StudioProject } from "@shared/schema";
+import { storage } from "./storage";
+import { getBackupStore } from "./backupStorage";
+import { BUNDLE_EXTENSION, restoreProjectBundle, writeProjectBundle } from "./projectBundle";
+
+// Stored as JSON in projectSyncs.metadata so a backup can be found again for restoring
+export interface BackupMetadata {
+  backend: "local" | "s3";
+  key: string;
+  size: number;
+}
+
+function tempBundlePath(): string {
+  return path.join(os.tmpdir(), `backup-${Date.now()}-${Math.round(Math.random() * 1E9)}${BUNDLE_EXTENSION}`);
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+export function getBackupMetadata(sync: ProjectSync): BackupMetadata | undefined {
+  if (!sync.metadata) return undefined;
+  try {
+    return JSON.parse(sync.metadata);
+  } catch {
+    return undefined;
+  }
+}
+
+// Record a new backup version and write it in the background; the returned record is still 'syncing'
+export async function startProjectBackup(project: StudioProject, userId: number): Promise<ProjectSync> {
+  const sync = await storage.startProjectSync(project.id, userId);
+  if (!sync) {
+    throw new Error("Unable to create sync record");
+  }
+
+  runProjectBackup(sync, project);
+  return sync;
+}
+
+async function runProjectBackup(sync: ProjectSync, project: StudioProject) {
+  const bundlePath = tempBundlePath();
+  const output = fs.createWriteStream(bundlePath);
+  try {
+    await writeProjectBundle(project, output);
+    const syncHash = await hashFile(bundlePath);
+    const { size } = await fs.promises.stat(bundlePath);
+
+    const store = getBackupStore();
+    const key = `projects/${project.id}/v${sync.version}-${syncHash.slice(0, 12)}${BUNDLE_EXTENSION}`;
+    const { location } = await store.put(key, bundlePath);
+
+    const metadata: BackupMetadata = { backend: store.backend, key, size };
+    await storage.completeProjectSync(sync.id, location, syncHash, JSON.stringify(metadata));
+  } catch (error) {
+    console.error(`Backup of project ${project.id} failed:`, error);
+    await storage.updateProjectSyncStatus(sync.id, 'failed', error instanceof Error ? error.message : String(error))
+      .catch(updateError => console.error(`Failed to record backup ${sync.id} failure:`, updateError));
+  } finally {
+    // writeProjectBundle can fail before it takes over the stream, so close it here as well, and
+    // only then remove the file, or a pending open could create it again
+    if (!output.closed) {
+      await new Promise(resolve => output.once('close', resolve).destroy());
+    }
+    await fs.promises.rm(bundlePath, { force: true });
+  }
+}
+
+// Download a backup version, check it against the hash recorded when it was written, and restore it into the project
+export async function restoreProjectBackup(project: StudioProject, sync: ProjectSync): Promise<StudioProject> {
+  const metadata = getBackupMetadata(sync);
+  if (sync.status !== 'synced' || !metadata) {
+    throw new Error("Backup is not available for restoring");
+  }
+
+  const store = getBackupStore();
+  if (metadata.backend !== store.backend) {
+    throw new Error(`Backup was stored with the ${metadata.backend} backend, but ${store.backend} is configured`);
+  }
+
+  const bundlePath = tempBundlePath();
+  try {
+    await store.get(metadata.key, bundlePath);
+    if (await hashFile(bundlePath) !== sync.syncHash) {
+      throw new Error("Backup does not match its recorded hash");
+    }
+    return await restoreProjectBundle(bundlePath, project);
+  } finally {
+    await fs.promises.rm(bundlePath, { force: true });
+  }
+}
+
+// Backups that were in progress when the server stopped will never finish; mark them failed on startup
+export async function failInterruptedBackups(): Promise<void> {
+  try {
+    const syncs = await storage.getProjectSyncsByStatus('syncing');
+    for (const sync of syncs) {
+      await storage.updateProjectSyncStatus(sync.id, 'failed', 'Interrupted by a server restart');
+    }
+  } catch (error) {
+    console.error('Failed to clean up interrupted backups:', error);
+  }
+}
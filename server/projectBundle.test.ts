@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+import archiver from "archiver";
+import { describe, it, expect, beforeEach } from "vitest";
+import { type StudioProject, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { createSilence, encodeWav } from "./audioCodec";
+import { saveGeneratedFile, uploadDir } from "./uploads";
+import { writeProjectBundle, importProjectBundle, InvalidBundleError } from "./projectBundle";
+
+let bundleCount = 0;
+
+async function exportBundle(project: StudioProject): Promise<string> {
+  const filePath = path.resolve(`export-${++bundleCount}.balltalk`);
+  await writeProjectBundle(project, fs.createWriteStream(filePath));
+  return filePath;
+}
+
+// A hand-made bundle, for the ones the app would never write itself
+async function craftBundle(tracks: object[], files: Record<string, Buffer | string> = {}): Promise<string> {
+  const filePath = path.resolve(`crafted-${++bundleCount}.balltalk`);
+  const manifest = { format: "balltalk", version: 1, exportedAt: new Date().toISOString(), project: { title: "Crafted" }, tracks };
+  const archive = archiver("zip");
+  const output = fs.createWriteStream(filePath);
+  archive.pipe(output);
+  archive.append(JSON.stringify(manifest), { name: "manifest.json" });
+  for (const [name, data] of Object.entries(files)) {
+    archive.append(data, { name });
+  }
+  await Promise.all([archive.finalize(), new Promise(resolve => output.on("close", resolve))]);
+  return filePath;
+}
+
+function audioFilesOf(user: User): string[] {
+  const folder = path.join(uploadDir, "audio", String(user.id));
+  return fs.existsSync(folder) ? fs.readdirSync(folder) : [];
+}
+
+const wav = () => encodeWav(createSilence(44100, 2, 4410));
+
+describe("project bundles", () => {
+  let owner: User;
+  let importer: User;
+
+  beforeEach(async () => {
+    owner = await storage.createUser({ username: "owner", password: "x", email: "owner@example.com", fullName: "Owner", role: "athlete" });
+    importer = await storage.createUser({ username: "importer", password: "x", email: "importer@example.com", fullName: "Importer", role: "athlete" });
+  });
+
+  it("carries the owner's own audio over to the importing account", async () => {
+    const project = await storage.createStudioProject({ userId: owner.id, title: "Game Day" });
+    await storage.createProjectTrack({ projectId: project.id, name: "Beat", audioUrl: await saveGeneratedFile("audio", "beat", ".wav", wav(), owner.id), position: 500 });
+    await storage.createProjectTrack({ projectId: project.id, name: "Borrowed", audioUrl: await saveGeneratedFile("audio", "other", ".wav", wav(), importer.id) });
+
+    const imported = await importProjectBundle(await exportBundle(project), importer);
+    const tracks = await storage.getProjectTracksByProject(imported.id);
+
+    expect(imported).toMatchObject({ userId: importer.id, title: "Game Day" });
+    expect(tracks.find(track => track.name === "Beat")).toMatchObject({ position: 500, audioUrl: expect.stringMatching(`^/uploads/audio/${importer.id}/`) });
+    // Audio from outside the owner's folder isn't exported
+    expect(tracks.find(track => track.name === "Borrowed")?.audioUrl).toBe("");
+  });
+
+  it("rejects tracks pointing at audio hosted elsewhere", async () => {
+    const bundle = await craftBundle([{ id: 1, name: "Remote", audioUrl: "http://169.254.169.254/latest/meta-data" }]);
+    await expect(importProjectBundle(bundle, importer)).rejects.toThrow(InvalidBundleError);
+  });
+
+  it("rejects bundled files that aren't audio and leaves nothing behind", async () => {
+    const bundle = await craftBundle(
+      [{ id: 1, name: "Good", file: "audio/01.wav" }, { id: 2, name: "Fake", file: "audio/02.wav" }],
+      { "audio/01.wav": wav(), "audio/02.wav": "<html><script>alert(1)</script></html>" }
+    );
+
+    const filesBefore = audioFilesOf(importer);
+    await expect(importProjectBundle(bundle, importer)).rejects.toThrow(InvalidBundleError);
+    expect(audioFilesOf(importer)).toEqual(filesBefore);
+    expect(await storage.getStudioProjectsByUser(importer.id)).toEqual([]);
+  });
+
+  it("rejects effects and positions outside what the studio allows", async () => {
+    const delay = { time: 600, feedback: 0.5, mix: 0.5, enabled: true };
+    await expect(importProjectBundle(await craftBundle([{ id: 1, name: "Echo", effects: { delay } }]), importer)).rejects.toThrow(InvalidBundleError);
+    await expect(importProjectBundle(await craftBundle([{ id: 1, name: "Late", position: 1e12 }]), importer)).rejects.toThrow(InvalidBundleError);
+  });
+
+  it("rejects files that aren't bundles", async () => {
+    const filePath = path.resolve("not-a-bundle.balltalk");
+    fs.writeFileSync(filePath, "hello");
+    await expect(importProjectBundle(filePath, importer)).rejects.toThrow("File is not a valid bundle");
+  });
+});
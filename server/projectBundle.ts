@@ -0,0 +1,455 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { type Writable } from "stream";
+import archiver from "archiver";
+import yauzl from "yauzl";
+import * as Y from "yjs";
+import { z } from "zod";
+import { masteringPresetEnum, type StudioProject, type User, MAX_PROJECT_LENGTH_MS } from "@shared/schema";
+import { storage } from "./storage";
+import { isPersistedDocOpen, readPersistedDocState, replacePersistedDocState, writePersistedDocState } from "./collabPersistence";
+import { acceptUpload, InvalidUploadError } from "./uploadValidation";
+import { compressorSettingsSchema, eqSettingsSchema, limiterSettingsSchema, trackEffectsSchema } from "./audioDsp";
+import { parseMasteringSettings, resolveProjectAudio } from "./mixdown";
+
+// A .balltalk bundle is a zip holding manifest.json and the audio files it references under audio/
+export const BUNDLE_EXTENSION = ".balltalk";
+const BUNDLE_FORMAT = "balltalk";
+const BUNDLE_VERSION = 1;
+const MANIFEST_NAME = "manifest.json";
+
+// Guard against zip bombs and oversized manifests
+const MAX_BUNDLE_ENTRIES = 500;
+const MAX_MANIFEST_BYTES = 5 * 1024 * 1024;
+const MAX_AUDIO_FILE_BYTES = 500 * 1024 * 1024;
+// Same audio types the uploads folder serves
+const BUNDLE_AUDIO_EXTENSIONS = [".mp3", ".wav", ".flac", ".m4a"];
+
+const regionSchema = z.object({
+  id: z.string(),
+  start: z.number(),
+  end: z.number(),
+  color: z.string().optional(),
+  label: z.string().optional(),
+}).passthrough();
+
+const bundleTrackSchema = z.object({
+  // Id in the exporting project; only used to tie the manifest together, new ids are assigned on import
+  id: z.number().int(),
+  name: z.string().min(1),
+  file: z.string().optional(), // Path of the audio inside the bundle; tracks without audio of their own have none
+  audioUrl: z.string().optional(), // Audio hosted elsewhere, which older bundles could point at
+  waveformData: z.string().nullable().optional(),
+  position: z.number().int().min(0).max(MAX_PROJECT_LENGTH_MS).default(0),
+  muted: z.boolean().default(false),
+  solo: z.boolean().default(false),
+  volume: z.number().int().min(0).default(100),
+  pan: z.number().int().min(-100).max(100).default(0),
+  effects: trackEffectsSchema.nullable().optional(),
+  regions: z.array(regionSchema).default([]),
+}).refine(track => !track.audioUrl, { message: "Audio hosted elsewhere can't be imported; bundle the file instead", path: ["audioUrl"] });
+
+const bundleManifestSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int().min(1).max(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  project: z.object({
+    title: z.string().min(1),
+    bpm: z.number().int().positive().nullable().optional(),
+    key: z.string().nullable().optional(),
+  }),
+  tracks: z.array(bundleTrackSchema),
+  mastering: z.object({
+    preset: z.enum(masteringPresetEnum.enumValues).nullable().optional(),
+    eq: eqSettingsSchema.nullable().optional(),
+    compressor: compressorSettingsSchema.nullable().optional(),
+    limiter: limiterSettingsSchema.nullable().optional(),
+    lufsTarget: z.number().int().nullable().optional(),
+  }).nullable().optional(),
+}).superRefine((manifest, ctx) => {
+  const ids = new Set<number>();
+  manifest.tracks.forEach((track, index) => {
+    if (ids.has(track.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tracks", index, "id"], message: "Duplicate track id" });
+    }
+    ids.add(track.id);
+  });
+});
+
+export type BundleManifest = z.infer<typeof bundleManifestSchema>;
+
+// The bundle can't be imported; the message is safe to show to the user
+export class InvalidBundleError extends Error {
+  constructor(message: string, public errors?: unknown) {
+    super(message);
+    this.name = "InvalidBundleError";
+  }
+}
+
+function parseJson(json: string | null): Record<string, unknown> | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+function bundleFileName(name: string): string {
+  return name.replace(/[^\w\- ]+/g, "").trim();
+}
+
+// File name for downloading a project's bundle
+export function projectBundleName(project: StudioProject): string {
+  return `${bundleFileName(project.title) || `Project ${project.id}`}${BUNDLE_EXTENSION}`;
+}
+
+// Regions live in the project's collaborative document, keyed by track id
+async function readTimelineRegions(projectId: number): Promise<Map<string, unknown[]>> {
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, await readPersistedDocState({ projectId }));
+
+  const regions = new Map<string, unknown[]>();
+  doc.getMap<{ regions?: Record<string, unknown>[] }>("timeline").forEach((timeline, trackId) => {
+    // Drop who created or edited each region; those user ids mean nothing in another account
+    const trackRegions = (timeline?.regions ?? []).map(({ createdBy, updatedBy, ...region }) => region);
+    regions.set(trackId, trackRegions);
+  });
+  doc.destroy();
+  return regions;
+}
+
+// Write a project as a .balltalk bundle. Only audio in the owner's own folder is bundled; tracks
+// pointing anywhere else are exported without audio. Everything is checked before the first byte
+// is written, so a failure can still be reported as a normal error response.
+export async function writeProjectBundle(project: StudioProject, output: Writable): Promise<void> {
+  const tracks = await storage.getProjectTracksByProject(project.id);
+  const mastering = await storage.getMasteringSettings(project.id);
+  const regions = await readTimelineRegions(project.id);
+
+  const files: { filePath: string; name: string }[] = [];
+  const manifestTracks: BundleManifest["tracks"] = [];
+  for (let index = 0; index < tracks.length; index++) {
+    const track = tracks[index];
+    const filePath = await resolveProjectAudio(track.audioUrl, project.userId);
+    let file: string | undefined;
+    if (filePath) {
+      await fs.promises.access(filePath).catch(() => {
+        throw new Error(`Audio file for track ${track.id} is missing`);
+      });
+      file = `audio/${String(index + 1).padStart(2, "0")}-${bundleFileName(track.name) || "track"}${path.extname(filePath)}`;
+      files.push({ filePath, name: file });
+    }
+
+    manifestTracks.push({
+      id: track.id,
+      name: track.name,
+      file,
+      waveformData: track.waveformData,
+      position: track.position ?? 0,
+      muted: track.muted ?? false,
+      solo: track.solo ?? false,
+      volume: track.volume ?? 100,
+      pan: track.pan ?? 0,
+      effects: parseJson(track.effects),
+      regions: (regions.get(String(track.id)) ?? []) as BundleManifest["tracks"][number]["regions"],
+    });
+  }
+
+  const masteringChain = mastering && parseMasteringSettings(mastering);
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { title: project.title, bpm: project.bpm, key: project.key },
+    tracks: manifestTracks,
+    mastering: mastering ? {
+      preset: mastering.preset,
+      // Settings the renderer wouldn't accept are left out
+      eq: masteringChain?.eq ?? null,
+      compressor: masteringChain?.compressor ?? null,
+      limiter: masteringChain?.limiter ?? null,
+      lufsTarget: mastering.lufsTarget,
+    } : null,
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    // Audio is already compressed or barely compresses, so store everything as-is
+    const archive = archiver("zip", { store: true });
+    output.on("finish", () => resolve());
+    output.on("error", reject);
+    archive.on("error", reject);
+
+    archive.pipe(output);
+    archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_NAME });
+    files.forEach(file => archive.file(file.filePath, { name: file.name }));
+    archive.finalize();
+  });
+}
+
+function openZip(filePath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(filePath, { lazyEntries: true, autoClose: false }, (error, zipFile) => {
+      if (error || !zipFile) return reject(new InvalidBundleError("File is not a valid bundle"));
+      resolve(zipFile);
+    });
+  });
+}
+
+function readEntries(zipFile: yauzl.ZipFile): Promise<Map<string, yauzl.Entry>> {
+  return new Promise((resolve, reject) => {
+    const entries = new Map<string, yauzl.Entry>();
+    zipFile.on("entry", (entry: yauzl.Entry) => {
+      if (entries.size >= MAX_BUNDLE_ENTRIES) {
+        return reject(new InvalidBundleError("Bundle contains too many files"));
+      }
+      entries.set(entry.fileName, entry);
+      zipFile.readEntry();
+    });
+    zipFile.on("end", () => resolve(entries));
+    zipFile.on("error", () => reject(new InvalidBundleError("File is not a valid bundle")));
+    zipFile.readEntry();
+  });
+}
+
+function openEntry(zipFile: yauzl.ZipFile, entry: yauzl.Entry): Promise<NodeJS.ReadableStream> {
+  return new Promise((resolve, reject) => {
+    zipFile.openReadStream(entry, (error, stream) => {
+      if (error || !stream) return reject(new InvalidBundleError(`Unable to read ${entry.fileName} from the bundle`));
+      resolve(stream);
+    });
+  });
+}
+
+async function readManifest(zipFile: yauzl.ZipFile, entries: Map<string, yauzl.Entry>): Promise<BundleManifest> {
+  const entry = entries.get(MANIFEST_NAME);
+  if (!entry) {
+    throw new InvalidBundleError("Bundle has no manifest");
+  }
+  if (entry.uncompressedSize > MAX_MANIFEST_BYTES) {
+    throw new InvalidBundleError("Bundle manifest is too large");
+  }
+
+  const stream = await openEntry(zipFile, entry);
+  const chunks: Buffer[] = [];
+  await new Promise<void>((resolve, reject) => {
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("end", () => resolve());
+    stream.on("error", () => reject(new InvalidBundleError("Unable to read the bundle manifest")));
+  });
+
+  let json: unknown;
+  try {
+    json = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new InvalidBundleError("Bundle manifest is not valid JSON");
+  }
+
+  // Report bundles from a newer version of the app separately from broken ones
+  const version = (json as { version?: unknown })?.version;
+  if (typeof version === "number" && version > BUNDLE_VERSION) {
+    throw new InvalidBundleError(`Bundle version ${version} is newer than this server supports (${BUNDLE_VERSION})`);
+  }
+
+  const validationResult = bundleManifestSchema.safeParse(json);
+  if (!validationResult.success) {
+    throw new InvalidBundleError("Invalid bundle manifest", validationResult.error.format());
+  }
+
+  // Every bundled file the manifest points at has to be there, and be audio we can serve
+  for (const track of validationResult.data.tracks) {
+    if (!track.file) continue;
+    const fileEntry = entries.get(track.file);
+    if (!fileEntry) {
+      throw new InvalidBundleError(`Bundle is missing ${track.file}`);
+    }
+    if (!BUNDLE_AUDIO_EXTENSIONS.includes(path.extname(track.file).toLowerCase())) {
+      throw new InvalidBundleError(`${track.file} is not a supported audio file`);
+    }
+    if (fileEntry.uncompressedSize > MAX_AUDIO_FILE_BYTES) {
+      throw new InvalidBundleError(`${track.file} is too large`);
+    }
+  }
+
+  return validationResult.data;
+}
+
+function tempAudioPath(): string {
+  return path.join(os.tmpdir(), `bundle-audio-${Date.now()}-${Math.round(Math.random() * 1E9)}`);
+}
+
+// Unpack a bundled audio file and put it through the same checks as an upload, into the owner's
+// own audio folder
+async function extractAudio(zipFile: yauzl.ZipFile, entry: yauzl.Entry, owner: User): Promise<{ filePath: string; url: string }> {
+  const tempPath = tempAudioPath();
+  try {
+    const stream = await openEntry(zipFile, entry);
+    await new Promise<void>((resolve, reject) => {
+      const output = fs.createWriteStream(tempPath);
+      output.on("finish", () => resolve());
+      output.on("error", reject);
+      stream.on("error", reject);
+      stream.pipe(output);
+    });
+
+    const { size } = await fs.promises.stat(tempPath);
+    const file = { path: tempPath, size, originalname: entry.fileName, fieldname: "import" };
+    return await acceptUpload(file, "audio", owner);
+  } catch (error) {
+    if (error instanceof InvalidUploadError) {
+      throw new InvalidBundleError(error.message);
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+}
+
+// Extract every bundled audio file up front, so nothing is written to the database until the
+// whole bundle is known to be readable. Returns the new audio URL per manifest track id; tracks
+// without audio have none.
+async function extractBundleAudio(
+  zipFile: yauzl.ZipFile,
+  entries: Map<string, yauzl.Entry>,
+  manifest: BundleManifest,
+  owner: User,
+  extractedFiles: string[]
+): Promise<Map<number, string>> {
+  const audioUrls = new Map<number, string>();
+  for (const bundleTrack of manifest.tracks) {
+    if (bundleTrack.file) {
+      const extracted = await extractAudio(zipFile, entries.get(bundleTrack.file)!, owner);
+      extractedFiles.push(extracted.filePath);
+      audioUrls.set(bundleTrack.id, extracted.url);
+    }
+  }
+  return audioUrls;
+}
+
+// Create the manifest's tracks in a project. Returns the project's collaborative document state
+// with the regions re-keyed to the new track ids.
+async function createBundleTracks(project: StudioProject, manifest: BundleManifest, audioUrls: Map<number, string>): Promise<Uint8Array> {
+  const doc = new Y.Doc();
+  const timeline = doc.getMap("timeline");
+
+  for (const bundleTrack of manifest.tracks) {
+    const track = await storage.createProjectTrack({
+      projectId: project.id,
+      name: bundleTrack.name,
+      audioUrl: audioUrls.get(bundleTrack.id) ?? "",
+      waveformData: bundleTrack.waveformData ?? undefined,
+      position: bundleTrack.position,
+      muted: bundleTrack.muted,
+      solo: bundleTrack.solo,
+      volume: bundleTrack.volume,
+      pan: bundleTrack.pan,
+      effects: bundleTrack.effects ? JSON.stringify(bundleTrack.effects) : undefined,
+    });
+
+    if (bundleTrack.regions.length > 0) {
+      timeline.set(String(track.id), { regions: bundleTrack.regions });
+    }
+  }
+
+  const state = Y.encodeStateAsUpdate(doc);
+  doc.destroy();
+  return state;
+}
+
+function bundleMasteringSettings(manifest: BundleManifest) {
+  const mastering = manifest.mastering;
+  return {
+    preset: mastering?.preset ?? 'balanced',
+    eqSettings: mastering?.eq ? JSON.stringify(mastering.eq) : null,
+    compressorSettings: mastering?.compressor ? JSON.stringify(mastering.compressor) : null,
+    limiterSettings: mastering?.limiter ? JSON.stringify(mastering.limiter) : null,
+    lufsTarget: mastering?.lufsTarget ?? -14,
+  };
+}
+
+// Open and validate a bundle for `owner`'s project, run `apply` with it, and remove extracted audio again if anything fails
+async function withBundle<T>(
+  filePath: string,
+  owner: User,
+  apply: (manifest: BundleManifest, extractAudioFiles: () => Promise<Map<number, string>>) => Promise<T>
+): Promise<T> {
+  const zipFile = await openZip(filePath);
+  const extractedFiles: string[] = [];
+
+  try {
+    const entries = await readEntries(zipFile);
+    const manifest = await readManifest(zipFile, entries);
+    return await apply(manifest, () => extractBundleAudio(zipFile, entries, manifest, owner, extractedFiles));
+  } catch (error) {
+    await Promise.all(extractedFiles.map(file => fs.promises.rm(file, { force: true })));
+    throw error;
+  } finally {
+    zipFile.close();
+  }
+}
+
+// Create a new project for `owner` from a .balltalk bundle. Tracks get new ids; regions are re-keyed to them.
+export async function importProjectBundle(filePath: string, owner: User): Promise<StudioProject> {
+  return withBundle(filePath, owner, async (manifest, extractAudioFiles) => {
+    const audioUrls = await extractAudioFiles();
+    const project = await storage.createStudioProject({
+      userId: owner.id,
+      title: manifest.project.title,
+      bpm: manifest.project.bpm ?? undefined,
+      key: manifest.project.key ?? undefined,
+      status: "draft",
+    });
+
+    try {
+      const docState = await createBundleTracks(project, manifest, audioUrls);
+      if (manifest.mastering) {
+        await storage.saveMasteringSettings({ projectId: project.id, ...bundleMasteringSettings(manifest) });
+      }
+      await writePersistedDocState({ projectId: project.id }, docState);
+      return project;
+    } catch (error) {
+      // Don't leave a half-imported project behind
+      await storage.deleteStudioProject(project.id).catch(() => undefined);
+      throw error;
+    }
+  });
+}
+
+// Replace the contents of an existing project with a bundle: tracks, mastering settings, regions, bpm and key.
+// The project keeps its id, owner and session. Its collaborative document must not be open.
+export async function restoreProjectBundle(filePath: string, project: StudioProject): Promise<StudioProject> {
+  const owner = await storage.getUser(project.userId);
+  if (!owner) {
+    throw new Error("Project owner no longer exists");
+  }
+  return withBundle(filePath, owner, async (manifest, extractAudioFiles) => {
+    if (isPersistedDocOpen({ projectId: project.id })) {
+      throw new Error("Project is being edited live");
+    }
+    const audioUrls = await extractAudioFiles();
+
+    const existingTracks = await storage.getProjectTracksByProject(project.id);
+    for (const track of existingTracks) {
+      await storage.deleteProjectTrack(track.id);
+    }
+    const docState = await createBundleTracks(project, manifest, audioUrls);
+
+    const existingMastering = await storage.getMasteringSettings(project.id);
+    if (existingMastering) {
+      await storage.updateMasteringSettings(existingMastering.id, { ...bundleMasteringSettings(manifest), updatedAt: new Date() });
+    } else if (manifest.mastering) {
+      await storage.saveMasteringSettings({ projectId: project.id, ...bundleMasteringSettings(manifest) });
+    }
+
+    await replacePersistedDocState({ projectId: project.id }, docState);
+
+    const restoredProject = await storage.updateStudioProject(project.id, {
+      title: manifest.project.title,
+      bpm: manifest.project.bpm ?? null,
+      key: manifest.project.key ?? null,
+      updatedAt: new Date(),
+    });
+    return restoredProject ?? project;
+  });
+}
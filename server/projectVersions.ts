@@ -0,0 +1,246 @@
+import * as Y from "yjs";
+import { type ProjectTrack, type ProjectVersion, type StudioProject } from "@shared/schema";
+import { storage } from "./storage";
+import { readPersistedDocState, updatePersistedDoc } from "./collabPersistence";
+
+export interface SnapshotTrack {
+  id: number;
+  name: string;
+  audioUrl: string;
+  waveformData: string | null;
+  position: number;
+  muted: boolean;
+  solo: boolean;
+  volume: number;
+  pan: number;
+  effects: Record<string, unknown> | null;
+}
+
+// Everything a version captures. Regions and the studio's mixer state come from the project's
+// collaborative document, keyed by track id like they are there.
+export interface ProjectSnapshot {
+  project: { title: string; bpm: number | null; key: string | null };
+  tracks: SnapshotTrack[];
+  regions: Record<string, unknown>;
+  mixer: Record<string, unknown>;
+  mastering: {
+    preset: string | null;
+    eq: Record<string, unknown> | null;
+    compressor: Record<string, unknown> | null;
+    limiter: Record<string, unknown> | null;
+    lufsTarget: number | null;
+  } | null;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SnapshotDiff {
+  project: FieldChange[];
+  tracksAdded: { id: number; name: string }[];
+  tracksRemoved: { id: number; name: string }[];
+  tracksChanged: { id: number; name: string; changes: FieldChange[] }[];
+  mastering: FieldChange[];
+}
+
+function parseJson(json: string | null): Record<string, unknown> | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+export function parseSnapshot(version: ProjectVersion): ProjectSnapshot {
+  return JSON.parse(version.snapshot);
+}
+
+function snapshotTrack(track: ProjectTrack): SnapshotTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    audioUrl: track.audioUrl,
+    waveformData: track.waveformData,
+    position: track.position ?? 0,
+    muted: track.muted ?? false,
+    solo: track.solo ?? false,
+    volume: track.volume ?? 100,
+    pan: track.pan ?? 0,
+    effects: parseJson(track.effects),
+  };
+}
+
+// Capture the current state of a project
+export async function captureProjectSnapshot(project: StudioProject): Promise<ProjectSnapshot> {
+  const tracks = await storage.getProjectTracksByProject(project.id);
+  const mastering = await storage.getMasteringSettings(project.id);
+
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, await readPersistedDocState({ projectId: project.id }));
+  const regions = doc.getMap("timeline").toJSON();
+  const mixer = doc.getMap("mixer").toJSON();
+  doc.destroy();
+
+  return {
+    project: { title: project.title, bpm: project.bpm, key: project.key },
+    tracks: tracks.map(snapshotTrack),
+    regions,
+    mixer,
+    mastering: mastering ? {
+      preset: mastering.preset,
+      eq: parseJson(mastering.eqSettings),
+      compressor: parseJson(mastering.compressorSettings),
+      limiter: parseJson(mastering.limiterSettings),
+      lufsTarget: mastering.lufsTarget,
+    } : null,
+  };
+}
+
+// Save the current state as the project's next version
+export async function saveProjectVersion(project: StudioProject, userId: number, name?: string): Promise<ProjectVersion> {
+  const snapshot = await captureProjectSnapshot(project);
+  const [latest] = await storage.getProjectVersionsByProject(project.id);
+  const versionNumber = (latest?.version ?? 0) + 1;
+
+  const version = await storage.createProjectVersion({
+    projectId: project.id,
+    userId,
+    version: versionNumber,
+    name: name?.trim() || `Version ${versionNumber}`,
+    snapshot: JSON.stringify(snapshot),
+  });
+  await storage.updateStudioProject(project.id, { version: versionNumber, updatedAt: new Date() });
+  return version;
+}
+
+// Flatten nested settings into dotted paths so individual parameters can be compared
+function flatten(value: unknown, prefix: string, into: Map<string, unknown> = new Map()): Map<string, unknown> {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, into);
+    }
+  } else if (value !== undefined) {
+    into.set(prefix, value);
+  }
+  return into;
+}
+
+function diffValues(from: unknown, to: unknown, prefix: string): FieldChange[] {
+  const fromFields = flatten(from, prefix);
+  const toFields = flatten(to, prefix);
+  const fields = new Set([...Array.from(fromFields.keys()), ...Array.from(toFields.keys())]);
+
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    const fromValue = fromFields.get(field) ?? null;
+    const toValue = toFields.get(field) ?? null;
+    if (JSON.stringify(fromValue) !== JSON.stringify(toValue)) {
+      changes.push({ field, from: fromValue, to: toValue });
+    }
+  });
+  return changes;
+}
+
+// Structural differences going from one snapshot to another
+export function diffSnapshots(from: ProjectSnapshot, to: ProjectSnapshot): SnapshotDiff {
+  const fromTracks = new Map(from.tracks.map(track => [track.id, track]));
+  const toTracks = new Map(to.tracks.map(track => [track.id, track]));
+
+  const tracksChanged: SnapshotDiff["tracksChanged"] = [];
+  to.tracks.forEach(track => {
+    const previous = fromTracks.get(track.id);
+    if (!previous) return;
+
+    const { effects, waveformData, ...fields } = track;
+    const { effects: previousEffects, waveformData: previousWaveform, ...previousFields } = previous;
+    const changes = [
+      ...diffValues(previousFields, fields, ""),
+      ...diffValues(previousEffects, effects, "effects"),
+      ...diffValues(from.mixer[track.id], to.mixer[track.id], "mixer"),
+    ];
+
+    // Regions are reported as a whole rather than per property
+    const previousRegions = from.regions[track.id] ?? null;
+    const regions = to.regions[track.id] ?? null;
+    if (JSON.stringify(previousRegions) !== JSON.stringify(regions)) {
+      changes.push({ field: "regions", from: previousRegions, to: regions });
+    }
+
+    if (changes.length > 0) {
+      tracksChanged.push({ id: track.id, name: track.name, changes });
+    }
+  });
+
+  return {
+    project: diffValues(from.project, to.project, ""),
+    tracksAdded: to.tracks.filter(track => !fromTracks.has(track.id)).map(({ id, name }) => ({ id, name })),
+    tracksRemoved: from.tracks.filter(track => !toTracks.has(track.id)).map(({ id, name }) => ({ id, name })),
+    tracksChanged,
+    mastering: diffValues(from.mastering, to.mastering, ""),
+  };
+}
+
+// Put a project back to the state in a snapshot. Tracks that still exist keep their ids (and comments);
+// tracks deleted since are recreated and their regions and mixer state follow them to the new ids.
+export async function restoreProjectSnapshot(project: StudioProject, snapshot: ProjectSnapshot): Promise<StudioProject> {
+  const currentTracks = await storage.getProjectTracksByProject(project.id);
+  const currentById = new Map(currentTracks.map(track => [track.id, track]));
+  const snapshotIds = new Set(snapshot.tracks.map(track => track.id));
+
+  const trackIds = new Map<number, number>();
+  for (const { id, effects, ...fields } of snapshot.tracks) {
+    const trackData = { ...fields, effects: effects ? JSON.stringify(effects) : null };
+    const current = currentById.get(id);
+    if (current) {
+      // Waveform peaks are regenerated on request if the audio is different
+      const peaksUrl = current.audioUrl === trackData.audioUrl ? current.peaksUrl : null;
+      await storage.updateProjectTrack(id, { ...trackData, peaksUrl, updatedAt: new Date() });
+      trackIds.set(id, id);
+    } else {
+      const track = await storage.createProjectTrack({ ...trackData, projectId: project.id });
+      trackIds.set(id, track.id);
+    }
+  }
+  for (const track of currentTracks) {
+    if (!snapshotIds.has(track.id)) {
+      await storage.deleteProjectTrack(track.id);
+    }
+  }
+
+  // Shared state is edited in place so anyone in the studio sees the restore immediately
+  await updatePersistedDoc({ projectId: project.id }, doc => {
+    const replace = (map: Y.Map<unknown>, entries: Record<string, unknown>) => {
+      Array.from(map.keys()).forEach(key => map.delete(key));
+      for (const [key, value] of Object.entries(entries)) {
+        const trackId = trackIds.get(Number(key));
+        map.set(trackId !== undefined ? String(trackId) : key, value);
+      }
+    };
+    replace(doc.getMap("timeline"), snapshot.regions);
+    replace(doc.getMap("mixer"), snapshot.mixer);
+  });
+
+  const masteringData = {
+    preset: (snapshot.mastering?.preset ?? 'balanced') as "warm" | "balanced" | "open" | "custom",
+    eqSettings: snapshot.mastering?.eq ? JSON.stringify(snapshot.mastering.eq) : null,
+    compressorSettings: snapshot.mastering?.compressor ? JSON.stringify(snapshot.mastering.compressor) : null,
+    limiterSettings: snapshot.mastering?.limiter ? JSON.stringify(snapshot.mastering.limiter) : null,
+    lufsTarget: snapshot.mastering?.lufsTarget ?? -14,
+  };
+  const existingMastering = await storage.getMasteringSettings(project.id);
+  if (existingMastering) {
+    await storage.updateMasteringSettings(existingMastering.id, { ...masteringData, updatedAt: new Date() });
+  } else if (snapshot.mastering) {
+    await storage.saveMasteringSettings({ ...masteringData, projectId: project.id });
+  }
+
+  const restoredProject = await storage.updateStudioProject(project.id, {
+    ...snapshot.project,
+    updatedAt: new Date(),
+  });
+  return restoredProject ?? project;
+}
@@ -0,0 +1,85 @@
+import { storage } from "./storage";
+import { type RenderJob } from "@shared/schema";
+import { renderMixdown } from "./mixdown";
+import { renderStems } from "./stems";
+import { saveGeneratedFile } from "./uploads";
+
+// Rendering is CPU and memory heavy, so jobs run one at a time in the order they were queued
+const queue: number[] = [];
+let running = false;
+
+export function enqueueRenderJob(job: RenderJob): void {
+  queue.push(job.id);
+  processQueue();
+}
+
+async function processQueue() {
+  if (running) return;
+  running = true;
+
+  try {
+    let jobId: number | undefined;
+    while ((jobId = queue.shift()) !== undefined) {
+      await runRenderJob(jobId);
+    }
+  } finally {
+    running = false;
+  }
+}
+
+async function runRenderJob(jobId: number) {
+  try {
+    const job = await storage.getRenderJob(jobId);
+    if (!job || job.status === 'completed' || job.status === 'failed') return;
+
+    await storage.updateRenderJob(jobId, { status: 'rendering' });
+
+    const project = await storage.getStudioProject(job.projectId);
+    if (!project) {
+      throw new Error("Project no longer exists");
+    }
+
+    const tracks = await storage.getProjectTracksByProject(project.id);
+    const tailMs = job.tailMs ?? 0;
+
+    if (job.type === 'stems') {
+      const stemExport = await renderStems(project, tracks, tailMs);
+      await storage.updateRenderJob(jobId, {
+        status: 'completed',
+        outputUrl: stemExport.bundleUrl,
+        outputFiles: JSON.stringify(stemExport.stems),
+        duration: Math.round(stemExport.duration),
+        completedAt: new Date()
+      });
+      return;
+    }
+
+    const mastering = await storage.getMasteringSettings(project.id);
+    const mixdown = await renderMixdown(tracks, project.userId, mastering, tailMs);
+    const outputUrl = await saveGeneratedFile('audio', `mixdown-${project.id}`, '.wav', mixdown.wav, project.userId);
+
+    await storage.updateRenderJob(jobId, {
+      status: 'completed',
+      outputUrl,
+      duration: Math.round(mixdown.duration),
+      completedAt: new Date()
+    });
+  } catch (error) {
+    console.error(`Render job ${jobId} failed:`, error);
+    await storage.updateRenderJob(jobId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date()
+    }).catch(updateError => console.error(`Failed to record render job ${jobId} failure:`, updateError));
+  }
+}
+
+// Jobs that were queued or mid-render when the server stopped are picked up again on startup
+export async function resumeRenderJobs(): Promise<void> {
+  try {
+    const jobs = await storage.getUnfinishedRenderJobs();
+    jobs.forEach(enqueueRenderJob);
+  } catch (error) {
+    console.error('Failed to resume render jobs:', error);
+  }
+}
@@ -2,65 +2,91 @@ import express, { type Express, type Request, type Response, NextFunction } from
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, hashPassword } from "./auth";
+import { enqueueRenderJob, resumeRenderJobs } from "./renderJobs";
+import { enqueueTrackProcessing, resumeTrackProcessing, getTrackRenditions, publicTrack, DEFAULT_RENDITION_BITRATE } from "./trackProcessing";
+import { getRenditionSegments, masterPlaylist, mediaPlaylist, readSegment } from "./hlsStreaming";
+import { generateProjectTrackPeaks, readWaveformPeaks } from "./waveformPeaks";
+import { readAudioTags, trackGenreFromTag, saveCoverArt, trackTags, detectTaggableFormat, writeAudioTags } from "./audioMetadata";
+import { acceptUpload, cleanUpTempUploads, InvalidUploadError, MAX_AUDIO_UPLOAD_BYTES, MAX_FILE_UPLOAD_BYTES } from "./uploadValidation";
+import { stemBundleName } from "./stems";
+import { parseMasteringSettings, parseTrackEffects } from "./mixdown";
+import { writeProjectBundle, importProjectBundle, projectBundleName, InvalidBundleError } from "./projectBundle";
+import { startProjectBackup, restoreProjectBackup, failInterruptedBackups } from "./projectBackup";
+import { isPersistedDocOpen } from "./collabPersistence";
+import { saveProjectVersion, captureProjectSnapshot, parseSnapshot, diffSnapshots, restoreProjectSnapshot } from "./projectVersions";
+import { resolvePrivateFileRef, moveLegacyVerificationDocs } from "./privateFiles";
+import { signUrl, verifySignedUrl } from "./signedUrls";
+import { seedTeamDirectory, linkUsersToDirectory, submittedTeamFields, syncDirectoryNames, directoryAthletes } from "./teamDirectory";
+import { findReportableContent, canReport, reportQueue, moderateReport, actionAppliesTo } from "./moderation";
+import { handleStripeEvent, syncSubscription } from "./stripeWebhooks";
+import { stripe, isStripeConfigured, PLAN_CATALOG, PAID_TIERS, BillingError, createSubscriptionCheckout, previewPlanChange, changePlan, setCancelAtPeriodEnd, createBillingPortalSession, subscriptionSummary, billingHistory } from "./billing";
+import { canPlaySubscriberTrack, createFanSubscriptionCheckout, updateAthleteTier, setFanSubscriptionCancelAtPeriodEnd, activeFanSubscription, subscriberList, fanSubscriptionList } from "./fanSubscriptions";
+import { recordPlayRoyalty, createTipCheckout, recordPayout, earningsSummary, MIN_TIP } from "./earnings";
+import { hasEntitlement, canPlayTrack, sendLocked, sendTrackLocked, reserveAiGeneration, checkStorageQuota, requireStorageQuota, hasFreeSessionSeat, sendSessionFull, entitlementSummary } from "./entitlements";
+import { accountRestriction, suspendAccount, banAccount, reinstateAccount, softDeleteAccount, eraseAccount } from "./accountStatus";
+import { reviewVerificationDoc, reviewPendingVerificationDocs, requestVerificationDocuments, refreshVerificationStatus } from "./verificationReview";
+import { uploadDir, resolveUploadUrl, reserveGeneratedFile, PUBLIC_UPLOAD_FOLDERS } from "./uploads";
+import { generateSessionCode, addSessionCollaborator, canAccessSession, canAccessProject, SESSION_CODE_TTL_MS } from "./liveSessions";
 import multer from "multer";
 import path from "path";
+import os from "os";
 import fs from "fs/promises";
 import { z } from "zod";
 import Stripe from "stripe";
 import { WebSocketServer } from 'ws';
 import * as Y from 'yjs';
-import { insertTrackSchema, insertMessageSchema, insertStudioSessionSchema } from "@shared/schema";
+import {
+  insertTrackSchema, insertMessageSchema, insertStudioSessionSchema,
+  insertStudioProjectSchema, insertProjectTrackSchema, insertMasteringSettingsSchema,
+  insertLeagueSchema, insertTeamSchema, insertUserSchema,
+  type StudioProject, type Track, type VerificationDoc, type User, type AiGeneration
+} from "@shared/schema";
 import fetch from 'node-fetch';
 
-// Initialize Stripe
-if (!process.env.STRIPE_SECRET_KEY) {
-  console.warn("Missing Stripe secret key. Payment processing will not work.");
-}
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
-  apiVersion: "2023-10-16",
-});
-
-// Set up multer for file uploads
-const uploadDir = path.join(process.cwd(), "uploads");
-
 // Ensure upload directory exists
 (async () => {
   try {
     await fs.mkdir(uploadDir, { recursive: true });
     await fs.mkdir(path.join(uploadDir, "audio"), { recursive: true });
     await fs.mkdir(path.join(uploadDir, "images"), { recursive: true });
-    await fs.mkdir(path.join(uploadDir, "documents"), { recursive: true });
   } catch (error) {
     console.error("Error creating upload directories:", error);
   }
 })();
 
+// Uploads go to a temp file first; routes move them into uploads/ with acceptUpload once their
+// content has been checked
 const upload = multer({
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      let dest = uploadDir;
-      if (file.fieldname === 'audio') {
-        dest = path.join(uploadDir, "audio");
-      } else if (file.fieldname === 'image' || file.fieldname === 'coverArt') {
-        dest = path.join(uploadDir, "images");
-      } else if (file.fieldname === 'document') {
-        dest = path.join(uploadDir, "documents");
-      }
-      cb(null, dest);
-    },
-    filename: (req, file, cb) => {
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-    }
-  }),
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: MAX_FILE_UPLOAD_BYTES
+  }
+});
+
+// Track uploads are transcoded before they're played, so lossless masters are welcome
+const trackUpload = multer({
+  dest: os.tmpdir(),
   limits: {
-    fileSize: 10 * 1024 * 1024 // 10MB limit
+    fileSize: MAX_AUDIO_UPLOAD_BYTES
+  }
+});
+
+// Project bundles carry all of a project's audio, so they get a much larger limit and are
+// only kept in a temp file while being imported
+const bundleUpload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: 1024 * 1024 * 1024 // 1GB limit
   }
 });
 
 // Middleware to check if user is authenticated
 const isAuthenticated = (req: Request, res: Response, next: () => void) => {
   if (req.isAuthenticated()) {
+    const restriction = accountRestriction(req.user);
+    if (restriction) {
+      return res.status(403).json({ message: restriction });
+    }
     return next();
   }
   res.status(401).json({ message: "Unauthorized" });
@@ -82,22 +108,286 @@ const isAdmin = (req: Request, res: Response, next: () => void) => {
   res.status(403).json({ message: "Forbidden: Admins only" });
 };
 
+// An admin's decision on verification documents. Rejections have to say why, since the athlete is told.
+const verificationReviewSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  reason: z.string().trim().min(1).max(1000).optional()
+}).refine(review => review.decision === 'approved' || review.reason, {
+  message: "A reason is required when rejecting",
+  path: ['reason']
+});
+
+// A user's report of a track, message or comment
+const contentReportSchema = z.object({
+  contentType: z.enum(['track', 'message', 'comment']),
+  contentId: z.coerce.number().int().positive(),
+  reason: z.string().trim().min(1).max(1000)
+});
+
+// A moderator's action on a report. Warnings and suspensions are sent to the user, so they need a reason.
+const moderationDecisionSchema = z.object({
+  reportId: z.coerce.number().int().positive(),
+  action: z.enum(['dismiss', 'unpublish_track', 'delete_message', 'delete_comment', 'warn_user', 'suspend_user']),
+  reason: z.string().trim().min(1).max(1000).optional(),
+  suspendDays: z.coerce.number().int().min(1).max(365).optional()
+}).refine(decision => (decision.action !== 'warn_user' && decision.action !== 'suspend_user') || decision.reason, {
+  message: "A reason is required when warning or suspending a user",
+  path: ['reason']
+});
+
+// Suspending or banning an account. The reason is shown to the user when they try to log in.
+const accountActionSchema = z.object({
+  reason: z.string().trim().min(1).max(1000)
+});
+
+const suspensionSchema = accountActionSchema.extend({
+  days: z.coerce.number().int().min(1).max(365)
+});
+
+// Subscribing to a plan, or switching to another one. prorationDate comes from the preview, so
+// the change is charged exactly as it was shown.
+const planChangeSchema = z.object({
+  tier: z.enum(['bronze', 'silver', 'gold']),
+  prorationDate: z.coerce.number().int().positive().optional()
+});
+
+// A tier athletes offer their fans. Amounts are monthly, in cents.
+const fanTierSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(500).optional(),
+  amount: z.coerce.number().int().min(100).max(100000)
+});
+
+const fanTierUpdateSchema = fanTierSchema.partial().extend({
+  isActive: z.boolean().optional()
+});
+
+const earningsQuerySchema = z.object({
+  period: z.enum(['month', 'quarter', 'year', 'all']).default('year')
+});
+
+// Amounts are in cents
+const tipSchema = z.object({
+  amount: z.coerce.number().int().min(MIN_TIP).max(50000)
+});
+
+// Ledger entries are integers in thousandths of a cent, which caps one payout at $20,000
+const payoutSchema = z.object({
+  amount: z.coerce.number().int().min(1).max(2000000),
+  method: z.string().trim().min(1).max(60),
+  reference: z.string().trim().min(1).max(100) // The payment's own id, so a payout recorded twice is booked once
+});
+
+// What artists can change about a track after uploading it. Its audio, owner and play count,
+// and everything the transcoding pipeline sets, stay as they are.
+const trackUpdateSchema = insertTrackSchema.pick({
+  title: true,
+  genre: true,
+  description: true,
+  coverArt: true,
+  isPublished: true
+}).partial();
+
+// What users can change about their own profile. Their role, tier, verification, account status
+// and billing only change through the workflows that own them. League and team are submitted as
+// form text and resolved against the directory.
+const profileUpdateSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+  email: true,
+  fullName: true,
+  bio: true
+}).partial().extend({
+  league: z.string().optional(),
+  team: z.string().optional(),
+  teamId: z.string().optional()
+});
+
+// Project track effects are stored as JSON and have to be settings the renderer accepts
+const hasValidEffects = (track: { effects?: string | null }) => parseTrackEffects(track.effects) !== null;
+const invalidEffects = { message: "Invalid track effects", path: ["effects"] };
+const projectTrackSchema = insertProjectTrackSchema.refine(hasValidEffects, invalidEffects);
+// Tracks can't be moved to another project through an update
+const projectTrackUpdateSchema = insertProjectTrackSchema
+  .omit({ projectId: true })
+  .partial()
+  .refine(hasValidEffects, invalidEffects);
+
+const masteringSettingsSchema = insertMasteringSettingsSchema.refine(
+  settings => parseMasteringSettings(settings) !== null,
+  { message: "Invalid mastering settings" }
+);
+
+const moderationQueueFilterSchema = z.object({
+  status: z.enum(['pending', 'resolved', 'dismissed', 'all']).default('pending'),
+  type: z.enum(['track', 'message', 'comment']).optional()
+});
+
+// Load a user an admin is about to suspend, ban, reinstate or delete. Admins can't act on their
+// own account or on other admins. Sends the error response and returns undefined otherwise.
+async function getManagedUser(req: Request, res: Response): Promise<User | undefined> {
+  const userId = parseInt(req.params.id);
+  if (isNaN(userId)) {
+    res.status(400).json({ message: "Invalid user id" });
+    return undefined;
+  }
+  
+  const user = await storage.getUser(userId);
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return undefined;
+  }
+  if (user.id === req.user!.id || user.role === 'admin') {
+    res.status(403).json({ message: "Admin accounts cannot be suspended, banned or deleted" });
+    return undefined;
+  }
+  return user;
+}
+
+// Load a studio project and make sure the current user owns it (admins can access any project).
+// With allowCollaborators, users who joined the project's live session are let through as well.
+// Sends the error response and returns undefined when the project can't be used.
+async function getOwnedProject(
+  req: Request,
+  res: Response,
+  projectId: number,
+  options: { allowCollaborators?: boolean } = {}
+): Promise<StudioProject | undefined> {
+  if (isNaN(projectId)) {
+    res.status(400).json({ message: "Invalid project id" });
+    return undefined;
+  }
+  
+  const project = await storage.getStudioProject(projectId);
+  if (!project) {
+    res.status(404).json({ message: "Project not found" });
+    return undefined;
+  }
+  
+  const hasAccess = options.allowCollaborators
+    ? await canAccessProject(req.user!, project)
+    : project.userId === req.user!.id || req.user!.role === 'admin';
+  if (!hasAccess) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+  
+  return project;
+}
+
+// Load a track for streaming, sending the error response if the requester can't listen to it.
+// Anyone can stream published tracks; the artist and admins can also stream unpublished ones.
+async function getStreamableTrack(req: Request, res: Response): Promise<Track | undefined> {
+  const trackId = parseInt(req.params.id);
+  if (isNaN(trackId)) {
+    res.status(400).json({ message: "Invalid track id" });
+    return undefined;
+  }
+  
+  const track = await storage.getTrack(trackId);
+  if (!track) {
+    res.status(404).json({ message: "Track not found" });
+    return undefined;
+  }
+  
+  const isArtist = req.isAuthenticated() && (req.user.id === track.artistId || req.user.role === 'admin');
+  if ((!track.isPublished || track.processingStatus !== 'ready') && !isArtist) {
+    res.status(403).json({ message: "Track not available" });
+    return undefined;
+  }
+  if (track.processingStatus !== 'ready') {
+    res.status(409).json({ message: "Track is not ready to play" });
+    return undefined;
+  }
+  if (!canPlayTrack(req.user, track)) {
+    sendTrackLocked(res);
+    return undefined;
+  }
+  if (!(await canPlaySubscriberTrack(req.user, track))) {
+    sendSubscribersOnly(res, track);
+    return undefined;
+  }
+  
+  return track;
+}
+
+// Audio the server has delivered earns the artist a royalty. It's booked after the response, and
+// failing to book it doesn't affect playback.
+function bookPlayRoyalty(req: Request, track: Track) {
+  recordPlayRoyalty(track, req.isAuthenticated() ? req.user : undefined)
+    .catch(error => console.error(`Failed to record a play royalty for track ${track.id}:`, error));
+}
+
+// Subscriber-only tracks tell the client whose subscribers they're for, so it can offer to subscribe
+function sendSubscribersOnly(res: Response, track: Track) {
+  res.status(403).json({
+    message: "This track is for the artist's subscribers",
+    feature: 'athleteSubscription',
+    athleteId: track.artistId
+  });
+}
+
+// Streams are access controlled, so shared caches must not keep them
+const STREAM_CACHE_CONTROL = 'private, max-age=3600';
+
+// Verification documents are only served through short-lived signed links, issued to the user
+// who is looking at them
+function withSignedDocumentUrl(doc: VerificationDoc, userId: number): VerificationDoc {
+  return { ...doc, documentUrl: signUrl(`/api/verification/documents/${doc.id}/file`, userId).url };
+}
+
+// Send a track's waveform peaks file: every zoom level, or just the one asked for with ?zoom=
+async function sendWaveformPeaks(req: Request, res: Response, peaksUrl: string) {
+  const zoom = req.query.zoom !== undefined ? parseInt(req.query.zoom as string) : undefined;
+  const peaks = zoom === undefined || !isNaN(zoom) ? await readWaveformPeaks(peaksUrl, zoom) : undefined;
+  if (!peaks) {
+    return res.status(400).json({ message: "Invalid zoom level" });
+  }
+  
+  res.set('Cache-Control', STREAM_CACHE_CONTROL)
+    .type('application/octet-stream')
+    .send(peaks);
+}
+
+// Optional extra render time after the last region, in ms; undefined when out of range
+const MAX_RENDER_TAIL_MS = 30000;
+
+function parseRenderTail(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return 0;
+  const tailMs = Number(value);
+  if (!Number.isInteger(tailMs) || tailMs < 0 || tailMs > MAX_RENDER_TAIL_MS) return undefined;
+  return tailMs;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
   setupAuth(app);
 
-  // Serve uploaded files
-  app.use('/uploads', (req, res, next) => {
-    // Basic check to ensure we're only serving media files
-    const ext = path.extname(req.path).toLowerCase();
-    const allowedExts = ['.mp3', '.wav', '.jpg', '.jpeg', '.png', '.webp', '.pdf'];
-    
-    if (allowedExts.includes(ext)) {
-      next();
-    } else {
-      res.status(403).send('Forbidden');
-    }
-  }, express.static(uploadDir));
+  // Serve uploaded files. Only the public folders are mounted, so private ones can't be reached
+  // however the path is spelled.
+  const allowedExts = ['.mp3', '.wav', '.flac', '.m4a', '.jpg', '.jpeg', '.png', '.webp'];
+  for (const folder of PUBLIC_UPLOAD_FOLDERS) {
+    app.use(`/uploads/${folder}`, (req, res, next) => {
+      // Basic check to ensure we're only serving media files
+      let ext: string;
+      try {
+        ext = path.extname(decodeURIComponent(req.path)).toLowerCase();
+      } catch {
+        ext = '';
+      }
+      
+      if (allowedExts.includes(ext)) {
+        next();
+      } else {
+        res.status(403).send('Forbidden');
+      }
+    }, express.static(path.join(uploadDir, folder), {
+      setHeaders: (res) => {
+        // Files are served as the type their extension says, never as whatever a browser guesses
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+      }
+    }));
+  }
 
   // User routes
   app.get("/api/users", isAdmin, async (req, res) => {
@@ -151,16 +441,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users/:id/update-subscription", isAuthenticated, async (req, res) => {
+  // Account status: suspensions, bans and deletion. Each admin action goes into the moderation log.
+  app.post("/api/users/:id/suspend", isAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { subscriptionTier } = req.body;
+      const validationResult = suspensionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid suspension data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      const { days, reason } = validationResult.data;
       
-      // Only admins or the user themselves can update subscription
-      if (req.user.role !== 'admin' && req.user.id !== parseInt(id)) {
-        return res.status(403).json({ message: "Forbidden" });
+      const user = await getManagedUser(req, res);
+      if (!user) return;
+      
+      const suspendedUntil = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      const updatedUser = await suspendAccount(user.id, suspendedUntil, reason);
+      await storage.addModerationAction({ moderatorId: req.user!.id, action: 'suspend_user', targetUserId: user.id, reason, suspendedUntil });
+      
+      const { password, ...userWithoutPassword } = updatedUser!;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to suspend user" });
+    }
+  });
+
+  app.post("/api/users/:id/ban", isAdmin, async (req, res) => {
+    try {
+      const validationResult = accountActionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid ban data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      const { reason } = validationResult.data;
+      
+      const user = await getManagedUser(req, res);
+      if (!user) return;
+      
+      const updatedUser = await banAccount(user.id, reason);
+      await storage.addModerationAction({ moderatorId: req.user!.id, action: 'ban_user', targetUserId: user.id, reason });
+      
+      const { password, ...userWithoutPassword } = updatedUser!;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to ban user" });
+    }
+  });
+
+  // Lift a suspension or ban, or restore a deleted account
+  app.post("/api/users/:id/reinstate", isAdmin, async (req, res) => {
+    try {
+      const user = await getManagedUser(req, res);
+      if (!user) return;
+      
+      const updatedUser = await reinstateAccount(user.id);
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() || null : null;
+      await storage.addModerationAction({ moderatorId: req.user!.id, action: 'reinstate_user', targetUserId: user.id, reason });
+      
+      const { password, ...userWithoutPassword } = updatedUser!;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reinstate user" });
+    }
+  });
+
+  // Deleting keeps the account's data so it can be restored; ?permanent=true erases it for good
+  app.delete("/api/users/:id", isAdmin, async (req, res) => {
+    try {
+      const user = await getManagedUser(req, res);
+      if (!user) return;
+      
+      if (req.query.permanent === 'true') {
+        await eraseAccount(user);
+        // The log can't point at an account that no longer exists
+        await storage.addModerationAction({ moderatorId: req.user!.id, action: 'delete_user', reason: `Erased user ${user.id}` });
+        return res.json({ message: "User erased" });
       }
       
+      await softDeleteAccount(user.id);
+      await storage.addModerationAction({ moderatorId: req.user!.id, action: 'delete_user', targetUserId: user.id });
+      res.json({ message: "User deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // Users deleting their own account, with ?permanent=true to have everything erased
+  app.delete("/api/user", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user!;
+      if (user.role === 'admin') {
+        return res.status(403).json({ message: "Admin accounts have to be deleted by another admin" });
+      }
+      
+      if (req.query.permanent === 'true') {
+        await eraseAccount(user);
+      } else {
+        await softDeleteAccount(user.id);
+      }
+      
+      req.logout((err) => {
+        if (err) console.error("Failed to log out a deleted user:", err);
+        res.json({ message: "Account deleted" });
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Users get their tier by paying for it through /api/subscription; admins can set it by hand
+  app.post("/api/users/:id/update-subscription", isAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { subscriptionTier } = req.body;
+      
       if (!subscriptionTier) {
         return res.status(400).json({ message: "Subscription tier is required" });
       }
@@ -179,18 +576,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Profile routes
-  app.post("/api/profile/update", isAuthenticated, upload.single('profileImage'), async (req, res) => {
+  app.post("/api/profile/update", isAuthenticated, cleanUpTempUploads, upload.single('profileImage'), async (req, res) => {
     try {
-      const userData = req.body;
+      const validationResult = profileUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid profile data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      const { teamId, league, team, ...profile } = validationResult.data;
       
       // If password is being updated, hash it
-      if (userData.password) {
-        userData.password = await hashPassword(userData.password);
+      if (profile.password) {
+        profile.password = await hashPassword(profile.password);
+      } else {
+        delete profile.password;
+      }
+      
+      // League and team come from the directory when they can
+      const teamFields = await submittedTeamFields({ teamId, league, team });
+      if (!teamFields) {
+        return res.status(400).json({ message: "Unknown team" });
       }
+      const userData: Partial<User> = { ...profile, ...teamFields };
       
       // If there's a file upload, add the path
       if (req.file) {
-        userData.profileImage = `/uploads/images/${req.file.filename}`;
+        userData.profileImage = (await acceptUpload(req.file, 'image', req.user!)).url;
       }
       
       const updatedUser = await storage.updateUser(req.user.id, userData);
@@ -202,12 +615,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { password, ...userWithoutPassword } = updatedUser;
       res.json(userWithoutPassword);
     } catch (error) {
+      if (error instanceof InvalidUploadError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update profile" });
     }
   });
 
   // Verification routes
-  app.post("/api/verification/submit", isAuthenticated, upload.single('document'), async (req, res) => {
+  app.post("/api/verification/submit", isAuthenticated, cleanUpTempUploads, upload.single('document'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "Document is required" });
@@ -218,20 +634,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Document type is required" });
       }
       
+      const teamFields = await submittedTeamFields(req.body);
+      if (!teamFields) {
+        return res.status(400).json({ message: "Unknown team" });
+      }
+      
+      // Documents go to private storage, never under /uploads
+      const document = await acceptUpload(req.file, 'document', req.user!);
+      
       // If user is not already an athlete, update their role
-      if (req.user.role !== 'athlete') {
-        await storage.updateUser(req.user.id, { role: 'athlete' });
+      if (req.user.role !== 'athlete' || Object.keys(teamFields).length > 0) {
+        await storage.updateUser(req.user.id, { ...teamFields, role: 'athlete' });
       }
       
       const verificationDoc = await storage.addVerificationDoc({
         userId: req.user.id,
         documentType,
-        documentUrl: `/uploads/documents/${req.file.filename}`,
+        documentUrl: document.url,
         status: 'pending'
       });
+      await refreshVerificationStatus(req.user!.id);
       
-      res.status(201).json(verificationDoc);
+      res.status(201).json(withSignedDocumentUrl(verificationDoc, req.user!.id));
     } catch (error) {
+      if (error instanceof InvalidUploadError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to submit verification document" });
     }
   });
@@ -239,9 +667,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/verification/status", isAuthenticated, async (req, res) => {
     try {
       const docs = await storage.getVerificationDocsByUserId(req.user.id);
+      const decisions = await storage.getVerificationDecisionsByUserId(req.user!.id);
       res.json({ 
         status: req.user.verificationStatus,
-        documents: docs
+        documents: docs.map(doc => withSignedDocumentUrl(doc, req.user!.id)),
+        decisions
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch verification status" });
@@ -257,7 +687,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { password, ...userWithoutPassword } = user;
         return {
           user: userWithoutPassword,
-          documents: docs
+          documents: docs.map(doc => withSignedDocumentUrl(doc, req.user!.id))
         };
       }));
       
@@ -267,292 +697,1686 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Track routes
-  app.post("/api/tracks/upload", isAthlete, upload.fields([
-    { name: 'audio', maxCount: 1 },
-    { name: 'coverArt', maxCount: 1 }
-  ]), async (req, res) => {
+  // A verification document, through a signed link issued to its owner or an admin. The link
+  // itself is the credential, so it works in a new tab or an <img> without the session cookie.
+  app.get("/api/verification/documents/:id/file", async (req, res) => {
     try {
-      const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+      const userId = verifySignedUrl(req.path, req.query);
+      if (userId === undefined) {
+        return res.status(403).json({ message: "This link is invalid or has expired" });
+      }
       
-      if (!files.audio || !files.audio[0]) {
-        return res.status(400).json({ message: "Audio file is required" });
+      const doc = await storage.getVerificationDoc(parseInt(req.params.id));
+      if (!doc) {
+        return res.status(404).json({ message: "Document not found" });
       }
       
-      const trackData = req.body;
+      // Check again in case the user has lost access since the link was issued
+      const user = await storage.getUser(userId);
+      if (!user || (doc.userId !== user.id && user.role !== 'admin')) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
       
-      // Create track object
-      const trackInput = {
-        title: trackData.title,
-        artistId: req.user.id,
-        genre: trackData.genre || 'other',
-        audioUrl: `/uploads/audio/${files.audio[0].filename}`,
-        coverArt: files.coverArt ? `/uploads/images/${files.coverArt[0].filename}` : undefined,
-        duration: parseInt(trackData.duration) || 0,
-        description: trackData.description,
-        isPublished: trackData.isPublished === 'true'
-      };
+      const filePath = resolvePrivateFileRef(doc.documentUrl);
+      if (!filePath) {
+        return res.status(404).json({ message: "Document not found" });
+      }
       
-      // Validate with schema
-      const validationResult = insertTrackSchema.safeParse(trackInput);
+      await storage.logVerificationDocAccess({
+        docId: doc.id,
+        userId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+      
+      res.sendFile(filePath, {
+        cacheControl: false,
+        headers: {
+          'Cache-Control': 'private, no-store',
+          'X-Content-Type-Options': 'nosniff',
+          // Keep the signed link out of Referer headers
+          'Referrer-Policy': 'no-referrer',
+          // Shown inline for review, but never allowed to run anything
+          'Content-Security-Policy': 'sandbox',
+          'Content-Disposition': 'inline'
+        }
+      }, error => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Document not found" });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+
+  // Decide on a single document
+  app.post("/api/verification/documents/:id/review", isAdmin, async (req, res) => {
+    try {
+      const validationResult = verificationReviewSchema.safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({ 
-          message: "Invalid track data", 
+          message: "Invalid review data", 
           errors: validationResult.error.format() 
         });
       }
       
-      const track = await storage.createTrack(validationResult.data);
-      res.status(201).json(track);
+      const doc = await storage.getVerificationDoc(parseInt(req.params.id));
+      if (!doc) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const { decision, reason } = validationResult.data;
+      const review = await reviewVerificationDoc(doc, req.user!, decision, reason);
+      res.json({ ...review, doc: withSignedDocumentUrl(review.doc, req.user!.id) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to upload track" });
+      res.status(500).json({ message: "Failed to review document" });
     }
   });
 
-  app.get("/api/tracks", async (req, res) => {
+  // Decide on all of an athlete's pending documents at once
+  app.post("/api/verify-athlete", isAdmin, async (req, res) => {
     try {
-      const tracks = await storage.getAllTracks();
-      res.json(tracks);
+      const validationResult = z.object({
+        userId: z.number().int(),
+        status: z.enum(['approved', 'rejected']),
+        reason: z.string().trim().min(1).max(1000).optional()
+      }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid review data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const athlete = await storage.getUser(validationResult.data.userId);
+      if (!athlete || athlete.role !== 'athlete') {
+        return res.status(404).json({ message: "Athlete not found" });
+      }
+      
+      const { status, reason } = validationResult.data;
+      const review = await reviewPendingVerificationDocs(athlete, req.user!, status, reason);
+      res.json({ ...review, docs: review.docs.map(doc => withSignedDocumentUrl(doc, req.user!.id)) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch tracks" });
+      res.status(500).json({ message: "Failed to update verification" });
     }
   });
 
-  app.get("/api/tracks/artist/:id", async (req, res) => {
+  app.post("/api/verification/users/:id/request-documents", isAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      const tracks = await storage.getTracksByArtist(parseInt(id));
+      const validationResult = z.object({
+        documentTypes: z.array(z.string().trim().min(1).max(100)).min(1).max(10),
+        reason: z.string().trim().min(1).max(1000).optional()
+      }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid document request", 
+          errors: validationResult.error.format() 
+        });
+      }
       
-      // If user is not the artist and not an admin, only show published tracks
-      if (!req.isAuthenticated() || (req.user.id !== parseInt(id) && req.user.role !== 'admin')) {
-        const publishedTracks = tracks.filter(track => track.isPublished);
-        return res.json(publishedTracks);
+      const athlete = await storage.getUser(parseInt(req.params.id));
+      if (!athlete || athlete.role !== 'athlete') {
+        return res.status(404).json({ message: "Athlete not found" });
+      }
+      if (athlete.verificationStatus === 'approved') {
+        return res.status(409).json({ message: "This athlete is already verified" });
       }
       
-      res.json(tracks);
+      const { documentTypes, reason } = validationResult.data;
+      res.json(await requestVerificationDocuments(athlete, req.user!, documentTypes, reason));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch artist tracks" });
+      res.status(500).json({ message: "Failed to request documents" });
     }
   });
 
-  app.get("/api/tracks/:id", async (req, res) => {
+  // The audit trail of every decision on an athlete's verification
+  app.get("/api/verification/users/:id/decisions", isAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      const track = await storage.getTrack(parseInt(id));
-      
-      if (!track) {
-        return res.status(404).json({ message: "Track not found" });
-      }
-      
-      // If track is not published, only the artist or admin can see it
-      if (!track.isPublished && 
-          (!req.isAuthenticated() || 
-           (req.user.id !== track.artistId && req.user.role !== 'admin'))) {
-        return res.status(403).json({ message: "Track not available" });
-      }
-      
-      res.json(track);
+      res.json(await storage.getVerificationDecisionsByUserId(parseInt(req.params.id)));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch track" });
+      res.status(500).json({ message: "Failed to fetch verification decisions" });
     }
   });
 
-  app.post("/api/tracks/:id/play", async (req, res) => {
+  app.get("/api/verification/documents/:id/access-log", isAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      const track = await storage.incrementTrackPlays(parseInt(id));
-      
-      if (!track) {
-        return res.status(404).json({ message: "Track not found" });
+      const doc = await storage.getVerificationDoc(parseInt(req.params.id));
+      if (!doc) {
+        return res.status(404).json({ message: "Document not found" });
       }
       
-      res.json({ plays: track.plays });
+      res.json(await storage.getVerificationDocAccessLogs(doc.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to record play" });
+      res.status(500).json({ message: "Failed to fetch document access log" });
     }
   });
 
-  app.post("/api/tracks/:id/update", isAuthenticated, async (req, res) => {
+  // League and team directory
+  app.get("/api/leagues", async (req, res) => {
     try {
-      const { id } = req.params;
-      const track = await storage.getTrack(parseInt(id));
-      
-      if (!track) {
-        return res.status(404).json({ message: "Track not found" });
-      }
-      
-      // Only the artist or admin can update the track
-      if (req.user.id !== track.artistId && req.user.role !== 'admin') {
-        return res.status(403).json({ message: "Forbidden" });
+      res.json(await storage.getLeagues());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch leagues" });
+    }
+  });
+
+  // A league page: its teams and verified athletes with their published tracks
+  app.get("/api/leagues/:id", async (req, res) => {
+    try {
+      const league = await storage.getLeague(parseInt(req.params.id));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
       }
       
-      const updatedTrack = await storage.updateTrack(parseInt(id), req.body);
-      res.json(updatedTrack);
+      const teams = await storage.getTeams(league.id);
+      const athletes = await directoryAthletes(await storage.getUsersByLeague(league.id));
+      res.json({ league, teams, athletes });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update track" });
+      res.status(500).json({ message: "Failed to fetch league" });
     }
   });
 
-  // Message routes
-  app.post("/api/messages/send", isAuthenticated, async (req, res) => {
+  // Autocomplete for the team pickers on the profile and verification forms
+  app.get("/api/teams/search", async (req, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const leagueId = req.query.leagueId ? parseInt(req.query.leagueId as string) : undefined;
+      if (leagueId !== undefined && isNaN(leagueId)) {
+        return res.status(400).json({ message: "Invalid league id" });
+      }
+      
+      const teams = query ? await storage.searchTeams(query, leagueId) : (await storage.getTeams(leagueId)).slice(0, 20);
+      const leagues = await storage.getLeagues();
+      res.json(teams.map(team => ({ ...team, league: leagues.find(league => league.id === team.leagueId) })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search teams" });
+    }
+  });
+
+  // A team page: its league and verified athletes with their published tracks
+  app.get("/api/teams/:id", async (req, res) => {
+    try {
+      const team = await storage.getTeam(parseInt(req.params.id));
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const league = await storage.getLeague(team.leagueId);
+      const athletes = await directoryAthletes(await storage.getUsersByTeam(team.id));
+      res.json({ team, league, athletes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch team" });
+    }
+  });
+
+  app.post("/api/leagues", isAdmin, async (req, res) => {
+    try {
+      const validationResult = insertLeagueSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid league data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const existing = await storage.getLeagues();
+      const { name, abbreviation } = validationResult.data;
+      if (existing.some(league => league.name === name || league.abbreviation === abbreviation)) {
+        return res.status(409).json({ message: "A league with that name or abbreviation already exists" });
+      }
+      
+      res.status(201).json(await storage.createLeague(validationResult.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create league" });
+    }
+  });
+
+  app.patch("/api/leagues/:id", isAdmin, async (req, res) => {
+    try {
+      const validationResult = insertLeagueSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid league data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const league = await storage.getLeague(parseInt(req.params.id));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+      
+      const { name, abbreviation } = validationResult.data;
+      const existing = await storage.getLeagues();
+      if (existing.some(other => other.id !== league.id && (other.name === name || other.abbreviation === abbreviation))) {
+        return res.status(409).json({ message: "A league with that name or abbreviation already exists" });
+      }
+      
+      const updatedLeague = await storage.updateLeague(league.id, validationResult.data);
+      if (updatedLeague && updatedLeague.name !== league.name) {
+        await syncDirectoryNames({ league: updatedLeague });
+      }
+      res.json(updatedLeague);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update league" });
+    }
+  });
+
+  app.delete("/api/leagues/:id", isAdmin, async (req, res) => {
+    try {
+      const league = await storage.getLeague(parseInt(req.params.id));
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+      if ((await storage.getTeams(league.id)).length > 0 || (await storage.getUsersByLeague(league.id)).length > 0) {
+        return res.status(409).json({ message: "The league still has teams or athletes" });
+      }
+      
+      await storage.deleteLeague(league.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete league" });
+    }
+  });
+
+  app.post("/api/teams", isAdmin, async (req, res) => {
+    try {
+      const validationResult = insertTeamSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid team data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const { leagueId, name } = validationResult.data;
+      if (!await storage.getLeague(leagueId)) {
+        return res.status(400).json({ message: "Unknown league" });
+      }
+      if ((await storage.getTeams(leagueId)).some(team => team.name === name)) {
+        return res.status(409).json({ message: "The league already has a team with that name" });
+      }
+      
+      res.status(201).json(await storage.createTeam(validationResult.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create team" });
+    }
+  });
+
+  app.patch("/api/teams/:id", isAdmin, async (req, res) => {
+    try {
+      const validationResult = insertTeamSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid team data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const team = await storage.getTeam(parseInt(req.params.id));
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const leagueId = validationResult.data.leagueId ?? team.leagueId;
+      const name = validationResult.data.name ?? team.name;
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(400).json({ message: "Unknown league" });
+      }
+      if ((await storage.getTeams(leagueId)).some(other => other.id !== team.id && other.name === name)) {
+        return res.status(409).json({ message: "The league already has a team with that name" });
+      }
+      
+      const updatedTeam = await storage.updateTeam(team.id, validationResult.data);
+      if (updatedTeam && (updatedTeam.name !== team.name || updatedTeam.leagueId !== team.leagueId)) {
+        // Members move with the team
+        const members = await storage.getUsersByTeam(team.id);
+        await Promise.all(members.map(member => storage.updateUser(member.id, { leagueId: league.id, league: league.name })));
+        await syncDirectoryNames({ team: updatedTeam });
+      }
+      res.json(updatedTeam);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update team" });
+    }
+  });
+
+  app.delete("/api/teams/:id", isAdmin, async (req, res) => {
+    try {
+      const team = await storage.getTeam(parseInt(req.params.id));
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      if ((await storage.getUsersByTeam(team.id)).length > 0) {
+        return res.status(409).json({ message: "The team still has athletes" });
+      }
+      
+      await storage.deleteTeam(team.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete team" });
+    }
+  });
+
+  // Track routes
+  app.post("/api/tracks/upload", isAthlete, cleanUpTempUploads, trackUpload.fields([
+    { name: 'audio', maxCount: 1 },
+    { name: 'coverArt', maxCount: 1 }
+  ]), requireStorageQuota, async (req, res) => {
+    try {
+      const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+      
+      if (!files.audio || !files.audio[0]) {
+        return res.status(400).json({ message: "Audio file is required" });
+      }
+      
+      const trackData = req.body;
+      // Originals are kept private; listeners get the transcoded streams
+      const audio = await acceptUpload(files.audio[0], 'audio', req.user!, 'originals');
+      
+      // Anything the athlete left blank is filled in from the file's own tags
+      const tags = await readAudioTags(audio.filePath);
+      const coverArt = files.coverArt ? (await acceptUpload(files.coverArt[0], 'image', req.user!)).url : undefined;
+      
+      // Create track object. It isn't playable until the upload has been transcoded,
+      // which also sets its exact duration.
+      const audioUrl = audio.url;
+      const trackInput = {
+        title: trackData.title || tags.title,
+        artistId: req.user.id,
+        genre: trackData.genre || trackGenreFromTag(tags.genre) || 'other',
+        audioUrl,
+        originalAudioUrl: audioUrl,
+        processingStatus: 'pending' as const,
+        coverArt,
+        duration: Math.round(audio.duration ?? 0),
+        description: trackData.description || tags.comment,
+        isPublished: trackData.isPublished === 'true',
+        isExclusive: trackData.isExclusive === 'true',
+        subscriberOnly: trackData.subscriberOnly === 'true'
+      };
+      
+      // Validate with schema
+      const validationResult = insertTrackSchema.safeParse(trackInput);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid track data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      let track = await storage.createTrack(validationResult.data);
+      // Embedded artwork is only stored once there's a track to show it on
+      if (!coverArt && tags.picture) {
+        const embeddedCoverArt = await saveCoverArt(tags.picture, req.user!)
+          .catch(error => console.error(`Failed to save the cover art of track ${track.id}:`, error));
+        if (embeddedCoverArt) {
+          track = await storage.updateTrack(track.id, { coverArt: embeddedCoverArt }) ?? track;
+        }
+      }
+      enqueueTrackProcessing(track);
+      res.status(201).json(publicTrack(track));
+    } catch (error) {
+      if (error instanceof InvalidUploadError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upload track" });
+    }
+  });
+
+  app.get("/api/tracks", async (req, res) => {
+    try {
+      const tracks = await storage.getAllTracks();
+      res.json(tracks.map(publicTrack));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tracks" });
+    }
+  });
+
+  app.get("/api/tracks/artist/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const tracks = await storage.getTracksByArtist(parseInt(id));
+      
+      // If user is not the artist and not an admin, only show published tracks that are ready to play
+      if (!req.isAuthenticated() || (req.user.id !== parseInt(id) && req.user.role !== 'admin')) {
+        const publishedTracks = tracks.filter(track => track.isPublished && track.processingStatus === 'ready');
+        return res.json(publishedTracks.map(publicTrack));
+      }
+      
+      res.json(tracks.map(publicTrack));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch artist tracks" });
+    }
+  });
+
+  app.get("/api/tracks/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const track = await storage.getTrack(parseInt(id));
+      
+      if (!track) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      
+      // If track is not published or still processing, only the artist or admin can see it
+      if ((!track.isPublished || track.processingStatus !== 'ready') && 
+          (!req.isAuthenticated() || 
+           (req.user.id !== track.artistId && req.user.role !== 'admin'))) {
+        return res.status(403).json({ message: "Track not available" });
+      }
+      
+      res.json(publicTrack(track));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch track" });
+    }
+  });
+
+  // Progressive streaming of a track's default (or ?bitrate=) rendition
+  app.get("/api/tracks/:id/stream", async (req, res) => {
+    try {
+      const track = await getStreamableTrack(req, res);
+      if (!track) return;
+      
+      const renditions = getTrackRenditions(track);
+      let fileUrl = track.audioUrl;
+      if (renditions.length > 0) {
+        const bitrate = req.query.bitrate ? parseInt(req.query.bitrate as string) : DEFAULT_RENDITION_BITRATE;
+        const rendition = renditions.find(r => r.bitrate === bitrate) ?? (req.query.bitrate ? undefined : renditions[0]);
+        if (!rendition) {
+          return res.status(404).json({ message: "Rendition not found" });
+        }
+        fileUrl = rendition.url;
+      } else if (/^https?:\/\//.test(track.audioUrl)) {
+        // Tracks from before transcoding may live elsewhere
+        return res.redirect(track.audioUrl);
+      }
+      
+      const filePath = resolveUploadUrl(fileUrl);
+      if (!filePath) {
+        return res.status(404).json({ message: "Track audio not found" });
+      }
+      
+      // sendFile answers Range requests with 206 Partial Content, so seeking only fetches what's needed
+      res.sendFile(filePath, {
+        cacheControl: false,
+        headers: { 'Cache-Control': STREAM_CACHE_CONTROL }
+      }, error => {
+        if (!error) {
+          bookPlayRoyalty(req, track);
+        } else if (!res.headersSent) {
+          res.status(404).json({ message: "Track audio not found" });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to stream track" });
+    }
+  });
+
+  // HLS: a master playlist with a variant per rendition, each cut into short segments
+  app.get("/api/tracks/:id/hls/master.m3u8", async (req, res) => {
+    try {
+      const track = await getStreamableTrack(req, res);
+      if (!track) return;
+      
+      const renditions = getTrackRenditions(track);
+      if (renditions.length === 0) {
+        return res.status(404).json({ message: "HLS is not available for this track" });
+      }
+      
+      res.set('Cache-Control', STREAM_CACHE_CONTROL)
+        .type('application/vnd.apple.mpegurl')
+        .send(masterPlaylist(renditions, DEFAULT_RENDITION_BITRATE));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build playlist" });
+    }
+  });
+
+  app.get("/api/tracks/:id/hls/:bitrate.m3u8", async (req, res) => {
+    try {
+      const track = await getStreamableTrack(req, res);
+      if (!track) return;
+      
+      const bitrate = parseInt(req.params.bitrate);
+      const rendition = getTrackRenditions(track).find(r => r.bitrate === bitrate);
+      const filePath = rendition && resolveUploadUrl(rendition.url);
+      if (!filePath) {
+        return res.status(404).json({ message: "Rendition not found" });
+      }
+      
+      const segments = await getRenditionSegments(filePath);
+      res.set('Cache-Control', STREAM_CACHE_CONTROL)
+        .type('application/vnd.apple.mpegurl')
+        .send(mediaPlaylist(bitrate, segments));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build playlist" });
+    }
+  });
+
+  app.get("/api/tracks/:id/hls/:bitrate/:segment.mp3", async (req, res) => {
+    try {
+      const track = await getStreamableTrack(req, res);
+      if (!track) return;
+      
+      const bitrate = parseInt(req.params.bitrate);
+      const rendition = getTrackRenditions(track).find(r => r.bitrate === bitrate);
+      const filePath = rendition && resolveUploadUrl(rendition.url);
+      if (!filePath) {
+        return res.status(404).json({ message: "Rendition not found" });
+      }
+      
+      const segments = await getRenditionSegments(filePath);
+      const segment = segments[parseInt(req.params.segment)];
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      
+      res.set('Cache-Control', STREAM_CACHE_CONTROL)
+        .type('audio/mpeg')
+        .send(await readSegment(filePath, segment));
+      bookPlayRoyalty(req, track);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to stream segment" });
+    }
+  });
+
+  app.get("/api/tracks/:id/waveform", async (req, res) => {
+    try {
+      const track = await getStreamableTrack(req, res);
+      if (!track) return;
+      
+      if (!track.peaksUrl) {
+        return res.status(404).json({ message: "Waveform not available for this track" });
+      }
+      await sendWaveformPeaks(req, res, track.peaksUrl);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch waveform" });
+    }
+  });
+
+  // Download a track's original upload, or one of its renditions with ?bitrate=, with the
+  // track's details written into the file's tags. Besides the artist and admins, plans with
+  // downloads can download published tracks.
+  app.get("/api/tracks/:id/download", isAuthenticated, async (req, res) => {
+    try {
+      const track = await storage.getTrack(parseInt(req.params.id));
+      if (!track) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      
+      if (req.user!.id !== track.artistId && req.user!.role !== 'admin') {
+        if (!track.isPublished || track.processingStatus !== 'ready') {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+        if (!hasEntitlement(req.user, 'download')) {
+          return sendLocked(res, "Downloads aren't included in your plan", 'download', entitlements => entitlements.download);
+        }
+        if (!canPlayTrack(req.user, track)) {
+          return sendTrackLocked(res);
+        }
+        if (!(await canPlaySubscriberTrack(req.user, track))) {
+          return sendSubscribersOnly(res, track);
+        }
+      }
+      
+      let fileUrl = track.originalAudioUrl ?? track.audioUrl;
+      if (req.query.bitrate) {
+        const rendition = getTrackRenditions(track).find(r => r.bitrate === parseInt(req.query.bitrate as string));
+        if (!rendition) {
+          return res.status(404).json({ message: "Rendition not found" });
+        }
+        fileUrl = rendition.url;
+      }
+      
+      const filePath = resolveUploadUrl(fileUrl);
+      if (!filePath) {
+        return res.status(404).json({ message: "Track audio not found" });
+      }
+      
+      const data = await fs.readFile(filePath);
+      const artist = await storage.getUser(track.artistId);
+      // Formats we can't write tags into are sent as they were uploaded
+      const format = detectTaggableFormat(data);
+      const output = format ? writeAudioTags(data, format, await trackTags(track, artist)) : data;
+      
+      const baseName = [artist?.fullName, track.title].filter(Boolean).join(' - ').replace(/[\\/:*?"<>|]/g, '_');
+      res.attachment(`${baseName}${format ? `.${format}` : path.extname(filePath)}`).send(output);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download track" });
+    }
+  });
+
+  app.post("/api/tracks/:id/play", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existingTrack = await storage.getTrack(parseInt(id));
+      
+      if (!existingTrack) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      if (existingTrack.processingStatus !== 'ready') {
+        return res.status(409).json({ message: "Track is not ready to play" });
+      }
+      
+      const track = await storage.incrementTrackPlays(existingTrack.id);
+      res.json({ plays: track?.plays });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record play" });
+    }
+  });
+
+  app.post("/api/tracks/:id/update", isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const track = await storage.getTrack(parseInt(id));
+      
+      if (!track) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      
+      // Only the artist or admin can update the track
+      if (req.user.id !== track.artistId && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = trackUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid track data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const updatedTrack = await storage.updateTrack(parseInt(id), validationResult.data);
+      res.json(updatedTrack && publicTrack(updatedTrack));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update track" });
+    }
+  });
+
+  // Message routes
+  app.post("/api/messages/send", isAuthenticated, async (req, res) => {
     try {
       const messageData = {
         ...req.body,
-        senderId: req.user.id
+        senderId: req.user.id
+      };
+      
+      // Validate with schema
+      const validationResult = insertMessageSchema.safeParse(messageData);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid message data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const message = await storage.createMessage(validationResult.data);
+      res.status(201).json(message);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  app.get("/api/messages", isAuthenticated, async (req, res) => {
+    try {
+      const messages = await storage.getMessagesByUser(req.user.id);
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.get("/api/messages/conversation/:userId", isAuthenticated, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const messages = await storage.getConversation(req.user.id, parseInt(userId));
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  app.post("/api/messages/:id/read", isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const message = await storage.markMessageAsRead(parseInt(id));
+      
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      
+      // Only the receiver can mark a message as read
+      if (message.receiverId !== req.user.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(message);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark message as read" });
+    }
+  });
+
+  // Content reports and moderation
+  app.post("/api/reports", isAuthenticated, async (req, res) => {
+    try {
+      const validationResult = contentReportSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid report data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      const { contentType, contentId, reason } = validationResult.data;
+      
+      // Content the user can't see is reported as missing rather than forbidden
+      const content = await findReportableContent(contentType, contentId);
+      if (!content || !(await canReport(req.user!, content))) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+      if (content.ownerId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot report your own content" });
+      }
+      
+      const existing = await storage.getContentReportsForContent(contentType, contentId);
+      if (existing.some(report => report.reporterId === req.user!.id && report.status === 'pending')) {
+        return res.status(409).json({ message: "You have already reported this content" });
+      }
+      
+      const report = await storage.createContentReport({ contentType, contentId, reason, reporterId: req.user!.id });
+      res.status(201).json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to report content" });
+    }
+  });
+
+  app.get("/api/moderation/reported-content", isAdmin, async (req, res) => {
+    try {
+      const filterResult = moderationQueueFilterSchema.safeParse(req.query);
+      if (!filterResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid filter", 
+          errors: filterResult.error.format() 
+        });
+      }
+      const { status, type } = filterResult.data;
+      
+      const reports = await reportQueue({ status: status === 'all' ? undefined : status, contentType: type });
+      res.json(reports);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reported content" });
+    }
+  });
+
+  app.post("/api/moderation/update-status", isAdmin, async (req, res) => {
+    try {
+      const validationResult = moderationDecisionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid moderation data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      const { reportId, ...decision } = validationResult.data;
+      
+      const report = await storage.getContentReport(reportId);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (report.status !== 'pending') {
+        return res.status(409).json({ message: "This report has already been handled" });
+      }
+      if (!actionAppliesTo(decision.action, report.contentType)) {
+        return res.status(400).json({ message: `Cannot ${decision.action.replace('_', ' ')} for a reported ${report.contentType}` });
+      }
+      
+      const content = await findReportableContent(report.contentType, report.contentId);
+      if (!content && decision.action !== 'dismiss') {
+        return res.status(409).json({ message: "The reported content no longer exists" });
+      }
+      if (content && decision.action === 'suspend_user') {
+        const owner = await storage.getUser(content.ownerId);
+        if (owner?.role === 'admin') {
+          return res.status(403).json({ message: "Admins cannot be suspended" });
+        }
+      }
+      
+      const result = await moderateReport(report, req.user!, content, decision);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update content status" });
+    }
+  });
+
+  // Audit log of moderator actions, optionally for one report, user or moderator
+  app.get("/api/moderation/actions", isAdmin, async (req, res) => {
+    try {
+      const filter: { reportId?: number; targetUserId?: number; moderatorId?: number } = {};
+      for (const key of ['reportId', 'targetUserId', 'moderatorId'] as const) {
+        if (req.query[key] === undefined) continue;
+        const id = Number(req.query[key]);
+        if (!Number.isInteger(id)) {
+          return res.status(400).json({ message: `Invalid ${key}` });
+        }
+        filter[key] = id;
+      }
+      
+      const actions = await storage.getModerationActions(filter);
+      res.json(actions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch moderation actions" });
+    }
+  });
+
+  // Studio session routes
+  app.post("/api/studio/sessions", isAthlete, async (req, res) => {
+    try {
+      const sessionData = {
+        ...req.body,
+        userId: req.user.id
+      };
+      
+      // Convert string dates to Date objects
+      if (typeof sessionData.startTime === 'string') {
+        sessionData.startTime = new Date(sessionData.startTime);
+      }
+      if (typeof sessionData.endTime === 'string') {
+        sessionData.endTime = new Date(sessionData.endTime);
+      }
+      
+      // Validate with schema
+      const validationResult = insertStudioSessionSchema.safeParse(sessionData);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid session data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const session = await storage.createStudioSession(validationResult.data);
+      res.status(201).json(session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create studio session" });
+    }
+  });
+
+  app.get("/api/studio/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const sessions = await storage.getSessionsByUser(req.user.id);
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch studio sessions" });
+    }
+  });
+
+  app.post("/api/studio/sessions/:id/update", isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const sessionId = parseInt(id);
+      
+      // Convert string dates to Date objects if present
+      const updates = { ...req.body };
+      if (typeof updates.startTime === 'string') {
+        updates.startTime = new Date(updates.startTime);
+      }
+      if (typeof updates.endTime === 'string') {
+        updates.endTime = new Date(updates.endTime);
+      }
+      
+      const session = await storage.updateStudioSession(sessionId, updates);
+      
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      // Only the session owner can update it
+      if (session.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update studio session" });
+    }
+  });
+
+  app.delete("/api/studio/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const sessionId = parseInt(id);
+      
+      // Check ownership before deleting
+      const session = await storage.getStudioSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      // Only the session owner or admin can delete it
+      if (session.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const success = await storage.deleteStudioSession(sessionId);
+      
+      if (success) {
+        res.status(200).json({ message: "Session deleted successfully" });
+      } else {
+        res.status(500).json({ message: "Failed to delete session" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete studio session" });
+    }
+  });
+
+  app.get("/api/studio/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const session = await storage.getStudioSession(parseInt(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (!canAccessSession(req.user!, session)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch studio session" });
+    }
+  });
+
+  app.get("/api/studio/sessions/:id/projects", isAuthenticated, async (req, res) => {
+    try {
+      const session = await storage.getStudioSession(parseInt(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (!canAccessSession(req.user!, session)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const projects = await storage.getStudioProjectsBySession(session.id);
+      res.json(projects);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch session projects" });
+    }
+  });
+
+  // Live session routes
+  app.post("/api/studio/sessions/:id/start-live", isAuthenticated, async (req, res) => {
+    try {
+      const session = await storage.getStudioSession(parseInt(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      // Only the session owner can take it live
+      if (session.userId !== req.user!.id && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      // Keep handing out the same code while it's still valid
+      if (session.isLive && session.sessionCode &&
+          (!session.sessionCodeExpiresAt || session.sessionCodeExpiresAt > new Date())) {
+        return res.json(session);
+      }
+      
+      const sessionCode = await generateSessionCode();
+      const expiresAt = new Date(Date.now() + SESSION_CODE_TTL_MS);
+      const liveSession = await storage.startLiveSession(session.id, sessionCode, expiresAt);
+      res.json(liveSession);
+    } catch (error) {
+      console.error('Error starting live session:', error);
+      res.status(500).json({ message: "Failed to start live session" });
+    }
+  });
+
+  app.post("/api/studio/sessions/:id/end-live", isAuthenticated, async (req, res) => {
+    try {
+      const session = await storage.getStudioSession(parseInt(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      // Only the session owner can end it
+      if (session.userId !== req.user!.id && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const endedSession = await storage.endLiveSession(session.id);
+      res.json(endedSession);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to end live session" });
+    }
+  });
+
+  app.get("/api/studio/join/:code", isAuthenticated, async (req, res) => {
+    try {
+      const sessionCode = req.params.code.trim().toUpperCase();
+      const session = await storage.getLiveSessionByCode(sessionCode);
+      
+      if (!session) {
+        return res.status(404).json({ message: "Invalid or expired session code" });
+      }
+      
+      if (!(await hasFreeSessionSeat(session, req.user!.id))) {
+        return sendSessionFull(res);
+      }
+      
+      const joinedSession = await addSessionCollaborator(session, req.user!.id);
+      res.json(joinedSession);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to join live session" });
+    }
+  });
+
+  // Studio project routes
+  app.get("/api/studio/projects", isAuthenticated, async (req, res) => {
+    try {
+      const projects = await storage.getStudioProjectsByUser(req.user!.id);
+      res.json(projects);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch studio projects" });
+    }
+  });
+
+  app.post("/api/studio/projects", isAuthenticated, async (req, res) => {
+    try {
+      const projectData = {
+        ...req.body,
+        userId: req.user!.id
       };
       
       // Validate with schema
-      const validationResult = insertMessageSchema.safeParse(messageData);
+      const validationResult = insertStudioProjectSchema.safeParse(projectData);
       if (!validationResult.success) {
         return res.status(400).json({ 
-          message: "Invalid message data", 
+          message: "Invalid project data", 
           errors: validationResult.error.format() 
         });
       }
       
-      const message = await storage.createMessage(validationResult.data);
-      res.status(201).json(message);
+      // Projects can only be attached to the user's own sessions
+      if (validationResult.data.sessionId) {
+        const session = await storage.getStudioSession(validationResult.data.sessionId);
+        if (!session) {
+          return res.status(404).json({ message: "Session not found" });
+        }
+        if (session.userId !== req.user!.id && req.user!.role !== 'admin') {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+      }
+      
+      const project = await storage.createStudioProject(validationResult.data);
+      res.status(201).json(project);
     } catch (error) {
-      res.status(500).json({ message: "Failed to send message" });
+      res.status(500).json({ message: "Failed to create studio project" });
     }
   });
 
-  app.get("/api/messages", isAuthenticated, async (req, res) => {
+  app.get("/api/studio/projects/:id", isAuthenticated, async (req, res) => {
     try {
-      const messages = await storage.getMessagesByUser(req.user.id);
-      res.json(messages);
+      const project = await getOwnedProject(req, res, parseInt(req.params.id), { allowCollaborators: true });
+      if (!project) return;
+      
+      res.json(project);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch messages" });
+      res.status(500).json({ message: "Failed to fetch studio project" });
     }
   });
 
-  app.get("/api/messages/conversation/:userId", isAuthenticated, async (req, res) => {
+  const updateStudioProject = async (req: Request, res: Response) => {
     try {
-      const { userId } = req.params;
-      const messages = await storage.getConversation(req.user.id, parseInt(userId));
-      res.json(messages);
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      // Ownership can't be changed through an update
+      const validationResult = insertStudioProjectSchema
+        .omit({ userId: true })
+        .partial()
+        .safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid project data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const updatedProject = await storage.updateStudioProject(project.id, validationResult.data);
+      res.json(updatedProject);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch conversation" });
+      res.status(500).json({ message: "Failed to update studio project" });
+    }
+  };
+
+  app.post("/api/studio/projects/:id/update", isAuthenticated, updateStudioProject);
+  app.put("/api/studio/projects/:id", isAuthenticated, updateStudioProject);
+
+  app.delete("/api/studio/projects/:id", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      await storage.deleteStudioProject(project.id);
+      res.status(200).json({ message: "Project deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete studio project" });
     }
   });
 
-  app.post("/api/messages/:id/read", isAuthenticated, async (req, res) => {
+  // Project version history routes
+  app.get("/api/studio/projects/:id/versions", isAuthenticated, async (req, res) => {
     try {
-      const { id } = req.params;
-      const message = await storage.markMessageAsRead(parseInt(id));
+      const project = await getOwnedProject(req, res, parseInt(req.params.id), { allowCollaborators: true });
+      if (!project) return;
+      
+      const versions = await storage.getProjectVersionsByProject(project.id);
+      
+      // List without the snapshots themselves, with the author of each version
+      const authors = new Map<number, { id: number; username: string } | null>();
+      for (const version of versions) {
+        if (!authors.has(version.userId)) {
+          const author = await storage.getUser(version.userId);
+          authors.set(version.userId, author ? { id: author.id, username: author.username } : null);
+        }
+      }
       
-      if (!message) {
-        return res.status(404).json({ message: "Message not found" });
+      res.json(versions.map(({ snapshot, ...version }) => ({
+        ...version,
+        author: authors.get(version.userId)
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch project versions" });
+    }
+  });
+
+  app.post("/api/studio/projects/:id/versions", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id), { allowCollaborators: true });
+      if (!project) return;
+      
+      const validationResult = z.object({ name: z.string().max(200).optional() }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid version data", 
+          errors: validationResult.error.format() 
+        });
       }
       
-      // Only the receiver can mark a message as read
-      if (message.receiverId !== req.user.id) {
-        return res.status(403).json({ message: "Forbidden" });
+      const version = await saveProjectVersion(project, req.user!.id, validationResult.data.name);
+      res.status(201).json(version);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save project version" });
+    }
+  });
+
+  // Compare two versions; without `to`, `from` is compared against the project as it is now
+  app.get("/api/studio/projects/:id/versions/diff", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id), { allowCollaborators: true });
+      if (!project) return;
+      
+      const fromVersion = await storage.getProjectVersion(parseInt(req.query.from as string));
+      if (!fromVersion || fromVersion.projectId !== project.id) {
+        return res.status(404).json({ message: "Version not found" });
       }
       
-      res.json(message);
+      let toSnapshot;
+      if (req.query.to) {
+        const toVersion = await storage.getProjectVersion(parseInt(req.query.to as string));
+        if (!toVersion || toVersion.projectId !== project.id) {
+          return res.status(404).json({ message: "Version not found" });
+        }
+        toSnapshot = parseSnapshot(toVersion);
+      } else {
+        toSnapshot = await captureProjectSnapshot(project);
+      }
+      
+      res.json(diffSnapshots(parseSnapshot(fromVersion), toSnapshot));
     } catch (error) {
-      res.status(500).json({ message: "Failed to mark message as read" });
+      res.status(500).json({ message: "Failed to compare project versions" });
     }
   });
 
-  // Studio session routes
-  app.post("/api/studio/sessions", isAthlete, async (req, res) => {
+  app.get("/api/studio/projects/:id/versions/:versionId", isAuthenticated, async (req, res) => {
     try {
-      const sessionData = {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id), { allowCollaborators: true });
+      if (!project) return;
+      
+      const version = await storage.getProjectVersion(parseInt(req.params.versionId));
+      if (!version || version.projectId !== project.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      res.json({ ...version, snapshot: parseSnapshot(version) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch project version" });
+    }
+  });
+
+  app.post("/api/studio/projects/:id/versions/:versionId/restore", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      const version = await storage.getProjectVersion(parseInt(req.params.versionId));
+      if (!version || version.projectId !== project.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      // Keep the state being replaced, so a restore can itself be undone
+      const backupVersion = await saveProjectVersion(project, req.user!.id, `Before restoring "${version.name}"`);
+      const restoredProject = await restoreProjectSnapshot(project, parseSnapshot(version));
+      
+      res.json({ project: restoredProject, backupVersion });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore project version" });
+    }
+  });
+
+  // Project bundle routes
+  app.get("/api/studio/projects/:id/bundle", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      res.attachment(projectBundleName(project));
+      res.type('application/zip');
+      await writeProjectBundle(project, res);
+    } catch (error) {
+      console.error("Error exporting project bundle:", error);
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.removeHeader('Content-Disposition');
+        res.status(500).json({ message: "Failed to export project" });
+      }
+    }
+  });
+
+  app.post("/api/studio/projects/import", isAuthenticated, cleanUpTempUploads, bundleUpload.single('bundle'), requireStorageQuota, async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "Bundle file is required" });
+    }
+    
+    try {
+      const project = await importProjectBundle(req.file.path, req.user!);
+      res.status(201).json(project);
+    } catch (error) {
+      if (error instanceof InvalidBundleError) {
+        return res.status(400).json({ message: error.message, errors: error.errors });
+      }
+      console.error("Error importing project bundle:", error);
+      res.status(500).json({ message: "Failed to import project" });
+    } finally {
+      await fs.rm(req.file.path, { force: true });
+    }
+  });
+
+  // Audio for a project's tracks goes in the project owner's folder, whoever in the session uploads
+  // it, since that's the only audio the project is rendered and exported from
+  app.post("/api/studio/projects/:id/audio", isAuthenticated, cleanUpTempUploads, trackUpload.single('audio'), async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id), { allowCollaborators: true });
+      if (!project) return;
+      
+      if (!req.file) {
+        return res.status(400).json({ message: "Audio file is required" });
+      }
+      
+      const owner = await storage.getUser(project.userId);
+      if (!owner) {
+        return res.status(404).json({ message: "Project owner not found" });
+      }
+      if (!await checkStorageQuota(owner, req.file.size, res)) return;
+      
+      const audio = await acceptUpload(req.file, 'audio', owner);
+      res.status(201).json({ audioUrl: audio.url, duration: audio.duration });
+    } catch (error) {
+      if (error instanceof InvalidUploadError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upload project audio" });
+    }
+  });
+
+  // Project track routes
+  app.get("/api/studio/projects/:id/tracks", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id), { allowCollaborators: true });
+      if (!project) return;
+      
+      const tracks = await storage.getProjectTracksByProject(project.id);
+      res.json(tracks);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch project tracks" });
+    }
+  });
+
+  app.post("/api/studio/projects/:id/tracks", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      const trackData = {
         ...req.body,
-        userId: req.user.id
+        projectId: project.id
       };
       
-      // Convert string dates to Date objects
-      if (typeof sessionData.startTime === 'string') {
-        sessionData.startTime = new Date(sessionData.startTime);
+      // Validate with schema
+      const validationResult = projectTrackSchema.safeParse(trackData);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid track data", 
+          errors: validationResult.error.format() 
+        });
       }
-      if (typeof sessionData.endTime === 'string') {
-        sessionData.endTime = new Date(sessionData.endTime);
+      
+      const track = await storage.createProjectTrack(validationResult.data);
+      generateProjectTrackPeaks(track)
+        .catch(error => console.error(`Failed to generate waveform for project track ${track.id}:`, error));
+      res.status(201).json(track);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create project track" });
+    }
+  });
+
+  app.get("/api/studio/tracks/:id", isAuthenticated, async (req, res) => {
+    try {
+      const track = await storage.getProjectTrack(parseInt(req.params.id));
+      if (!track) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      
+      const project = await getOwnedProject(req, res, track.projectId, { allowCollaborators: true });
+      if (!project) return;
+      
+      res.json(track);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch project track" });
+    }
+  });
+
+  // Peaks are normally generated when the track is added; tracks from before then get them on first request
+  app.get("/api/studio/tracks/:id/waveform", isAuthenticated, async (req, res) => {
+    try {
+      const track = await storage.getProjectTrack(parseInt(req.params.id));
+      if (!track) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      
+      const project = await getOwnedProject(req, res, track.projectId, { allowCollaborators: true });
+      if (!project) return;
+      
+      const peaksUrl = track.peaksUrl ?? (await generateProjectTrackPeaks(track))?.peaksUrl;
+      if (!peaksUrl) {
+        return res.status(404).json({ message: "Waveform not available for this track" });
+      }
+      await sendWaveformPeaks(req, res, peaksUrl);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch waveform" });
+    }
+  });
+
+  app.post("/api/studio/tracks/:id/update", isAuthenticated, async (req, res) => {
+    try {
+      const track = await storage.getProjectTrack(parseInt(req.params.id));
+      if (!track) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      
+      const project = await getOwnedProject(req, res, track.projectId, { allowCollaborators: true });
+      if (!project) return;
+      
+      const validationResult = projectTrackUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid track data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      // New audio needs a new waveform
+      const audioChanged = validationResult.data.audioUrl !== undefined && validationResult.data.audioUrl !== track.audioUrl;
+      const updatedTrack = await storage.updateProjectTrack(track.id, audioChanged
+        ? { ...validationResult.data, peaksUrl: null, waveformData: validationResult.data.waveformData ?? null }
+        : validationResult.data);
+      if (audioChanged && updatedTrack) {
+        generateProjectTrackPeaks(updatedTrack)
+          .catch(error => console.error(`Failed to generate waveform for project track ${track.id}:`, error));
+      }
+      res.json(updatedTrack);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update project track" });
+    }
+  });
+
+  app.delete("/api/studio/tracks/:id", isAuthenticated, async (req, res) => {
+    try {
+      const track = await storage.getProjectTrack(parseInt(req.params.id));
+      if (!track) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      
+      const project = await getOwnedProject(req, res, track.projectId);
+      if (!project) return;
+      
+      await storage.deleteProjectTrack(track.id);
+      res.status(200).json({ message: "Track deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete project track" });
+    }
+  });
+
+  // Mastering settings routes
+  app.get("/api/studio/projects/:id/mastering", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      const settings = await storage.getMasteringSettings(project.id);
+      if (!settings) {
+        return res.status(404).json({ message: "No mastering settings for this project" });
       }
       
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mastering settings" });
+    }
+  });
+
+  app.post("/api/studio/projects/:id/mastering", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      const settingsData = {
+        ...req.body,
+        projectId: project.id
+      };
+      
       // Validate with schema
-      const validationResult = insertStudioSessionSchema.safeParse(sessionData);
+      const validationResult = masteringSettingsSchema.safeParse(settingsData);
       if (!validationResult.success) {
         return res.status(400).json({ 
-          message: "Invalid session data", 
+          message: "Invalid mastering settings", 
           errors: validationResult.error.format() 
         });
       }
       
-      const session = await storage.createStudioSession(validationResult.data);
-      res.status(201).json(session);
+      // A project has a single set of mastering settings, so update it if it already exists
+      const existingSettings = await storage.getMasteringSettings(project.id);
+      if (existingSettings) {
+        const updatedSettings = await storage.updateMasteringSettings(existingSettings.id, validationResult.data);
+        return res.json(updatedSettings);
+      }
+      
+      const settings = await storage.saveMasteringSettings(validationResult.data);
+      res.status(201).json(settings);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create studio session" });
+      res.status(500).json({ message: "Failed to save mastering settings" });
     }
   });
 
-  app.get("/api/studio/sessions", isAuthenticated, async (req, res) => {
+  // Render job routes
+  app.post("/api/studio/projects/:id/mixdown", isAuthenticated, async (req, res) => {
     try {
-      const sessions = await storage.getSessionsByUser(req.user.id);
-      res.json(sessions);
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      const tailMs = parseRenderTail(req.body.tailMs);
+      if (tailMs === undefined) {
+        return res.status(400).json({ message: `Tail length must be between 0 and ${MAX_RENDER_TAIL_MS}ms` });
+      }
+      
+      const job = await storage.createRenderJob({
+        projectId: project.id,
+        userId: req.user!.id,
+        type: 'mixdown',
+        status: 'queued',
+        tailMs
+      });
+      enqueueRenderJob(job);
+      
+      // Rendering happens in the background; clients poll the job for its status
+      res.status(202).json(job);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch studio sessions" });
+      res.status(500).json({ message: "Failed to start mixdown" });
     }
   });
 
-  app.post("/api/studio/sessions/:id/update", isAuthenticated, async (req, res) => {
+  app.post("/api/studio/projects/:id/stems", isAuthenticated, async (req, res) => {
     try {
-      const { id } = req.params;
-      const sessionId = parseInt(id);
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
       
-      // Convert string dates to Date objects if present
-      const updates = { ...req.body };
-      if (typeof updates.startTime === 'string') {
-        updates.startTime = new Date(updates.startTime);
+      const tailMs = parseRenderTail(req.body.tailMs);
+      if (tailMs === undefined) {
+        return res.status(400).json({ message: `Tail length must be between 0 and ${MAX_RENDER_TAIL_MS}ms` });
       }
-      if (typeof updates.endTime === 'string') {
-        updates.endTime = new Date(updates.endTime);
+      
+      const job = await storage.createRenderJob({
+        projectId: project.id,
+        userId: req.user!.id,
+        type: 'stems',
+        status: 'queued',
+        tailMs
+      });
+      enqueueRenderJob(job);
+      
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start stem export" });
+    }
+  });
+
+  app.get("/api/studio/projects/:id/render-jobs", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.id));
+      if (!project) return;
+      
+      const jobs = await storage.getRenderJobsByProject(project.id);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch render jobs" });
+    }
+  });
+
+  app.get("/api/studio/render-jobs/:jobId", isAuthenticated, async (req, res) => {
+    try {
+      const job = await storage.getRenderJob(parseInt(req.params.jobId));
+      if (!job) {
+        return res.status(404).json({ message: "Render job not found" });
       }
       
-      const session = await storage.updateStudioSession(sessionId, updates);
+      const project = await getOwnedProject(req, res, job.projectId);
+      if (!project) return;
       
-      if (!session) {
-        return res.status(404).json({ message: "Session not found" });
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch render job" });
+    }
+  });
+
+  // Download a finished render; stems come as a single zip bundle
+  app.get("/api/studio/render-jobs/:jobId/download", isAuthenticated, async (req, res) => {
+    try {
+      const job = await storage.getRenderJob(parseInt(req.params.jobId));
+      if (!job) {
+        return res.status(404).json({ message: "Render job not found" });
       }
       
-      // Only the session owner can update it
-      if (session.userId !== req.user.id && req.user.role !== 'admin') {
-        return res.status(403).json({ message: "Forbidden" });
+      const project = await getOwnedProject(req, res, job.projectId);
+      if (!project) return;
+      
+      const filePath = job.status === 'completed' && job.outputUrl ? resolveUploadUrl(job.outputUrl) : undefined;
+      if (!filePath) {
+        return res.status(400).json({ message: "Render job has not completed" });
       }
       
-      res.json(session);
+      const filename = job.type === 'stems' ? `${stemBundleName(project)}.zip` : `${project.title}.wav`;
+      res.download(filePath, filename);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update studio session" });
+      res.status(500).json({ message: "Failed to download render" });
     }
   });
 
-  app.delete("/api/studio/sessions/:id", isAuthenticated, async (req, res) => {
+  // Publish a finished mixdown as a track on the athlete's profile
+  app.post("/api/studio/render-jobs/:jobId/publish", isAthlete, async (req, res) => {
     try {
-      const { id } = req.params;
-      const sessionId = parseInt(id);
+      const job = await storage.getRenderJob(parseInt(req.params.jobId));
+      if (!job) {
+        return res.status(404).json({ message: "Render job not found" });
+      }
       
-      // Check ownership before deleting
-      const session = await storage.getStudioSession(sessionId);
-      if (!session) {
-        return res.status(404).json({ message: "Session not found" });
+      const project = await getOwnedProject(req, res, job.projectId);
+      if (!project) return;
+      
+      if (job.type !== 'mixdown' || job.status !== 'completed' || !job.outputUrl) {
+        return res.status(400).json({ message: "Only completed mixdowns can be published" });
+      }
+      if (job.trackId) {
+        return res.status(409).json({ message: "This mixdown has already been published", trackId: job.trackId });
       }
       
-      // Only the session owner or admin can delete it
-      if (session.userId !== req.user.id && req.user.role !== 'admin') {
-        return res.status(403).json({ message: "Forbidden" });
+      // The track gets its own private copy of the mixdown, which stays in the project's audio
+      const mixdownPath = resolveUploadUrl(job.outputUrl);
+      if (!mixdownPath) {
+        return res.status(404).json({ message: "Mixdown audio not found" });
       }
+      const original = await reserveGeneratedFile('originals', `mixdown-${project.id}`, path.extname(mixdownPath), project.userId);
+      await fs.copyFile(mixdownPath, original.filePath);
       
-      const success = await storage.deleteStudioSession(sessionId);
+      const trackInput = {
+        title: req.body.title || project.title,
+        artistId: req.user!.id,
+        genre: req.body.genre || 'other',
+        audioUrl: original.url,
+        originalAudioUrl: original.url,
+        processingStatus: 'pending' as const,
+        coverArt: req.body.coverArt,
+        duration: job.duration ?? 0,
+        description: req.body.description,
+        isPublished: req.body.isPublished !== false
+      };
       
-      if (success) {
-        res.status(200).json({ message: "Session deleted successfully" });
-      } else {
-        res.status(500).json({ message: "Failed to delete session" });
+      // Validate with schema
+      const validationResult = insertTrackSchema.safeParse(trackInput);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid track data", 
+          errors: validationResult.error.format() 
+        });
       }
+      
+      const track = await storage.createTrack(validationResult.data);
+      await storage.updateRenderJob(job.id, { trackId: track.id });
+      enqueueTrackProcessing(track);
+      res.status(201).json(publicTrack(track));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete studio session" });
+      res.status(500).json({ message: "Failed to publish mixdown" });
     }
   });
 
@@ -572,22 +2396,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: 'You do not have permission to sync this project' });
       }
       
-      // Start the sync process
-      const syncRecord = await storage.startProjectSync(projectId, userId);
-      
-      // In a real application, this would trigger an async job to upload to cloud storage
-      // For now, we'll simulate the process completing successfully after a short delay
-      setTimeout(async () => {
-        const cloudUrl = `https://cloud-storage.example.com/projects/${projectId}/backup-${Date.now()}.json`;
-        const syncHash = `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
-        
-        await storage.completeProjectSync(syncRecord.id, cloudUrl, syncHash);
-      }, 2000);
+      // The backup is written in the background; clients poll the sync status
+      const syncRecord = await startProjectBackup(project, userId);
       
       res.status(202).json({
         status: 'syncing',
         message: 'Project sync started',
-        syncId: syncRecord.id
+        syncId: syncRecord.id,
+        version: syncRecord.version
       });
     } catch (error) {
       console.error('Error starting project sync:', error);
@@ -619,6 +2435,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Every backup is kept as its own version
+  app.get("/api/studio/projects/:projectId/sync/versions", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.projectId));
+      if (!project) return;
+      
+      const syncs = await storage.getProjectSyncsByProject(project.id);
+      res.json(syncs);
+    } catch (error) {
+      console.error('Error getting project backup versions:', error);
+      res.status(500).json({ error: 'Failed to get project backup versions' });
+    }
+  });
+  
+  app.post("/api/studio/projects/:projectId/sync/:syncId/restore", isAuthenticated, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req, res, parseInt(req.params.projectId));
+      if (!project) return;
+      
+      const sync = await storage.getProjectSync(parseInt(req.params.syncId));
+      if (!sync || sync.projectId !== project.id) {
+        return res.status(404).json({ error: 'Backup not found' });
+      }
+      if (sync.status !== 'synced') {
+        return res.status(400).json({ error: 'Only completed backups can be restored' });
+      }
+      
+      // Restoring replaces the shared document, which can't happen under people editing it
+      if (isPersistedDocOpen({ projectId: project.id })) {
+        return res.status(409).json({ error: 'Close the project in the studio before restoring a backup' });
+      }
+      
+      const restoredProject = await restoreProjectBackup(project, sync);
+      res.json(restoredProject);
+    } catch (error) {
+      console.error('Error restoring project backup:', error);
+      res.status(500).json({ error: 'Failed to restore project backup' });
+    }
+  });
+  
   app.get("/api/user/syncs", isAuthenticated, async (req, res) => {
     try {
       const userId = req.user.id;
@@ -633,78 +2489,334 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Stripe payment endpoints
-  app.post("/api/create-payment-intent", isAuthenticated, async (req, res) => {
+  // What the user's plan includes and how much of it they've used, for showing locked features
+  app.get("/api/entitlements", isAuthenticated, async (req, res) => {
     try {
-      if (!process.env.STRIPE_SECRET_KEY) {
-        return res.status(500).json({ message: "Stripe is not configured" });
-      }
+      res.json(await entitlementSummary(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch entitlements" });
+    }
+  });
 
-      const { tier } = req.body;
-      
-      // Set amount based on subscription tier
-      let amount = 499; // Default to Bronze tier price ($4.99)
-      if (tier === 'silver') {
-        amount = 999; // $9.99
-      } else if (tier === 'gold') {
-        amount = 1499; // $14.99
+  // Subscription plans and billing. Changes go to Stripe; the user's tier follows from its webhooks,
+  // and is also synced straight away from subscriptions returned here.
+  app.get("/api/subscription/plans", (req, res) => {
+    res.json(PAID_TIERS.map(tier => PLAN_CATALOG[tier]));
+  });
+
+  // Answers errors from the billing module: our own BillingErrors keep their status, Stripe's
+  // request errors are passed on as 400s, anything else is a 500
+  const sendBillingError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof BillingError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof Stripe.errors.StripeInvalidRequestError || error instanceof Stripe.errors.StripeCardError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: fallback });
+  };
+
+  const requireStripe = (req: Request, res: Response, next: NextFunction) => {
+    if (!isStripeConfigured()) {
+      return res.status(500).json({ message: "Stripe is not configured" });
+    }
+    next();
+  };
+
+  const subscriptionReturnUrl = (req: Request) => `${req.protocol}://${req.get("host")}/subscriptions`;
+
+  app.get("/api/subscription", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await subscriptionSummary(req.user!));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to fetch subscription");
+    }
+  });
+
+  app.get("/api/subscription/invoices", isAuthenticated, requireStripe, async (req, res) => {
+    try {
+      res.json(await billingHistory(req.user!));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to fetch billing history");
+    }
+  });
+
+  // Start a subscription through a Stripe Checkout page; responds with the URL to send the user to
+  app.post("/api/subscription/checkout", isAuthenticated, requireStripe, async (req, res) => {
+    const validationResult = planChangeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid plan data", errors: validationResult.error.format() });
+    }
+
+    try {
+      const url = await createSubscriptionCheckout(req.user!, validationResult.data.tier, subscriptionReturnUrl(req));
+      res.json({ url });
+    } catch (error) {
+      sendBillingError(res, error, "Failed to start checkout");
+    }
+  });
+
+  // What switching plans would cost, prorated for the rest of the billing period
+  app.get("/api/subscription/preview", isAuthenticated, requireStripe, async (req, res) => {
+    const validationResult = planChangeSchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid plan data", errors: validationResult.error.format() });
+    }
+
+    try {
+      res.json(await previewPlanChange(req.user!, validationResult.data.tier));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to preview plan change");
+    }
+  });
+
+  app.post("/api/subscription/change", isAuthenticated, requireStripe, async (req, res) => {
+    const validationResult = planChangeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid plan data", errors: validationResult.error.format() });
+    }
+
+    try {
+      const { tier, prorationDate } = validationResult.data;
+      const subscription = await changePlan(req.user!, tier, prorationDate);
+      await syncSubscription(subscription);
+      res.json(await subscriptionSummary((await storage.getUser(req.user!.id))!));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to change plan");
+    }
+  });
+
+  // Cancel at the end of the billing period, or take that back with /resume
+  app.post("/api/subscription/cancel", isAuthenticated, requireStripe, async (req, res) => {
+    try {
+      await syncSubscription(await setCancelAtPeriodEnd(req.user!, true));
+      res.json(await subscriptionSummary((await storage.getUser(req.user!.id))!));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to cancel subscription");
+    }
+  });
+
+  app.post("/api/subscription/resume", isAuthenticated, requireStripe, async (req, res) => {
+    try {
+      await syncSubscription(await setCancelAtPeriodEnd(req.user!, false));
+      res.json(await subscriptionSummary((await storage.getUser(req.user!.id))!));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to resume subscription");
+    }
+  });
+
+  // A Stripe billing portal session for updating payment details; responds with its URL
+  app.post("/api/subscription/portal", isAuthenticated, requireStripe, async (req, res) => {
+    try {
+      const url = await createBillingPortalSession(req.user!, subscriptionReturnUrl(req));
+      res.json({ url });
+    } catch (error) {
+      sendBillingError(res, error, "Failed to open the billing portal");
+    }
+  });
+
+  // Fan subscriptions to athletes. Athletes manage their tiers here; fans subscribe through Stripe
+  // Checkout, and the webhooks record the subscription once it's paid for.
+  const athletePageUrl = (req: Request, athleteId: number) => `${req.protocol}://${req.get("host")}/athletes/${athleteId}`;
+
+  // An athlete's page: their profile and tracks, the tiers they offer and the viewer's subscription
+  app.get("/api/athletes/:id", async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      const [athlete] = user ? await directoryAthletes([user]) : [];
+      if (!athlete) {
+        return res.status(404).json({ message: "Athlete not found" });
       }
       
-      // Create a PaymentIntent with the order amount and currency
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: amount,
-        currency: "usd",
-        // Store any additional information in metadata
-        metadata: {
-          userId: req.user.id.toString(),
-          subscriptionTier: tier
-        },
-        automatic_payment_methods: {
-          enabled: true,
-        },
-      });
+      const tiers = (await storage.getAthleteSubscriptionTiers(athlete.id)).filter(tier => tier.isActive);
+      const subscription = req.isAuthenticated() ? await activeFanSubscription(req.user.id, athlete.id) : undefined;
+      res.json({ athlete, tiers, subscription: subscription ?? null });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch athlete" });
+    }
+  });
 
-      res.json({
-        clientSecret: paymentIntent.client_secret,
-      });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+  app.get("/api/fan-tiers", isAthlete, async (req, res) => {
+    try {
+      res.json(await storage.getAthleteSubscriptionTiers(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch subscription tiers" });
     }
   });
 
-  // Handle successful subscription payments
-  app.post("/api/subscription/confirm", isAuthenticated, async (req, res) => {
+  app.post("/api/fan-tiers", isAthlete, async (req, res) => {
+    const validationResult = fanTierSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid subscription tier data", errors: validationResult.error.format() });
+    }
+
     try {
-      const { paymentIntentId, tier } = req.body;
-      
-      if (!paymentIntentId || !tier) {
-        return res.status(400).json({ message: "Missing required parameters" });
+      res.status(201).json(await storage.createAthleteSubscriptionTier({ ...validationResult.data, athleteId: req.user!.id }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create subscription tier" });
+    }
+  });
+
+  // Tiers are retired with isActive: false rather than deleted, since subscribers may still be on them
+  app.patch("/api/fan-tiers/:id", isAthlete, async (req, res) => {
+    const validationResult = fanTierUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid subscription tier data", errors: validationResult.error.format() });
+    }
+
+    try {
+      const tier = await storage.getAthleteSubscriptionTier(parseInt(req.params.id));
+      if (!tier || tier.athleteId !== req.user!.id) {
+        return res.status(404).json({ message: "Subscription tier not found" });
       }
-      
-      // Verify the payment intent exists and is successful
-      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-      
-      if (paymentIntent.status !== 'succeeded') {
-        return res.status(400).json({ message: "Payment has not been completed" });
+      res.json(await updateAthleteTier(tier, validationResult.data));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to update subscription tier");
+    }
+  });
+
+  app.get("/api/fan-tiers/subscribers", isAthlete, async (req, res) => {
+    try {
+      res.json(await subscriberList(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch subscribers" });
+    }
+  });
+
+  app.get("/api/fan-subscriptions", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await fanSubscriptionList(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch subscriptions" });
+    }
+  });
+
+  // Subscribe to an athlete's tier through a Stripe Checkout page; responds with the URL to send the fan to
+  app.post("/api/fan-subscriptions", isAuthenticated, requireStripe, async (req, res) => {
+    const tierId = parseInt(req.body?.tierId);
+    if (isNaN(tierId)) {
+      return res.status(400).json({ message: "Invalid tier id" });
+    }
+
+    try {
+      const tier = await storage.getAthleteSubscriptionTier(tierId);
+      if (!tier) {
+        return res.status(404).json({ message: "Subscription tier not found" });
       }
-      
-      // Update the user's subscription tier
-      const updatedUser = await storage.updateUser(req.user.id, { subscriptionTier: tier });
-      
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
+      const url = await createFanSubscriptionCheckout(req.user!, tier, athletePageUrl(req, tier.athleteId));
+      res.json({ url });
+    } catch (error) {
+      sendBillingError(res, error, "Failed to start checkout");
+    }
+  });
+
+  // Tip an athlete through a Stripe Checkout page; responds with the URL to send the fan to
+  app.post("/api/athletes/:id/tips", isAuthenticated, requireStripe, async (req, res) => {
+    const validationResult = tipSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid tip data", errors: validationResult.error.format() });
+    }
+
+    try {
+      const athleteId = parseInt(req.params.id);
+      const url = await createTipCheckout(req.user!, athleteId, validationResult.data.amount, athletePageUrl(req, athleteId));
+      res.json({ url });
+    } catch (error) {
+      sendBillingError(res, error, "Failed to start checkout");
+    }
+  });
+
+  // Cancel at the end of the billing period, or take that back with /resume
+  const ownFanSubscription = async (req: Request, res: Response) => {
+    const subscription = await storage.getFanSubscription(parseInt(req.params.id));
+    if (!subscription || subscription.fanId !== req.user!.id) {
+      res.status(404).json({ message: "Subscription not found" });
+      return undefined;
+    }
+    return subscription;
+  };
+
+  app.post("/api/fan-subscriptions/:id/cancel", isAuthenticated, requireStripe, async (req, res) => {
+    try {
+      const subscription = await ownFanSubscription(req, res);
+      if (!subscription) return;
+      res.json(await setFanSubscriptionCancelAtPeriodEnd(subscription, true));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to cancel subscription");
+    }
+  });
+
+  app.post("/api/fan-subscriptions/:id/resume", isAuthenticated, requireStripe, async (req, res) => {
+    try {
+      const subscription = await ownFanSubscription(req, res);
+      if (!subscription) return;
+      res.json(await setFanSubscriptionCancelAtPeriodEnd(subscription, false));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to resume subscription");
+    }
+  });
+
+  // Earnings from the ledger: play royalties, fan subscriptions and tips, less payouts
+  app.get("/api/earnings", isAuthenticated, async (req, res) => {
+    const validationResult = earningsQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid earnings query", errors: validationResult.error.format() });
+    }
+
+    try {
+      res.json(await earningsSummary(req.user!, validationResult.data.period));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch earnings" });
+    }
+  });
+
+  // Payouts are made outside the platform; admins record them against the athlete's balance
+  app.post("/api/users/:id/payouts", isAdmin, async (req, res) => {
+    const validationResult = payoutSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ message: "Invalid payout data", errors: validationResult.error.format() });
+    }
+
+    try {
+      const athlete = await storage.getUser(parseInt(req.params.id));
+      if (!athlete || athlete.role !== 'athlete') {
+        return res.status(404).json({ message: "Athlete not found" });
       }
-      
-      // Return success response with updated user (minus password)
-      const { password, ...userWithoutPassword } = updatedUser;
-      res.json(userWithoutPassword);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      const { amount, method, reference } = validationResult.data;
+      res.status(201).json(await recordPayout(athlete, amount, method, reference));
+    } catch (error) {
+      sendBillingError(res, error, "Failed to record payout");
+    }
+  });
+
+  // Stripe webhooks. Not behind a session; the signature over the raw body proves the event came from Stripe.
+  app.post("/api/stripe/webhook", async (req, res) => {
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      return res.status(500).json({ message: "Stripe webhooks are not configured" });
+    }
+    
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(req.rawBody ?? "", req.headers["stripe-signature"] ?? "", webhookSecret);
+    } catch (error) {
+      return res.status(400).json({ message: "Invalid webhook signature" });
+    }
+    
+    try {
+      const handled = await handleStripeEvent(event);
+      res.json({ received: true, duplicate: !handled });
+    } catch (error) {
+      // A failure response makes Stripe deliver the event again later
+      console.error(`Failed to handle Stripe event ${event.id}:`, error);
+      res.status(500).json({ message: "Failed to process webhook" });
     }
   });
 
   // AI Generation routes
-  app.post("/api/ai/generate", async (req, res) => {
+  app.post("/api/ai/generate", isAuthenticated, async (req, res) => {
+    let generation: AiGeneration | undefined;
     try {
       // Check if AI API key is available
       if (!process.env.OPENAI_API_KEY) {
@@ -747,6 +2859,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Invalid generation type" });
       }
 
+      // Counts against the quota from here on, unless the AI service fails
+      generation = await reserveAiGeneration(req.user!, type, res);
+      if (!generation) return;
+
       // Call OpenAI API with the appropriate prompt
       const response = await fetch("https://api.openai.com/v1/chat/completions", {
         method: "POST",
@@ -774,6 +2890,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (!response.ok) {
         console.error("OpenAI API error:", data);
+        await storage.releaseAiGeneration(generation.id);
         return res.status(500).json({ message: "Error from AI service", error: data });
       }
 
@@ -791,6 +2908,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error: any) {
       console.error("AI generation error:", error);
+      if (generation) await storage.releaseAiGeneration(generation.id).catch(() => {});
       res.status(500).json({ message: "Failed to generate AI content", error: error.message });
     }
   });
@@ -802,6 +2920,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   if (process.env.NODE_ENV !== 'test') {
     const { setupWebSocketServer } = await import('./webSocketServer');
     setupWebSocketServer(httpServer);
+    
+    // Pick up renders and uploads interrupted by a restart, and tidy up older files
+    resumeRenderJobs();
+    resumeTrackProcessing();
+    failInterruptedBackups();
+    moveLegacyVerificationDocs();
+    seedTeamDirectory().then(linkUsersToDirectory);
   }
   
   return httpServer;
@@ -0,0 +1,47 @@
+import crypto from "crypto";
+
+// Time-limited links to private files. A signed URL names who it was issued to and when it
+// expires, with an HMAC over those and the path, so it can be checked without a session.
+
+export const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+// Without a configured secret, links only stay valid until the server restarts
+const signingSecret = process.env.URL_SIGNING_SECRET || crypto.randomBytes(32).toString("hex");
+if (!process.env.URL_SIGNING_SECRET) {
+  console.warn("URL_SIGNING_SECRET is not set; signed URLs will stop working when the server restarts");
+}
+
+function sign(path: string, userId: number, expires: number): string {
+  return crypto.createHmac("sha256", signingSecret).update(`${path}\n${userId}\n${expires}`).digest("base64url");
+}
+
+export function signUrl(path: string, userId: number, ttlSeconds = SIGNED_URL_TTL_SECONDS): { url: string; expiresAt: Date } {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const params = new URLSearchParams({
+    user: String(userId),
+    expires: String(expires),
+    signature: sign(path, userId, expires)
+  });
+  return { url: `${path}?${params}`, expiresAt: new Date(expires * 1000) };
+}
+
+// The id of the user a signed URL was issued to, or undefined if it's been tampered with or has expired
+export function verifySignedUrl(path: string, query: Record<string, unknown>): number | undefined {
+  const { user, expires, signature } = query;
+  if (typeof user !== "string" || typeof expires !== "string" || typeof signature !== "string") {
+    return undefined;
+  }
+
+  const userId = Number(user);
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(userId) || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return undefined;
+  }
+
+  const expected = Buffer.from(sign(path, userId, expiresAt));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return undefined;
+  }
+  return userId;
+}
@@ -0,0 +1,85 @@
+import fs from "fs";
+import archiver from "archiver";
+import { type ProjectTrack, type StudioProject } from "@shared/schema";
+import { encodeWav, padWavFile } from "./audioCodec";
+import { MIXDOWN_BIT_DEPTH, MIXDOWN_SAMPLE_RATE, renderTrack } from "./mixdown";
+import { reserveGeneratedFile } from "./uploads";
+
+// One rendered stem, as listed in a stems job's outputFiles
+export interface StemFile {
+  projectTrackId: number;
+  name: string; // File name inside the zip bundle
+  url: string;
+}
+
+export interface StemExport {
+  stems: StemFile[];
+  bundleUrl: string;
+  duration: number; // seconds
+}
+
+// Keep stem names readable in any DAW's file browser
+function stemFileName(index: number, track: ProjectTrack): string {
+  const name = track.name.replace(/[^\w\- ]+/g, "").trim() || `Track ${track.id}`;
+  return `${String(index + 1).padStart(2, "0")} - ${name}.wav`;
+}
+
+// Render one WAV per unmuted track. Every stem starts at the top of the arrangement and runs to the end
+// of the longest one, so they line up when dropped into another session at zero.
+export async function renderStems(project: StudioProject, tracks: ProjectTrack[], tailMs = 0): Promise<StemExport> {
+  const exported = tracks.filter(track => !track.muted);
+  if (exported.length === 0) {
+    throw new Error("Project has no unmuted tracks to export");
+  }
+
+  const stems: (StemFile & { filePath: string })[] = [];
+  let frames = 0;
+  // Render and write one stem at a time to keep memory flat
+  for (let index = 0; index < exported.length; index++) {
+    const track = exported[index];
+    const rendered = await renderTrack(track, project.userId, tailMs);
+    const { filePath, url } = await reserveGeneratedFile('audio', `stem-${project.id}-${track.id}`, '.wav', project.userId);
+    await fs.promises.writeFile(filePath, encodeWav(rendered, MIXDOWN_BIT_DEPTH));
+
+    frames = Math.max(frames, rendered.channels[0].length);
+    stems.push({ projectTrackId: track.id, name: stemFileName(index, track), url, filePath });
+  }
+
+  for (const stem of stems) {
+    await padWavFile(stem.filePath, frames);
+  }
+
+  const bundleUrl = await writeStemBundle(project, stems);
+  return {
+    stems: stems.map(({ filePath, ...stem }) => stem),
+    bundleUrl,
+    duration: frames / MIXDOWN_SAMPLE_RATE
+  };
+}
+
+async function writeStemBundle(project: StudioProject, stems: (StemFile & { filePath: string })[]): Promise<string> {
+  const { filePath, url } = await reserveGeneratedFile('exports', `stems-${project.id}`, '.zip', project.userId);
+  const folder = stemBundleName(project);
+
+  await new Promise<void>((resolve, reject) => {
+    const output = fs.createWriteStream(filePath);
+    // WAV barely compresses, so store the files as-is
+    const archive = archiver('zip', { store: true });
+
+    output.on('close', () => resolve());
+    output.on('error', reject);
+    archive.on('error', reject);
+
+    archive.pipe(output);
+    stems.forEach(stem => archive.file(stem.filePath, { name: `${folder}/${stem.name}` }));
+    archive.finalize();
+  });
+
+  return url;
+}
+
+// Name of the folder inside the zip, also used for the download's file name
+export function stemBundleName(project: StudioProject): string {
+  const title = project.title.replace(/[^\w\- ]+/g, "").trim() || `Project ${project.id}`;
+  return `${title} Stems`;
+}
@@ -1,12 +1,13 @@
 import {
-  users, tracks, messages, studioSessions, verificationDocs, studioProjects, projectTracks, masteringSettings, trackComments, projectSyncs,
-  type User, type Track, type Message, type StudioSession, type VerificationDoc, type StudioProject, type ProjectTrack, type MasteringSettings, type TrackComment, type ProjectSync,
+  users, tracks, messages, studioSessions, verificationDocs, studioProjects, projectTracks, masteringSettings, trackComments, projectSyncs, collabDocUpdates, renderJobs, projectVersions, verificationDocAccessLogs, verificationDecisions, leagues, teams, contentReports, moderationActions, processedStripeEvents, endedStripeSubscriptions, aiGenerations, athleteSubscriptionTiers, fanSubscriptions, ledgerTransactions, ledgerEntries,
+  type User, type Track, type Message, type StudioSession, type VerificationDoc, type StudioProject, type ProjectTrack, type MasteringSettings, type TrackComment, type ProjectSync, type CollabDocUpdate, type RenderJob, type ProjectVersion, type VerificationDocAccessLog, type VerificationDecision, type League, type Team, type ContentReport, type ModerationAction, type ProcessedStripeEvent, type AiGeneration, type AthleteSubscriptionTier, type FanSubscription, type LedgerTransaction, type LedgerEntry, type LedgerTransactionType, type LedgerAccount,
   type InsertUser, type InsertTrack, type InsertMessage, type InsertStudioSession, type InsertVerificationDoc, 
-  type InsertStudioProject, type InsertProjectTrack, type InsertMasteringSettings, type InsertTrackComment, type InsertProjectSync
+  type InsertStudioProject, type InsertProjectTrack, type InsertMasteringSettings, type InsertTrackComment, type InsertProjectSync, type InsertCollabDocUpdate, type InsertRenderJob, type InsertProjectVersion, type InsertVerificationDocAccessLog, type InsertVerificationDecision, type InsertLeague, type InsertTeam, type InsertContentReport, type InsertModerationAction, type InsertProcessedStripeEvent, type InsertAiGeneration, type InsertAthleteSubscriptionTier, type InsertFanSubscription, type InsertLedgerTransaction, type InsertLedgerEntry,
+  type CollabDocKey
 } from "@shared/schema";
 import session from "express-session";
 import { db, pool } from "./db";
-import { eq, and, or, desc, asc } from "drizzle-orm";
+import { eq, and, or, desc, asc, inArray, isNull, isNotNull, gt, gte, lte, ilike, sql } from "drizzle-orm";
 import connectPgSimple from "connect-pg-simple";
 import createMemoryStore from "memorystore";
 
@@ -19,14 +20,34 @@ export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(customerId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   getUsersByRole(role: string): Promise<User[]>;
+  getUsersByTeam(teamId: number): Promise<User[]>;
+  getUsersByLeague(leagueId: number): Promise<User[]>;
+  eraseUser(id: number): Promise<boolean>;
+  
+  // League and team directory
+  getLeagues(): Promise<League[]>;
+  getLeague(id: number): Promise<League | undefined>;
+  createLeague(league: InsertLeague): Promise<League>;
+  updateLeague(id: number, league: Partial<League>): Promise<League | undefined>;
+  deleteLeague(id: number): Promise<boolean>;
+  getTeams(leagueId?: number): Promise<Team[]>;
+  getTeam(id: number): Promise<Team | undefined>;
+  searchTeams(query: string, leagueId?: number, limit?: number): Promise<Team[]>;
+  createTeam(team: InsertTeam): Promise<Team>;
+  updateTeam(id: number, team: Partial<Team>): Promise<Team | undefined>;
+  deleteTeam(id: number): Promise<boolean>;
   
   // Verification operations
   addVerificationDoc(doc: InsertVerificationDoc): Promise<VerificationDoc>;
+  getVerificationDoc(id: number): Promise<VerificationDoc | undefined>;
   getVerificationDocsByUserId(userId: number): Promise<VerificationDoc[]>;
+  getAllVerificationDocs(): Promise<VerificationDoc[]>;
+  updateVerificationDoc(id: number, docData: Partial<VerificationDoc>): Promise<VerificationDoc | undefined>;
   updateVerificationStatus(userId: number, status: string): Promise<User | undefined>;
   getAllPendingVerifications(): Promise<User[]>;
   
@@ -35,14 +56,17 @@ export interface IStorage {
   getTrack(id: number): Promise<Track | undefined>;
   getTracksByArtist(artistId: number): Promise<Track[]>;
   getAllTracks(): Promise<Track[]>;
+  getTracksByProcessingStatus(statuses: Track["processingStatus"][]): Promise<Track[]>;
   updateTrack(id: number, track: Partial<Track>): Promise<Track | undefined>;
   incrementTrackPlays(id: number): Promise<Track | undefined>;
   
   // Message operations
   createMessage(message: InsertMessage): Promise<Message>;
   getMessagesByUser(userId: number): Promise<Message[]>;
+  getMessage(id: number): Promise<Message | undefined>;
   getConversation(user1Id: number, user2Id: number): Promise<Message[]>;
   markMessageAsRead(id: number): Promise<Message | undefined>;
+  deleteMessage(id: number): Promise<boolean>;
   
   // Studio session operations
   createStudioSession(session: InsertStudioSession): Promise<StudioSession>;
@@ -50,7 +74,7 @@ export interface IStorage {
   getSessionsByUser(userId: number): Promise<StudioSession[]>;
   updateStudioSession(id: number, session: Partial<StudioSession>): Promise<StudioSession | undefined>;
   deleteStudioSession(id: number): Promise<boolean>;
-  startLiveSession(id: number, sessionCode: string): Promise<StudioSession | undefined>;
+  startLiveSession(id: number, sessionCode: string, expiresAt: Date): Promise<StudioSession | undefined>;
   endLiveSession(id: number): Promise<StudioSession | undefined>;
   getLiveSessionByCode(sessionCode: string): Promise<StudioSession | undefined>;
   
@@ -76,22 +100,137 @@ export interface IStorage {
   
   // Track comments
   addTrackComment(comment: InsertTrackComment): Promise<TrackComment>;
+  getTrackComment(id: number): Promise<TrackComment | undefined>;
   getTrackComments(projectTrackId: number): Promise<TrackComment[]>;
   deleteTrackComment(id: number): Promise<boolean>;
   
   // Cloud sync operations
   createProjectSync(sync: InsertProjectSync): Promise<ProjectSync>;
+  getProjectSync(id: number): Promise<ProjectSync | undefined>;
   getProjectSyncStatus(projectId: number): Promise<ProjectSync | undefined>;
   getProjectSyncsByUser(userId: number): Promise<ProjectSync[]>;
+  getProjectSyncsByProject(projectId: number): Promise<ProjectSync[]>;
+  getProjectSyncsByStatus(status: ProjectSync["status"]): Promise<ProjectSync[]>;
   updateProjectSyncStatus(id: number, status: string, error?: string): Promise<ProjectSync | undefined>;
   startProjectSync(projectId: number, userId: number): Promise<ProjectSync | undefined>;
-  completeProjectSync(id: number, cloudUrl: string, syncHash: string): Promise<ProjectSync | undefined>;
+  completeProjectSync(id: number, cloudUrl: string, syncHash: string, metadata?: string): Promise<ProjectSync | undefined>;
   getLatestProjectSync(projectId: number): Promise<ProjectSync | undefined>;
   
+  // Collaborative document persistence
+  addCollabDocUpdate(update: InsertCollabDocUpdate): Promise<CollabDocUpdate>;
+  getCollabDocUpdates(key: CollabDocKey): Promise<CollabDocUpdate[]>;
+  compactCollabDocUpdates(key: CollabDocKey, snapshot: string, upToId: number): Promise<CollabDocUpdate>;
+  
+  // Render job operations
+  createRenderJob(job: InsertRenderJob): Promise<RenderJob>;
+  getRenderJob(id: number): Promise<RenderJob | undefined>;
+  getRenderJobsByProject(projectId: number): Promise<RenderJob[]>;
+  getUnfinishedRenderJobs(): Promise<RenderJob[]>;
+  updateRenderJob(id: number, jobData: Partial<RenderJob>): Promise<RenderJob | undefined>;
+  
+  // Project version history
+  createProjectVersion(version: InsertProjectVersion): Promise<ProjectVersion>;
+  getProjectVersion(id: number): Promise<ProjectVersion | undefined>;
+  getProjectVersionsByProject(projectId: number): Promise<ProjectVersion[]>;
+  
+  // Verification document access log
+  logVerificationDocAccess(entry: InsertVerificationDocAccessLog): Promise<VerificationDocAccessLog>;
+  getVerificationDocAccessLogs(docId: number): Promise<VerificationDocAccessLog[]>;
+  
+  // Verification decisions (append-only)
+  addVerificationDecision(decision: InsertVerificationDecision): Promise<VerificationDecision>;
+  getVerificationDecisionsByUserId(userId: number): Promise<VerificationDecision[]>;
+  
+  // Content reports and the moderation audit log (append-only)
+  createContentReport(report: InsertContentReport): Promise<ContentReport>;
+  getContentReport(id: number): Promise<ContentReport | undefined>;
+  getContentReports(filter?: { status?: ContentReport["status"]; contentType?: ContentReport["contentType"] }): Promise<ContentReport[]>;
+  getContentReportsForContent(contentType: ContentReport["contentType"], contentId: number): Promise<ContentReport[]>;
+  updateContentReport(id: number, report: Partial<ContentReport>): Promise<ContentReport | undefined>;
+  addModerationAction(action: InsertModerationAction): Promise<ModerationAction>;
+  getModerationActions(filter?: { reportId?: number; targetUserId?: number; moderatorId?: number }): Promise<ModerationAction[]>;
+  
+  // Stripe webhook events already handled
+  getProcessedStripeEvent(eventId: string): Promise<ProcessedStripeEvent | undefined>;
+  // Returns undefined if the event had been recorded already
+  recordProcessedStripeEvent(event: InsertProcessedStripeEvent): Promise<ProcessedStripeEvent | undefined>;
+  deleteProcessedStripeEvent(eventId: string): Promise<void>;
+  recordEndedStripeSubscription(subscriptionId: string): Promise<void>;
+  isStripeSubscriptionEnded(subscriptionId: string): Promise<boolean>;
+  
+  // AI generation usage
+  reserveAiGeneration(generation: InsertAiGeneration, since: Date, allowance: number): Promise<AiGeneration | undefined>;
+  releaseAiGeneration(id: number): Promise<void>;
+  countAiGenerationsSince(userId: number, since: Date): Promise<number>;
+  
+  // Fan subscriptions to athletes
+  getAthleteSubscriptionTiers(athleteId: number): Promise<AthleteSubscriptionTier[]>;
+  getAthleteSubscriptionTier(id: number): Promise<AthleteSubscriptionTier | undefined>;
+  createAthleteSubscriptionTier(tier: InsertAthleteSubscriptionTier): Promise<AthleteSubscriptionTier>;
+  updateAthleteSubscriptionTier(id: number, tier: Partial<AthleteSubscriptionTier>): Promise<AthleteSubscriptionTier | undefined>;
+  getFanSubscription(id: number): Promise<FanSubscription | undefined>;
+  getFanSubscriptionByStripeId(stripeSubscriptionId: string): Promise<FanSubscription | undefined>;
+  getFanSubscriptionsByFan(fanId: number): Promise<FanSubscription[]>;
+  getFanSubscriptionsByAthlete(athleteId: number): Promise<FanSubscription[]>;
+  createFanSubscription(subscription: InsertFanSubscription): Promise<FanSubscription>;
+  updateFanSubscription(id: number, subscription: Partial<FanSubscription>): Promise<FanSubscription | undefined>;
+  
+  // Earnings ledger. Transactions are written with their entries in one go.
+  // Returns undefined, booking nothing, if a transaction with the same externalId exists
+  createLedgerTransaction(transaction: InsertLedgerTransaction, entries: Omit<InsertLedgerEntry, 'transactionId'>[], options?: LedgerTransactionOptions): Promise<LedgerTransaction | undefined>;
+  getLedgerTransactionByExternalId(externalId: string): Promise<LedgerTransaction | undefined>;
+  getLedgerEntries(account: LedgerAccount, userId: number, filter?: { types?: LedgerTransactionType[]; limit?: number }): Promise<LedgerEntryDetails[]>;
+  getLedgerTotals(account: LedgerAccount, userId: number, groupBy: LedgerGrouping, filter?: { types?: LedgerTransactionType[]; since?: Date }): Promise<LedgerTotal[]>;
+  
   // Session store for authentication
   sessionStore: session.SessionStore;
 }
 
+// A ledger entry with the transaction it belongs to, newest first when listed
+export type LedgerEntryDetails = LedgerEntry & { transaction: LedgerTransaction };
+
+export interface LedgerTransactionOptions {
+  // A balance the transaction may not take below zero. It's checked as part of the booking, so
+  // two debits racing each other can't both spend the same money.
+  nonNegativeBalance?: { account: LedgerAccount; userId: number };
+}
+
+export class InsufficientBalanceError extends Error {
+  constructor() {
+    super("The transaction is more than the balance");
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+// What a transaction's entries change a user's balance in an account by
+function balanceChange(entries: Omit<InsertLedgerEntry, 'transactionId'>[], account: LedgerAccount, userId: number): number {
+  return entries
+    .filter(entry => entry.account === account && entry.userId === userId)
+    .reduce((total, entry) => total + entry.amount, 0);
+}
+
+// Ledger totals are grouped by month (as YYYY-MM, UTC), transaction type or track id. Grouping by
+// track leaves out transactions that aren't about a track.
+export type LedgerGrouping = 'month' | 'type' | 'track';
+
+export interface LedgerTotal {
+  key: string;
+  amount: number;
+  count: number;
+}
+
+function isCollabDocUpdateFor(key: CollabDocKey, update: CollabDocUpdate): boolean {
+  return 'sessionId' in key
+    ? update.sessionId === key.sessionId
+    : update.projectId === key.projectId;
+}
+
+function collabDocUpdatesFor(key: CollabDocKey) {
+  return 'sessionId' in key
+    ? eq(collabDocUpdates.sessionId, key.sessionId)
+    : eq(collabDocUpdates.projectId, key.projectId);
+}
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private tracks: Map<number, Track>;
@@ -164,6 +303,10 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.stripeCustomerId === customerId);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
     const now = new Date();
@@ -184,8 +327,15 @@ export class MemStorage implements IStorage {
       subscriptionTier: insertUser.subscriptionTier || "none",
       league: insertUser.league || null,
       team: insertUser.team || null,
+      leagueId: insertUser.leagueId || null,
+      teamId: insertUser.teamId || null,
       stripeCustomerId: insertUser.stripeCustomerId || null,
-      stripeSubscriptionId: insertUser.stripeSubscriptionId || null
+      stripeSubscriptionId: insertUser.stripeSubscriptionId || null,
+      subscriptionStatus: null,
+      accountStatus: "active",
+      suspendedUntil: null,
+      statusReason: null,
+      deletedAt: null
     };
     
     this.users.set(id, user);
@@ -213,6 +363,183 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).filter(user => user.role === role);
   }
 
+  async getUsersByTeam(teamId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.teamId === teamId);
+  }
+
+  async getUsersByLeague(leagueId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.leagueId === leagueId);
+  }
+
+  // Erase a user and everything that belongs to them. Records that only mention them, like the
+  // moderation log, are kept but no longer point at them.
+  async eraseUser(id: number): Promise<boolean> {
+    if (!this.users.has(id)) return false;
+    
+    const trackIds = Array.from(this.tracks.values())
+      .filter(track => track.artistId === id)
+      .map(track => track.id);
+    Array.from(this.renderJobs.values())
+      .filter(job => job.trackId !== null && trackIds.includes(job.trackId))
+      .forEach(job => this.renderJobs.set(job.id, { ...job, trackId: null }));
+    Array.from(this.ledgerTransactions.values())
+      .filter(transaction => transaction.trackId !== null && trackIds.includes(transaction.trackId))
+      .forEach(transaction => this.ledgerTransactions.set(transaction.id, { ...transaction, trackId: null }));
+    trackIds.forEach(trackId => this.tracks.delete(trackId));
+    
+    Array.from(this.messages.values())
+      .filter(msg => msg.senderId === id || msg.receiverId === id)
+      .forEach(msg => this.messages.delete(msg.id));
+    
+    const projectIds = Array.from(this.studioProjects.values())
+      .filter(project => project.userId === id)
+      .map(project => project.id);
+    for (const projectId of projectIds) {
+      await this.deleteStudioProject(projectId);
+    }
+    const sessionIds = Array.from(this.studioSessions.values())
+      .filter(session => session.userId === id)
+      .map(session => session.id);
+    Array.from(this.studioProjects.values())
+      .filter(project => project.sessionId !== null && sessionIds.includes(project.sessionId))
+      .forEach(project => this.studioProjects.set(project.id, { ...project, sessionId: null }));
+    for (const sessionId of sessionIds) {
+      await this.deleteStudioSession(sessionId);
+    }
+    
+    // What they left on other people's projects
+    Array.from(this.trackComments.values())
+      .filter(comment => comment.userId === id)
+      .forEach(comment => this.trackComments.delete(comment.id));
+    Array.from(this.projectSyncs.values())
+      .filter(sync => sync.userId === id)
+      .forEach(sync => this.projectSyncs.delete(sync.id));
+    Array.from(this.renderJobs.values())
+      .filter(job => job.userId === id)
+      .forEach(job => this.renderJobs.delete(job.id));
+    Array.from(this.projectVersions.values())
+      .filter(version => version.userId === id)
+      .forEach(version => this.projectVersions.delete(version.id));
+    Array.from(this.aiGenerations.values())
+      .filter(generation => generation.userId === id)
+      .forEach(generation => this.aiGenerations.delete(generation.id));
+    Array.from(this.fanSubscriptions.values())
+      .filter(subscription => subscription.fanId === id || subscription.athleteId === id)
+      .forEach(subscription => this.fanSubscriptions.delete(subscription.id));
+    Array.from(this.athleteSubscriptionTiers.values())
+      .filter(tier => tier.athleteId === id)
+      .forEach(tier => this.athleteSubscriptionTiers.delete(tier.id));
+    Array.from(this.ledgerEntries.values())
+      .filter(entry => entry.userId === id)
+      .forEach(entry => this.ledgerEntries.set(entry.id, { ...entry, userId: null }));
+    
+    const docIds = Array.from(this.verificationDocs.values())
+      .filter(doc => doc.userId === id)
+      .map(doc => doc.id);
+    Array.from(this.verificationDocAccessLogs.values())
+      .filter(entry => entry.userId === id || docIds.includes(entry.docId))
+      .forEach(entry => this.verificationDocAccessLogs.delete(entry.id));
+    Array.from(this.verificationDecisions.values())
+      .filter(decision => decision.userId === id)
+      .forEach(decision => this.verificationDecisions.delete(decision.id));
+    docIds.forEach(docId => this.verificationDocs.delete(docId));
+    
+    const reportIds = Array.from(this.contentReports.values())
+      .filter(report => report.reporterId === id)
+      .map(report => report.id);
+    Array.from(this.contentReports.values())
+      .filter(report => report.resolvedBy === id)
+      .forEach(report => this.contentReports.set(report.id, { ...report, resolvedBy: null }));
+    Array.from(this.moderationActions.values())
+      .filter(action => action.targetUserId === id || (action.reportId !== null && reportIds.includes(action.reportId)))
+      .forEach(action => this.moderationActions.set(action.id, {
+        ...action,
+        reportId: action.reportId !== null && reportIds.includes(action.reportId) ? null : action.reportId,
+        targetUserId: action.targetUserId === id ? null : action.targetUserId,
+        contentSnapshot: action.targetUserId === id ? null : action.contentSnapshot
+      }));
+    reportIds.forEach(reportId => this.contentReports.delete(reportId));
+    
+    return this.users.delete(id);
+  }
+
+  // League and team directory
+  private leagues = new Map<number, League>();
+  private teams = new Map<number, Team>();
+  private currentLeagueId = 1;
+  private currentTeamId = 1;
+
+  async getLeagues(): Promise<League[]> {
+    return Array.from(this.leagues.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getLeague(id: number): Promise<League | undefined> {
+    return this.leagues.get(id);
+  }
+
+  async createLeague(league: InsertLeague): Promise<League> {
+    const id = this.currentLeagueId++;
+    const newLeague: League = { ...league, id, createdAt: new Date() };
+    this.leagues.set(id, newLeague);
+    return newLeague;
+  }
+
+  async updateLeague(id: number, leagueData: Partial<League>): Promise<League | undefined> {
+    const league = this.leagues.get(id);
+    if (!league) return undefined;
+    
+    const updatedLeague = { ...league, ...leagueData };
+    this.leagues.set(id, updatedLeague);
+    return updatedLeague;
+  }
+
+  async deleteLeague(id: number): Promise<boolean> {
+    return this.leagues.delete(id);
+  }
+
+  async getTeams(leagueId?: number): Promise<Team[]> {
+    return Array.from(this.teams.values())
+      .filter(team => leagueId === undefined || team.leagueId === leagueId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTeam(id: number): Promise<Team | undefined> {
+    return this.teams.get(id);
+  }
+
+  async searchTeams(query: string, leagueId?: number, limit = 20): Promise<Team[]> {
+    const needle = query.toLowerCase();
+    return (await this.getTeams(leagueId))
+      .filter(team => [team.name, team.city, team.abbreviation].some(field => field?.toLowerCase().includes(needle)))
+      .slice(0, limit);
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const id = this.currentTeamId++;
+    const newTeam: Team = {
+      ...team,
+      city: team.city ?? null,
+      abbreviation: team.abbreviation ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.teams.set(id, newTeam);
+    return newTeam;
+  }
+
+  async updateTeam(id: number, teamData: Partial<Team>): Promise<Team | undefined> {
+    const team = this.teams.get(id);
+    if (!team) return undefined;
+    
+    const updatedTeam = { ...team, ...teamData };
+    this.teams.set(id, updatedTeam);
+    return updatedTeam;
+  }
+
+  async deleteTeam(id: number): Promise<boolean> {
+    return this.teams.delete(id);
+  }
+
   // Verification operations
   async addVerificationDoc(doc: InsertVerificationDoc): Promise<VerificationDoc> {
     const id = this.currentVerificationDocId++;
@@ -226,11 +553,28 @@ export class MemStorage implements IStorage {
     return verificationDoc;
   }
 
+  async getVerificationDoc(id: number): Promise<VerificationDoc | undefined> {
+    return this.verificationDocs.get(id);
+  }
+
   async getVerificationDocsByUserId(userId: number): Promise<VerificationDoc[]> {
     return Array.from(this.verificationDocs.values())
       .filter(doc => doc.userId === userId);
   }
 
+  async getAllVerificationDocs(): Promise<VerificationDoc[]> {
+    return Array.from(this.verificationDocs.values());
+  }
+
+  async updateVerificationDoc(id: number, docData: Partial<VerificationDoc>): Promise<VerificationDoc | undefined> {
+    const doc = this.verificationDocs.get(id);
+    if (!doc) return undefined;
+    
+    const updatedDoc = { ...doc, ...docData };
+    this.verificationDocs.set(id, updatedDoc);
+    return updatedDoc;
+  }
+
   async updateVerificationStatus(userId: number, status: string): Promise<User | undefined> {
     return this.updateUser(userId, { verificationStatus: status as any });
   }
@@ -248,7 +592,14 @@ export class MemStorage implements IStorage {
       ...track,
       id,
       releaseDate: now,
-      plays: 0
+      plays: 0,
+      processingStatus: track.processingStatus ?? 'ready',
+      processingError: null,
+      loudness: null,
+      renditions: null,
+      peaksUrl: null,
+      isExclusive: track.isExclusive ?? false,
+      subscriberOnly: track.subscriberOnly ?? false
     };
     this.tracks.set(id, newTrack);
     return newTrack;
@@ -265,7 +616,13 @@ export class MemStorage implements IStorage {
 
   async getAllTracks(): Promise<Track[]> {
     return Array.from(this.tracks.values())
-      .filter(track => track.isPublished);
+      .filter(track => track.isPublished && track.processingStatus === 'ready');
+  }
+
+  async getTracksByProcessingStatus(statuses: Track["processingStatus"][]): Promise<Track[]> {
+    return Array.from(this.tracks.values())
+      .filter(track => statuses.includes(track.processingStatus))
+      .sort((a, b) => a.id - b.id);
   }
 
   async updateTrack(id: number, trackData: Partial<Track>): Promise<Track | undefined> {
@@ -309,6 +666,10 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getMessage(id: number): Promise<Message | undefined> {
+    return this.messages.get(id);
+  }
+
   async getConversation(user1Id: number, user2Id: number): Promise<Message[]> {
     return Array.from(this.messages.values())
       .filter(msg => 
@@ -327,6 +688,10 @@ export class MemStorage implements IStorage {
     return updatedMessage;
   }
 
+  async deleteMessage(id: number): Promise<boolean> {
+    return this.messages.delete(id);
+  }
+
   // Studio session operations
   async createStudioSession(sessionData: InsertStudioSession): Promise<StudioSession> {
     const id = this.currentSessionId++;
@@ -358,17 +723,21 @@ export class MemStorage implements IStorage {
   }
 
   async deleteStudioSession(id: number): Promise<boolean> {
+    Array.from(this.collabDocUpdates.values())
+      .filter(update => update.sessionId === id)
+      .forEach(update => this.collabDocUpdates.delete(update.id));
     return this.studioSessions.delete(id);
   }
   
-  async startLiveSession(id: number, sessionCode: string): Promise<StudioSession | undefined> {
+  async startLiveSession(id: number, sessionCode: string, expiresAt: Date): Promise<StudioSession | undefined> {
     const session = this.studioSessions.get(id);
     if (!session) return undefined;
     
     const updatedSession = { 
       ...session, 
       isLive: true,
-      sessionCode
+      sessionCode,
+      sessionCodeExpiresAt: expiresAt
     };
     this.studioSessions.set(id, updatedSession);
     return updatedSession;
@@ -381,15 +750,21 @@ export class MemStorage implements IStorage {
     const updatedSession = { 
       ...session, 
       isLive: false,
-      sessionCode: null
+      sessionCode: null,
+      sessionCodeExpiresAt: null
     };
     this.studioSessions.set(id, updatedSession);
     return updatedSession;
   }
   
   async getLiveSessionByCode(sessionCode: string): Promise<StudioSession | undefined> {
+    const now = new Date();
     return Array.from(this.studioSessions.values())
-      .find(session => session.sessionCode === sessionCode && session.isLive === true);
+      .find(session => 
+        session.sessionCode === sessionCode && 
+        session.isLive === true &&
+        (!session.sessionCodeExpiresAt || session.sessionCodeExpiresAt > now)
+      );
   }
   
   // Studio Project operations
@@ -436,6 +811,29 @@ export class MemStorage implements IStorage {
   }
   
   async deleteStudioProject(id: number): Promise<boolean> {
+    // Remove everything that hangs off the project first
+    const projectTrackIds = Array.from(this.projectTracks.values())
+      .filter(track => track.projectId === id)
+      .map(track => track.id);
+    for (const trackId of projectTrackIds) {
+      await this.deleteProjectTrack(trackId);
+    }
+    Array.from(this.masteringSettings.values())
+      .filter(settings => settings.projectId === id)
+      .forEach(settings => this.masteringSettings.delete(settings.id));
+    Array.from(this.projectSyncs.values())
+      .filter(sync => sync.projectId === id)
+      .forEach(sync => this.projectSyncs.delete(sync.id));
+    Array.from(this.collabDocUpdates.values())
+      .filter(update => update.projectId === id)
+      .forEach(update => this.collabDocUpdates.delete(update.id));
+    Array.from(this.renderJobs.values())
+      .filter(job => job.projectId === id)
+      .forEach(job => this.renderJobs.delete(job.id));
+    Array.from(this.projectVersions.values())
+      .filter(version => version.projectId === id)
+      .forEach(version => this.projectVersions.delete(version.id));
+    
     return this.studioProjects.delete(id);
   }
   
@@ -446,6 +844,7 @@ export class MemStorage implements IStorage {
     const newTrack: ProjectTrack = {
       ...track,
       id,
+      peaksUrl: null,
       createdAt: now,
       updatedAt: now
     };
@@ -477,6 +876,9 @@ export class MemStorage implements IStorage {
   }
   
   async deleteProjectTrack(id: number): Promise<boolean> {
+    Array.from(this.trackComments.values())
+      .filter(comment => comment.projectTrackId === id)
+      .forEach(comment => this.trackComments.delete(comment.id));
     return this.projectTracks.delete(id);
   }
   
@@ -525,6 +927,10 @@ export class MemStorage implements IStorage {
     return newComment;
   }
   
+  async getTrackComment(id: number): Promise<TrackComment | undefined> {
+    return this.trackComments.get(id);
+  }
+  
   async getTrackComments(projectTrackId: number): Promise<TrackComment[]> {
     return Array.from(this.trackComments.values())
       .filter(comment => comment.projectTrackId === projectTrackId)
@@ -554,9 +960,13 @@ export class MemStorage implements IStorage {
     return newSync;
   }
   
+  async getProjectSync(id: number): Promise<ProjectSync | undefined> {
+    return this.projectSyncs.get(id);
+  }
+  
+  // Each backup is its own row, so the status of a project is that of its latest version
   async getProjectSyncStatus(projectId: number): Promise<ProjectSync | undefined> {
-    return Array.from(this.projectSyncs.values())
-      .find(sync => sync.projectId === projectId);
+    return this.getLatestProjectSync(projectId);
   }
   
   async getProjectSyncsByUser(userId: number): Promise<ProjectSync[]> {
@@ -565,6 +975,17 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.syncedAt.getTime() - a.syncedAt.getTime());
   }
   
+  async getProjectSyncsByProject(projectId: number): Promise<ProjectSync[]> {
+    return Array.from(this.projectSyncs.values())
+      .filter(sync => sync.projectId === projectId)
+      .sort((a, b) => b.version - a.version);
+  }
+  
+  async getProjectSyncsByStatus(status: ProjectSync["status"]): Promise<ProjectSync[]> {
+    return Array.from(this.projectSyncs.values())
+      .filter(sync => sync.status === status);
+  }
+  
   async updateProjectSyncStatus(id: number, status: string, error?: string): Promise<ProjectSync | undefined> {
     const sync = this.projectSyncs.get(id);
     if (!sync) return undefined;
@@ -581,35 +1002,20 @@ export class MemStorage implements IStorage {
   }
   
   async startProjectSync(projectId: number, userId: number): Promise<ProjectSync | undefined> {
-    // Check if there's an existing sync record
-    let sync = Array.from(this.projectSyncs.values())
-      .find(s => s.projectId === projectId);
-      
-    if (sync) {
-      // Update existing record
-      sync = {
-        ...sync,
-        status: 'syncing' as any,
-        syncedAt: new Date(),
-        lastError: null
-      };
-      this.projectSyncs.set(sync.id, sync);
-      return sync;
-    } else {
-      // Create a new sync record
-      return this.createProjectSync({
-        projectId,
-        userId,
-        status: 'syncing',
-        version: 1,
-        cloudUrl: null,
-        syncHash: null,
-        metadata: null
-      });
-    }
+    // Every backup gets a new version so earlier ones can still be restored
+    const latestSync = await this.getLatestProjectSync(projectId);
+    return this.createProjectSync({
+      projectId,
+      userId,
+      status: 'syncing',
+      version: (latestSync?.version ?? 0) + 1,
+      cloudUrl: null,
+      syncHash: null,
+      metadata: null
+    });
   }
   
-  async completeProjectSync(id: number, cloudUrl: string, syncHash: string): Promise<ProjectSync | undefined> {
+  async completeProjectSync(id: number, cloudUrl: string, syncHash: string, metadata?: string): Promise<ProjectSync | undefined> {
     const sync = this.projectSyncs.get(id);
     if (!sync) return undefined;
     
@@ -619,7 +1025,7 @@ export class MemStorage implements IStorage {
       syncedAt: new Date(),
       cloudUrl,
       syncHash,
-      version: sync.version + 1,
+      metadata: metadata ?? sync.metadata,
       lastError: null
     };
     
@@ -634,6 +1040,449 @@ export class MemStorage implements IStorage {
       
     return syncs.length > 0 ? syncs[0] : undefined;
   }
+  
+  // Collaborative document persistence
+  private collabDocUpdates = new Map<number, CollabDocUpdate>();
+  private currentCollabDocUpdateId = 1;
+  
+  async addCollabDocUpdate(update: InsertCollabDocUpdate): Promise<CollabDocUpdate> {
+    const id = this.currentCollabDocUpdateId++;
+    const newUpdate: CollabDocUpdate = {
+      id,
+      sessionId: update.sessionId ?? null,
+      projectId: update.projectId ?? null,
+      update: update.update,
+      isSnapshot: update.isSnapshot ?? false,
+      createdAt: new Date()
+    };
+    this.collabDocUpdates.set(id, newUpdate);
+    return newUpdate;
+  }
+  
+  async getCollabDocUpdates(key: CollabDocKey): Promise<CollabDocUpdate[]> {
+    return Array.from(this.collabDocUpdates.values())
+      .filter(update => isCollabDocUpdateFor(key, update))
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async compactCollabDocUpdates(key: CollabDocKey, snapshot: string, upToId: number): Promise<CollabDocUpdate> {
+    Array.from(this.collabDocUpdates.values())
+      .filter(update => isCollabDocUpdateFor(key, update) && update.id <= upToId)
+      .forEach(update => this.collabDocUpdates.delete(update.id));
+    
+    return this.addCollabDocUpdate({ ...key, update: snapshot, isSnapshot: true });
+  }
+  
+  // Render job operations
+  private renderJobs = new Map<number, RenderJob>();
+  private currentRenderJobId = 1;
+  
+  async createRenderJob(job: InsertRenderJob): Promise<RenderJob> {
+    const id = this.currentRenderJobId++;
+    const newJob: RenderJob = {
+      id,
+      projectId: job.projectId,
+      userId: job.userId,
+      type: job.type ?? 'mixdown',
+      status: job.status ?? 'queued',
+      tailMs: job.tailMs ?? 0,
+      outputUrl: job.outputUrl ?? null,
+      outputFiles: job.outputFiles ?? null,
+      duration: job.duration ?? null,
+      error: job.error ?? null,
+      trackId: job.trackId ?? null,
+      createdAt: new Date(),
+      completedAt: job.completedAt ?? null
+    };
+    this.renderJobs.set(id, newJob);
+    return newJob;
+  }
+  
+  async getRenderJob(id: number): Promise<RenderJob | undefined> {
+    return this.renderJobs.get(id);
+  }
+  
+  async getRenderJobsByProject(projectId: number): Promise<RenderJob[]> {
+    return Array.from(this.renderJobs.values())
+      .filter(job => job.projectId === projectId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getUnfinishedRenderJobs(): Promise<RenderJob[]> {
+    return Array.from(this.renderJobs.values())
+      .filter(job => job.status === 'queued' || job.status === 'rendering')
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateRenderJob(id: number, jobData: Partial<RenderJob>): Promise<RenderJob | undefined> {
+    const job = this.renderJobs.get(id);
+    if (!job) return undefined;
+    
+    const updatedJob = { ...job, ...jobData };
+    this.renderJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  // Project version history
+  private projectVersions = new Map<number, ProjectVersion>();
+  private currentProjectVersionId = 1;
+  
+  async createProjectVersion(version: InsertProjectVersion): Promise<ProjectVersion> {
+    const id = this.currentProjectVersionId++;
+    const newVersion: ProjectVersion = {
+      ...version,
+      id,
+      createdAt: new Date()
+    };
+    this.projectVersions.set(id, newVersion);
+    return newVersion;
+  }
+  
+  async getProjectVersion(id: number): Promise<ProjectVersion | undefined> {
+    return this.projectVersions.get(id);
+  }
+  
+  async getProjectVersionsByProject(projectId: number): Promise<ProjectVersion[]> {
+    return Array.from(this.projectVersions.values())
+      .filter(version => version.projectId === projectId)
+      .sort((a, b) => b.version - a.version);
+  }
+  
+  // Verification document access log
+  private verificationDocAccessLogs = new Map<number, VerificationDocAccessLog>();
+  private currentVerificationDocAccessLogId = 1;
+  
+  async logVerificationDocAccess(entry: InsertVerificationDocAccessLog): Promise<VerificationDocAccessLog> {
+    const id = this.currentVerificationDocAccessLogId++;
+    const logEntry: VerificationDocAccessLog = {
+      ...entry,
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null,
+      id,
+      accessedAt: new Date()
+    };
+    this.verificationDocAccessLogs.set(id, logEntry);
+    return logEntry;
+  }
+  
+  async getVerificationDocAccessLogs(docId: number): Promise<VerificationDocAccessLog[]> {
+    return Array.from(this.verificationDocAccessLogs.values())
+      .filter(entry => entry.docId === docId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  // Verification decisions (append-only)
+  private verificationDecisions = new Map<number, VerificationDecision>();
+  private currentVerificationDecisionId = 1;
+  
+  async addVerificationDecision(decision: InsertVerificationDecision): Promise<VerificationDecision> {
+    const id = this.currentVerificationDecisionId++;
+    const newDecision: VerificationDecision = {
+      ...decision,
+      docId: decision.docId ?? null,
+      reason: decision.reason ?? null,
+      requestedDocumentTypes: decision.requestedDocumentTypes ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.verificationDecisions.set(id, newDecision);
+    return newDecision;
+  }
+  
+  async getVerificationDecisionsByUserId(userId: number): Promise<VerificationDecision[]> {
+    return Array.from(this.verificationDecisions.values())
+      .filter(decision => decision.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Content reports and the moderation audit log
+  private contentReports = new Map<number, ContentReport>();
+  private currentContentReportId = 1;
+  private moderationActions = new Map<number, ModerationAction>();
+  private currentModerationActionId = 1;
+  
+  async createContentReport(report: InsertContentReport): Promise<ContentReport> {
+    const id = this.currentContentReportId++;
+    const newReport: ContentReport = {
+      ...report,
+      id,
+      status: 'pending',
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date()
+    };
+    this.contentReports.set(id, newReport);
+    return newReport;
+  }
+  
+  async getContentReport(id: number): Promise<ContentReport | undefined> {
+    return this.contentReports.get(id);
+  }
+  
+  async getContentReports(filter: { status?: ContentReport["status"]; contentType?: ContentReport["contentType"] } = {}): Promise<ContentReport[]> {
+    return Array.from(this.contentReports.values())
+      .filter(report => !filter.status || report.status === filter.status)
+      .filter(report => !filter.contentType || report.contentType === filter.contentType)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getContentReportsForContent(contentType: ContentReport["contentType"], contentId: number): Promise<ContentReport[]> {
+    return Array.from(this.contentReports.values())
+      .filter(report => report.contentType === contentType && report.contentId === contentId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateContentReport(id: number, reportData: Partial<ContentReport>): Promise<ContentReport | undefined> {
+    const report = this.contentReports.get(id);
+    if (!report) return undefined;
+    
+    const updatedReport = { ...report, ...reportData };
+    this.contentReports.set(id, updatedReport);
+    return updatedReport;
+  }
+  
+  async addModerationAction(action: InsertModerationAction): Promise<ModerationAction> {
+    const id = this.currentModerationActionId++;
+    const newAction: ModerationAction = {
+      ...action,
+      reportId: action.reportId ?? null,
+      contentType: action.contentType ?? null,
+      contentId: action.contentId ?? null,
+      targetUserId: action.targetUserId ?? null,
+      reason: action.reason ?? null,
+      contentSnapshot: action.contentSnapshot ?? null,
+      suspendedUntil: action.suspendedUntil ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.moderationActions.set(id, newAction);
+    return newAction;
+  }
+  
+  async getModerationActions(filter: { reportId?: number; targetUserId?: number; moderatorId?: number } = {}): Promise<ModerationAction[]> {
+    return Array.from(this.moderationActions.values())
+      .filter(action => filter.reportId === undefined || action.reportId === filter.reportId)
+      .filter(action => filter.targetUserId === undefined || action.targetUserId === filter.targetUserId)
+      .filter(action => filter.moderatorId === undefined || action.moderatorId === filter.moderatorId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  // Stripe webhook events already handled
+  private processedStripeEvents = new Map<string, ProcessedStripeEvent>();
+  private currentProcessedStripeEventId = 1;
+  
+  async getProcessedStripeEvent(eventId: string): Promise<ProcessedStripeEvent | undefined> {
+    return this.processedStripeEvents.get(eventId);
+  }
+  
+  async recordProcessedStripeEvent(event: InsertProcessedStripeEvent): Promise<ProcessedStripeEvent | undefined> {
+    if (this.processedStripeEvents.has(event.eventId)) return undefined;
+    
+    const processed: ProcessedStripeEvent = {
+      ...event,
+      id: this.currentProcessedStripeEventId++,
+      processedAt: new Date()
+    };
+    this.processedStripeEvents.set(event.eventId, processed);
+    return processed;
+  }
+  
+  async deleteProcessedStripeEvent(eventId: string): Promise<void> {
+    this.processedStripeEvents.delete(eventId);
+  }
+  
+  private endedStripeSubscriptions = new Set<string>();
+  
+  async recordEndedStripeSubscription(subscriptionId: string): Promise<void> {
+    this.endedStripeSubscriptions.add(subscriptionId);
+  }
+  
+  async isStripeSubscriptionEnded(subscriptionId: string): Promise<boolean> {
+    return this.endedStripeSubscriptions.has(subscriptionId);
+  }
+  
+  // AI generation usage
+  private aiGenerations = new Map<number, AiGeneration>();
+  private currentAiGenerationId = 1;
+  
+  // Counts and records without yielding in between, so parallel requests can't both take the last one
+  async reserveAiGeneration(generation: InsertAiGeneration, since: Date, allowance: number): Promise<AiGeneration | undefined> {
+    const used = Array.from(this.aiGenerations.values())
+      .filter(existing => existing.userId === generation.userId && existing.createdAt! >= since)
+      .length;
+    if (used >= allowance) return undefined;
+    
+    const id = this.currentAiGenerationId++;
+    const reserved: AiGeneration = { ...generation, id, createdAt: new Date() };
+    this.aiGenerations.set(id, reserved);
+    return reserved;
+  }
+  
+  async releaseAiGeneration(id: number): Promise<void> {
+    this.aiGenerations.delete(id);
+  }
+  
+  async countAiGenerationsSince(userId: number, since: Date): Promise<number> {
+    return Array.from(this.aiGenerations.values())
+      .filter(generation => generation.userId === userId && generation.createdAt! >= since)
+      .length;
+  }
+  
+  // Fan subscriptions to athletes
+  private athleteSubscriptionTiers = new Map<number, AthleteSubscriptionTier>();
+  private fanSubscriptions = new Map<number, FanSubscription>();
+  private currentAthleteSubscriptionTierId = 1;
+  private currentFanSubscriptionId = 1;
+  
+  async getAthleteSubscriptionTiers(athleteId: number): Promise<AthleteSubscriptionTier[]> {
+    return Array.from(this.athleteSubscriptionTiers.values())
+      .filter(tier => tier.athleteId === athleteId)
+      .sort((a, b) => a.amount - b.amount);
+  }
+  
+  async getAthleteSubscriptionTier(id: number): Promise<AthleteSubscriptionTier | undefined> {
+    return this.athleteSubscriptionTiers.get(id);
+  }
+  
+  async createAthleteSubscriptionTier(tier: InsertAthleteSubscriptionTier): Promise<AthleteSubscriptionTier> {
+    const id = this.currentAthleteSubscriptionTierId++;
+    const now = new Date();
+    const newTier: AthleteSubscriptionTier = {
+      ...tier,
+      id,
+      description: tier.description ?? null,
+      currency: tier.currency ?? 'usd',
+      stripePriceId: tier.stripePriceId ?? null,
+      isActive: tier.isActive ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.athleteSubscriptionTiers.set(id, newTier);
+    return newTier;
+  }
+  
+  async updateAthleteSubscriptionTier(id: number, tierData: Partial<AthleteSubscriptionTier>): Promise<AthleteSubscriptionTier | undefined> {
+    const tier = this.athleteSubscriptionTiers.get(id);
+    if (!tier) return undefined;
+    
+    const updatedTier = { ...tier, ...tierData, updatedAt: new Date() };
+    this.athleteSubscriptionTiers.set(id, updatedTier);
+    return updatedTier;
+  }
+  
+  async getFanSubscription(id: number): Promise<FanSubscription | undefined> {
+    return this.fanSubscriptions.get(id);
+  }
+  
+  async getFanSubscriptionByStripeId(stripeSubscriptionId: string): Promise<FanSubscription | undefined> {
+    return Array.from(this.fanSubscriptions.values())
+      .find(subscription => subscription.stripeSubscriptionId === stripeSubscriptionId);
+  }
+  
+  async getFanSubscriptionsByFan(fanId: number): Promise<FanSubscription[]> {
+    return Array.from(this.fanSubscriptions.values())
+      .filter(subscription => subscription.fanId === fanId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getFanSubscriptionsByAthlete(athleteId: number): Promise<FanSubscription[]> {
+    return Array.from(this.fanSubscriptions.values())
+      .filter(subscription => subscription.athleteId === athleteId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async createFanSubscription(subscription: InsertFanSubscription): Promise<FanSubscription> {
+    const id = this.currentFanSubscriptionId++;
+    const now = new Date();
+    const newSubscription: FanSubscription = {
+      ...subscription,
+      id,
+      currentPeriodEnd: subscription.currentPeriodEnd ?? null,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd ?? false,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.fanSubscriptions.set(id, newSubscription);
+    return newSubscription;
+  }
+  
+  async updateFanSubscription(id: number, subscriptionData: Partial<FanSubscription>): Promise<FanSubscription | undefined> {
+    const subscription = this.fanSubscriptions.get(id);
+    if (!subscription) return undefined;
+    
+    const updatedSubscription = { ...subscription, ...subscriptionData, updatedAt: new Date() };
+    this.fanSubscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+  
+  // Earnings ledger
+  private ledgerTransactions = new Map<number, LedgerTransaction>();
+  private ledgerEntries = new Map<number, LedgerEntry>();
+  private currentLedgerTransactionId = 1;
+  private currentLedgerEntryId = 1;
+  
+  async createLedgerTransaction(transaction: InsertLedgerTransaction, entries: Omit<InsertLedgerEntry, 'transactionId'>[], options: LedgerTransactionOptions = {}): Promise<LedgerTransaction | undefined> {
+    // Checked without awaiting anything, so two racing bookings can't both get past it
+    const existing = Array.from(this.ledgerTransactions.values())
+      .some(({ externalId }) => transaction.externalId && externalId === transaction.externalId);
+    if (existing) return undefined;
+    const guard = options.nonNegativeBalance;
+    if (guard) {
+      const balance = Array.from(this.ledgerEntries.values())
+        .filter(entry => entry.account === guard.account && entry.userId === guard.userId)
+        .reduce((total, entry) => total + entry.amount, 0);
+      if (balance + balanceChange(entries, guard.account, guard.userId) < 0) {
+        throw new InsufficientBalanceError();
+      }
+    }
+    const id = this.currentLedgerTransactionId++;
+    const newTransaction: LedgerTransaction = {
+      ...transaction,
+      id,
+      externalId: transaction.externalId ?? null,
+      trackId: transaction.trackId ?? null,
+      createdAt: new Date()
+    };
+    this.ledgerTransactions.set(id, newTransaction);
+    for (const entry of entries) {
+      const entryId = this.currentLedgerEntryId++;
+      this.ledgerEntries.set(entryId, { ...entry, id: entryId, transactionId: id, userId: entry.userId ?? null });
+    }
+    return newTransaction;
+  }
+  
+  async getLedgerTransactionByExternalId(externalId: string): Promise<LedgerTransaction | undefined> {
+    return Array.from(this.ledgerTransactions.values())
+      .find(transaction => transaction.externalId === externalId);
+  }
+  
+  private ledgerEntriesOf(account: LedgerAccount, userId: number): LedgerEntryDetails[] {
+    return Array.from(this.ledgerEntries.values())
+      .filter(entry => entry.account === account && entry.userId === userId)
+      .map(entry => ({ ...entry, transaction: this.ledgerTransactions.get(entry.transactionId)! }));
+  }
+  
+  async getLedgerEntries(account: LedgerAccount, userId: number, filter: { types?: LedgerTransactionType[]; limit?: number } = {}): Promise<LedgerEntryDetails[]> {
+    return this.ledgerEntriesOf(account, userId)
+      .filter(entry => !filter.types || filter.types.includes(entry.transaction.type))
+      .sort((a, b) => b.transactionId - a.transactionId)
+      .slice(0, filter.limit);
+  }
+  
+  async getLedgerTotals(account: LedgerAccount, userId: number, groupBy: LedgerGrouping, filter: { types?: LedgerTransactionType[]; since?: Date } = {}): Promise<LedgerTotal[]> {
+    const totals = new Map<string, LedgerTotal>();
+    for (const entry of this.ledgerEntriesOf(account, userId)) {
+      const { type, trackId, createdAt } = entry.transaction;
+      if (filter.types && !filter.types.includes(type)) continue;
+      if (filter.since && createdAt && createdAt < filter.since) continue;
+      if (groupBy === 'track' && trackId === null) continue;
+      
+      const key = groupBy === 'month' ? createdAt!.toISOString().slice(0, 7) : groupBy === 'type' ? type : String(trackId);
+      const total = totals.get(key) ?? { key, amount: 0, count: 0 };
+      totals.set(key, { key, amount: total.amount + entry.amount, count: total.count + 1 });
+    }
+    return Array.from(totals.values());
+  }
 }
 
 export class DatabaseStorage implements IStorage {
@@ -660,6 +1509,14 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.stripeCustomerId, customerId));
+    return user || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const now = new Date();
     const [user] = await db
@@ -699,25 +1556,215 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.role, role as any));
   }
 
-  // Verification operations
-  async addVerificationDoc(doc: InsertVerificationDoc): Promise<VerificationDoc> {
-    const now = new Date();
-    const [verificationDoc] = await db
-      .insert(verificationDocs)
-      .values({
-        ...doc,
-        createdAt: now,
-        status: doc.status || "pending"
-      })
-      .returning();
-    return verificationDoc;
+  async getUsersByTeam(teamId: number): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.teamId, teamId));
   }
 
-  async getVerificationDocsByUserId(userId: number): Promise<VerificationDoc[]> {
-    return await db
-      .select()
-      .from(verificationDocs)
-      .where(eq(verificationDocs.userId, userId));
+  async getUsersByLeague(leagueId: number): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.leagueId, leagueId));
+  }
+
+  // Erase a user and everything that belongs to them. Records that only mention them, like the
+  // moderation log, are kept but no longer point at them.
+  async eraseUser(id: number): Promise<boolean> {
+    const projectIds = await db
+      .select({ id: studioProjects.id })
+      .from(studioProjects)
+      .where(eq(studioProjects.userId, id))
+      .then(rows => rows.map(row => row.id));
+    for (const projectId of projectIds) {
+      await this.deleteStudioProject(projectId);
+    }
+    
+    const deleted = await db.transaction(async (tx) => {
+      const trackIds = await tx
+        .select({ id: tracks.id })
+        .from(tracks)
+        .where(eq(tracks.artistId, id))
+        .then(rows => rows.map(row => row.id));
+      if (trackIds.length > 0) {
+        await tx.update(renderJobs).set({ trackId: null }).where(inArray(renderJobs.trackId, trackIds));
+        await tx.update(ledgerTransactions).set({ trackId: null }).where(inArray(ledgerTransactions.trackId, trackIds));
+      }
+      await tx.delete(tracks).where(eq(tracks.artistId, id));
+      
+      await tx.delete(messages).where(or(eq(messages.senderId, id), eq(messages.receiverId, id)));
+      
+      const sessionIds = await tx
+        .select({ id: studioSessions.id })
+        .from(studioSessions)
+        .where(eq(studioSessions.userId, id))
+        .then(rows => rows.map(row => row.id));
+      if (sessionIds.length > 0) {
+        await tx.update(studioProjects).set({ sessionId: null }).where(inArray(studioProjects.sessionId, sessionIds));
+        await tx.delete(collabDocUpdates).where(inArray(collabDocUpdates.sessionId, sessionIds));
+        await tx.delete(studioSessions).where(inArray(studioSessions.id, sessionIds));
+      }
+      
+      // What they left on other people's projects
+      await tx.delete(trackComments).where(eq(trackComments.userId, id));
+      await tx.delete(projectSyncs).where(eq(projectSyncs.userId, id));
+      await tx.delete(renderJobs).where(eq(renderJobs.userId, id));
+      await tx.delete(projectVersions).where(eq(projectVersions.userId, id));
+      await tx.delete(aiGenerations).where(eq(aiGenerations.userId, id));
+      await tx.delete(fanSubscriptions).where(or(eq(fanSubscriptions.fanId, id), eq(fanSubscriptions.athleteId, id)));
+      await tx.delete(athleteSubscriptionTiers).where(eq(athleteSubscriptionTiers.athleteId, id));
+      await tx.update(ledgerEntries).set({ userId: null }).where(eq(ledgerEntries.userId, id));
+      
+      const docIds = await tx
+        .select({ id: verificationDocs.id })
+        .from(verificationDocs)
+        .where(eq(verificationDocs.userId, id))
+        .then(rows => rows.map(row => row.id));
+      await tx.delete(verificationDocAccessLogs).where(eq(verificationDocAccessLogs.userId, id));
+      if (docIds.length > 0) {
+        await tx.delete(verificationDocAccessLogs).where(inArray(verificationDocAccessLogs.docId, docIds));
+      }
+      await tx.delete(verificationDecisions).where(eq(verificationDecisions.userId, id));
+      await tx.delete(verificationDocs).where(eq(verificationDocs.userId, id));
+      
+      const reportIds = await tx
+        .select({ id: contentReports.id })
+        .from(contentReports)
+        .where(eq(contentReports.reporterId, id))
+        .then(rows => rows.map(row => row.id));
+      if (reportIds.length > 0) {
+        await tx.update(moderationActions).set({ reportId: null }).where(inArray(moderationActions.reportId, reportIds));
+        await tx.delete(contentReports).where(inArray(contentReports.id, reportIds));
+      }
+      await tx.update(contentReports).set({ resolvedBy: null }).where(eq(contentReports.resolvedBy, id));
+      await tx
+        .update(moderationActions)
+        .set({ targetUserId: null, contentSnapshot: null })
+        .where(eq(moderationActions.targetUserId, id));
+      
+      return await tx.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    });
+    return deleted.length > 0;
+  }
+
+  // League and team directory
+  async getLeagues(): Promise<League[]> {
+    return await db.select().from(leagues).orderBy(asc(leagues.name));
+  }
+
+  async getLeague(id: number): Promise<League | undefined> {
+    const [league] = await db.select().from(leagues).where(eq(leagues.id, id));
+    return league || undefined;
+  }
+
+  async createLeague(league: InsertLeague): Promise<League> {
+    const [newLeague] = await db
+      .insert(leagues)
+      .values({
+        ...league,
+        createdAt: new Date()
+      })
+      .returning();
+    return newLeague;
+  }
+
+  async updateLeague(id: number, leagueData: Partial<League>): Promise<League | undefined> {
+    const [updatedLeague] = await db
+      .update(leagues)
+      .set(leagueData)
+      .where(eq(leagues.id, id))
+      .returning();
+    return updatedLeague || undefined;
+  }
+
+  async deleteLeague(id: number): Promise<boolean> {
+    const deleted = await db.delete(leagues).where(eq(leagues.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getTeams(leagueId?: number): Promise<Team[]> {
+    return await db
+      .select()
+      .from(teams)
+      .where(leagueId === undefined ? undefined : eq(teams.leagueId, leagueId))
+      .orderBy(asc(teams.name));
+  }
+
+  async getTeam(id: number): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams).where(eq(teams.id, id));
+    return team || undefined;
+  }
+
+  async searchTeams(query: string, leagueId?: number, limit = 20): Promise<Team[]> {
+    // Match the query literally, not as a LIKE pattern
+    const pattern = `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    const matches = or(ilike(teams.name, pattern), ilike(teams.city, pattern), ilike(teams.abbreviation, pattern));
+    return await db
+      .select()
+      .from(teams)
+      .where(leagueId === undefined ? matches : and(eq(teams.leagueId, leagueId), matches))
+      .orderBy(asc(teams.name))
+      .limit(limit);
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const [newTeam] = await db
+      .insert(teams)
+      .values({
+        ...team,
+        createdAt: new Date()
+      })
+      .returning();
+    return newTeam;
+  }
+
+  async updateTeam(id: number, teamData: Partial<Team>): Promise<Team | undefined> {
+    const [updatedTeam] = await db
+      .update(teams)
+      .set(teamData)
+      .where(eq(teams.id, id))
+      .returning();
+    return updatedTeam || undefined;
+  }
+
+  async deleteTeam(id: number): Promise<boolean> {
+    const deleted = await db.delete(teams).where(eq(teams.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Verification operations
+  async addVerificationDoc(doc: InsertVerificationDoc): Promise<VerificationDoc> {
+    const now = new Date();
+    const [verificationDoc] = await db
+      .insert(verificationDocs)
+      .values({
+        ...doc,
+        createdAt: now,
+        status: doc.status || "pending"
+      })
+      .returning();
+    return verificationDoc;
+  }
+
+  async getVerificationDoc(id: number): Promise<VerificationDoc | undefined> {
+    const [doc] = await db.select().from(verificationDocs).where(eq(verificationDocs.id, id));
+    return doc;
+  }
+
+  async getVerificationDocsByUserId(userId: number): Promise<VerificationDoc[]> {
+    return await db
+      .select()
+      .from(verificationDocs)
+      .where(eq(verificationDocs.userId, userId));
+  }
+
+  async getAllVerificationDocs(): Promise<VerificationDoc[]> {
+    return await db.select().from(verificationDocs);
+  }
+
+  async updateVerificationDoc(id: number, docData: Partial<VerificationDoc>): Promise<VerificationDoc | undefined> {
+    const [updatedDoc] = await db
+      .update(verificationDocs)
+      .set(docData)
+      .where(eq(verificationDocs.id, id))
+      .returning();
+    return updatedDoc || undefined;
   }
 
   async updateVerificationStatus(userId: number, status: string): Promise<User | undefined> {
@@ -770,7 +1817,15 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(tracks)
-      .where(eq(tracks.isPublished, true));
+      .where(and(eq(tracks.isPublished, true), eq(tracks.processingStatus, 'ready')));
+  }
+
+  async getTracksByProcessingStatus(statuses: Track["processingStatus"][]): Promise<Track[]> {
+    return await db
+      .select()
+      .from(tracks)
+      .where(inArray(tracks.processingStatus, statuses))
+      .orderBy(asc(tracks.id));
   }
 
   async updateTrack(id: number, trackData: Partial<Track>): Promise<Track | undefined> {
@@ -823,6 +1878,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(messages.createdAt));
   }
 
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message || undefined;
+  }
+
   async getConversation(user1Id: number, user2Id: number): Promise<Message[]> {
     return await db
       .select()
@@ -851,6 +1911,13 @@ export class DatabaseStorage implements IStorage {
     return updatedMessage || undefined;
   }
 
+  async deleteMessage(id: number): Promise<boolean> {
+    await db
+      .delete(messages)
+      .where(eq(messages.id, id));
+    return true;
+  }
+
   // Studio session operations
   async createStudioSession(sessionData: InsertStudioSession): Promise<StudioSession> {
     const [newSession] = await db
@@ -893,18 +1960,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteStudioSession(id: number): Promise<boolean> {
-    const result = await db
-      .delete(studioSessions)
-      .where(eq(studioSessions.id, id));
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(collabDocUpdates)
+        .where(eq(collabDocUpdates.sessionId, id));
+      await tx
+        .delete(studioSessions)
+        .where(eq(studioSessions.id, id));
+    });
     return true; // PostgreSQL doesn't return count in the same way
   }
   
-  async startLiveSession(id: number, sessionCode: string): Promise<StudioSession | undefined> {
+  async startLiveSession(id: number, sessionCode: string, expiresAt: Date): Promise<StudioSession | undefined> {
     const [updatedSession] = await db
       .update(studioSessions)
       .set({
         isLive: true,
-        sessionCode
+        sessionCode,
+        sessionCodeExpiresAt: expiresAt
       })
       .where(eq(studioSessions.id, id))
       .returning();
@@ -916,7 +1989,8 @@ export class DatabaseStorage implements IStorage {
       .update(studioSessions)
       .set({
         isLive: false,
-        sessionCode: null
+        sessionCode: null,
+        sessionCodeExpiresAt: null
       })
       .where(eq(studioSessions.id, id))
       .returning();
@@ -930,7 +2004,11 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(studioSessions.sessionCode, sessionCode),
-          eq(studioSessions.isLive, true)
+          eq(studioSessions.isLive, true),
+          or(
+            isNull(studioSessions.sessionCodeExpiresAt),
+            gt(studioSessions.sessionCodeExpiresAt, new Date())
+          )
         )
       );
     return session || undefined;
@@ -992,9 +2070,27 @@ export class DatabaseStorage implements IStorage {
   }
   
   async deleteStudioProject(id: number): Promise<boolean> {
-    await db
-      .delete(studioProjects)
-      .where(eq(studioProjects.id, id));
+    await db.transaction(async (tx) => {
+      // Remove everything that references the project before the project itself
+      const projectTrackIds = await tx
+        .select({ id: projectTracks.id })
+        .from(projectTracks)
+        .where(eq(projectTracks.projectId, id))
+        .then(rows => rows.map(row => row.id));
+      
+      if (projectTrackIds.length > 0) {
+        await tx
+          .delete(trackComments)
+          .where(inArray(trackComments.projectTrackId, projectTrackIds));
+      }
+      await tx.delete(projectTracks).where(eq(projectTracks.projectId, id));
+      await tx.delete(masteringSettings).where(eq(masteringSettings.projectId, id));
+      await tx.delete(projectSyncs).where(eq(projectSyncs.projectId, id));
+      await tx.delete(collabDocUpdates).where(eq(collabDocUpdates.projectId, id));
+      await tx.delete(renderJobs).where(eq(renderJobs.projectId, id));
+      await tx.delete(projectVersions).where(eq(projectVersions.projectId, id));
+      await tx.delete(studioProjects).where(eq(studioProjects.id, id));
+    });
     return true;
   }
   
@@ -1011,7 +2107,7 @@ export class DatabaseStorage implements IStorage {
         position: track.position || 0,
         muted: track.muted || false,
         solo: track.solo || false,
-        volume: track.volume || 1,
+        volume: track.volume ?? 100,
         pan: track.pan || 0
       })
       .returning();
@@ -1047,9 +2143,14 @@ export class DatabaseStorage implements IStorage {
   }
   
   async deleteProjectTrack(id: number): Promise<boolean> {
-    await db
-      .delete(projectTracks)
-      .where(eq(projectTracks.id, id));
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(trackComments)
+        .where(eq(trackComments.projectTrackId, id));
+      await tx
+        .delete(projectTracks)
+        .where(eq(projectTracks.id, id));
+    });
     return true;
   }
   
@@ -1106,6 +2207,11 @@ export class DatabaseStorage implements IStorage {
     return newComment;
   }
   
+  async getTrackComment(id: number): Promise<TrackComment | undefined> {
+    const [comment] = await db.select().from(trackComments).where(eq(trackComments.id, id));
+    return comment || undefined;
+  }
+  
   async getTrackComments(projectTrackId: number): Promise<TrackComment[]> {
     return await db
       .select()
@@ -1136,14 +2242,16 @@ export class DatabaseStorage implements IStorage {
     return newSync;
   }
   
-  async getProjectSyncStatus(projectId: number): Promise<ProjectSync | undefined> {
-    const [sync] = await db
-      .select()
-      .from(projectSyncs)
-      .where(eq(projectSyncs.projectId, projectId));
+  async getProjectSync(id: number): Promise<ProjectSync | undefined> {
+    const [sync] = await db.select().from(projectSyncs).where(eq(projectSyncs.id, id));
     return sync || undefined;
   }
   
+  // Each backup is its own row, so the status of a project is that of its latest version
+  async getProjectSyncStatus(projectId: number): Promise<ProjectSync | undefined> {
+    return this.getLatestProjectSync(projectId);
+  }
+  
   async getProjectSyncsByUser(userId: number): Promise<ProjectSync[]> {
     return await db
       .select()
@@ -1152,6 +2260,21 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(projectSyncs.syncedAt));
   }
   
+  async getProjectSyncsByProject(projectId: number): Promise<ProjectSync[]> {
+    return await db
+      .select()
+      .from(projectSyncs)
+      .where(eq(projectSyncs.projectId, projectId))
+      .orderBy(desc(projectSyncs.version));
+  }
+  
+  async getProjectSyncsByStatus(status: ProjectSync["status"]): Promise<ProjectSync[]> {
+    return await db
+      .select()
+      .from(projectSyncs)
+      .where(eq(projectSyncs.status, status!));
+  }
+  
   async updateProjectSyncStatus(id: number, status: string, error?: string): Promise<ProjectSync | undefined> {
     const [updatedSync] = await db
       .update(projectSyncs)
@@ -1166,44 +2289,20 @@ export class DatabaseStorage implements IStorage {
   }
   
   async startProjectSync(projectId: number, userId: number): Promise<ProjectSync | undefined> {
-    // Check if there's an existing sync record
-    const existingSync = await this.getProjectSyncStatus(projectId);
-    
-    if (existingSync) {
-      // Update existing record
-      const [updatedSync] = await db
-        .update(projectSyncs)
-        .set({
-          status: 'syncing' as any,
-          syncedAt: new Date(),
-          lastError: null
-        })
-        .where(eq(projectSyncs.id, existingSync.id))
-        .returning();
-      return updatedSync;
-    } else {
-      // Create a new sync record
-      return this.createProjectSync({
-        projectId,
-        userId,
-        status: 'syncing',
-        version: 1,
-        cloudUrl: null,
-        syncHash: null,
-        metadata: null
-      });
-    }
+    // Every backup gets a new version so earlier ones can still be restored
+    const latestSync = await this.getLatestProjectSync(projectId);
+    return this.createProjectSync({
+      projectId,
+      userId,
+      status: 'syncing',
+      version: (latestSync?.version ?? 0) + 1,
+      cloudUrl: null,
+      syncHash: null,
+      metadata: null
+    });
   }
   
-  async completeProjectSync(id: number, cloudUrl: string, syncHash: string): Promise<ProjectSync | undefined> {
-    const sync = await db
-      .select()
-      .from(projectSyncs)
-      .where(eq(projectSyncs.id, id))
-      .then(rows => rows[0]);
-      
-    if (!sync) return undefined;
-    
+  async completeProjectSync(id: number, cloudUrl: string, syncHash: string, metadata?: string): Promise<ProjectSync | undefined> {
     const [updatedSync] = await db
       .update(projectSyncs)
       .set({
@@ -1211,7 +2310,7 @@ export class DatabaseStorage implements IStorage {
         syncedAt: new Date(),
         cloudUrl,
         syncHash,
-        version: sync.version + 1,
+        ...(metadata !== undefined ? { metadata } : {}),
         lastError: null
       })
       .where(eq(projectSyncs.id, id))
@@ -1230,6 +2329,472 @@ export class DatabaseStorage implements IStorage {
       
     return syncs.length > 0 ? syncs[0] : undefined;
   }
+  
+  // Collaborative document persistence
+  async addCollabDocUpdate(update: InsertCollabDocUpdate): Promise<CollabDocUpdate> {
+    const [newUpdate] = await db
+      .insert(collabDocUpdates)
+      .values({
+        ...update,
+        isSnapshot: update.isSnapshot ?? false,
+        createdAt: new Date()
+      })
+      .returning();
+    return newUpdate;
+  }
+  
+  async getCollabDocUpdates(key: CollabDocKey): Promise<CollabDocUpdate[]> {
+    return await db
+      .select()
+      .from(collabDocUpdates)
+      .where(collabDocUpdatesFor(key))
+      .orderBy(asc(collabDocUpdates.id));
+  }
+  
+  async compactCollabDocUpdates(key: CollabDocKey, snapshot: string, upToId: number): Promise<CollabDocUpdate> {
+    return await db.transaction(async (tx) => {
+      // The snapshot replaces every update it was built from; anything newer stays as-is
+      await tx
+        .delete(collabDocUpdates)
+        .where(
+          and(
+            collabDocUpdatesFor(key),
+            lte(collabDocUpdates.id, upToId)
+          )
+        );
+      
+      const [snapshotRow] = await tx
+        .insert(collabDocUpdates)
+        .values({
+          ...key,
+          update: snapshot,
+          isSnapshot: true,
+          createdAt: new Date()
+        })
+        .returning();
+      return snapshotRow;
+    });
+  }
+  
+  // Render job operations
+  async createRenderJob(job: InsertRenderJob): Promise<RenderJob> {
+    const [newJob] = await db
+      .insert(renderJobs)
+      .values({
+        ...job,
+        createdAt: new Date()
+      })
+      .returning();
+    return newJob;
+  }
+  
+  async getRenderJob(id: number): Promise<RenderJob | undefined> {
+    const [job] = await db.select().from(renderJobs).where(eq(renderJobs.id, id));
+    return job || undefined;
+  }
+  
+  async getRenderJobsByProject(projectId: number): Promise<RenderJob[]> {
+    return await db
+      .select()
+      .from(renderJobs)
+      .where(eq(renderJobs.projectId, projectId))
+      .orderBy(desc(renderJobs.id));
+  }
+  
+  async getUnfinishedRenderJobs(): Promise<RenderJob[]> {
+    return await db
+      .select()
+      .from(renderJobs)
+      .where(inArray(renderJobs.status, ['queued', 'rendering']))
+      .orderBy(asc(renderJobs.id));
+  }
+  
+  async updateRenderJob(id: number, jobData: Partial<RenderJob>): Promise<RenderJob | undefined> {
+    const [updatedJob] = await db
+      .update(renderJobs)
+      .set(jobData)
+      .where(eq(renderJobs.id, id))
+      .returning();
+    return updatedJob || undefined;
+  }
+  
+  // Project version history
+  async createProjectVersion(version: InsertProjectVersion): Promise<ProjectVersion> {
+    const [newVersion] = await db
+      .insert(projectVersions)
+      .values({
+        ...version,
+        createdAt: new Date()
+      })
+      .returning();
+    return newVersion;
+  }
+  
+  async getProjectVersion(id: number): Promise<ProjectVersion | undefined> {
+    const [version] = await db.select().from(projectVersions).where(eq(projectVersions.id, id));
+    return version || undefined;
+  }
+  
+  async getProjectVersionsByProject(projectId: number): Promise<ProjectVersion[]> {
+    return await db
+      .select()
+      .from(projectVersions)
+      .where(eq(projectVersions.projectId, projectId))
+      .orderBy(desc(projectVersions.version));
+  }
+  
+  // Verification document access log
+  async logVerificationDocAccess(entry: InsertVerificationDocAccessLog): Promise<VerificationDocAccessLog> {
+    const [logEntry] = await db
+      .insert(verificationDocAccessLogs)
+      .values({
+        ...entry,
+        accessedAt: new Date()
+      })
+      .returning();
+    return logEntry;
+  }
+  
+  async getVerificationDocAccessLogs(docId: number): Promise<VerificationDocAccessLog[]> {
+    return await db
+      .select()
+      .from(verificationDocAccessLogs)
+      .where(eq(verificationDocAccessLogs.docId, docId))
+      .orderBy(desc(verificationDocAccessLogs.accessedAt));
+  }
+  
+  // Verification decisions (append-only)
+  async addVerificationDecision(decision: InsertVerificationDecision): Promise<VerificationDecision> {
+    const [newDecision] = await db
+      .insert(verificationDecisions)
+      .values({
+        ...decision,
+        createdAt: new Date()
+      })
+      .returning();
+    return newDecision;
+  }
+  
+  async getVerificationDecisionsByUserId(userId: number): Promise<VerificationDecision[]> {
+    return await db
+      .select()
+      .from(verificationDecisions)
+      .where(eq(verificationDecisions.userId, userId))
+      .orderBy(asc(verificationDecisions.id));
+  }
+  
+  // Content reports and the moderation audit log
+  async createContentReport(report: InsertContentReport): Promise<ContentReport> {
+    const [newReport] = await db
+      .insert(contentReports)
+      .values({
+        ...report,
+        status: 'pending',
+        createdAt: new Date()
+      })
+      .returning();
+    return newReport;
+  }
+  
+  async getContentReport(id: number): Promise<ContentReport | undefined> {
+    const [report] = await db.select().from(contentReports).where(eq(contentReports.id, id));
+    return report || undefined;
+  }
+  
+  async getContentReports(filter: { status?: ContentReport["status"]; contentType?: ContentReport["contentType"] } = {}): Promise<ContentReport[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(contentReports.status, filter.status));
+    if (filter.contentType) conditions.push(eq(contentReports.contentType, filter.contentType));
+    
+    return await db
+      .select()
+      .from(contentReports)
+      .where(and(...conditions))
+      .orderBy(desc(contentReports.id));
+  }
+  
+  async getContentReportsForContent(contentType: ContentReport["contentType"], contentId: number): Promise<ContentReport[]> {
+    return await db
+      .select()
+      .from(contentReports)
+      .where(and(eq(contentReports.contentType, contentType), eq(contentReports.contentId, contentId)))
+      .orderBy(asc(contentReports.id));
+  }
+  
+  async updateContentReport(id: number, reportData: Partial<ContentReport>): Promise<ContentReport | undefined> {
+    const [updatedReport] = await db
+      .update(contentReports)
+      .set(reportData)
+      .where(eq(contentReports.id, id))
+      .returning();
+    return updatedReport || undefined;
+  }
+  
+  async addModerationAction(action: InsertModerationAction): Promise<ModerationAction> {
+    const [newAction] = await db
+      .insert(moderationActions)
+      .values({
+        ...action,
+        createdAt: new Date()
+      })
+      .returning();
+    return newAction;
+  }
+  
+  async getModerationActions(filter: { reportId?: number; targetUserId?: number; moderatorId?: number } = {}): Promise<ModerationAction[]> {
+    const conditions = [];
+    if (filter.reportId !== undefined) conditions.push(eq(moderationActions.reportId, filter.reportId));
+    if (filter.targetUserId !== undefined) conditions.push(eq(moderationActions.targetUserId, filter.targetUserId));
+    if (filter.moderatorId !== undefined) conditions.push(eq(moderationActions.moderatorId, filter.moderatorId));
+    
+    return await db
+      .select()
+      .from(moderationActions)
+      .where(and(...conditions))
+      .orderBy(desc(moderationActions.id));
+  }
+  
+  // Stripe webhook events already handled
+  async getProcessedStripeEvent(eventId: string): Promise<ProcessedStripeEvent | undefined> {
+    const [event] = await db.select().from(processedStripeEvents).where(eq(processedStripeEvents.eventId, eventId));
+    return event || undefined;
+  }
+  
+  // The unique eventId decides which of two concurrent deliveries of an event gets to handle it
+  async recordProcessedStripeEvent(event: InsertProcessedStripeEvent): Promise<ProcessedStripeEvent | undefined> {
+    const [processed] = await db
+      .insert(processedStripeEvents)
+      .values({
+        ...event,
+        processedAt: new Date()
+      })
+      .onConflictDoNothing({ target: processedStripeEvents.eventId })
+      .returning();
+    return processed || undefined;
+  }
+  
+  async deleteProcessedStripeEvent(eventId: string): Promise<void> {
+    await db.delete(processedStripeEvents).where(eq(processedStripeEvents.eventId, eventId));
+  }
+  
+  async recordEndedStripeSubscription(subscriptionId: string): Promise<void> {
+    await db
+      .insert(endedStripeSubscriptions)
+      .values({ subscriptionId, endedAt: new Date() })
+      .onConflictDoNothing({ target: endedStripeSubscriptions.subscriptionId });
+  }
+  
+  async isStripeSubscriptionEnded(subscriptionId: string): Promise<boolean> {
+    const [ended] = await db
+      .select({ id: endedStripeSubscriptions.id })
+      .from(endedStripeSubscriptions)
+      .where(eq(endedStripeSubscriptions.subscriptionId, subscriptionId));
+    return !!ended;
+  }
+  
+  // AI generation usage
+  // Locking the user's row makes parallel reservations for the same user take turns
+  async reserveAiGeneration(generation: InsertAiGeneration, since: Date, allowance: number): Promise<AiGeneration | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, generation.userId)).for('update');
+      
+      const [row] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(aiGenerations)
+        .where(and(eq(aiGenerations.userId, generation.userId), gte(aiGenerations.createdAt, since)));
+      if ((row?.count ?? 0) >= allowance) return undefined;
+      
+      const [reserved] = await tx
+        .insert(aiGenerations)
+        .values({
+          ...generation,
+          createdAt: new Date()
+        })
+        .returning();
+      return reserved;
+    });
+  }
+  
+  async releaseAiGeneration(id: number): Promise<void> {
+    await db.delete(aiGenerations).where(eq(aiGenerations.id, id));
+  }
+  
+  async countAiGenerationsSince(userId: number, since: Date): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(aiGenerations)
+      .where(and(eq(aiGenerations.userId, userId), gte(aiGenerations.createdAt, since)));
+    return row?.count ?? 0;
+  }
+  
+  // Fan subscriptions to athletes
+  async getAthleteSubscriptionTiers(athleteId: number): Promise<AthleteSubscriptionTier[]> {
+    return await db
+      .select()
+      .from(athleteSubscriptionTiers)
+      .where(eq(athleteSubscriptionTiers.athleteId, athleteId))
+      .orderBy(asc(athleteSubscriptionTiers.amount));
+  }
+  
+  async getAthleteSubscriptionTier(id: number): Promise<AthleteSubscriptionTier | undefined> {
+    const [tier] = await db.select().from(athleteSubscriptionTiers).where(eq(athleteSubscriptionTiers.id, id));
+    return tier || undefined;
+  }
+  
+  async createAthleteSubscriptionTier(tier: InsertAthleteSubscriptionTier): Promise<AthleteSubscriptionTier> {
+    const now = new Date();
+    const [newTier] = await db
+      .insert(athleteSubscriptionTiers)
+      .values({
+        ...tier,
+        createdAt: now,
+        updatedAt: now
+      })
+      .returning();
+    return newTier;
+  }
+  
+  async updateAthleteSubscriptionTier(id: number, tierData: Partial<AthleteSubscriptionTier>): Promise<AthleteSubscriptionTier | undefined> {
+    const [updatedTier] = await db
+      .update(athleteSubscriptionTiers)
+      .set({
+        ...tierData,
+        updatedAt: new Date()
+      })
+      .where(eq(athleteSubscriptionTiers.id, id))
+      .returning();
+    return updatedTier || undefined;
+  }
+  
+  async getFanSubscription(id: number): Promise<FanSubscription | undefined> {
+    const [subscription] = await db.select().from(fanSubscriptions).where(eq(fanSubscriptions.id, id));
+    return subscription || undefined;
+  }
+  
+  async getFanSubscriptionByStripeId(stripeSubscriptionId: string): Promise<FanSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(fanSubscriptions)
+      .where(eq(fanSubscriptions.stripeSubscriptionId, stripeSubscriptionId));
+    return subscription || undefined;
+  }
+  
+  async getFanSubscriptionsByFan(fanId: number): Promise<FanSubscription[]> {
+    return await db
+      .select()
+      .from(fanSubscriptions)
+      .where(eq(fanSubscriptions.fanId, fanId))
+      .orderBy(desc(fanSubscriptions.id));
+  }
+  
+  async getFanSubscriptionsByAthlete(athleteId: number): Promise<FanSubscription[]> {
+    return await db
+      .select()
+      .from(fanSubscriptions)
+      .where(eq(fanSubscriptions.athleteId, athleteId))
+      .orderBy(desc(fanSubscriptions.id));
+  }
+  
+  async createFanSubscription(subscription: InsertFanSubscription): Promise<FanSubscription> {
+    const now = new Date();
+    const [newSubscription] = await db
+      .insert(fanSubscriptions)
+      .values({
+        ...subscription,
+        createdAt: now,
+        updatedAt: now
+      })
+      .returning();
+    return newSubscription;
+  }
+  
+  async updateFanSubscription(id: number, subscriptionData: Partial<FanSubscription>): Promise<FanSubscription | undefined> {
+    const [updatedSubscription] = await db
+      .update(fanSubscriptions)
+      .set({
+        ...subscriptionData,
+        updatedAt: new Date()
+      })
+      .where(eq(fanSubscriptions.id, id))
+      .returning();
+    return updatedSubscription || undefined;
+  }
+  
+  // Earnings ledger
+  // The unique externalId decides which of two concurrent bookings of the same thing goes through
+  async createLedgerTransaction(transaction: InsertLedgerTransaction, entries: Omit<InsertLedgerEntry, 'transactionId'>[], options: LedgerTransactionOptions = {}): Promise<LedgerTransaction | undefined> {
+    const guard = options.nonNegativeBalance;
+    return await db.transaction(async (tx) => {
+      // Guarded bookings for the same user take turns, so each sees the balance the last one left
+      if (guard) {
+        await tx.select({ id: users.id }).from(users).where(eq(users.id, guard.userId)).for('update');
+      }
+      
+      const [newTransaction] = await tx
+        .insert(ledgerTransactions)
+        .values({
+          ...transaction,
+          createdAt: new Date()
+        })
+        .onConflictDoNothing({ target: ledgerTransactions.externalId })
+        .returning();
+      if (!newTransaction) return undefined;
+      if (guard) {
+        const [row] = await tx
+          .select({ balance: sql<string>`coalesce(sum(${ledgerEntries.amount}), 0)` })
+          .from(ledgerEntries)
+          .where(and(eq(ledgerEntries.account, guard.account), eq(ledgerEntries.userId, guard.userId)));
+        // Throwing rolls the transaction back
+        if (Number(row.balance) + balanceChange(entries, guard.account, guard.userId) < 0) {
+          throw new InsufficientBalanceError();
+        }
+      }
+      if (entries.length > 0) {
+        await tx.insert(ledgerEntries).values(entries.map(entry => ({ ...entry, transactionId: newTransaction.id })));
+      }
+      return newTransaction;
+    });
+  }
+  
+  async getLedgerTransactionByExternalId(externalId: string): Promise<LedgerTransaction | undefined> {
+    const [transaction] = await db.select().from(ledgerTransactions).where(eq(ledgerTransactions.externalId, externalId));
+    return transaction || undefined;
+  }
+  
+  async getLedgerEntries(account: LedgerAccount, userId: number, filter: { types?: LedgerTransactionType[]; limit?: number } = {}): Promise<LedgerEntryDetails[]> {
+    const conditions = [eq(ledgerEntries.account, account), eq(ledgerEntries.userId, userId)];
+    if (filter.types) conditions.push(inArray(ledgerTransactions.type, filter.types));
+    
+    const query = db
+      .select({ entry: ledgerEntries, transaction: ledgerTransactions })
+      .from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(and(...conditions))
+      .orderBy(desc(ledgerTransactions.id));
+    const rows = filter.limit !== undefined ? await query.limit(filter.limit) : await query;
+    return rows.map(({ entry, transaction }) => ({ ...entry, transaction }));
+  }
+  
+  async getLedgerTotals(account: LedgerAccount, userId: number, groupBy: LedgerGrouping, filter: { types?: LedgerTransactionType[]; since?: Date } = {}): Promise<LedgerTotal[]> {
+    const key = groupBy === 'month'
+      ? sql<string>`to_char(${ledgerTransactions.createdAt}, 'YYYY-MM')`
+      : groupBy === 'type'
+        ? sql<string>`${ledgerTransactions.type}::text`
+        : sql<string>`${ledgerTransactions.trackId}::text`;
+    const conditions = [eq(ledgerEntries.account, account), eq(ledgerEntries.userId, userId)];
+    if (filter.types) conditions.push(inArray(ledgerTransactions.type, filter.types));
+    if (filter.since) conditions.push(gte(ledgerTransactions.createdAt, filter.since));
+    if (groupBy === 'track') conditions.push(isNotNull(ledgerTransactions.trackId));
+    
+    const rows = await db
+      .select({ key, amount: sql<string>`sum(${ledgerEntries.amount})`, count: sql<number>`count(*)::int` })
+      .from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(and(...conditions))
+      .groupBy(key);
+    // Sums of integer columns come back as bigint strings
+    return rows.map(row => ({ key: row.key, amount: Number(row.amount), count: row.count }));
+  }
 }
 
 // Switch from in-memory to database storage
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type Stripe from "stripe";
+import { type User } from "@shared/schema";
+import { storage } from "./storage";
+import { handleStripeEvent } from "./stripeWebhooks";
+
+// Events as Stripe delivers them, trimmed to the fields the handler reads
+function event(id: string, type: string, object: object): Stripe.Event {
+  return { id, object: "event", type, data: { object } } as unknown as Stripe.Event;
+}
+
+function subscription(status: Stripe.Subscription.Status, tier = "silver") {
+  return {
+    id: "sub_1",
+    object: "subscription",
+    customer: "cus_1",
+    status,
+    metadata: {},
+    items: { data: [{ price: { id: "price_1", lookup_key: tier, metadata: {} } }] }
+  };
+}
+
+function tipCharge(athlete: User, fan: User, refunded = false) {
+  return {
+    id: "ch_tip",
+    object: "charge",
+    amount: 500,
+    status: "succeeded",
+    refunded,
+    customer: "cus_1",
+    invoice: null,
+    metadata: { tipAthleteId: athlete.id.toString(), fanId: fan.id.toString() }
+  };
+}
+
+async function athleteBalance(athlete: User): Promise<number> {
+  const totals = await storage.getLedgerTotals("athlete_earnings", athlete.id, "type");
+  return totals.reduce((sum, { amount }) => sum + amount, 0);
+}
+
+describe("handleStripeEvent", () => {
+  let fan: User;
+
+  beforeEach(async () => {
+    fan = await storage.createUser({ username: "fan", password: "x", email: "fan@example.com", fullName: "Fan" });
+    fan = (await storage.updateUser(fan.id, { stripeCustomerId: "cus_1" }))!;
+  });
+
+  it("moves the user onto the tier of an active subscription", async () => {
+    expect(await handleStripeEvent(event("evt_1", "customer.subscription.updated", subscription("active")))).toBe(true);
+
+    const user = await storage.getUser(fan.id);
+    expect(user).toMatchObject({ subscriptionTier: "silver", subscriptionStatus: "active", stripeSubscriptionId: "sub_1" });
+  });
+
+  it("skips an event it has handled before, whatever the redelivery says", async () => {
+    await handleStripeEvent(event("evt_1", "customer.subscription.updated", subscription("active")));
+
+    expect(await handleStripeEvent(event("evt_1", "customer.subscription.deleted", subscription("canceled")))).toBe(false);
+    expect((await storage.getUser(fan.id))?.subscriptionTier).toBe("silver");
+  });
+
+  it("handles concurrent deliveries of one event once", async () => {
+    const athlete = await storage.createUser({ username: "athlete", password: "x", email: "athlete@example.com", fullName: "Athlete", role: "athlete" });
+    const delivery = event("evt_tip", "charge.succeeded", tipCharge(athlete, fan));
+
+    const handled = await Promise.all([handleStripeEvent(delivery), handleStripeEvent(delivery)]);
+    expect(handled.sort()).toEqual([false, true]);
+    expect(await athleteBalance(athlete)).toBe(450000);
+  });
+
+  it("books a tip once when Stripe sends it under two event ids", async () => {
+    const athlete = await storage.createUser({ username: "athlete", password: "x", email: "athlete@example.com", fullName: "Athlete", role: "athlete" });
+
+    await handleStripeEvent(event("evt_a", "charge.succeeded", tipCharge(athlete, fan)));
+    await handleStripeEvent(event("evt_b", "charge.succeeded", tipCharge(athlete, fan)));
+    expect(await athleteBalance(athlete)).toBe(450000);
+
+    await handleStripeEvent(event("evt_c", "charge.refunded", tipCharge(athlete, fan, true)));
+    expect(await athleteBalance(athlete)).toBe(0);
+  });
+
+  it("lets a retry handle an event whose handling failed", async () => {
+    vi.spyOn(storage, "updateUser").mockRejectedValueOnce(new Error("Database unavailable"));
+    const delivery = event("evt_1", "customer.subscription.updated", subscription("active"));
+
+    await expect(handleStripeEvent(delivery)).rejects.toThrow("Database unavailable");
+    expect((await storage.getUser(fan.id))?.subscriptionTier).not.toBe("silver");
+
+    expect(await handleStripeEvent(delivery)).toBe(true);
+    expect((await storage.getUser(fan.id))?.subscriptionTier).toBe("silver");
+  });
+
+  it("takes the tier away when the subscription is deleted", async () => {
+    await handleStripeEvent(event("evt_1", "customer.subscription.updated", subscription("active")));
+    await handleStripeEvent(event("evt_2", "customer.subscription.deleted", subscription("canceled")));
+
+    expect(await storage.getUser(fan.id)).toMatchObject({ subscriptionTier: "none", stripeSubscriptionId: null });
+  });
+
+  it("doesn't bring back a subscription whose earlier events arrive after it was deleted", async () => {
+    await handleStripeEvent(event("evt_1", "customer.subscription.created", subscription("active")));
+    await handleStripeEvent(event("evt_3", "customer.subscription.deleted", subscription("canceled")));
+
+    await handleStripeEvent(event("evt_2", "customer.subscription.updated", subscription("active", "gold")));
+    await handleStripeEvent(event("evt_4", "invoice.paid", {
+      id: "in_1",
+      object: "invoice",
+      customer: "cus_1",
+      subscription: "sub_1",
+      lines: { data: [{ price: { id: "price_1", lookup_key: "gold", metadata: {} } }] }
+    }));
+
+    expect(await storage.getUser(fan.id)).toMatchObject({ subscriptionTier: "none", subscriptionStatus: "canceled", stripeSubscriptionId: null });
+  });
+
+  it("doesn't bring back a fan subscription to an athlete once it has ended", async () => {
+    const athlete = await storage.createUser({ username: "athlete", password: "x", email: "athlete@example.com", fullName: "Athlete", role: "athlete" });
+    const tier = await storage.createAthleteSubscriptionTier({ athleteId: athlete.id, name: "Locker Room", amount: 500 });
+    const fanSubscription = (status: Stripe.Subscription.Status) => ({
+      ...subscription(status),
+      current_period_end: 1767225600,
+      cancel_at_period_end: false,
+      metadata: { athleteTierId: tier.id.toString(), fanId: fan.id.toString() }
+    });
+
+    await handleStripeEvent(event("evt_1", "customer.subscription.created", fanSubscription("active")));
+    await handleStripeEvent(event("evt_3", "customer.subscription.deleted", fanSubscription("canceled")));
+    await handleStripeEvent(event("evt_2", "customer.subscription.updated", fanSubscription("active")));
+
+    expect(await storage.getFanSubscriptionByStripeId("sub_1")).toMatchObject({ status: "canceled" });
+  });
+});
@@ -0,0 +1,174 @@
+import type Stripe from "stripe";
+import { type User } from "@shared/schema";
+import { storage } from "./storage";
+import { ENDED_STATUSES, ENTITLED_STATUSES, parseTier, tierOfPrice, type PaidTier } from "./billing";
+import { athleteTierIdOf, syncFanSubscription } from "./fanSubscriptions";
+import { recordSubscriptionShare, recordTip, reverseTip, tipAthleteIdOf } from "./earnings";
+
+// Stripe tells us about renewals, failed payments, refunds and cancellations through webhook
+// events, and those decide users.subscriptionTier. Events are handled from their payload alone,
+// without calling back into Stripe, so fixture events work as well as live ones. Each event is
+// handled once: redeliveries are recognised by their id and skipped. Stripe doesn't deliver events
+// in order, so once a subscription has ended, anything that comes in about it later is ignored
+// rather than bringing its tier back. Fans' subscriptions to
+// athletes come through the same events and are told apart by their metadata; they only update
+// the fan subscription they belong to, and their payments, like tips, are booked as the athlete's
+// earnings.
+
+function subscriptionTier(subscription: Stripe.Subscription): PaidTier | undefined {
+  return tierOfPrice(subscription.items.data[0]?.price) ?? parseTier(subscription.metadata?.subscriptionTier);
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | undefined {
+  return typeof value === 'string' ? value : value?.id;
+}
+
+// The user an event is about: the Stripe customer, or the userId we put in the metadata
+async function findUser(customer: string | { id: string } | null, metadata?: Stripe.Metadata | null): Promise<User | undefined> {
+  const customerId = idOf(customer);
+  const byCustomer = customerId ? await storage.getUserByStripeCustomerId(customerId) : undefined;
+  if (byCustomer) return byCustomer;
+
+  const userId = Number(metadata?.userId);
+  return Number.isInteger(userId) ? storage.getUser(userId) : undefined;
+}
+
+// Bring the user's tier and status in line with one of their subscriptions
+export async function syncSubscription(subscription: Stripe.Subscription): Promise<void> {
+  const user = await findUser(subscription.customer, subscription.metadata);
+  if (!user) return;
+
+  const entitled = ENTITLED_STATUSES.includes(subscription.status);
+  // Subscriptions that don't grant anything only matter once they're the user's current one. This
+  // skips new ones that haven't been paid for yet, and older ones winding down after a switch.
+  if (!entitled && user.stripeSubscriptionId !== subscription.id) return;
+
+  await storage.updateUser(user.id, {
+    stripeCustomerId: user.stripeCustomerId ?? idOf(subscription.customer) ?? null,
+    stripeSubscriptionId: subscription.id,
+    subscriptionStatus: subscription.status,
+    subscriptionTier: entitled ? subscriptionTier(subscription) ?? user.subscriptionTier : 'none'
+  });
+}
+
+async function endSubscription(subscription: Stripe.Subscription): Promise<void> {
+  const user = await findUser(subscription.customer, subscription.metadata);
+  if (!user || (user.stripeSubscriptionId && user.stripeSubscriptionId !== subscription.id)) return;
+
+  await storage.updateUser(user.id, {
+    stripeSubscriptionId: null,
+    subscriptionStatus: subscription.status,
+    subscriptionTier: 'none'
+  });
+}
+
+// A paid invoice is a renewal (or the first payment) of the subscription it belongs to
+async function invoicePaid(invoice: Stripe.Invoice): Promise<void> {
+  if (athleteTierIdOf(invoice.subscription_details?.metadata)) {
+    return recordSubscriptionShare(invoice);
+  }
+  const subscriptionId = idOf(invoice.subscription);
+  const user = await findUser(invoice.customer, invoice.subscription_details?.metadata);
+  if (!subscriptionId || !user) return;
+  if (user.stripeSubscriptionId && user.stripeSubscriptionId !== subscriptionId) return;
+  if (await storage.isStripeSubscriptionEnded(subscriptionId)) return;
+
+  const tier = tierOfPrice(invoice.lines.data[0]?.price);
+  await storage.updateUser(user.id, {
+    stripeSubscriptionId: subscriptionId,
+    subscriptionStatus: 'active',
+    ...(tier ? { subscriptionTier: tier } : {})
+  });
+}
+
+// The tier stays until Stripe gives up retrying and the subscription changes status or ends
+async function invoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+  if (athleteTierIdOf(invoice.subscription_details?.metadata)) return;
+  const subscriptionId = idOf(invoice.subscription);
+  const user = await findUser(invoice.customer, invoice.subscription_details?.metadata);
+  if (!subscriptionId || !user || user.stripeSubscriptionId !== subscriptionId) return;
+
+  await storage.updateUser(user.id, { subscriptionStatus: 'past_due' });
+}
+
+// One-off tier purchases are charges outside any invoice, with the tier in their metadata
+function oneOffTier(charge: Stripe.Charge): PaidTier | undefined {
+  return charge.invoice ? undefined : parseTier(charge.metadata?.subscriptionTier);
+}
+
+async function chargeSucceeded(charge: Stripe.Charge): Promise<void> {
+  if (tipAthleteIdOf(charge.metadata)) {
+    return recordTip(charge);
+  }
+  const tier = oneOffTier(charge);
+  const user = tier && await findUser(charge.customer, charge.metadata);
+  if (!tier || !user) return;
+
+  await storage.updateUser(user.id, { subscriptionTier: tier });
+}
+
+// A fully refunded one-off purchase takes its tier back. Refunded subscription invoices are left
+// to the subscription's own events, since refunding one doesn't cancel the subscription.
+async function chargeRefunded(charge: Stripe.Charge): Promise<void> {
+  if (tipAthleteIdOf(charge.metadata)) {
+    return reverseTip(charge);
+  }
+  const tier = oneOffTier(charge);
+  if (!tier || !charge.refunded) return;
+
+  const user = await findUser(charge.customer, charge.metadata);
+  if (!user || user.stripeSubscriptionId || user.subscriptionTier !== tier) return;
+
+  await storage.updateUser(user.id, { subscriptionTier: 'none' });
+}
+
+async function handleEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object;
+      if (await storage.isStripeSubscriptionEnded(subscription.id)) break;
+
+      if (athleteTierIdOf(subscription.metadata)) {
+        await syncFanSubscription(subscription);
+      } else if (event.type === 'customer.subscription.deleted') {
+        await endSubscription(subscription);
+      } else {
+        await syncSubscription(subscription);
+      }
+      if (ENDED_STATUSES.includes(subscription.status)) {
+        await storage.recordEndedStripeSubscription(subscription.id);
+      }
+      break;
+    }
+    case 'invoice.paid':
+    case 'invoice.payment_succeeded':
+      await invoicePaid(event.data.object);
+      break;
+    case 'invoice.payment_failed':
+      await invoicePaymentFailed(event.data.object);
+      break;
+    case 'charge.succeeded':
+      await chargeSucceeded(event.data.object);
+      break;
+    case 'charge.refunded':
+      await chargeRefunded(event.data.object);
+      break;
+  }
+}
+
+// Handle a verified webhook event. Returns false if the event had been handled already. The event
+// is recorded before it's handled, so a redelivery racing the first delivery is skipped; if
+// handling fails the record is removed again and Stripe's retry gets another go.
+export async function handleStripeEvent(event: Stripe.Event): Promise<boolean> {
+  if (!await storage.recordProcessedStripeEvent({ eventId: event.id, type: event.type })) return false;
+
+  try {
+    await handleEvent(event);
+  } catch (error) {
+    await storage.deleteProcessedStripeEvent(event.id);
+    throw error;
+  }
+  return true;
+}
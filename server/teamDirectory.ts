@@ -0,0 +1,163 @@
+import { type User, type Team, type League } from "@shared/schema";
+import { storage } from "./storage";
+import { TEAM_DIRECTORY_SEED } from "./teamDirectorySeed";
+import { isAccountActive } from "./accountStatus";
+import { publicTrack, type PublicTrack } from "./trackProcessing";
+
+// Athletes pick their league and team from a directory instead of typing them, so the same team
+// isn't spread over several spellings. users.league and users.team keep the display names.
+
+// Fill an empty directory with the seed leagues and teams
+export async function seedTeamDirectory(): Promise<void> {
+  try {
+    if ((await storage.getLeagues()).length > 0) return;
+
+    for (const { teams, ...seedLeague } of TEAM_DIRECTORY_SEED) {
+      const league = await storage.createLeague(seedLeague);
+      for (const [name, city, abbreviation] of teams) {
+        await storage.createTeam({ leagueId: league.id, name, city, abbreviation });
+      }
+    }
+  } catch (error) {
+    console.error("Failed to seed the team directory:", error);
+  }
+}
+
+// Lowercase without accents, punctuation or spaces: "Montréal  Canadiens" -> "montrealcanadiens"
+export function normalizeDirectoryName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function leagueNames(league: League): string[] {
+  return [league.name, league.abbreviation].map(normalizeDirectoryName);
+}
+
+// Soccer club designators that are often left off
+const CLUB_DESIGNATOR = /\b(FC|SC|CF)\b/g;
+
+// Every way a team is commonly written: its full name, its abbreviation and the tail ends of its
+// name ("Red Wings", "Wings"), each with and without "FC" and the like
+function teamNames(team: Team): string[] {
+  const words = team.name.split(/\s+/);
+  const names = words.map((_, start) => words.slice(start).join(" "));
+  names.push(...names.map(name => name.replace(CLUB_DESIGNATOR, "")));
+  if (team.abbreviation) names.push(team.abbreviation);
+  return names.map(normalizeDirectoryName).filter(Boolean);
+}
+
+// Find the directory entries for a free-text league and team, as athletes used to type them.
+// Only an unambiguous match counts.
+export async function matchDirectoryEntry(leagueText: string | null, teamText: string | null): Promise<{ league?: League; team?: Team }> {
+  const leagues = await storage.getLeagues();
+  const wantedLeague = leagueText ? normalizeDirectoryName(leagueText) : "";
+  const league = wantedLeague ? leagues.find(candidate => leagueNames(candidate).includes(wantedLeague)) : undefined;
+
+  const wantedTeam = teamText ? normalizeDirectoryName(teamText) : "";
+  if (!wantedTeam) return { league };
+
+  const matches = (await storage.getTeams(league?.id)).filter(team => teamNames(team).includes(wantedTeam));
+  if (matches.length !== 1) return { league };
+
+  return { league: league ?? leagues.find(candidate => candidate.id === matches[0].leagueId), team: matches[0] };
+}
+
+function teamFields(team: Team, league: League | undefined): Partial<User> {
+  return { teamId: team.id, team: team.name, leagueId: team.leagueId, league: league?.name ?? null };
+}
+
+// The user fields to set for joining a team, or undefined if there's no such team
+export async function teamAssignment(teamId: number): Promise<Partial<User> | undefined> {
+  const team = await storage.getTeam(teamId);
+  if (!team) return undefined;
+
+  return teamFields(team, await storage.getLeague(team.leagueId));
+}
+
+// The user fields for a league and team submitted on a form: a directory team by id, or free
+// text for teams the directory doesn't have (linked up if it does match an entry after all).
+// Undefined if the team id doesn't exist; empty if nothing was submitted.
+export async function submittedTeamFields(input: { teamId?: unknown; league?: unknown; team?: unknown }): Promise<Partial<User> | undefined> {
+  if (input.teamId !== undefined && input.teamId !== "") {
+    const teamId = Number(input.teamId);
+    return Number.isInteger(teamId) ? teamAssignment(teamId) : undefined;
+  }
+
+  const leagueText = typeof input.league === "string" ? input.league.trim() : "";
+  const teamText = typeof input.team === "string" ? input.team.trim() : "";
+  if (!leagueText && !teamText) return {};
+
+  const { league, team } = await matchDirectoryEntry(leagueText, teamText);
+  if (team) return teamFields(team, league);
+  return {
+    leagueId: league?.id ?? null,
+    league: league?.name ?? (leagueText || null),
+    teamId: null,
+    team: teamText || null,
+  };
+}
+
+// Keep athletes' display names in step after a team or league is renamed
+export async function syncDirectoryNames(change: { team?: Team; league?: League }): Promise<void> {
+  if (change.team) {
+    const members = await storage.getUsersByTeam(change.team.id);
+    await Promise.all(members.map(member => storage.updateUser(member.id, { team: change.team!.name })));
+  }
+  if (change.league) {
+    const members = await storage.getUsersByLeague(change.league.id);
+    await Promise.all(members.map(member => storage.updateUser(member.id, { league: change.league!.name })));
+  }
+}
+
+// Link athletes who typed their league and team before the directory existed
+export async function linkUsersToDirectory(): Promise<void> {
+  try {
+    const athletes = await storage.getUsersByRole("athlete");
+    for (const athlete of athletes) {
+      if (athlete.teamId || (!athlete.league && !athlete.team)) continue;
+
+      const { league, team } = await matchDirectoryEntry(athlete.league, athlete.team);
+      if (team) {
+        await storage.updateUser(athlete.id, teamFields(team, league));
+      } else if (league && !athlete.leagueId) {
+        await storage.updateUser(athlete.id, { leagueId: league.id, league: league.name });
+      }
+    }
+  } catch (error) {
+    console.error("Failed to link athletes to the team directory:", error);
+  }
+}
+
+// What team and league pages show about an athlete
+export interface DirectoryAthlete {
+  id: number;
+  username: string;
+  fullName: string;
+  profileImage: string | null;
+  bio: string | null;
+  league: string | null;
+  team: string | null;
+  tracks: PublicTrack[];
+}
+
+// The verified athletes among `users` whose accounts are active, each with their published tracks
+export async function directoryAthletes(users: User[]): Promise<DirectoryAthlete[]> {
+  const verified = users.filter(user => user.role === "athlete" && user.verificationStatus === "approved" && isAccountActive(user));
+
+  return Promise.all(verified.map(async athlete => {
+    const tracks = await storage.getTracksByArtist(athlete.id);
+    return {
+      id: athlete.id,
+      username: athlete.username,
+      fullName: athlete.fullName,
+      profileImage: athlete.profileImage,
+      bio: athlete.bio,
+      league: athlete.league,
+      team: athlete.team,
+      tracks: tracks.filter(track => track.isPublished && track.processingStatus === "ready").map(publicTrack),
+    };
+  }));
+}
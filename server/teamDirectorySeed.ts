@@ -0,0 +1,246 @@
+// The leagues and teams the directory starts with. Teams are [full name, city, abbreviation].
+// Admins manage the directory through the API after that.
+
+export interface SeedLeague {
+  name: string;
+  abbreviation: string;
+  sport: string;
+  teams: [string, string, string][];
+}
+
+export const TEAM_DIRECTORY_SEED: SeedLeague[] = [
+  {
+    name: "National Basketball Association",
+    abbreviation: "NBA",
+    sport: "Basketball",
+    teams: [
+      ["Atlanta Hawks", "Atlanta", "ATL"],
+      ["Boston Celtics", "Boston", "BOS"],
+      ["Brooklyn Nets", "Brooklyn", "BKN"],
+      ["Charlotte Hornets", "Charlotte", "CHA"],
+      ["Chicago Bulls", "Chicago", "CHI"],
+      ["Cleveland Cavaliers", "Cleveland", "CLE"],
+      ["Dallas Mavericks", "Dallas", "DAL"],
+      ["Denver Nuggets", "Denver", "DEN"],
+      ["Detroit Pistons", "Detroit", "DET"],
+      ["Golden State Warriors", "San Francisco", "GSW"],
+      ["Houston Rockets", "Houston", "HOU"],
+      ["Indiana Pacers", "Indianapolis", "IND"],
+      ["LA Clippers", "Los Angeles", "LAC"],
+      ["Los Angeles Lakers", "Los Angeles", "LAL"],
+      ["Memphis Grizzlies", "Memphis", "MEM"],
+      ["Miami Heat", "Miami", "MIA"],
+      ["Milwaukee Bucks", "Milwaukee", "MIL"],
+      ["Minnesota Timberwolves", "Minneapolis", "MIN"],
+      ["New Orleans Pelicans", "New Orleans", "NOP"],
+      ["New York Knicks", "New York", "NYK"],
+      ["Oklahoma City Thunder", "Oklahoma City", "OKC"],
+      ["Orlando Magic", "Orlando", "ORL"],
+      ["Philadelphia 76ers", "Philadelphia", "PHI"],
+      ["Phoenix Suns", "Phoenix", "PHX"],
+      ["Portland Trail Blazers", "Portland", "POR"],
+      ["Sacramento Kings", "Sacramento", "SAC"],
+      ["San Antonio Spurs", "San Antonio", "SAS"],
+      ["Toronto Raptors", "Toronto", "TOR"],
+      ["Utah Jazz", "Salt Lake City", "UTA"],
+      ["Washington Wizards", "Washington", "WAS"],
+    ],
+  },
+  {
+    name: "Women's National Basketball Association",
+    abbreviation: "WNBA",
+    sport: "Basketball",
+    teams: [
+      ["Atlanta Dream", "Atlanta", "ATL"],
+      ["Chicago Sky", "Chicago", "CHI"],
+      ["Connecticut Sun", "Uncasville", "CON"],
+      ["Dallas Wings", "Arlington", "DAL"],
+      ["Golden State Valkyries", "San Francisco", "GSV"],
+      ["Indiana Fever", "Indianapolis", "IND"],
+      ["Las Vegas Aces", "Las Vegas", "LVA"],
+      ["Los Angeles Sparks", "Los Angeles", "LAS"],
+      ["Minnesota Lynx", "Minneapolis", "MIN"],
+      ["New York Liberty", "New York", "NYL"],
+      ["Phoenix Mercury", "Phoenix", "PHX"],
+      ["Portland Fire", "Portland", "POR"],
+      ["Seattle Storm", "Seattle", "SEA"],
+      ["Toronto Tempo", "Toronto", "TOR"],
+      ["Washington Mystics", "Washington", "WAS"],
+    ],
+  },
+  {
+    name: "National Football League",
+    abbreviation: "NFL",
+    sport: "Football",
+    teams: [
+      ["Arizona Cardinals", "Glendale", "ARI"],
+      ["Atlanta Falcons", "Atlanta", "ATL"],
+      ["Baltimore Ravens", "Baltimore", "BAL"],
+      ["Buffalo Bills", "Buffalo", "BUF"],
+      ["Carolina Panthers", "Charlotte", "CAR"],
+      ["Chicago Bears", "Chicago", "CHI"],
+      ["Cincinnati Bengals", "Cincinnati", "CIN"],
+      ["Cleveland Browns", "Cleveland", "CLE"],
+      ["Dallas Cowboys", "Arlington", "DAL"],
+      ["Denver Broncos", "Denver", "DEN"],
+      ["Detroit Lions", "Detroit", "DET"],
+      ["Green Bay Packers", "Green Bay", "GB"],
+      ["Houston Texans", "Houston", "HOU"],
+      ["Indianapolis Colts", "Indianapolis", "IND"],
+      ["Jacksonville Jaguars", "Jacksonville", "JAX"],
+      ["Kansas City Chiefs", "Kansas City", "KC"],
+      ["Las Vegas Raiders", "Las Vegas", "LV"],
+      ["Los Angeles Chargers", "Los Angeles", "LAC"],
+      ["Los Angeles Rams", "Los Angeles", "LAR"],
+      ["Miami Dolphins", "Miami", "MIA"],
+      ["Minnesota Vikings", "Minneapolis", "MIN"],
+      ["New England Patriots", "Foxborough", "NE"],
+      ["New Orleans Saints", "New Orleans", "NO"],
+      ["New York Giants", "East Rutherford", "NYG"],
+      ["New York Jets", "East Rutherford", "NYJ"],
+      ["Philadelphia Eagles", "Philadelphia", "PHI"],
+      ["Pittsburgh Steelers", "Pittsburgh", "PIT"],
+      ["San Francisco 49ers", "Santa Clara", "SF"],
+      ["Seattle Seahawks", "Seattle", "SEA"],
+      ["Tampa Bay Buccaneers", "Tampa", "TB"],
+      ["Tennessee Titans", "Nashville", "TEN"],
+      ["Washington Commanders", "Washington", "WAS"],
+    ],
+  },
+  {
+    name: "Major League Baseball",
+    abbreviation: "MLB",
+    sport: "Baseball",
+    teams: [
+      ["Arizona Diamondbacks", "Phoenix", "ARI"],
+      ["Athletics", "Sacramento", "ATH"],
+      ["Atlanta Braves", "Atlanta", "ATL"],
+      ["Baltimore Orioles", "Baltimore", "BAL"],
+      ["Boston Red Sox", "Boston", "BOS"],
+      ["Chicago Cubs", "Chicago", "CHC"],
+      ["Chicago White Sox", "Chicago", "CWS"],
+      ["Cincinnati Reds", "Cincinnati", "CIN"],
+      ["Cleveland Guardians", "Cleveland", "CLE"],
+      ["Colorado Rockies", "Denver", "COL"],
+      ["Detroit Tigers", "Detroit", "DET"],
+      ["Houston Astros", "Houston", "HOU"],
+      ["Kansas City Royals", "Kansas City", "KC"],
+      ["Los Angeles Angels", "Anaheim", "LAA"],
+      ["Los Angeles Dodgers", "Los Angeles", "LAD"],
+      ["Miami Marlins", "Miami", "MIA"],
+      ["Milwaukee Brewers", "Milwaukee", "MIL"],
+      ["Minnesota Twins", "Minneapolis", "MIN"],
+      ["New York Mets", "New York", "NYM"],
+      ["New York Yankees", "New York", "NYY"],
+      ["Philadelphia Phillies", "Philadelphia", "PHI"],
+      ["Pittsburgh Pirates", "Pittsburgh", "PIT"],
+      ["San Diego Padres", "San Diego", "SD"],
+      ["San Francisco Giants", "San Francisco", "SF"],
+      ["Seattle Mariners", "Seattle", "SEA"],
+      ["St. Louis Cardinals", "St. Louis", "STL"],
+      ["Tampa Bay Rays", "St. Petersburg", "TB"],
+      ["Texas Rangers", "Arlington", "TEX"],
+      ["Toronto Blue Jays", "Toronto", "TOR"],
+      ["Washington Nationals", "Washington", "WSH"],
+    ],
+  },
+  {
+    name: "National Hockey League",
+    abbreviation: "NHL",
+    sport: "Hockey",
+    teams: [
+      ["Anaheim Ducks", "Anaheim", "ANA"],
+      ["Boston Bruins", "Boston", "BOS"],
+      ["Buffalo Sabres", "Buffalo", "BUF"],
+      ["Calgary Flames", "Calgary", "CGY"],
+      ["Carolina Hurricanes", "Raleigh", "CAR"],
+      ["Chicago Blackhawks", "Chicago", "CHI"],
+      ["Colorado Avalanche", "Denver", "COL"],
+      ["Columbus Blue Jackets", "Columbus", "CBJ"],
+      ["Dallas Stars", "Dallas", "DAL"],
+      ["Detroit Red Wings", "Detroit", "DET"],
+      ["Edmonton Oilers", "Edmonton", "EDM"],
+      ["Florida Panthers", "Sunrise", "FLA"],
+      ["Los Angeles Kings", "Los Angeles", "LAK"],
+      ["Minnesota Wild", "Saint Paul", "MIN"],
+      ["Montréal Canadiens", "Montréal", "MTL"],
+      ["Nashville Predators", "Nashville", "NSH"],
+      ["New Jersey Devils", "Newark", "NJD"],
+      ["New York Islanders", "Elmont", "NYI"],
+      ["New York Rangers", "New York", "NYR"],
+      ["Ottawa Senators", "Ottawa", "OTT"],
+      ["Philadelphia Flyers", "Philadelphia", "PHI"],
+      ["Pittsburgh Penguins", "Pittsburgh", "PIT"],
+      ["San Jose Sharks", "San Jose", "SJS"],
+      ["Seattle Kraken", "Seattle", "SEA"],
+      ["St. Louis Blues", "St. Louis", "STL"],
+      ["Tampa Bay Lightning", "Tampa", "TBL"],
+      ["Toronto Maple Leafs", "Toronto", "TOR"],
+      ["Utah Mammoth", "Salt Lake City", "UTA"],
+      ["Vancouver Canucks", "Vancouver", "VAN"],
+      ["Vegas Golden Knights", "Las Vegas", "VGK"],
+      ["Washington Capitals", "Washington", "WSH"],
+      ["Winnipeg Jets", "Winnipeg", "WPG"],
+    ],
+  },
+  {
+    name: "Major League Soccer",
+    abbreviation: "MLS",
+    sport: "Soccer",
+    teams: [
+      ["Atlanta United FC", "Atlanta", "ATL"],
+      ["Austin FC", "Austin", "ATX"],
+      ["CF Montréal", "Montréal", "MTL"],
+      ["Charlotte FC", "Charlotte", "CLT"],
+      ["Chicago Fire FC", "Chicago", "CHI"],
+      ["Colorado Rapids", "Commerce City", "COL"],
+      ["Columbus Crew", "Columbus", "CLB"],
+      ["D.C. United", "Washington", "DC"],
+      ["FC Cincinnati", "Cincinnati", "CIN"],
+      ["FC Dallas", "Frisco", "DAL"],
+      ["Houston Dynamo FC", "Houston", "HOU"],
+      ["Inter Miami CF", "Fort Lauderdale", "MIA"],
+      ["LA Galaxy", "Carson", "LA"],
+      ["Los Angeles FC", "Los Angeles", "LAFC"],
+      ["Minnesota United FC", "Saint Paul", "MIN"],
+      ["Nashville SC", "Nashville", "NSH"],
+      ["New England Revolution", "Foxborough", "NE"],
+      ["New York City FC", "New York", "NYC"],
+      ["New York Red Bulls", "Harrison", "RBNY"],
+      ["Orlando City SC", "Orlando", "ORL"],
+      ["Philadelphia Union", "Chester", "PHI"],
+      ["Portland Timbers", "Portland", "POR"],
+      ["Real Salt Lake", "Sandy", "RSL"],
+      ["San Diego FC", "San Diego", "SD"],
+      ["San Jose Earthquakes", "San Jose", "SJ"],
+      ["Seattle Sounders FC", "Seattle", "SEA"],
+      ["Sporting Kansas City", "Kansas City", "SKC"],
+      ["St. Louis City SC", "St. Louis", "STL"],
+      ["Toronto FC", "Toronto", "TOR"],
+      ["Vancouver Whitecaps FC", "Vancouver", "VAN"],
+    ],
+  },
+  {
+    name: "National Women's Soccer League",
+    abbreviation: "NWSL",
+    sport: "Soccer",
+    teams: [
+      ["Angel City FC", "Los Angeles", "LA"],
+      ["Bay FC", "San Jose", "BAY"],
+      ["Boston Legacy FC", "Boston", "BOS"],
+      ["Chicago Stars FC", "Chicago", "CHI"],
+      ["Denver Summit FC", "Denver", "DEN"],
+      ["Houston Dash", "Houston", "HOU"],
+      ["Kansas City Current", "Kansas City", "KC"],
+      ["NJ/NY Gotham FC", "Harrison", "NJY"],
+      ["North Carolina Courage", "Cary", "NC"],
+      ["Orlando Pride", "Orlando", "ORL"],
+      ["Portland Thorns FC", "Portland", "POR"],
+      ["Racing Louisville FC", "Louisville", "LOU"],
+      ["San Diego Wave FC", "San Diego", "SD"],
+      ["Seattle Reign FC", "Seattle", "SEA"],
+      ["Utah Royals", "Sandy", "UTA"],
+      ["Washington Spirit", "Washington", "WAS"],
+    ],
+  },
+];
@@ -0,0 +1,22 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeEach } from "vitest";
+
+// Uploads, private files and backups are written relative to the working directory, so each test
+// file works in a directory of its own. Modules that resolve those paths when they load are only
+// imported after the move.
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "balltalk-test-"));
+process.chdir(workDir);
+afterAll(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+// Every test starts from an empty in-memory store in place of the database
+beforeEach(async () => {
+  const { storage, MemStorage } = await import("./storage");
+  const memStorage = new MemStorage();
+  for (const method of Object.getOwnPropertyNames(MemStorage.prototype)) {
+    if (method !== "constructor") {
+      (storage as any)[method] = (memStorage as any)[method].bind(memStorage);
+    }
+  }
+});
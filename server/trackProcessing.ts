@@ -0,0 +1,139 @@
+import { storage } from "./storage";
+import { type Track } from "@shared/schema";
+import { decodeAudioFile, encodeMp3, getDuration, type PcmAudio } from "./audioCodec";
+import { applyGain, applyLimiter, dbToGain, measureIntegratedLoudness } from "./audioDsp";
+import { computePeaks, saveWaveformPeaks } from "./waveformPeaks";
+import { resolveUploadUrl, saveGeneratedFile } from "./uploads";
+
+// Streams are normalized to the loudness most streaming services play at, with a peak ceiling
+// that leaves room for MP3 encoding overshoot
+export const STREAMING_LOUDNESS_TARGET = -14;
+const STREAMING_PEAK_CEILING = -1;
+
+// Bitrates (kbps) of the streaming renditions, highest first. The default is what plain
+// (non-HLS) playback streams.
+export const RENDITION_BITRATES = [256, 160, 96];
+export const DEFAULT_RENDITION_BITRATE = 160;
+
+// Stored as JSON in tracks.renditions
+export interface TrackRendition {
+  bitrate: number;
+  url: string;
+}
+
+// Once processed, a track plays through its streaming route rather than from its files
+export function trackStreamUrl(trackId: number): string {
+  return `/api/tracks/${trackId}/stream`;
+}
+
+// What the API sends about a track. Where its files are stays on the server: listeners play it
+// through the streaming routes, which check who may hear it.
+export type PublicTrack = Omit<Track, 'originalAudioUrl' | 'renditions' | 'peaksUrl'> & { hlsUrl: string | null };
+
+export function publicTrack(track: Track): PublicTrack {
+  const { originalAudioUrl, renditions, peaksUrl, ...fields } = track;
+  return {
+    ...fields,
+    audioUrl: trackStreamUrl(track.id),
+    hlsUrl: renditions ? `/api/tracks/${track.id}/hls/master.m3u8` : null
+  };
+}
+
+export function getTrackRenditions(track: Track): TrackRendition[] {
+  if (!track.renditions) return [];
+  try {
+    return JSON.parse(track.renditions);
+  } catch {
+    return [];
+  }
+}
+
+// Decoding and encoding are CPU heavy, so uploads are processed one at a time in the order they arrived
+const queue: number[] = [];
+let running = false;
+
+export function enqueueTrackProcessing(track: Track): void {
+  queue.push(track.id);
+  processQueue();
+}
+
+async function processQueue() {
+  if (running) return;
+  running = true;
+
+  try {
+    let trackId: number | undefined;
+    while ((trackId = queue.shift()) !== undefined) {
+      await processTrack(trackId);
+    }
+  } finally {
+    running = false;
+  }
+}
+
+async function decodeUpload(audioUrl: string): Promise<PcmAudio> {
+  const filePath = resolveUploadUrl(audioUrl);
+  if (!filePath) {
+    throw new Error("The uploaded file is missing");
+  }
+  try {
+    return await decodeAudioFile(filePath);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`The uploaded file could not be decoded as audio (${reason})`);
+  }
+}
+
+async function processTrack(trackId: number) {
+  try {
+    const track = await storage.getTrack(trackId);
+    if (!track || track.processingStatus === 'ready' || track.processingStatus === 'failed') return;
+
+    await storage.updateTrack(trackId, { processingStatus: 'processing', processingError: null });
+
+    const originalAudioUrl = track.originalAudioUrl ?? track.audioUrl;
+    const audio = await decodeUpload(originalAudioUrl);
+
+    const loudness = measureIntegratedLoudness(audio);
+    if (!Number.isFinite(loudness)) {
+      throw new Error("The uploaded audio is silent");
+    }
+
+    applyGain(audio, dbToGain(STREAMING_LOUDNESS_TARGET - loudness));
+    applyLimiter(audio, { threshold: STREAMING_PEAK_CEILING, release: 50 });
+
+    const renditions: TrackRendition[] = [];
+    for (const bitrate of RENDITION_BITRATES) {
+      const url = await saveGeneratedFile('streams', `track-${trackId}-${bitrate}k`, '.mp3', encodeMp3(audio, bitrate), track.artistId);
+      renditions.push({ bitrate, url });
+    }
+    const peaksUrl = await saveWaveformPeaks(computePeaks(audio), `track-${trackId}`, track.artistId);
+
+    await storage.updateTrack(trackId, {
+      processingStatus: 'ready',
+      processingError: null,
+      audioUrl: trackStreamUrl(trackId),
+      originalAudioUrl,
+      renditions: JSON.stringify(renditions),
+      peaksUrl,
+      loudness: Math.round(loudness * 10) / 10,
+      duration: Math.round(getDuration(audio))
+    });
+  } catch (error) {
+    console.error(`Processing track ${trackId} failed:`, error);
+    await storage.updateTrack(trackId, {
+      processingStatus: 'failed',
+      processingError: error instanceof Error ? error.message : String(error)
+    }).catch(updateError => console.error(`Failed to record track ${trackId} processing failure:`, updateError));
+  }
+}
+
+// Uploads that were waiting or mid-processing when the server stopped are picked up again on startup
+export async function resumeTrackProcessing(): Promise<void> {
+  try {
+    const tracks = await storage.getTracksByProcessingStatus(['pending', 'processing']);
+    tracks.forEach(enqueueTrackProcessing);
+  } catch (error) {
+    console.error('Failed to resume track processing:', error);
+  }
+}
@@ -0,0 +1,79 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import { createSilence, encodeWav } from "./audioCodec";
+import { uploadDir } from "./uploads";
+import { acceptUpload, sniffFileType, InvalidUploadError, type UploadedFile } from "./uploadValidation";
+
+let uploadCount = 0;
+
+// A file as multer leaves it in its temp directory
+async function tempUpload(data: Buffer | string, originalname: string): Promise<UploadedFile> {
+  const filePath = path.resolve(`upload-${++uploadCount}`);
+  await fs.writeFile(filePath, data);
+  return { path: filePath, size: Buffer.byteLength(data), originalname, fieldname: "file" };
+}
+
+function pdf(body: string): string {
+  return `%PDF-1.4\n1 0 obj << ${body} >> endobj\ntrailer << /Root 1 0 R >>\n%%EOF\n`;
+}
+
+const oneSecondWav = () => encodeWav(createSilence(44100, 2, 44100));
+
+const athlete = { id: 7, role: "athlete" as const };
+
+describe("sniffFileType", () => {
+  it("goes by the leading bytes, not the name", () => {
+    expect(sniffFileType(oneSecondWav())?.mimeType).toBe("audio/wav");
+    expect(sniffFileType(Buffer.from("%PDF-1.7"))?.mimeType).toBe("application/pdf");
+    expect(sniffFileType(Buffer.from("<html><script>"))).toBeUndefined();
+  });
+});
+
+describe("acceptUpload", () => {
+  it("moves valid audio into the uploader's folder", async () => {
+    const file = await tempUpload(oneSecondWav(), "song.mp3");
+
+    const accepted = await acceptUpload(file, "audio", athlete);
+    expect(accepted.mimeType).toBe("audio/wav");
+    expect(accepted.duration).toBeCloseTo(1, 1);
+    expect(accepted.url).toMatch(/^\/uploads\/audio\/7\/file-.+\.wav$/);
+    expect(accepted.filePath.startsWith(path.join(uploadDir, "audio", "7") + path.sep)).toBe(true);
+    await expect(fs.access(file.path)).rejects.toThrow();
+  });
+
+  it("rejects files that aren't what their name says", async () => {
+    const file = await tempUpload("<html><script>alert(1)</script></html>", "song.mp3");
+    await expect(acceptUpload(file, "audio", athlete)).rejects.toThrow(InvalidUploadError);
+  });
+
+  it("rejects a valid file of the wrong kind", async () => {
+    const file = await tempUpload(oneSecondWav(), "photo.png");
+    await expect(acceptUpload(file, "image", athlete)).rejects.toThrow(InvalidUploadError);
+  });
+
+  it("rejects truncated audio", async () => {
+    const file = await tempUpload(oneSecondWav().subarray(0, 40), "song.wav");
+    await expect(acceptUpload(file, "audio", athlete)).rejects.toThrow("The audio file is corrupt or unreadable");
+  });
+
+  it("rejects files over the role's size limit", async () => {
+    const file = await tempUpload(oneSecondWav(), "song.wav");
+    await expect(acceptUpload({ ...file, size: 60 * 1024 * 1024 }, "audio", { ...athlete, role: "fan" })).rejects.toThrow(InvalidUploadError);
+  });
+
+  it("keeps documents in private storage", async () => {
+    const file = await tempUpload(pdf("/Type /Catalog"), "id.pdf");
+
+    const accepted = await acceptUpload(file, "document", athlete);
+    expect(accepted.url).toMatch(/^private:verification\/7\//);
+    expect(accepted.filePath.startsWith(uploadDir)).toBe(false);
+  });
+
+  it("rejects PDFs with scripts or launch actions, however their names are spelled", async () => {
+    for (const body of ["/S /JavaScript /JS (app.alert(1))", "/S /J#61vaScript", "/S /#4C#61unch"]) {
+      const file = await tempUpload(pdf(body), "id.pdf");
+      await expect(acceptUpload(file, "document", athlete)).rejects.toThrow("PDFs with scripts or embedded actions are not accepted");
+    }
+  });
+});
@@ -0,0 +1,258 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import { type Request, type Response, type NextFunction } from "express";
+import { parseStream } from "music-metadata";
+import { type User } from "@shared/schema";
+import { reserveGeneratedFile, moveFile, type UploadFolder } from "./uploads";
+import { reservePrivateFile } from "./privateFiles";
+
+// Uploads land in a temp directory and are only moved into uploads/ once their content checks
+// out. Nothing about them is taken on trust from the client: the type is sniffed from the file's
+// leading bytes and the file is then parsed far enough to know it isn't corrupt or disguised.
+
+export type UploadKind = "audio" | "image" | "document";
+
+export class InvalidUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidUploadError";
+  }
+}
+
+interface UploadLimits {
+  audioBytes: number;
+  audioSeconds: number;
+  imageBytes: number;
+  documentBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+export const UPLOAD_LIMITS: Record<User["role"], UploadLimits> = {
+  fan: { audioBytes: 50 * MB, audioSeconds: 10 * 60, imageBytes: 5 * MB, documentBytes: 10 * MB },
+  athlete: { audioBytes: 200 * MB, audioSeconds: 20 * 60, imageBytes: 10 * MB, documentBytes: 20 * MB },
+  admin: { audioBytes: 500 * MB, audioSeconds: 60 * 60, imageBytes: 20 * MB, documentBytes: 50 * MB }
+};
+
+// The most any role may send of each kind, for multer's own limits
+export const MAX_AUDIO_UPLOAD_BYTES = Math.max(...Object.values(UPLOAD_LIMITS).map(limits => limits.audioBytes));
+export const MAX_FILE_UPLOAD_BYTES = Math.max(...Object.values(UPLOAD_LIMITS).map(limits => Math.max(limits.imageBytes, limits.documentBytes)));
+
+// Largest width or height accepted for images
+const MAX_IMAGE_DIMENSION = 10000;
+
+interface SniffedType {
+  kind: UploadKind;
+  mimeType: string;
+  extension: string;
+}
+
+const MP3: SniffedType = { kind: "audio", mimeType: "audio/mpeg", extension: ".mp3" };
+const WAV: SniffedType = { kind: "audio", mimeType: "audio/wav", extension: ".wav" };
+const FLAC: SniffedType = { kind: "audio", mimeType: "audio/flac", extension: ".flac" };
+const M4A: SniffedType = { kind: "audio", mimeType: "audio/mp4", extension: ".m4a" };
+const JPEG: SniffedType = { kind: "image", mimeType: "image/jpeg", extension: ".jpg" };
+const PNG: SniffedType = { kind: "image", mimeType: "image/png", extension: ".png" };
+const WEBP: SniffedType = { kind: "image", mimeType: "image/webp", extension: ".webp" };
+const PDF: SniffedType = { kind: "document", mimeType: "application/pdf", extension: ".pdf" };
+
+// MP4 brands that hold plain audio
+const M4A_BRANDS = ["M4A ", "M4B ", "mp42", "isom"];
+
+// Identify a file from its first bytes. Only formats the rest of the app can handle are recognised.
+export function sniffFileType(header: Buffer): SniffedType | undefined {
+  const ascii = (start: number, end: number) => header.toString("latin1", start, end);
+
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WAVE") return WAV;
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return WEBP;
+  if (ascii(0, 4) === "fLaC") return FLAC;
+  if (ascii(4, 8) === "ftyp" && M4A_BRANDS.includes(ascii(8, 12))) return M4A;
+  if (ascii(0, 3) === "ID3") return MP3;
+  // MPEG audio frame sync, but not an ADTS AAC header
+  if (header[0] === 0xff && (header[1] & 0xe0) === 0xe0 && (header[1] & 0x06) !== 0) return MP3;
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) return JPEG;
+  if (header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return PNG;
+  if (ascii(0, 5) === "%PDF-") return PDF;
+  return undefined;
+}
+
+// What each kind of upload may be. Verification documents can be scans or photos as well as PDFs.
+const ALLOWED_TYPES: Record<UploadKind, SniffedType[]> = {
+  audio: [MP3, WAV, FLAC, M4A],
+  image: [JPEG, PNG, WEBP],
+  document: [PDF, JPEG, PNG]
+};
+
+// Where accepted audio and images go. Documents are kept in private storage instead.
+const UPLOAD_FOLDERS: Record<Exclude<UploadKind, "document">, UploadFolder> = {
+  audio: "audio",
+  image: "images"
+};
+
+async function readHeader(filePath: string, length = 64): Promise<Buffer> {
+  const file = await fs.open(filePath, "r");
+  try {
+    const header = Buffer.alloc(length);
+    const { bytesRead } = await file.read(header, 0, length, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+// Duration in seconds of a well-formed audio file. It's parsed as the sniffed type, since temp
+// files have no extension to go on.
+async function checkAudio(filePath: string, type: SniffedType): Promise<number> {
+  let duration: number | undefined;
+  const { size } = await fs.stat(filePath);
+  const stream = createReadStream(filePath);
+  try {
+    ({ format: { duration } } = await parseStream(stream, { mimeType: type.mimeType, size }, { duration: true, skipCovers: true }));
+  } catch {
+    duration = undefined;
+  } finally {
+    stream.destroy();
+  }
+  if (!duration || !Number.isFinite(duration)) {
+    throw new InvalidUploadError("The audio file is corrupt or unreadable");
+  }
+  return duration;
+}
+
+function imageDimensions(data: Buffer, type: SniffedType): { width: number; height: number } | undefined {
+  if (type === PNG) {
+    if (data.length < 33 || data.toString("latin1", 12, 16) !== "IHDR") return undefined;
+    if (data.toString("latin1", data.length - 8, data.length - 4) !== "IEND") return undefined;
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (type === JPEG) {
+    if (data[data.length - 2] !== 0xff || data[data.length - 1] !== 0xd9) return undefined;
+    // Walk the marker segments to the start-of-frame, which holds the size
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+    return undefined;
+  }
+
+  if (type === WEBP) {
+    if (data.length < 30 || data.readUInt32LE(4) + 8 > data.length) return undefined;
+    const chunk = data.toString("latin1", 12, 16);
+    if (chunk === "VP8X") {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+    if (chunk === "VP8L" && data[20] === 0x2f) {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8 " && data[23] === 0x9d && data[24] === 0x01 && data[25] === 0x2a) {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    return undefined;
+  }
+
+  return undefined;
+}
+
+async function checkImage(filePath: string, type: SniffedType): Promise<void> {
+  const dimensions = imageDimensions(await fs.readFile(filePath), type);
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    throw new InvalidUploadError("The image is corrupt or unreadable");
+  }
+  if (dimensions.width > MAX_IMAGE_DIMENSION || dimensions.height > MAX_IMAGE_DIMENSION) {
+    throw new InvalidUploadError(`Images can be at most ${MAX_IMAGE_DIMENSION}px wide and high`);
+  }
+}
+
+// The names a PDF uses, with #xx escapes decoded: /J#61vaScript is /JavaScript
+function pdfNames(data: Buffer): Set<string> {
+  const names = data.toString("latin1").matchAll(/\/([^\s\/\[\]()<>{}%]*)/g);
+  return new Set(Array.from(names, ([, name]) =>
+    name.replace(/#([0-9a-fA-F]{2})/g, (_escape: string, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  ));
+}
+
+// PDFs must be complete, and may not carry scripts or launch actions. This is best-effort: names
+// inside compressed object streams aren't seen. Documents only ever go to private storage and are
+// opened by admins, never served to other users.
+async function checkPdf(filePath: string): Promise<void> {
+  const data = await fs.readFile(filePath);
+  if (!data.subarray(Math.max(0, data.length - 1024)).includes("%%EOF")) {
+    throw new InvalidUploadError("The PDF is incomplete or corrupt");
+  }
+  const names = pdfNames(data);
+  if (names.has("JavaScript") || names.has("Launch")) {
+    throw new InvalidUploadError("PDFs with scripts or embedded actions are not accepted");
+  }
+}
+
+export interface AcceptedUpload {
+  url: string; // A private file reference for documents
+  filePath: string;
+  mimeType: string;
+  duration?: number; // Audio only, in seconds
+}
+
+// The parts of a multer upload acceptUpload looks at. Files the server unpacks itself, like bundled
+// audio, are checked the same way.
+export type UploadedFile = Pick<Express.Multer.File, "path" | "size" | "originalname" | "fieldname">;
+
+// Check an uploaded file is what it should be and move it into the owner's folder of uploads/ (or
+// private storage for documents), named with the extension its content actually has. Audio and
+// images can go to another folder than their kind's usual one. Throws InvalidUploadError if the
+// file is rejected.
+export async function acceptUpload(file: UploadedFile, kind: UploadKind, owner: Pick<User, "id" | "role">, folder?: UploadFolder): Promise<AcceptedUpload> {
+  const limits = UPLOAD_LIMITS[owner.role];
+  const maxBytes = kind === "audio" ? limits.audioBytes : kind === "image" ? limits.imageBytes : limits.documentBytes;
+  if (file.size > maxBytes) {
+    throw new InvalidUploadError(`${file.originalname} is larger than the ${Math.round(maxBytes / MB)}MB limit`);
+  }
+
+  const type = sniffFileType(await readHeader(file.path));
+  if (!type || !ALLOWED_TYPES[kind].includes(type)) {
+    throw new InvalidUploadError(`${file.originalname} is not a supported ${kind} file`);
+  }
+
+  let duration: number | undefined;
+  if (type.kind === "audio") {
+    duration = await checkAudio(file.path, type);
+    if (duration > limits.audioSeconds) {
+      throw new InvalidUploadError(`Audio can be at most ${limits.audioSeconds / 60} minutes long`);
+    }
+  } else if (type.kind === "image") {
+    await checkImage(file.path, type);
+  } else {
+    await checkPdf(file.path);
+  }
+
+  let target: { filePath: string; url: string };
+  if (kind === "document") {
+    const { filePath, ref } = await reservePrivateFile("verification", file.fieldname, type.extension, owner.id);
+    target = { filePath, url: ref };
+  } else {
+    target = await reserveGeneratedFile(folder ?? UPLOAD_FOLDERS[kind], file.fieldname, type.extension, owner.id);
+  }
+  const { filePath, url } = target;
+  await moveFile(file.path, filePath);
+
+  return { url, filePath, mimeType: type.mimeType, duration };
+}
+
+// Remove a request's temp upload files once the response is done. Accepted files have been moved
+// already, so this only catches rejected ones and uploads a route never got to.
+export function cleanUpTempUploads(req: Request, res: Response, next: NextFunction) {
+  res.on("close", () => {
+    const files = req.file ? [req.file] : Array.isArray(req.files) ? req.files : Object.values(req.files ?? {}).flat();
+    files.forEach(file => {
+      fs.rm(file.path, { force: true }).catch(error => console.error(`Failed to remove upload ${file.path}:`, error));
+    });
+  });
+  next();
+}
@@ -0,0 +1,78 @@
+import path from "path";
+import fs from "fs/promises";
+
+// Everything users upload (and everything the server renders for them) lives under uploads/
+export const uploadDir = path.join(process.cwd(), "uploads");
+
+// Only the public folders are served from /uploads; everything else is only reachable through
+// routes that check access. "originals" holds tracks as uploaded, "streams" and "waveforms" their
+// transcoded audio and waveform peaks. "documents" and "quarantine" are where verification
+// documents used to go before they moved to private storage.
+export type UploadFolder = "audio" | "images" | "documents" | "exports" | "streams" | "waveforms" | "quarantine" | "originals";
+export const PUBLIC_UPLOAD_FOLDERS: UploadFolder[] = ["audio", "images"];
+
+// URL for a file stored in one of the upload folders
+export function uploadUrl(folder: UploadFolder, filename: string): string {
+  return `/uploads/${folder}/${filename}`;
+}
+
+// Map a /uploads/... URL back to its file on disk, refusing anything that escapes the upload directory
+export function resolveUploadUrl(url: string): string | undefined {
+  if (!url.startsWith("/uploads/")) return undefined;
+
+  const filePath = path.resolve(uploadDir, decodeURIComponent(url.slice("/uploads/".length)));
+  if (!filePath.startsWith(uploadDir + path.sep)) return undefined;
+
+  return filePath;
+}
+
+// Everything the server keeps for a user, whether they uploaded it or it was rendered for them,
+// goes in the user's own subfolder of its folder (e.g. audio/12/). That's what tells a user's
+// files apart from everyone else's when a project is rendered or exported, or an account erased.
+function ownerSubfolder(owner: number | undefined): string {
+  return owner === undefined ? "" : String(owner);
+}
+
+// The file behind a URL in one of `owner`'s own subfolders (of `folders`, or of any folder);
+// undefined for anything else
+export function resolveOwnedUploadUrl(url: string, owner: number, folders?: UploadFolder[]): string | undefined {
+  const filePath = resolveUploadUrl(url);
+  if (!filePath) return undefined;
+
+  const [folder, subfolder, ...file] = path.relative(uploadDir, filePath).split(path.sep);
+  if (subfolder !== String(owner) || file.length === 0) return undefined;
+  return !folders || folders.includes(folder as UploadFolder) ? filePath : undefined;
+}
+
+// The file behind a URL to `owner`'s own audio: what they uploaded to their projects, or the
+// originals of their tracks. Undefined for anything else.
+export function resolveOwnedAudioUrl(url: string, owner: number): string | undefined {
+  return resolveOwnedUploadUrl(url, owner, ["audio", "originals"]);
+}
+
+// Pick a unique file name in an upload folder for something the server is about to generate,
+// in `owner`'s own subfolder if given
+export async function reserveGeneratedFile(folder: UploadFolder, prefix: string, extension: string, owner?: number): Promise<{ filePath: string; url: string }> {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  const filename = path.posix.join(ownerSubfolder(owner), `${prefix}-${uniqueSuffix}${extension}`);
+
+  await fs.mkdir(path.join(uploadDir, folder, ownerSubfolder(owner)), { recursive: true });
+  return { filePath: path.join(uploadDir, folder, filename), url: uploadUrl(folder, filename) };
+}
+
+// Write a generated file into an upload folder under a unique name and return its public URL
+export async function saveGeneratedFile(folder: UploadFolder, prefix: string, extension: string, data: Buffer, owner?: number): Promise<string> {
+  const { filePath, url } = await reserveGeneratedFile(folder, prefix, extension, owner);
+  await fs.writeFile(filePath, data);
+  return url;
+}
+
+// Move a file, copying it when it's on another filesystem (as temp uploads can be)
+export async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.rename(from, to);
+  } catch {
+    await fs.copyFile(from, to);
+    await fs.rm(from, { force: true });
+  }
+}
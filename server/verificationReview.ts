@@ -0,0 +1,149 @@
+import { type User, type VerificationDoc, type VerificationDecision, type InsertVerificationDecision } from "@shared/schema";
+import { storage } from "./storage";
+
+// Admins decide on each verification document separately. The athlete's own status follows from
+// those outcomes, every decision is added to an audit trail, and the athlete gets a message.
+
+export type VerificationStatus = NonNullable<User["verificationStatus"]>;
+export type DocumentDecision = "approved" | "rejected";
+
+// An athlete is verified once any of their documents has been approved. Until then they're pending
+// while there's a document left to review or an admin is waiting on more, and rejected otherwise.
+export function deriveVerificationStatus(docs: VerificationDoc[], awaitingDocuments: boolean): VerificationStatus {
+  if (docs.some(doc => doc.status === 'approved')) return 'approved';
+  if (docs.some(doc => doc.status === 'pending')) return 'pending';
+  if (awaitingDocuments || docs.length === 0) return 'pending';
+  return 'rejected';
+}
+
+function isAwaitingDocuments(decisions: VerificationDecision[]): boolean {
+  return decisions[decisions.length - 1]?.decision === 'documents_requested';
+}
+
+// "drivers_license" -> "Drivers License", as the verification pages show document types
+function documentTypeName(documentType: string): string {
+  return documentType
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+async function updateStatus(userId: number, awaitingDocuments?: boolean): Promise<VerificationStatus> {
+  const docs = await storage.getVerificationDocsByUserId(userId);
+  const awaiting = awaitingDocuments ?? isAwaitingDocuments(await storage.getVerificationDecisionsByUserId(userId));
+  const status = deriveVerificationStatus(docs, awaiting);
+  await storage.updateVerificationStatus(userId, status);
+  return status;
+}
+
+// Bring an athlete's status up to date, e.g. after they've submitted another document
+export function refreshVerificationStatus(userId: number): Promise<VerificationStatus> {
+  return updateStatus(userId);
+}
+
+async function recordDecision(decision: InsertVerificationDecision, message: string): Promise<VerificationDecision> {
+  const recorded = await storage.addVerificationDecision(decision);
+  await storage.createMessage({ senderId: decision.reviewerId, receiverId: decision.userId, content: message });
+  return recorded;
+}
+
+function statusSummary(status: VerificationStatus): string {
+  switch (status) {
+    case 'approved':
+      return "Your athlete account is verified.";
+    case 'rejected':
+      return "Your verification was not approved. You can submit new documents from the verification page.";
+    default:
+      return "Your verification is still in review.";
+  }
+}
+
+// Approve or reject a single document
+export async function reviewVerificationDoc(
+  doc: VerificationDoc,
+  reviewer: User,
+  decision: DocumentDecision,
+  reason?: string
+): Promise<{ doc: VerificationDoc; status: VerificationStatus; decision: VerificationDecision }> {
+  const updatedDoc = await storage.updateVerificationDoc(doc.id, { status: decision, notes: reason ?? null });
+  if (!updatedDoc) {
+    throw new Error(`Verification document ${doc.id} no longer exists`);
+  }
+
+  const status = await updateStatus(doc.userId, false);
+  const outcome = decision === 'approved'
+    ? `Your ${documentTypeName(doc.documentType)} was approved.`
+    : `Your ${documentTypeName(doc.documentType)} was not accepted${reason ? `: ${reason}` : "."}`;
+
+  const recorded = await recordDecision({
+    userId: doc.userId,
+    docId: doc.id,
+    reviewerId: reviewer.id,
+    decision,
+    reason: reason ?? null,
+    resultingStatus: status
+  }, `${outcome} ${statusSummary(status)}`);
+
+  return { doc: updatedDoc, status, decision: recorded };
+}
+
+// Decide on every document an athlete has waiting, as when an admin reviews the whole application
+export async function reviewPendingVerificationDocs(
+  athlete: User,
+  reviewer: User,
+  decision: DocumentDecision,
+  reason?: string
+): Promise<{ docs: VerificationDoc[]; status: VerificationStatus }> {
+  const pending = (await storage.getVerificationDocsByUserId(athlete.id)).filter(doc => doc.status === 'pending');
+
+  const docs: VerificationDoc[] = [];
+  for (const doc of pending) {
+    const updatedDoc = await storage.updateVerificationDoc(doc.id, { status: decision, notes: reason ?? null });
+    if (updatedDoc) docs.push(updatedDoc);
+  }
+
+  const status = await updateStatus(athlete.id, false);
+  const names = docs.map(doc => documentTypeName(doc.documentType)).join(", ");
+  const outcome = docs.length === 0
+    ? ""
+    : decision === 'approved'
+      ? `Your documents were approved (${names}).`
+      : `Your documents were not accepted (${names})${reason ? `: ${reason}` : "."}`;
+
+  for (const doc of docs) {
+    await storage.addVerificationDecision({
+      userId: athlete.id,
+      docId: doc.id,
+      reviewerId: reviewer.id,
+      decision,
+      reason: reason ?? null,
+      resultingStatus: status
+    });
+  }
+  await storage.createMessage({ senderId: reviewer.id, receiverId: athlete.id, content: `${outcome} ${statusSummary(status)}`.trim() });
+
+  return { docs, status };
+}
+
+// Ask an athlete for more documents. They stay pending until the new ones have been reviewed.
+export async function requestVerificationDocuments(
+  athlete: User,
+  reviewer: User,
+  documentTypes: string[],
+  reason?: string
+): Promise<{ status: VerificationStatus; decision: VerificationDecision }> {
+  const status = await updateStatus(athlete.id, true);
+  const wanted = documentTypes.map(documentTypeName).join(", ");
+
+  const recorded = await recordDecision({
+    userId: athlete.id,
+    docId: null,
+    reviewerId: reviewer.id,
+    decision: 'documents_requested',
+    reason: reason ?? null,
+    requestedDocumentTypes: JSON.stringify(documentTypes),
+    resultingStatus: status
+  }, `To complete your verification, please submit: ${wanted}.${reason ? ` ${reason}` : ""}`);
+
+  return { status, decision: recorded };
+}
@@ -0,0 +1,208 @@
+import fs from "fs/promises";
+import { type ProjectTrack } from "@shared/schema";
+import { storage } from "./storage";
+import { type PcmAudio } from "./audioCodec";
+import { loadProjectAudio } from "./mixdown";
+import { resolveUploadUrl, saveGeneratedFile } from "./uploads";
+
+// Waveform peaks at several zoom levels, from a whole-track overview (zoom 0) to fine detail for a
+// zoomed-in timeline. Each level has 4x the resolution of the one before, so coarser levels are
+// built from finer ones. The client mirrors this list in lib/waveform-peaks.ts.
+export const WAVEFORM_PEAKS_PER_SECOND = [2, 8, 32, 128, 512];
+
+// Peaks are stored as min/max pairs of signed bytes, which is plenty for drawing
+export interface PeakLevel {
+  peaksPerSecond: number;
+  data: Int8Array; // Interleaved min, max
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  length: number; // In frames
+  levels: PeakLevel[];
+}
+
+// Binary layout, little-endian:
+//   "BTPK", version (u8), level count (u8), 2 reserved bytes, sample rate (u32), length (u32),
+//   then per level its peaks per second (u32) and peak count (u32), then each level's min/max pairs
+const PEAKS_MAGIC = "BTPK";
+const PEAKS_VERSION = 1;
+const HEADER_SIZE = 16;
+const LEVEL_ENTRY_SIZE = 8;
+
+// Number of points in the overview stored in projectTracks.waveformData, as the studio draws it
+const OVERVIEW_POINTS = 200;
+
+function toInt8(sample: number): number {
+  return Math.round(Math.max(-1, Math.min(1, sample)) * 127);
+}
+
+function finestLevel(audio: PcmAudio, peaksPerSecond: number): Int8Array {
+  const length = audio.channels[0].length;
+  const count = Math.ceil(length * peaksPerSecond / audio.sampleRate);
+  const data = new Int8Array(count * 2);
+
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor(i * audio.sampleRate / peaksPerSecond);
+    const end = Math.min(length, Math.floor((i + 1) * audio.sampleRate / peaksPerSecond));
+    let min = 0;
+    let max = 0;
+    for (const channel of audio.channels) {
+      for (let s = start; s < end; s++) {
+        if (channel[s] < min) min = channel[s];
+        if (channel[s] > max) max = channel[s];
+      }
+    }
+    data[i * 2] = toInt8(min);
+    data[i * 2 + 1] = toInt8(max);
+  }
+
+  return data;
+}
+
+// Merge every `factor` peaks of a finer level into one
+function coarsenLevel(finer: Int8Array, factor: number): Int8Array {
+  const finerCount = finer.length / 2;
+  const count = Math.ceil(finerCount / factor);
+  const data = new Int8Array(count * 2);
+
+  for (let i = 0; i < count; i++) {
+    let min = 0;
+    let max = 0;
+    for (let j = i * factor; j < Math.min(finerCount, (i + 1) * factor); j++) {
+      min = Math.min(min, finer[j * 2]);
+      max = Math.max(max, finer[j * 2 + 1]);
+    }
+    data[i * 2] = min;
+    data[i * 2 + 1] = max;
+  }
+
+  return data;
+}
+
+export function computePeaks(audio: PcmAudio): WaveformPeaks {
+  const finestRate = WAVEFORM_PEAKS_PER_SECOND[WAVEFORM_PEAKS_PER_SECOND.length - 1];
+  const levels: PeakLevel[] = [{ peaksPerSecond: finestRate, data: finestLevel(audio, finestRate) }];
+
+  for (let i = WAVEFORM_PEAKS_PER_SECOND.length - 2; i >= 0; i--) {
+    const finer = levels[0];
+    const peaksPerSecond = WAVEFORM_PEAKS_PER_SECOND[i];
+    levels.unshift({ peaksPerSecond, data: coarsenLevel(finer.data, finer.peaksPerSecond / peaksPerSecond) });
+  }
+
+  return { sampleRate: audio.sampleRate, length: audio.channels[0].length, levels };
+}
+
+export function encodePeaks(peaks: WaveformPeaks): Buffer {
+  const tableSize = peaks.levels.length * LEVEL_ENTRY_SIZE;
+  const dataSize = peaks.levels.reduce((size, level) => size + level.data.length, 0);
+  const buffer = Buffer.alloc(HEADER_SIZE + tableSize + dataSize);
+
+  buffer.write(PEAKS_MAGIC, 0, "ascii");
+  buffer.writeUInt8(PEAKS_VERSION, 4);
+  buffer.writeUInt8(peaks.levels.length, 5);
+  buffer.writeUInt32LE(peaks.sampleRate, 8);
+  buffer.writeUInt32LE(peaks.length, 12);
+
+  let offset = HEADER_SIZE + tableSize;
+  peaks.levels.forEach((level, index) => {
+    buffer.writeUInt32LE(level.peaksPerSecond, HEADER_SIZE + index * LEVEL_ENTRY_SIZE);
+    buffer.writeUInt32LE(level.data.length / 2, HEADER_SIZE + index * LEVEL_ENTRY_SIZE + 4);
+    Buffer.from(level.data.buffer, level.data.byteOffset, level.data.length).copy(buffer, offset);
+    offset += level.data.length;
+  });
+
+  return buffer;
+}
+
+export function decodePeaks(buffer: Buffer): WaveformPeaks {
+  if (buffer.length < HEADER_SIZE || buffer.toString("ascii", 0, 4) !== PEAKS_MAGIC) {
+    throw new Error("Not a waveform peaks file");
+  }
+  if (buffer.readUInt8(4) !== PEAKS_VERSION) {
+    throw new Error(`Unsupported waveform peaks version ${buffer.readUInt8(4)}`);
+  }
+
+  const levelCount = buffer.readUInt8(5);
+  const levels: PeakLevel[] = [];
+  let offset = HEADER_SIZE + levelCount * LEVEL_ENTRY_SIZE;
+  for (let i = 0; i < levelCount; i++) {
+    const peaksPerSecond = buffer.readUInt32LE(HEADER_SIZE + i * LEVEL_ENTRY_SIZE);
+    const count = buffer.readUInt32LE(HEADER_SIZE + i * LEVEL_ENTRY_SIZE + 4);
+    levels.push({ peaksPerSecond, data: new Int8Array(buffer.subarray(offset, offset + count * 2)) });
+    offset += count * 2;
+  }
+
+  return { sampleRate: buffer.readUInt32LE(8), length: buffer.readUInt32LE(12), levels };
+}
+
+// A normalized 0-1 amplitude overview, in the shape the studio stores in projectTracks.waveformData
+export function overviewWaveform(peaks: WaveformPeaks, points = OVERVIEW_POINTS): number[] {
+  const finest = peaks.levels[peaks.levels.length - 1].data;
+  const count = finest.length / 2;
+  const amplitudes: number[] = [];
+
+  for (let i = 0; i < points; i++) {
+    let amplitude = 0;
+    for (let j = Math.floor(i * count / points); j < Math.floor((i + 1) * count / points); j++) {
+      amplitude = Math.max(amplitude, -finest[j * 2], finest[j * 2 + 1]);
+    }
+    amplitudes.push(amplitude);
+  }
+
+  const max = Math.max(...amplitudes) || 1;
+  return amplitudes.map(amplitude => Math.round(amplitude / max * 1000) / 1000);
+}
+
+export async function saveWaveformPeaks(peaks: WaveformPeaks, prefix: string, owner: number): Promise<string> {
+  return saveGeneratedFile('waveforms', prefix, '.peaks', encodePeaks(peaks), owner);
+}
+
+// The stored peaks file, or just one zoom level of it. Undefined if there's no such zoom level.
+export async function readWaveformPeaks(peaksUrl: string, zoom?: number): Promise<Buffer | undefined> {
+  const filePath = resolveUploadUrl(peaksUrl);
+  if (!filePath) {
+    throw new Error(`Invalid waveform location: ${peaksUrl}`);
+  }
+
+  const buffer = await fs.readFile(filePath);
+  if (zoom === undefined) return buffer;
+
+  const peaks = decodePeaks(buffer);
+  const level = peaks.levels[zoom];
+  if (!level) return undefined;
+  return encodePeaks({ ...peaks, levels: [level] });
+}
+
+// Project track peaks are generated one at a time in the background. Asking for a track that's
+// already queued waits for that generation instead of starting another.
+const generating = new Map<number, Promise<ProjectTrack | undefined>>();
+let generationQueue: Promise<unknown> = Promise.resolve();
+
+export function generateProjectTrackPeaks(track: ProjectTrack): Promise<ProjectTrack | undefined> {
+  let generation = generating.get(track.id);
+  if (!generation) {
+    generation = generationQueue
+      .then(() => runProjectTrackPeaks(track.id))
+      .finally(() => generating.delete(track.id));
+    generationQueue = generation.catch(() => undefined);
+    generating.set(track.id, generation);
+  }
+  return generation;
+}
+
+async function runProjectTrackPeaks(trackId: number): Promise<ProjectTrack | undefined> {
+  const track = await storage.getProjectTrack(trackId);
+  if (!track || track.peaksUrl) return track;
+  const project = await storage.getStudioProject(track.projectId);
+  if (!project) return track;
+
+  const peaks = computePeaks(await loadProjectAudio(track, project.userId));
+  const peaksUrl = await saveWaveformPeaks(peaks, `project-track-${trackId}`, project.userId);
+
+  // Keep an overview the studio already computed for itself
+  return storage.updateProjectTrack(trackId, {
+    peaksUrl,
+    waveformData: track.waveformData ?? JSON.stringify(overviewWaveform(peaks)),
+  });
+}
@@ -0,0 +1,14 @@
+// web-audio-api ships without type definitions; only its decoder helper is used on the server
+declare module 'web-audio-api/lib/utils' {
+  interface DecodedAudioBuffer {
+    sampleRate: number;
+    length: number;
+    numberOfChannels: number;
+    getChannelData(channel: number): Float32Array;
+  }
+
+  export function decodeAudioData(
+    data: Buffer,
+    done: (error: Error | null, audioBuffer?: DecodedAudioBuffer) => void
+  ): void;
+}
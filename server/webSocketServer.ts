@@ -1,26 +1,86 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { Server, type IncomingMessage } from 'http';
+import { type Duplex } from 'stream';
 import * as Y from 'yjs';
 import { storage } from './storage';
+import { getUserFromRequest } from './auth';
+import { openPersistedDoc, closePersistedDoc, compactOpenDocs } from './collabPersistence';
+import { parseSyncRoom, setupSyncConnection } from './yjsSync';
+import { canAccessProject } from './liveSessions';
+import { accountRestriction } from './accountStatus';
+import { type User } from '@shared/schema';
 
-// Map to store active document collections by studioSessionId
-const documents = new Map<number, Y.Doc>();
+// How often open documents get their stored update log compacted
+const COMPACT_INTERVAL_MS = 5 * 60 * 1000;
 // Map to store active connections by studioSessionId
 const sessionConnections = new Map<number, Map<number, WebSocket>>();
 // Map to store user data by connection
 const connectionUsers = new Map<WebSocket, { userId: number, username: string }>();
 
 export function setupWebSocketServer(httpServer: Server) {
-  // Create WebSocket server on a specific path to avoid conflicts with Vite's HMR
+  // Upgrades are handled manually below so they can be authenticated first
   const wss = new WebSocketServer({ 
-    server: httpServer, 
-    path: '/ws',
+    noServer: true,
     perMessageDeflate: false, // Disable compression for simplicity
     clientTracking: true // Track connected clients
   });
   
+  // Only take over upgrades on /ws to avoid conflicts with Vite's HMR.
+  // /ws carries the JSON session protocol, /ws/<room> the binary y-websocket protocol.
+  httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    if (pathname !== '/ws' && !pathname.startsWith('/ws/')) return;
+    
+    getUserFromRequest(request)
+      .then(async user => {
+        if (!user) {
+          rejectUpgrade(socket, 401, 'Unauthorized');
+          return;
+        }
+        if (accountRestriction(user)) {
+          rejectUpgrade(socket, 403, 'Forbidden');
+          return;
+        }
+        
+        if (pathname === '/ws') {
+          wss.handleUpgrade(request, socket, head, (ws) => {
+            wss.emit('connection', ws, request, user);
+          });
+          return;
+        }
+        
+        const projectId = parseSyncRoom(decodeURIComponent(pathname.slice('/ws/'.length)));
+        if (projectId === undefined) {
+          rejectUpgrade(socket, 404, 'Not Found');
+          return;
+        }
+        
+        const project = await storage.getStudioProject(projectId);
+        if (!project) {
+          rejectUpgrade(socket, 404, 'Not Found');
+          return;
+        }
+        if (!(await canAccessProject(user, project))) {
+          rejectUpgrade(socket, 403, 'Forbidden');
+          return;
+        }
+        
+        wss.handleUpgrade(request, socket, head, (ws) => {
+          setupSyncConnection(ws, projectId);
+        });
+      })
+      .catch(error => {
+        console.error('Error authenticating WebSocket upgrade:', error);
+        rejectUpgrade(socket, 500, 'Internal Server Error');
+      });
+  });
+  
   console.log('WebSocket server set up on path /ws');
   
+  const compactionTimer = setInterval(compactOpenDocs, COMPACT_INTERVAL_MS);
+  compactionTimer.unref();
+  wss.on('close', () => clearInterval(compactionTimer));
+  
   // Log server info
   httpServer.on('listening', () => {
     const addr = httpServer.address();
@@ -28,13 +88,26 @@ export function setupWebSocketServer(httpServer: Server) {
     console.log(`WebSocket server available on port ${port}`);
   });
 
-  wss.on('connection', (ws: WebSocket) => {
+  wss.on('connection', (ws: WebSocket, _request: IncomingMessage, user: User) => {
     console.log('WebSocket connection received');
     
+    // The identity comes from the session cookie, never from client messages
+    const userInfo = { userId: user.id, username: user.username };
+    connectionUsers.set(ws, userInfo);
+    
     ws.on('message', async (message: Buffer) => {
       try {
         const data = JSON.parse(message.toString());
         
+        // Everything except joining requires the sender to be in the session it targets
+        if (data.type !== 'join-session' && !isInSession(ws, data.sessionId)) {
+          ws.send(JSON.stringify({
+            type: 'error',
+            message: 'Not joined to this session'
+          }));
+          return;
+        }
+        
         switch (data.type) {
           case 'join-session':
             handleJoinSession(ws, data);
@@ -46,41 +119,55 @@ export function setupWebSocketServer(httpServer: Server) {
             
           case 'track-control':
             broadcastToSession(data.sessionId, {
-              ...data,
-              // Ensure we don't pass any extra data
               type: 'track-control',
-              userId: data.userId,
-              username: data.username,
+              userId: userInfo.userId,
+              username: userInfo.username,
               action: data.action,
               trackId: data.trackId,
               position: data.position
             }, ws);
             break;
             
-          case 'track-comment':
+          case 'track-comment': {
+            const comment = {
+              ...data.comment,
+              userId: userInfo.userId,
+              username: userInfo.username
+            };
+            
+            // Comments can only go on tracks of a project in this session
+            if (!(await isSessionTrack(data.sessionId, Number(comment.projectTrackId)))) {
+              ws.send(JSON.stringify({
+                type: 'error',
+                message: 'Track not found in this session'
+              }));
+              break;
+            }
+            
             broadcastToSession(data.sessionId, {
               type: 'track-comment',
-              comment: data.comment
+              comment
             }, ws);
             
             // Also save comment to database
             try {
               await storage.addTrackComment({
-                userId: data.comment.userId,
-                projectTrackId: data.comment.projectTrackId,
-                content: data.comment.content,
-                timestamp: new Date(data.comment.timestamp)
+                userId: userInfo.userId,
+                projectTrackId: Number(comment.projectTrackId),
+                content: comment.content,
+                timestamp: Number(comment.timestamp) || 0
               });
             } catch (error) {
               console.error('Failed to save track comment:', error);
             }
             break;
+          }
             
           case 'chat-message':
             broadcastToSession(data.sessionId, {
               type: 'chat-message',
-              userId: data.userId,
-              username: data.username,
+              userId: userInfo.userId,
+              username: userInfo.username,
               message: data.message,
               timestamp: data.timestamp
             }, ws);
@@ -89,13 +176,14 @@ export function setupWebSocketServer(httpServer: Server) {
           case 'sync':
             // Y.js sync - update the shared document
             if (data.sessionId && data.update) {
-              const doc = getOrCreateSessionDoc(data.sessionId);
-              Y.applyUpdate(doc, new Uint8Array(data.update));
+              const doc = await getSessionDoc(data.sessionId);
+              const update = new Uint8Array(data.update);
+              Y.applyUpdate(doc, update);
               
-              // Broadcast update to all other clients
+              // Relay just this update to all other clients, not the whole document
               broadcastToSession(data.sessionId, {
                 type: 'sync',
-                update: Array.from(Y.encodeStateAsUpdate(doc))
+                update: Array.from(update)
               }, ws);
             }
             break;
@@ -116,15 +204,8 @@ export function setupWebSocketServer(httpServer: Server) {
       if (userInfo) {
         // Find which session this user was in
         sessionConnections.forEach((connections, sessionId) => {
-          if (connections.has(userInfo.userId)) {
-            // Remove from connections
-            connections.delete(userInfo.userId);
-            // Notify others
-            broadcastToSession(sessionId, {
-              type: 'user-left',
-              userId: userInfo.userId,
-              username: userInfo.username
-            });
+          if (connections.get(userInfo.userId) === ws) {
+            removeParticipant(sessionId, userInfo.userId, userInfo.username);
           }
         });
         
@@ -139,9 +220,23 @@ export function setupWebSocketServer(httpServer: Server) {
   
   // Handle join session request
   async function handleJoinSession(ws: WebSocket, data: any) {
-    const { sessionId, sessionCode, userId, username } = data;
+    const { sessionId, sessionCode } = data;
+    const userInfo = connectionUsers.get(ws);
+    if (!userInfo) return;
+    const { userId, username } = userInfo;
     
     try {
+      // The account may have been restricted since the connection was opened
+      const user = await storage.getUser(userId);
+      if (!user || accountRestriction(user)) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          message: 'Account is not active'
+        }));
+        ws.close();
+        return;
+      }
+      
       // Verify session exists and code matches
       const session = await storage.getLiveSessionByCode(sessionCode);
       
@@ -156,7 +251,6 @@ export function setupWebSocketServer(httpServer: Server) {
       // Store user connection
       let sessionConnections = getOrCreateSessionConnections(sessionId);
       sessionConnections.set(userId, ws);
-      connectionUsers.set(ws, { userId, username });
       
       // Get current collaborators
       const collaborators = Array.from(sessionConnections.entries())
@@ -172,8 +266,8 @@ export function setupWebSocketServer(httpServer: Server) {
         })
         .filter(Boolean);
       
-      // Create or get session document
-      const doc = getOrCreateSessionDoc(sessionId);
+      // Load the session document, rehydrating it from the database for the first participant
+      const doc = await getSessionDoc(sessionId);
       
       // Send confirmation to the client who joined
       ws.send(JSON.stringify({
@@ -208,22 +302,41 @@ export function setupWebSocketServer(httpServer: Server) {
   
   // Handle leave session request
   function handleLeaveSession(ws: WebSocket, data: any) {
-    const { sessionId, userId } = data;
     const userInfo = connectionUsers.get(ws);
     
     if (!userInfo) return;
     
+    removeParticipant(data.sessionId, userInfo.userId, userInfo.username);
+  }
+  
+  // Check that this connection is the one registered for its user in the given session
+  function isInSession(ws: WebSocket, sessionId: number): boolean {
+    const userInfo = connectionUsers.get(ws);
+    if (!userInfo) return false;
+    
+    return sessionConnections.get(sessionId)?.get(userInfo.userId) === ws;
+  }
+  
+  // Remove a user from a session, and take the session off-air once nobody is left in it
+  function removeParticipant(sessionId: number, userId: number, username: string) {
     const connections = sessionConnections.get(sessionId);
-    if (connections) {
-      connections.delete(userId);
-      
+    if (!connections || !connections.delete(userId)) return;
+    
+    if (connections.size > 0) {
       // Notify others that user left
       broadcastToSession(sessionId, {
         type: 'user-left',
         userId,
-        username: userInfo.username
+        username
       });
+      return;
     }
+    
+    sessionConnections.delete(sessionId);
+    closePersistedDoc({ sessionId });
+    storage.endLiveSession(sessionId).catch(error => {
+      console.error('Failed to end live session:', error);
+    });
   }
   
   // Broadcast message to all clients in a session except the sender
@@ -240,12 +353,17 @@ export function setupWebSocketServer(httpServer: Server) {
     });
   }
   
-  // Get or create a Y.js document for a session
-  function getOrCreateSessionDoc(sessionId: number): Y.Doc {
-    if (!documents.has(sessionId)) {
-      documents.set(sessionId, new Y.Doc());
-    }
-    return documents.get(sessionId)!;
+  async function isSessionTrack(sessionId: number, projectTrackId: number): Promise<boolean> {
+    const track = Number.isInteger(projectTrackId) ? await storage.getProjectTrack(projectTrackId) : undefined;
+    if (!track) return false;
+    
+    const project = await storage.getStudioProject(track.projectId);
+    return !!project && project.sessionId === sessionId;
+  }
+  
+  // Get the Y.js document for a session, loading its persisted state on first use
+  function getSessionDoc(sessionId: number): Promise<Y.Doc> {
+    return openPersistedDoc({ sessionId });
   }
   
   // Get or create a connections map for a session
@@ -257,4 +375,9 @@ export function setupWebSocketServer(httpServer: Server) {
   }
   
   return wss;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
 }
\ No newline at end of file
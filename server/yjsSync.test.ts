@@ -0,0 +1,54 @@
+import { EventEmitter } from "events";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { WebSocket } from "ws";
+import { type StudioProject } from "@shared/schema";
+import { storage } from "./storage";
+import { isPersistedDocOpen } from "./collabPersistence";
+import { setupSyncConnection } from "./yjsSync";
+
+// Just enough of a socket for the sync server to talk to
+class FakeSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  binaryType = "nodebuffer";
+  send = vi.fn();
+  ping = vi.fn();
+  close = vi.fn(() => {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    this.emit("close");
+  });
+}
+
+const connect = (socket: FakeSocket, project: StudioProject) => setupSyncConnection(socket as unknown as WebSocket, project.id);
+const nextTurn = () => new Promise(resolve => setImmediate(resolve));
+
+describe("setupSyncConnection", () => {
+  let project: StudioProject;
+
+  beforeEach(async () => {
+    const owner = await storage.createUser({ username: "owner", password: "x", email: "owner@example.com", fullName: "Owner", role: "athlete" });
+    project = await storage.createStudioProject({ userId: owner.id, title: "Game Day" });
+  });
+
+  it("releases the document when the socket closed while it was loading", async () => {
+    const socket = new FakeSocket();
+    const connecting = connect(socket, project);
+    socket.close();
+    await connecting;
+    await nextTurn();
+
+    expect(isPersistedDocOpen({ projectId: project.id })).toBe(false);
+  });
+
+  it("keeps the document for others who were waiting for it", async () => {
+    const [leaving, staying] = [new FakeSocket(), new FakeSocket()];
+    const connecting = [connect(leaving, project), connect(staying, project)];
+    leaving.close();
+    await Promise.all(connecting);
+    await nextTurn();
+    expect(isPersistedDocOpen({ projectId: project.id })).toBe(true);
+
+    staying.close();
+    await vi.waitFor(() => expect(isPersistedDocOpen({ projectId: project.id })).toBe(false));
+  });
+});
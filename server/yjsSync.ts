@@ -0,0 +1,243 @@
+import { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { openPersistedDoc, closePersistedDoc } from './collabPersistence';
+
+// Message types of the y-websocket protocol
+const messageSync = 0;
+const messageAwareness = 1;
+const messageQueryAwareness = 3;
+
+// Drop connections that stop answering pings
+const PING_INTERVAL_MS = 30000;
+
+// A shared project document plus the clients editing it
+interface SyncRoom {
+  projectId: number;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  // Awareness client ids controlled by each connection, removed again when it closes
+  connections: Map<WebSocket, Set<number>>;
+}
+
+const rooms = new Map<number, SyncRoom>();
+const openingRooms = new Map<number, Promise<SyncRoom>>();
+
+// StudioCollaboration connects to /ws/studio-<projectId>
+export function parseSyncRoom(roomName: string): number | undefined {
+  const match = /^studio-(\d+)$/.exec(roomName);
+  return match ? parseInt(match[1]) : undefined;
+}
+
+function getRoom(projectId: number): Promise<SyncRoom> {
+  const room = rooms.get(projectId);
+  if (room) return Promise.resolve(room);
+
+  let opening = openingRooms.get(projectId);
+  if (!opening) {
+    opening = openPersistedDoc({ projectId })
+      .then(doc => {
+        const newRoom = createRoom(projectId, doc);
+        rooms.set(projectId, newRoom);
+        return newRoom;
+      })
+      .finally(() => openingRooms.delete(projectId));
+    openingRooms.set(projectId, opening);
+  }
+  return opening;
+}
+
+function createRoom(projectId: number, doc: Y.Doc): SyncRoom {
+  const awareness = new awarenessProtocol.Awareness(doc);
+  // The server doesn't take part in presence itself
+  awareness.setLocalState(null);
+
+  const room: SyncRoom = { projectId, doc, awareness, connections: new Map() };
+
+  // Forward each document change as a diff to everyone except the client it came from
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, messageSync);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder), origin);
+  });
+
+  awareness.on('update', (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    const controlledIds = room.connections.get(origin as WebSocket);
+    if (controlledIds) {
+      added.forEach(clientId => controlledIds.add(clientId));
+      removed.forEach(clientId => controlledIds.delete(clientId));
+    }
+
+    const changedClients = added.concat(updated, removed);
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, messageAwareness);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changedClients));
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  return room;
+}
+
+function broadcast(room: SyncRoom, message: Uint8Array, exclude?: unknown) {
+  room.connections.forEach((_, ws) => {
+    if (ws !== exclude) {
+      send(room, ws, message);
+    }
+  });
+}
+
+function send(room: SyncRoom, ws: WebSocket, message: Uint8Array) {
+  if (ws.readyState !== WebSocket.OPEN) {
+    closeConnection(room, ws);
+    return;
+  }
+
+  ws.send(message, (error) => {
+    if (error) closeConnection(room, ws);
+  });
+}
+
+function closeConnection(room: SyncRoom, ws: WebSocket) {
+  const controlledIds = room.connections.get(ws);
+  if (controlledIds) {
+    room.connections.delete(ws);
+    awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(controlledIds), null);
+    releaseRoomIfUnused(room);
+  }
+  ws.close();
+}
+
+// Persist and release the document once the last editor leaves
+function releaseRoomIfUnused(room: SyncRoom) {
+  if (room.connections.size === 0 && rooms.get(room.projectId) === room) {
+    rooms.delete(room.projectId);
+    room.awareness.destroy();
+    closePersistedDoc({ projectId: room.projectId });
+  }
+}
+
+function handleMessage(room: SyncRoom, ws: WebSocket, message: Uint8Array) {
+  const encoder = encoding.createEncoder();
+  const decoder = decoding.createDecoder(message);
+  const messageType = decoding.readVarUint(decoder);
+
+  switch (messageType) {
+    case messageSync:
+      encoding.writeVarUint(encoder, messageSync);
+      // Step 1 is answered with a step 2 holding only what the client is missing;
+      // updates are applied with the connection as origin so they aren't echoed back
+      syncProtocol.readSyncMessage(decoder, encoder, room.doc, ws);
+      if (encoding.length(encoder) > 1) {
+        send(room, ws, encoding.toUint8Array(encoder));
+      }
+      break;
+
+    case messageAwareness:
+      awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), ws);
+      break;
+
+    case messageQueryAwareness:
+      encoding.writeVarUint(encoder, messageAwareness);
+      encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(
+        room.awareness,
+        Array.from(room.awareness.getStates().keys())
+      ));
+      send(room, ws, encoding.toUint8Array(encoder));
+      break;
+  }
+}
+
+// Attach an authenticated socket to a project's room and speak the y-websocket protocol on it
+export async function setupSyncConnection(ws: WebSocket, projectId: number) {
+  ws.binaryType = 'arraybuffer';
+
+  // Hold on to messages that arrive while the document is still loading
+  const queuedMessages: Uint8Array[] = [];
+  let room: SyncRoom | undefined;
+
+  ws.on('message', (data: ArrayBuffer, isBinary: boolean) => {
+    // Only binary frames belong to the protocol
+    if (!isBinary) return;
+
+    const message = new Uint8Array(data);
+    if (!room) {
+      queuedMessages.push(message);
+      return;
+    }
+
+    try {
+      handleMessage(room, ws, message);
+    } catch (error) {
+      console.error('Error processing sync message:', error);
+    }
+  });
+
+  try {
+    room = await getRoom(projectId);
+  } catch (error) {
+    console.error('Failed to open collaborative document:', error);
+    ws.close(1011, 'Failed to load document');
+    return;
+  }
+
+  const currentRoom = room;
+  if (ws.readyState !== WebSocket.OPEN) {
+    // The socket closed while the document was loading. Other connections that were waiting for
+    // the same room join it right after this one, so only check whether it's unused after that.
+    setImmediate(() => releaseRoomIfUnused(currentRoom));
+    return;
+  }
+  currentRoom.connections.set(ws, new Set());
+
+  // Terminate connections that stop responding
+  let alive = true;
+  ws.on('pong', () => {
+    alive = true;
+  });
+  const pingTimer = setInterval(() => {
+    if (!alive) {
+      closeConnection(currentRoom, ws);
+      clearInterval(pingTimer);
+      return;
+    }
+    alive = false;
+    ws.ping();
+  }, PING_INTERVAL_MS);
+
+  ws.on('close', () => {
+    clearInterval(pingTimer);
+    closeConnection(currentRoom, ws);
+  });
+
+  // Start the handshake: send our state vector so the client replies with only what we're missing
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, messageSync);
+  syncProtocol.writeSyncStep1(encoder, currentRoom.doc);
+  send(currentRoom, ws, encoding.toUint8Array(encoder));
+
+  const awarenessStates = currentRoom.awareness.getStates();
+  if (awarenessStates.size > 0) {
+    const awarenessEncoder = encoding.createEncoder();
+    encoding.writeVarUint(awarenessEncoder, messageAwareness);
+    encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(
+      currentRoom.awareness,
+      Array.from(awarenessStates.keys())
+    ));
+    send(currentRoom, ws, encoding.toUint8Array(awarenessEncoder));
+  }
+
+  for (const message of queuedMessages.splice(0)) {
+    try {
+      handleMessage(currentRoom, ws, message);
+    } catch (error) {
+      console.error('Error processing sync message:', error);
+    }
+  }
+}
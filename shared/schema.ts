@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, pgEnum } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,6 +7,8 @@ export const userRoleEnum = pgEnum('user_role', ['fan', 'athlete', 'admin']);
 export const verificationStatusEnum = pgEnum('verification_status', ['pending', 'approved', 'rejected']);
 export const subscriptionTierEnum = pgEnum('subscription_tier', ['bronze', 'silver', 'gold', 'none']);
 export const trackGenreEnum = pgEnum('track_genre', ['hip-hop', 'r&b', 'pop', 'rock', 'electronic', 'other']);
+export const trackProcessingStatusEnum = pgEnum('track_processing_status', ['pending', 'processing', 'ready', 'failed']);
+export const accountStatusEnum = pgEnum('account_status', ['active', 'suspended', 'banned', 'deleted']);
 
 // Users table
 export const users = pgTable("users", {
@@ -22,10 +24,35 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
   verificationStatus: verificationStatusEnum("verification_status").default('pending'),
   subscriptionTier: subscriptionTierEnum("subscription_tier").default('none'),
-  league: text("league"),
+  league: text("league"), // Display names, kept in step with leagueId and teamId when those are set
   team: text("team"),
+  leagueId: integer("league_id").references(() => leagues.id),
+  teamId: integer("team_id").references(() => teams.id),
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
+  subscriptionStatus: text("subscription_status"), // Stripe's status for stripeSubscriptionId, e.g. "active" or "past_due"
+  accountStatus: accountStatusEnum("account_status").notNull().default('active'), // See server/accountStatus.ts
+  suspendedUntil: timestamp("suspended_until"), // Suspensions lift by themselves after this
+  statusReason: text("status_reason"), // Why the account was suspended or banned
+  deletedAt: timestamp("deleted_at"), // Soft deletion; the account can still be restored or erased
+});
+
+// Directory of leagues and their teams that athletes pick from
+export const leagues = pgTable("leagues", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  abbreviation: text("abbreviation").notNull().unique(),
+  sport: text("sport").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const teams = pgTable("teams", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull().references(() => leagues.id),
+  name: text("name").notNull(), // Full name, e.g. "Detroit Pistons"
+  city: text("city"),
+  abbreviation: text("abbreviation"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Verification documents for athletes
@@ -52,6 +79,14 @@ export const tracks = pgTable("tracks", {
   plays: integer("plays").default(0),
   description: text("description"),
   isPublished: boolean("is_published").default(false),
+  originalAudioUrl: text("original_audio_url"), // The file as uploaded; audioUrl points at the track's stream once processed
+  processingStatus: trackProcessingStatusEnum("processing_status").notNull().default('ready'),
+  processingError: text("processing_error"),
+  loudness: real("loudness"), // Integrated loudness of the upload in LUFS, before normalization
+  renditions: text("renditions"), // Stored as JSON string: the normalized streaming encodes by bitrate
+  peaksUrl: text("peaks_url"), // Multi-resolution waveform peaks, see server/waveformPeaks.ts
+  isExclusive: boolean("is_exclusive").notNull().default(false), // Only plans with exclusive content can play it
+  subscriberOnly: boolean("subscriber_only").notNull().default(false), // Only the artist's fan subscribers can play it
 });
 
 // Messages between users
@@ -79,6 +114,7 @@ export const studioSessions = pgTable("studio_sessions", {
   collaborators: text("collaborators"),
   isLive: boolean("is_live").default(false),
   sessionCode: text("session_code"),
+  sessionCodeExpiresAt: timestamp("session_code_expires_at"),
 });
 
 // Project files for studio sessions
@@ -102,11 +138,13 @@ export const projectTracks = pgTable("project_tracks", {
   name: text("name").notNull(),
   audioUrl: text("audio_url").notNull(),
   waveformData: text("waveform_data"),
+  peaksUrl: text("peaks_url"), // Multi-resolution waveform peaks, see server/waveformPeaks.ts
   position: integer("position").default(0),
   muted: boolean("muted").default(false),
   solo: boolean("solo").default(false),
   volume: integer("volume").default(100),
   pan: integer("pan").default(0),
+  effects: text("effects"), // Stored as JSON string, same shape as the studio's TrackEffects
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -152,15 +190,198 @@ export const projectSyncs = pgTable("project_syncs", {
   lastError: text("last_error"), // Last error message if sync failed
 });
 
+// Incremental Y.js updates for collaborative documents, stored base64-encoded.
+// A document belongs to either a live studio session or a project; snapshot rows
+// hold a compacted copy of every update that came before them.
+export const collabDocUpdates = pgTable("collab_doc_updates", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").references(() => studioSessions.id),
+  projectId: integer("project_id").references(() => studioProjects.id),
+  update: text("update").notNull(),
+  isSnapshot: boolean("is_snapshot").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Server-side render jobs for studio projects
+export const renderJobTypeEnum = pgEnum('render_job_type', ['mixdown', 'stems']);
+export const renderJobStatusEnum = pgEnum('render_job_status', ['queued', 'rendering', 'completed', 'failed']);
+
+export const renderJobs = pgTable("render_jobs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => studioProjects.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: renderJobTypeEnum("type").notNull().default('mixdown'),
+  status: renderJobStatusEnum("status").notNull().default('queued'),
+  tailMs: integer("tail_ms").default(0), // Extra silence rendered after the last region so effects can ring out
+  outputUrl: text("output_url"), // The WAV for a mixdown, the zip bundle for stems
+  outputFiles: text("output_files"), // Stored as JSON string: the individual stem files
+  duration: integer("duration"), // Length of the rendered audio in seconds
+  error: text("error"),
+  trackId: integer("track_id").references(() => tracks.id), // Set once the render is published as a track
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Named snapshots of a project's tracks, regions and mixer state
+export const projectVersions = pgTable("project_versions", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => studioProjects.id),
+  userId: integer("user_id").notNull().references(() => users.id), // Who saved the snapshot
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  snapshot: text("snapshot").notNull(), // Stored as JSON string
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every time a verification document is opened through a signed URL
+export const verificationDocAccessLogs = pgTable("verification_doc_access_logs", {
+  id: serial("id").primaryKey(),
+  docId: integer("doc_id").notNull().references(() => verificationDocs.id),
+  userId: integer("user_id").notNull().references(() => users.id), // Who the URL was issued to
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  accessedAt: timestamp("accessed_at").defaultNow(),
+});
+
+// Every decision an admin makes on an athlete's verification, kept as an audit trail. Rows are
+// only ever added, never changed.
+export const verificationDecisionTypeEnum = pgEnum('verification_decision_type', ['approved', 'rejected', 'documents_requested']);
+
+export const verificationDecisions = pgTable("verification_decisions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // The athlete
+  docId: integer("doc_id").references(() => verificationDocs.id), // Not set when more documents are requested
+  reviewerId: integer("reviewer_id").notNull().references(() => users.id),
+  decision: verificationDecisionTypeEnum("decision").notNull(),
+  reason: text("reason"),
+  requestedDocumentTypes: text("requested_document_types"), // Stored as JSON string
+  resultingStatus: verificationStatusEnum("resulting_status").notNull(), // The athlete's status after the decision
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Content users have reported for moderators to look at
+export const reportContentTypeEnum = pgEnum('report_content_type', ['track', 'message', 'comment']);
+export const reportStatusEnum = pgEnum('report_status', ['pending', 'resolved', 'dismissed']);
+
+export const contentReports = pgTable("content_reports", {
+  id: serial("id").primaryKey(),
+  contentType: reportContentTypeEnum("content_type").notNull(),
+  contentId: integer("content_id").notNull(), // A track, message or track comment id
+  reporterId: integer("reporter_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(),
+  status: reportStatusEnum("status").notNull().default('pending'),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit log of everything moderators do. Rows are only ever added, never changed, except that
+// erasing an account removes what the log held about that user.
+export const moderationActionTypeEnum = pgEnum('moderation_action_type', ['dismiss', 'unpublish_track', 'delete_message', 'delete_comment', 'warn_user', 'suspend_user', 'ban_user', 'reinstate_user', 'delete_user']);
+
+export const moderationActions = pgTable("moderation_actions", {
+  id: serial("id").primaryKey(),
+  moderatorId: integer("moderator_id").notNull().references(() => users.id),
+  reportId: integer("report_id").references(() => contentReports.id),
+  action: moderationActionTypeEnum("action").notNull(),
+  contentType: reportContentTypeEnum("content_type"),
+  contentId: integer("content_id"),
+  targetUserId: integer("target_user_id").references(() => users.id), // Whose content it was
+  reason: text("reason"),
+  contentSnapshot: text("content_snapshot"), // Stored as JSON string: the content as it was when acted on
+  suspendedUntil: timestamp("suspended_until"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stripe webhook events that have been handled, so redelivered events are ignored
+export const processedStripeEvents = pgTable("processed_stripe_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow(),
+});
+
+// Stripe subscriptions that have ended. Stripe never revives one, so events about them that
+// arrive late are ignored.
+export const endedStripeSubscriptions = pgTable("ended_stripe_subscriptions", {
+  id: serial("id").primaryKey(),
+  subscriptionId: text("subscription_id").notNull().unique(),
+  endedAt: timestamp("ended_at").defaultNow(),
+});
+
+// Monthly subscriptions athletes offer their fans, priced by the athlete
+export const athleteSubscriptionTiers = pgTable("athlete_subscription_tiers", {
+  id: serial("id").primaryKey(),
+  athleteId: integer("athlete_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  amount: integer("amount").notNull(), // Cents per month
+  currency: text("currency").notNull().default('usd'),
+  stripePriceId: text("stripe_price_id"), // The price new subscribers pay; a new one is made when the amount changes
+  isActive: boolean("is_active").notNull().default(true), // Retired tiers take no new subscribers
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A fan's Stripe subscription to one of an athlete's tiers
+export const fanSubscriptions = pgTable("fan_subscriptions", {
+  id: serial("id").primaryKey(),
+  fanId: integer("fan_id").notNull().references(() => users.id),
+  athleteId: integer("athlete_id").notNull().references(() => users.id),
+  tierId: integer("tier_id").notNull().references(() => athleteSubscriptionTiers.id),
+  stripeSubscriptionId: text("stripe_subscription_id").notNull().unique(),
+  status: text("status").notNull(), // Stripe's status, e.g. "active" or "canceled"
+  currentPeriodEnd: timestamp("current_period_end"),
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// AI generation requests, counted against the monthly quota of the user's plan
+export const aiGenerations = pgTable("ai_generations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // music, drums, melody, vocal, speech or sfx
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// The earnings ledger is double-entry: every transaction's entries sum to zero. Amounts are in
+// thousandths of a cent, so per-play royalties don't round away; credits are positive.
+export const ledgerTransactionTypeEnum = pgEnum('ledger_transaction_type', ['play_royalty', 'subscription_share', 'tip', 'payout']);
+export const ledgerAccountEnum = pgEnum('ledger_account', ['cash', 'athlete_earnings', 'platform_revenue', 'royalty_expense']);
+
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: serial("id").primaryKey(),
+  type: ledgerTransactionTypeEnum("type").notNull(),
+  description: text("description").notNull(),
+  externalId: text("external_id").unique(), // The Stripe object it books, so webhook redeliveries aren't booked twice
+  trackId: integer("track_id").references(() => tracks.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull().references(() => ledgerTransactions.id),
+  account: ledgerAccountEnum("account").notNull(),
+  userId: integer("user_id").references(() => users.id), // Whose earnings, for athlete_earnings entries
+  amount: integer("amount").notNull(),
+});
+
 // Create the insert schemas
 export const insertUserSchema = createInsertSchema(users)
-  .omit({ id: true, createdAt: true, updatedAt: true });
+  .omit({ id: true, createdAt: true, updatedAt: true, subscriptionStatus: true, accountStatus: true, suspendedUntil: true, statusReason: true, deletedAt: true });
+
+export const insertLeagueSchema = createInsertSchema(leagues)
+  .omit({ id: true, createdAt: true });
+
+export const insertTeamSchema = createInsertSchema(teams)
+  .omit({ id: true, createdAt: true });
 
 export const insertVerificationDocSchema = createInsertSchema(verificationDocs)
   .omit({ id: true, createdAt: true });
 
 export const insertTrackSchema = createInsertSchema(tracks)
-  .omit({ id: true, plays: true, releaseDate: true });
+  .omit({ id: true, plays: true, releaseDate: true, processingError: true, loudness: true, renditions: true, peaksUrl: true });
 
 export const insertMessageSchema = createInsertSchema(messages)
   .omit({ id: true, isRead: true, createdAt: true });
@@ -171,8 +392,12 @@ export const insertStudioSessionSchema = createInsertSchema(studioSessions)
 export const insertStudioProjectSchema = createInsertSchema(studioProjects)
   .omit({ id: true, createdAt: true, updatedAt: true });
 
-export const insertProjectTrackSchema = createInsertSchema(projectTracks)
-  .omit({ id: true, createdAt: true, updatedAt: true });
+// Projects are rendered in full in memory, so nothing in them may start or run past this point (ms)
+export const MAX_PROJECT_LENGTH_MS = 10 * 60 * 1000;
+
+export const insertProjectTrackSchema = createInsertSchema(projectTracks, {
+  position: schema => schema.min(0).max(MAX_PROJECT_LENGTH_MS)
+}).omit({ id: true, peaksUrl: true, createdAt: true, updatedAt: true });
 
 export const insertMasteringSettingsSchema = createInsertSchema(masteringSettings)
   .omit({ id: true, createdAt: true, updatedAt: true });
@@ -183,9 +408,50 @@ export const insertTrackCommentSchema = createInsertSchema(trackComments)
 export const insertProjectSyncSchema = createInsertSchema(projectSyncs)
   .omit({ id: true, syncedAt: true, lastError: true });
 
+export const insertCollabDocUpdateSchema = createInsertSchema(collabDocUpdates)
+  .omit({ id: true, createdAt: true });
+
+export const insertRenderJobSchema = createInsertSchema(renderJobs)
+  .omit({ id: true, createdAt: true });
+
+export const insertProjectVersionSchema = createInsertSchema(projectVersions)
+  .omit({ id: true, createdAt: true });
+
+export const insertVerificationDocAccessLogSchema = createInsertSchema(verificationDocAccessLogs)
+  .omit({ id: true, accessedAt: true });
+
+export const insertVerificationDecisionSchema = createInsertSchema(verificationDecisions)
+  .omit({ id: true, createdAt: true });
+
+export const insertContentReportSchema = createInsertSchema(contentReports)
+  .omit({ id: true, status: true, resolvedBy: true, resolvedAt: true, createdAt: true });
+
+export const insertModerationActionSchema = createInsertSchema(moderationActions)
+  .omit({ id: true, createdAt: true });
+
+export const insertProcessedStripeEventSchema = createInsertSchema(processedStripeEvents)
+  .omit({ id: true, processedAt: true });
+
+export const insertAthleteSubscriptionTierSchema = createInsertSchema(athleteSubscriptionTiers)
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertFanSubscriptionSchema = createInsertSchema(fanSubscriptions)
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertAiGenerationSchema = createInsertSchema(aiGenerations)
+  .omit({ id: true, createdAt: true });
+
+export const insertLedgerTransactionSchema = createInsertSchema(ledgerTransactions)
+  .omit({ id: true, createdAt: true });
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries)
+  .omit({ id: true });
+
 // Define types from the schemas
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertVerificationDoc = z.infer<typeof insertVerificationDocSchema>;
+export type InsertLeague = z.infer<typeof insertLeagueSchema>;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type InsertTrack = z.infer<typeof insertTrackSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type InsertStudioSession = z.infer<typeof insertStudioSessionSchema>;
@@ -194,9 +460,24 @@ export type InsertProjectTrack = z.infer<typeof insertProjectTrackSchema>;
 export type InsertMasteringSettings = z.infer<typeof insertMasteringSettingsSchema>;
 export type InsertTrackComment = z.infer<typeof insertTrackCommentSchema>;
 export type InsertProjectSync = z.infer<typeof insertProjectSyncSchema>;
+export type InsertCollabDocUpdate = z.infer<typeof insertCollabDocUpdateSchema>;
+export type InsertRenderJob = z.infer<typeof insertRenderJobSchema>;
+export type InsertProjectVersion = z.infer<typeof insertProjectVersionSchema>;
+export type InsertVerificationDocAccessLog = z.infer<typeof insertVerificationDocAccessLogSchema>;
+export type InsertVerificationDecision = z.infer<typeof insertVerificationDecisionSchema>;
+export type InsertContentReport = z.infer<typeof insertContentReportSchema>;
+export type InsertModerationAction = z.infer<typeof insertModerationActionSchema>;
+export type InsertProcessedStripeEvent = z.infer<typeof insertProcessedStripeEventSchema>;
+export type InsertAthleteSubscriptionTier = z.infer<typeof insertAthleteSubscriptionTierSchema>;
+export type InsertFanSubscription = z.infer<typeof insertFanSubscriptionSchema>;
+export type InsertAiGeneration = z.infer<typeof insertAiGenerationSchema>;
+export type InsertLedgerTransaction = z.infer<typeof insertLedgerTransactionSchema>;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
 
 export type User = typeof users.$inferSelect;
 export type VerificationDoc = typeof verificationDocs.$inferSelect;
+export type League = typeof leagues.$inferSelect;
+export type Team = typeof teams.$inferSelect;
 export type Track = typeof tracks.$inferSelect;
 export type Message = typeof messages.$inferSelect;
 export type StudioSession = typeof studioSessions.$inferSelect;
@@ -205,6 +486,24 @@ export type ProjectTrack = typeof projectTracks.$inferSelect;
 export type MasteringSettings = typeof masteringSettings.$inferSelect;
 export type TrackComment = typeof trackComments.$inferSelect;
 export type ProjectSync = typeof projectSyncs.$inferSelect;
+export type CollabDocUpdate = typeof collabDocUpdates.$inferSelect;
+export type RenderJob = typeof renderJobs.$inferSelect;
+export type ProjectVersion = typeof projectVersions.$inferSelect;
+export type VerificationDocAccessLog = typeof verificationDocAccessLogs.$inferSelect;
+export type VerificationDecision = typeof verificationDecisions.$inferSelect;
+export type ContentReport = typeof contentReports.$inferSelect;
+export type ModerationAction = typeof moderationActions.$inferSelect;
+export type ProcessedStripeEvent = typeof processedStripeEvents.$inferSelect;
+export type AthleteSubscriptionTier = typeof athleteSubscriptionTiers.$inferSelect;
+export type FanSubscription = typeof fanSubscriptions.$inferSelect;
+export type AiGeneration = typeof aiGenerations.$inferSelect;
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type LedgerTransactionType = LedgerTransaction['type'];
+export type LedgerAccount = LedgerEntry['account'];
+
+// Identifies a collaborative document by the session or project it belongs to
+export type CollabDocKey = { sessionId: number } | { projectId: number };
 
 // Extended schemas for login
 export const loginSchema = z.object({
@@ -0,0 +1,25 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // The setup file changes the working directory, which worker threads can't do
+    pool: "forks",
+    // Tests run against MemStorage and never reach the database or Stripe, but both modules
+    // refuse to load without their settings
+    env: {
+      DATABASE_URL: "postgres://test@127.0.0.1:1/test",
+      STRIPE_SECRET_KEY: "sk_test_unused",
+    },
+    setupFiles: ["server/testSetup.ts"],
+    restoreMocks: true,
+    passWithNoTests: true,
+  },
+});